@@ -0,0 +1,174 @@
+// public/sw.js - Offline app shell + Camera Kit asset caching
+// Precache list is emitted at build time by the precacheManifest plugin in vite.config.js
+
+// Build ID from the registration URL (serviceWorker.ts) - a new build installs a new worker and fresh caches
+const CACHE_VERSION = new URL(self.location.href).searchParams.get('v') || 'dev';
+const SHELL_CACHE = `webar-shell-${CACHE_VERSION}`;
+const CAMERA_KIT_ASSET_CACHE = `webar-camerakit-assets-${CACHE_VERSION}`;
+const CAMERA_KIT_API_CACHE = `webar-camerakit-api-${CACHE_VERSION}`;
+const PRECACHE_MANIFEST_URL = '/precache-manifest.json';
+
+// Lens Core wasm, lens archives, icons - immutable, cache-first
+const CAMERA_KIT_ASSET_HOSTS = ['cf-st.sc-cdn.net', 'bolt-gcdn.sc-cdn.net'];
+// Lens group metadata (gRPC-web POST) - network-first so restarts work offline
+const CAMERA_KIT_API_HOSTS = ['camera-kit-api.snapar.com'];
+// Only the lens lookups - metrics and config go to the same host and must never be cached
+const CAMERA_KIT_API_CACHED_PATHS = [
+  '/com.snap.camerakit.v3.Lenses/GetGroup',
+  '/com.snap.camerakit.v3.Lenses/GetGroupLens',
+  '/com.snap.camerakit.v3.Lenses/BatchGetGroupLens'
+];
+
+// Oldest entries are evicted beyond these - a kiosk runs all day
+const CAMERA_KIT_ASSET_CACHE_LIMIT = 200;
+const CAMERA_KIT_API_CACHE_LIMIT = 50;
+
+const isCameraKitAssetHost = (hostname) =>
+  CAMERA_KIT_ASSET_HOSTS.includes(hostname) || hostname.endsWith('.sc-cdn.net');
+
+const isCachedCameraKitApi = (url) =>
+  CAMERA_KIT_API_HOSTS.includes(url.hostname) && CAMERA_KIT_API_CACHED_PATHS.includes(url.pathname);
+
+// keys() lists entries in insertion order, and put() re-appends a replaced entry
+const trimCache = async (cache, maxEntries) => {
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(keys.length - maxEntries, 0)).map((key) => cache.delete(key)));
+};
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(SHELL_CACHE);
+
+    let assets = ['/', '/index.html'];
+    try {
+      const response = await fetch(PRECACHE_MANIFEST_URL, { cache: 'no-store' });
+      if (response.ok) {
+        const manifest = await response.json();
+        assets = Array.from(new Set([...assets, ...manifest.files.map((file) => `/${file}`)]));
+      }
+    } catch (error) {
+      console.warn('[sw] Precache manifest unavailable, caching shell only:', error);
+    }
+
+    // Individual puts so one missing file doesn't abort the whole install
+    await Promise.all(assets.map(async (url) => {
+      try {
+        const response = await fetch(url, { cache: 'no-store' });
+        if (response.ok) {
+          await cache.put(url, response);
+        }
+      } catch (error) {
+        console.warn(`[sw] Precache failed: ${url}`, error);
+      }
+    }));
+
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const keep = [SHELL_CACHE, CAMERA_KIT_ASSET_CACHE, CAMERA_KIT_API_CACHE];
+    const keys = await caches.keys();
+    await Promise.all(keys.filter((key) => !keep.includes(key)).map((key) => caches.delete(key)));
+    await self.clients.claim();
+  })());
+});
+
+/**
+ * POST bodies can't be Cache API keys - derive a stable GET key from URL + body hash
+ */
+const apiCacheKey = async (request) => {
+  const body = await request.clone().arrayBuffer();
+  const digest = await crypto.subtle.digest('SHA-256', body);
+  const hash = Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+  return new Request(`${request.url}?__body=${hash}`, { method: 'GET' });
+};
+
+const networkFirstApi = async (request) => {
+  const cache = await caches.open(CAMERA_KIT_API_CACHE);
+  const cacheKey = await apiCacheKey(request);
+
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      await cache.put(cacheKey, response.clone());
+      await trimCache(cache, CAMERA_KIT_API_CACHE_LIMIT);
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(cacheKey);
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+const cacheFirst = async (request, cacheName, maxEntries) => {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  // Opaque (no-cors) responses are cacheable too
+  if (response.ok || response.type === 'opaque') {
+    await cache.put(request, response.clone());
+    await trimCache(cache, maxEntries);
+  }
+  return response;
+};
+
+const networkFirstNavigation = async (request) => {
+  try {
+    return await fetch(request);
+  } catch (error) {
+    const cache = await caches.open(SHELL_CACHE);
+    return (await cache.match('/index.html')) || (await cache.match('/')) || Response.error();
+  }
+};
+
+const staleWhileRevalidate = async (request) => {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+
+  const network = fetch(request)
+    .then((response) => {
+      if (response.ok) {
+        cache.put(request, response.clone());
+      }
+      return response;
+    })
+    .catch(() => cached);
+
+  return cached || network;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+
+  if (isCachedCameraKitApi(url) && request.method === 'POST') {
+    event.respondWith(networkFirstApi(request));
+    return;
+  }
+
+  if (request.method !== 'GET') return;
+
+  if (isCameraKitAssetHost(url.hostname)) {
+    event.respondWith(cacheFirst(request, CAMERA_KIT_ASSET_CACHE, CAMERA_KIT_ASSET_CACHE_LIMIT));
+    return;
+  }
+
+  if (url.origin !== self.location.origin) return;
+
+  // Local server endpoints, capture handoff downloads and the log tail page are always live
+  if (url.pathname.startsWith('/api/') || url.pathname.startsWith('/v/') || url.pathname === '/logs') return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirstNavigation(request));
+    return;
+  }
+
+  event.respondWith(staleWhileRevalidate(request));
+});
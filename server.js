@@ -1,58 +1,293 @@
 const express = require('express');
 const path = require('path');
+const fs = require('fs');
+const os = require('os');
+const crypto = require('crypto');
+const QRCode = require('qrcode');
 const app = express();
 const PORT = process.env.PORT || 3000;
 
-// Serve static files
-app.use(express.static(path.join(__dirname, 'dist')));
+// Serverless functions only get a writable /tmp - files there last as long as the instance
+const DATA_ROOT = process.env.VERCEL ? path.join(os.tmpdir(), 'webar') : __dirname;
 
-// OAuth endpoint
+// Kiosk handoff - captures uploaded by the booth, downloaded by guests over the LAN
+const UPLOAD_DIR = process.env.CAPTURE_UPLOAD_DIR || path.join(DATA_ROOT, 'uploads');
+const CAPTURE_TTL_MS = (Number(process.env.CAPTURE_TTL_HOURS) || 24) * 60 * 60 * 1000;
+const CAPTURE_MAX_UPLOAD = process.env.CAPTURE_MAX_UPLOAD || '200mb';
+const CAPTURE_MAX_TOTAL_BYTES = (Number(process.env.CAPTURE_MAX_TOTAL_MB) || 2048) * 1024 * 1024; // all unexpired uploads
+const CAPTURE_RATE_LIMIT = { windowMs: 60 * 1000, max: 10 }; // uploads per IP - one per guest capture
+// Shared secret for uploads. Unset: only this machine (the booth's own browser) may upload
+const CAPTURE_UPLOAD_TOKEN = process.env.CAPTURE_UPLOAD_TOKEN || null;
+const CAPTURE_ID_PATTERN = /^[a-z0-9]{8}$/;
+// Served back from this origin - anything a browser could render as a document (SVG, HTML) stays out
+const CAPTURE_TYPES = ['image/jpeg', 'image/png', 'video/mp4', 'video/webm'];
+
+// Local analytics - batches from the booth appended as JSONL for later reporting
+const ANALYTICS_FILE = process.env.ANALYTICS_EVENTS_FILE || path.join(DATA_ROOT, 'analytics', 'events.jsonl');
+const ANALYTICS_MAX_BATCH = 200;
+const ANALYTICS_EVENT_PATTERN = /^[a-z][a-z0-9_]{0,63}$/;
+const ANALYTICS_MAX_FILE_BYTES = (Number(process.env.ANALYTICS_MAX_FILE_MB) || 50) * 1024 * 1024;
+const ANALYTICS_ROTATED_FILES = 5; // events.<timestamp>.jsonl kept beyond the live file
+const ANALYTICS_RATE_LIMIT = { windowMs: 60 * 1000, max: 60 }; // requests per IP - a booth flushes every 30s
+const ERROR_REPORTS_FILE = process.env.ERROR_REPORTS_FILE || path.join(DATA_ROOT, 'logs', 'errors.jsonl');
+const ERROR_REPORTS_MAX_FILE_BYTES = (Number(process.env.ERROR_REPORTS_MAX_FILE_MB) || 20) * 1024 * 1024;
+const ERROR_REPORTS_ROTATED_FILES = 5;
+const ERROR_REPORTS_RATE_LIMIT = { windowMs: 60 * 1000, max: 30 }; // reports per IP - the client dedupes repeats
+const ERROR_REPORT_MAX_STRING = 2000; // characters per text field; stacks included
+const ERROR_REPORT_MAX_DATA_BYTES = 4096; // serialized additionalData
+
+// Live kiosk logs - recent entries kept in memory per kiosk and fanned out to /logs viewers over SSE
+const LOG_STREAM_BACKLOG = 500;
+const LOG_STREAM_MAX_BATCH = 200;
+const LOG_STREAM_HEARTBEAT_MS = 25000;
+const LOG_LEVELS = ['info', 'warning', 'error', 'success'];
+const KIOSK_ID_PATTERN = /^[\w-]{1,64}$/;
+const LOG_STREAM_MAX_KIOSKS = 50;
+const LOG_STREAM_KIOSK_TTL_MS = 60 * 60 * 1000; // kiosks silent this long are forgotten
+const LOG_STREAM_MAX_FIELDS_BYTES = 4096; // serialized size of one entry's fields
+// Shared secret for ingest and viewing. Unset: only this machine (the booth's own browser) may use them
+const LOG_STREAM_TOKEN = process.env.LOG_STREAM_TOKEN || null;
+const kioskLogs = new Map(); // kioskId -> { entries, lastSeen }
+const logSubscribers = new Set(); // { res, kioskId }
+
+// Snapchat login - pending logins and sessions live in memory, so a restart logs everyone out.
+// That needs one long-running process: serverless invocations don't share memory, so on
+// Vercel the /api/auth routes refuse and the app should use VITE_AUTH_STRATEGY=loginkit.
+const AUTH_SERVER_SUPPORTED = !process.env.VERCEL;
+const AUTH_SESSION_COOKIE = 'webar_session';
+const AUTH_STATE_COOKIE = 'webar_oauth_state';
+const AUTH_SESSION_TTL_MS = (Number(process.env.AUTH_SESSION_TTL_HOURS) || 24 * 7) * 60 * 60 * 1000;
+const AUTH_PENDING_TTL_MS = 10 * 60 * 1000;
+const AUTH_SCOPES = 'user.display_name user.bitmoji.avatar https://auth.snapchat.com/oauth2/api/camkit_lens_push_to_device';
+const pendingLogins = new Map(); // state -> { state, codeVerifier, createdAt }
+const sessions = new Map(); // sessionId -> { accessToken, refreshToken, expiresAt, user, createdAt, lastSeen }
+
+const createdDirs = new Set();
+
+// Created on first write rather than at startup, so a read-only deploy still boots
+async function ensureDir(dir) {
+  if (createdDirs.has(dir)) return;
+  await fs.promises.mkdir(dir, { recursive: true });
+  createdDirs.add(dir);
+}
+
+// Serve static files - service worker + precache list must always revalidate
+app.use(express.static(path.join(__dirname, 'dist'), {
+  setHeaders: (res, filePath) => {
+    if (filePath.endsWith('sw.js') || filePath.endsWith('precache-manifest.json')) {
+      res.setHeader('Cache-Control', 'no-cache');
+    }
+  }
+}));
+
+app.use('/api/auth', (req, res, next) => {
+  if (AUTH_SERVER_SUPPORTED) return next();
+  
+  const error = 'Server login needs a long-running server - use the Login Kit strategy on serverless deployments';
+  if (req.path === '/login') {
+    return res.redirect(`/?error=${encodeURIComponent(error)}`);
+  }
+  res.status(501).json({ error });
+});
+
+// OAuth: Snapchat authorization code flow with state + PKCE. The browser holds an
+// httpOnly session cookie; only the short-lived access token is handed out, to Push2Web.
 app.get('/api/auth/login', async (req, res) => {
-  const { code, error } = req.query;
+  const { code, error, state } = req.query;
   
   if (error) {
-    return res.redirect(`/?error=${error}`);
+    return res.redirect(`/?error=${encodeURIComponent(error)}`);
   }
   
   if (!code) {
-    const clientId = process.env.VITE_SNAPCHAT_CLIENT_ID;
-    const baseUrl = process.env.VERCEL_URL ? 
-      `https://${process.env.VERCEL_URL}` : 
-      `${req.protocol}://${req.get('host')}`;
+    const login = {
+      state: randomToken(),
+      codeVerifier: randomToken(48),
+      createdAt: Date.now()
+    };
+    pendingLogins.set(login.state, login);
+    
+    // Binds the callback to this browser - a state minted elsewhere won't match
+    res.cookie(AUTH_STATE_COOKIE, login.state, {
+      ...authCookieOptions(req),
+      maxAge: AUTH_PENDING_TTL_MS
+    });
     
     const authUrl = `https://accounts.snapchat.com/accounts/oauth2/auth?${new URLSearchParams({
-      client_id: clientId,
-      redirect_uri: `${baseUrl}/api/auth/login`,
+      client_id: process.env.VITE_SNAPCHAT_CLIENT_ID,
+      redirect_uri: getRedirectUri(req),
       response_type: 'code',
-      scope: 'user.display_name user.bitmoji.avatar https://auth.snapchat.com/oauth2/api/camkit_lens_push_to_device',
-      state: Math.random().toString(36)
+      scope: AUTH_SCOPES,
+      state: login.state,
+      code_challenge: crypto.createHash('sha256').update(login.codeVerifier).digest('base64url'),
+      code_challenge_method: 'S256'
     })}`;
     
     return res.redirect(authUrl);
   }
   
+  const cookieState = parseCookies(req)[AUTH_STATE_COOKIE];
+  const login = typeof state === 'string' ? pendingLogins.get(state) : null;
+  res.clearCookie(AUTH_STATE_COOKIE, authCookieOptions(req));
+  
+  if (!login || cookieState !== state || Date.now() - login.createdAt > AUTH_PENDING_TTL_MS) {
+    console.warn('OAuth callback rejected: state missing, mismatched or expired');
+    return res.redirect(`/?error=${encodeURIComponent('Login expired or invalid - please try again')}`);
+  }
+  pendingLogins.delete(state);
+  
   try {
-    const tokenData = await exchangeToken(code, req);
-    const userInfo = await fetchUser(tokenData.access_token);
+    const tokenData = await requestToken({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: getRedirectUri(req),
+      code_verifier: login.codeVerifier
+    });
+    const user = await fetchUser(tokenData.access_token);
     
-    const params = new URLSearchParams({
-      oauth_success: 'true',
-      access_token: tokenData.access_token,
-      user_info: JSON.stringify(userInfo)
+    const sessionId = randomToken();
+    sessions.set(sessionId, {
+      ...toSessionTokens(tokenData),
+      user,
+      createdAt: Date.now(),
+      lastSeen: Date.now()
     });
     
-    res.redirect(`/?${params}`);
+    res.cookie(AUTH_SESSION_COOKIE, sessionId, {
+      ...authCookieOptions(req),
+      maxAge: AUTH_SESSION_TTL_MS
+    });
+    res.redirect('/?oauth_success=true');
   } catch (error) {
+    console.error('OAuth token exchange failed:', error.message);
     res.redirect(`/?error=${encodeURIComponent(error.message)}`);
   }
 });
 
-async function exchangeToken(code, req) {
-  const clientId = process.env.VITE_SNAPCHAT_CLIENT_ID;
-  const clientSecret = process.env.VITE_SNAPCHAT_CLIENT_SECRET;
+app.get('/api/auth/me', (req, res) => {
+  const session = getSession(req);
+  res.set('Cache-Control', 'no-store');
+  if (!session) {
+    return res.status(401).json({ error: 'Not logged in' });
+  }
+  res.json({ user: session.user, expiresAt: session.expiresAt });
+});
+
+// Push2Web opens its gRPC stream from the browser, so it needs the access token itself.
+// The refresh token never leaves the server.
+app.get('/api/auth/push2web-token', (req, res) => {
+  const session = getSession(req);
+  res.set('Cache-Control', 'no-store');
+  if (!session) {
+    return res.status(401).json({ error: 'Not logged in' });
+  }
+  if (session.expiresAt <= Date.now()) {
+    return res.status(409).json({ error: 'Access token expired - refresh first' });
+  }
+  res.json({ accessToken: session.accessToken, expiresAt: session.expiresAt });
+});
+
+app.post('/api/auth/refresh', async (req, res) => {
+  const session = getSession(req);
+  res.set('Cache-Control', 'no-store');
+  if (!session) {
+    return res.status(401).json({ error: 'Not logged in' });
+  }
+  if (!session.refreshToken) {
+    return res.status(409).json({ error: 'Session cannot be refreshed - log in again' });
+  }
+  
+  try {
+    const tokenData = await requestToken({
+      grant_type: 'refresh_token',
+      refresh_token: session.refreshToken
+    });
+    Object.assign(session, toSessionTokens(tokenData, session.refreshToken));
+    res.json({ user: session.user, expiresAt: session.expiresAt });
+  } catch (error) {
+    console.error('OAuth refresh failed:', error.message);
+    res.status(502).json({ error: 'Token refresh failed' });
+  }
+});
+
+app.post('/api/auth/logout', (req, res) => {
+  const sessionId = parseCookies(req)[AUTH_SESSION_COOKIE];
+  if (sessionId) {
+    sessions.delete(sessionId);
+  }
+  res.clearCookie(AUTH_SESSION_COOKIE, authCookieOptions(req));
+  res.status(204).end();
+});
+
+function randomToken(bytes = 32) {
+  return crypto.randomBytes(bytes).toString('base64url');
+}
+
+function getRedirectUri(req) {
   const baseUrl = process.env.VERCEL_URL ? 
     `https://${process.env.VERCEL_URL}` : 
     `${req.protocol}://${req.get('host')}`;
+  return `${baseUrl}/api/auth/login`;
+}
+
+function authCookieOptions(req) {
+  return {
+    httpOnly: true,
+    sameSite: 'lax', // the OAuth callback is a top-level cross-site navigation
+    secure: req.secure || Boolean(process.env.VERCEL),
+    path: '/'
+  };
+}
+
+function parseCookies(req) {
+  return (req.headers.cookie || '').split(';').reduce((cookies, pair) => {
+    const index = pair.indexOf('=');
+    if (index > 0) {
+      try {
+        cookies[pair.slice(0, index).trim()] = decodeURIComponent(pair.slice(index + 1).trim());
+      } catch (error) {
+        // Malformed %-encoding in someone else's cookie - skip it rather than fail the request
+      }
+    }
+    return cookies;
+  }, {});
+}
+
+function getSession(req) {
+  const sessionId = parseCookies(req)[AUTH_SESSION_COOKIE];
+  const session = sessionId ? sessions.get(sessionId) : null;
+  if (!session) return null;
+  
+  if (Date.now() - session.lastSeen > AUTH_SESSION_TTL_MS) {
+    sessions.delete(sessionId);
+    return null;
+  }
+  session.lastSeen = Date.now();
+  return session;
+}
+
+function toSessionTokens(tokenData, previousRefreshToken = null) {
+  return {
+    accessToken: tokenData.access_token,
+    // Snapchat doesn't always rotate the refresh token - keep the old one if none came back
+    refreshToken: tokenData.refresh_token || previousRefreshToken,
+    expiresAt: Date.now() + (Number(tokenData.expires_in) || 3600) * 1000
+  };
+}
+
+function cleanupAuthState() {
+  const now = Date.now();
+  pendingLogins.forEach((login, state) => {
+    if (now - login.createdAt > AUTH_PENDING_TTL_MS) pendingLogins.delete(state);
+  });
+  sessions.forEach((session, sessionId) => {
+    if (now - session.lastSeen > AUTH_SESSION_TTL_MS) sessions.delete(sessionId);
+  });
+}
+
+async function requestToken(params) {
+  const clientId = process.env.VITE_SNAPCHAT_CLIENT_ID;
+  const clientSecret = process.env.VITE_SNAPCHAT_CLIENT_SECRET;
   
   const response = await fetch('https://accounts.snapchat.com/accounts/oauth2/token', {
     method: 'POST',
@@ -61,15 +296,13 @@ async function exchangeToken(code, req) {
       'Authorization': `Basic ${Buffer.from(`${clientId}:${clientSecret}`).toString('base64')}`
     },
     body: new URLSearchParams({
-      grant_type: 'authorization_code',
-      code,
-      redirect_uri: `${baseUrl}/api/auth/login`,
+      ...params,
       client_id: clientId
     })
   });
   
   if (!response.ok) {
-    throw new Error(`Token exchange failed: ${response.status}`);
+    throw new Error(`Token request failed: ${response.status}`);
   }
   
   return response.json();
@@ -91,6 +324,678 @@ async function fetchUser(token) {
   return null;
 }
 
+const requireCaptureToken = requireSharedToken(CAPTURE_UPLOAD_TOKEN, { header: 'x-capture-token', label: 'capture', envName: 'CAPTURE_UPLOAD_TOKEN' });
+const limitCaptureUploads = createRateLimiter(CAPTURE_RATE_LIMIT);
+
+// Capture handoff: upload - the token, rate and space checks all run before the body is read
+app.post('/api/captures', requireCaptureToken, limitCaptureUploads, requireCaptureType, requireCaptureSpace,
+  express.raw({ type: CAPTURE_TYPES, limit: CAPTURE_MAX_UPLOAD }), async (req, res) => {
+  if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+    return res.status(400).json({ error: 'Expected a video or image body' });
+  }
+  
+  try {
+    // Checked again now the real size is known - Content-Length may be absent
+    if (await getCaptureStorageBytes() + req.body.length > CAPTURE_MAX_TOTAL_BYTES) {
+      return res.status(507).json({ error: 'Capture storage is full' });
+    }
+    
+    const id = generateCaptureId();
+    const type = getCaptureType(req);
+    const createdAt = Date.now();
+    const meta = {
+      id,
+      filename: sanitizeFilename(req.get('x-filename'), type, createdAt),
+      type,
+      size: req.body.length,
+      createdAt,
+      expiresAt: createdAt + CAPTURE_TTL_MS
+    };
+    
+    await ensureDir(UPLOAD_DIR);
+    await fs.promises.writeFile(capturePath(id), req.body);
+    await fs.promises.writeFile(captureMetaPath(id), JSON.stringify(meta));
+    
+    const url = `${getPublicBaseUrl(req)}/v/${id}`;
+    const qrDataUrl = await QRCode.toDataURL(url, { margin: 1, width: 512 });
+    
+    console.log(`Capture stored: ${id} (${(meta.size / (1024 * 1024)).toFixed(1)}MB)`);
+    res.status(201).json({ id, url, expiresAt: meta.expiresAt, qrDataUrl });
+  } catch (error) {
+    console.error('Capture upload failed:', error);
+    res.status(500).json({ error: 'Capture upload failed' });
+  }
+});
+
+function getCaptureType(req) {
+  return (req.get('content-type') || '').split(';')[0].trim().toLowerCase();
+}
+
+function requireCaptureType(req, res, next) {
+  if (!CAPTURE_TYPES.includes(getCaptureType(req))) {
+    return res.status(415).json({ error: `Expected one of: ${CAPTURE_TYPES.join(', ')}` });
+  }
+  next();
+}
+
+// Refuses before the body is buffered when Content-Length already says it won't fit
+async function requireCaptureSpace(req, res, next) {
+  try {
+    await cleanupExpiredCaptures();
+    const incoming = Number(req.get('content-length')) || 0;
+    if (await getCaptureStorageBytes() + incoming > CAPTURE_MAX_TOTAL_BYTES) {
+      console.warn('Capture storage full - upload refused');
+      return res.status(507).json({ error: 'Capture storage is full' });
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+async function getCaptureStorageBytes() {
+  try {
+    const files = (await fs.promises.readdir(UPLOAD_DIR)).filter((file) => file.endsWith('.bin'));
+    const sizes = await Promise.all(files.map(async (file) => {
+      try {
+        return (await fs.promises.stat(path.join(UPLOAD_DIR, file))).size;
+      } catch (error) {
+        return 0; // removed by a concurrent cleanup
+      }
+    }));
+    return sizes.reduce((total, size) => total + size, 0);
+  } catch (error) {
+    if (error.code === 'ENOENT') return 0; // nothing uploaded yet
+    throw error;
+  }
+}
+
+/**
+ * Fixed-window request counter per client IP. Windows are dropped once
+ * they expire, so the map only holds clients seen in the last window.
+ */
+function createRateLimiter({ windowMs, max }) {
+  const clients = new Map(); // ip -> { windowStart, count }
+  
+  return (req, res, next) => {
+    const now = Date.now();
+    clients.forEach((client, ip) => {
+      if (now - client.windowStart >= windowMs) clients.delete(ip);
+    });
+    
+    const client = clients.get(req.ip) || { windowStart: now, count: 0 };
+    client.count += 1;
+    clients.set(req.ip, client);
+    
+    if (client.count > max) {
+      res.set('Retry-After', String(Math.ceil((client.windowStart + windowMs - now) / 1000)));
+      return res.status(429).json({ error: 'Too many requests' });
+    }
+    next();
+  };
+}
+
+/**
+ * Move a JSONL file aside once it passes maxBytes and delete the oldest
+ * rotated copies beyond keep, so disk use stays bounded.
+ */
+async function rotateIfNeeded(file, maxBytes, keep) {
+  try {
+    const { size } = await fs.promises.stat(file);
+    if (size < maxBytes) return;
+  } catch (error) {
+    if (error.code === 'ENOENT') return;
+    throw error;
+  }
+  
+  const dir = path.dirname(file);
+  const ext = path.extname(file);
+  const base = path.basename(file, ext);
+  try {
+    await fs.promises.rename(file, path.join(dir, `${base}.${Date.now()}${ext}`));
+  } catch (error) {
+    if (error.code !== 'ENOENT') throw error; // a concurrent request rotated it first
+  }
+  
+  const rotated = (await fs.promises.readdir(dir))
+    .filter((name) => name.startsWith(`${base}.`) && name.endsWith(ext) && name !== path.basename(file))
+    .sort();
+  await Promise.all(rotated.slice(0, Math.max(rotated.length - keep, 0))
+    .map((name) => fs.promises.rm(path.join(dir, name), { force: true })));
+}
+
+// Analytics: append a batch of events (fetch or sendBeacon)
+app.post('/api/events', createRateLimiter(ANALYTICS_RATE_LIMIT), express.json({ limit: '256kb' }), async (req, res) => {
+  const events = req.body && Array.isArray(req.body.events) ? req.body.events : null;
+  if (!events || events.length === 0 || events.length > ANALYTICS_MAX_BATCH) {
+    return res.status(400).json({ error: `Expected 1-${ANALYTICS_MAX_BATCH} events` });
+  }
+  
+  const receivedAt = Date.now();
+  const accepted = events.filter(isValidAnalyticsEvent).map((event) => ({
+    eventName: event.eventName,
+    timestamp: event.timestamp,
+    sessionId: event.sessionId,
+    properties: event.properties || {},
+    receivedAt
+  }));
+  
+  try {
+    if (accepted.length > 0) {
+      await ensureDir(path.dirname(ANALYTICS_FILE));
+      await rotateIfNeeded(ANALYTICS_FILE, ANALYTICS_MAX_FILE_BYTES, ANALYTICS_ROTATED_FILES);
+      await fs.promises.appendFile(ANALYTICS_FILE, accepted.map((event) => JSON.stringify(event)).join('\n') + '\n');
+    }
+    res.status(202).json({ accepted: accepted.length, rejected: events.length - accepted.length });
+  } catch (error) {
+    console.error('Analytics write failed:', error);
+    res.status(500).json({ error: 'Analytics write failed' });
+  }
+});
+
+function isValidAnalyticsEvent(event) {
+  return Boolean(event) &&
+    typeof event.eventName === 'string' && ANALYTICS_EVENT_PATTERN.test(event.eventName) &&
+    Number.isFinite(event.timestamp) &&
+    typeof event.sessionId === 'string' && event.sessionId.length > 0 && event.sessionId.length <= 64 &&
+    (event.properties === undefined || (typeof event.properties === 'object' && !Array.isArray(event.properties)));
+}
+
+// Error reports: one structured report per request, appended as JSONL
+app.post('/api/errors', createRateLimiter(ERROR_REPORTS_RATE_LIMIT), express.json({ limit: '64kb' }), async (req, res) => {
+  if (!isValidErrorReport(req.body)) {
+    return res.status(400).json({ error: 'Expected an error report' });
+  }
+  const report = toStoredErrorReport(req.body);
+  
+  try {
+    await ensureDir(path.dirname(ERROR_REPORTS_FILE));
+    await rotateIfNeeded(ERROR_REPORTS_FILE, ERROR_REPORTS_MAX_FILE_BYTES, ERROR_REPORTS_ROTATED_FILES);
+    await fs.promises.appendFile(ERROR_REPORTS_FILE, JSON.stringify({ ...report, receivedAt: Date.now() }) + '\n');
+    console.error(`Client error [${report.context.component}/${report.context.action}] ${report.error.name}: ${report.error.message}`);
+    res.status(202).json({ id: report.id });
+  } catch (error) {
+    console.error('Error report write failed:', error);
+    res.status(500).json({ error: 'Error report write failed' });
+  }
+});
+
+function isValidErrorReport(report) {
+  return Boolean(report) &&
+    typeof report.id === 'string' && report.id.length <= 64 &&
+    Number.isFinite(report.timestamp) &&
+    Boolean(report.error) && typeof report.error.name === 'string' && typeof report.error.message === 'string' &&
+    Boolean(report.context) && typeof report.context.component === 'string' && typeof report.context.action === 'string';
+}
+
+function clipString(value) {
+  return typeof value === 'string' ? value.slice(0, ERROR_REPORT_MAX_STRING) : undefined;
+}
+
+// Flat device/capability records - anything nested or oversized is dropped
+function pickPrimitives(value) {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return undefined;
+  return Object.fromEntries(Object.entries(value)
+    .slice(0, 50)
+    .filter(([, entry]) => ['string', 'number', 'boolean'].includes(typeof entry))
+    .map(([key, entry]) => [key.slice(0, 64), typeof entry === 'string' ? clipString(entry) : entry]));
+}
+
+// Only the ErrorReport fields (src/types/app.ts) are written - never whatever else the client sent
+function toStoredErrorReport(report) {
+  return {
+    id: report.id,
+    timestamp: report.timestamp,
+    error: {
+      name: clipString(report.error.name),
+      message: clipString(report.error.message),
+      stack: clipString(report.error.stack)
+    },
+    context: {
+      component: clipString(report.context.component),
+      action: clipString(report.context.action),
+      userAgent: clipString(report.context.userAgent),
+      url: clipString(report.context.url),
+      userId: clipString(report.context.userId),
+      sessionId: clipString(report.context.sessionId)
+    },
+    deviceInfo: pickPrimitives(report.deviceInfo),
+    browserCapabilities: pickPrimitives(report.browserCapabilities),
+    additionalData: limitSerializedSize(report.additionalData, ERROR_REPORT_MAX_DATA_BYTES)
+  };
+}
+
+function isLoopback(req) {
+  return ['127.0.0.1', '::1', '::ffff:127.0.0.1'].includes(req.socket.remoteAddress);
+}
+
+// Hash first so timingSafeEqual always gets equal-length buffers
+function tokensMatch(given, expected) {
+  const digest = (value) => crypto.createHash('sha256').update(String(value)).digest();
+  return crypto.timingSafeEqual(digest(given), digest(expected));
+}
+
+/**
+ * Shared-secret gate for booth-only endpoints. Token from `header`, ?token=
+ * (EventSource can't set headers) or the JSON body (sendBeacon can't either).
+ * Without a configured token only loopback requests get through.
+ */
+function requireSharedToken(token, { header, label, envName }) {
+  return (req, res, next) => {
+    const given = req.get(header) || req.query.token || (req.body && req.body.token);
+    const allowed = token
+      ? typeof given === 'string' && tokensMatch(given, token)
+      : isLoopback(req);
+    
+    if (!allowed) {
+      return res.status(401).json({
+        error: token ? `Missing or wrong ${label} token` : `Set ${envName} to allow access from other machines`
+      });
+    }
+    next();
+  };
+}
+
+const requireLogToken = requireSharedToken(LOG_STREAM_TOKEN, { header: 'x-log-token', label: 'log', envName: 'LOG_STREAM_TOKEN' });
+
+function pruneKiosks(now) {
+  kioskLogs.forEach((kiosk, id) => {
+    if (now - kiosk.lastSeen > LOG_STREAM_KIOSK_TTL_MS) kioskLogs.delete(id);
+  });
+}
+
+// Oversized objects are replaced rather than dropping the whole entry
+function limitSerializedSize(value, maxBytes) {
+  if (value === undefined) return undefined;
+  const size = JSON.stringify(value).length;
+  return size > maxBytes ? { truncated: true, size } : value;
+}
+
+// Kiosk logs: batches streamed from the booth's logger
+app.post('/api/logs', express.json({ limit: '256kb' }), requireLogToken, (req, res) => {
+  const { kioskId, entries } = req.body || {};
+  if (typeof kioskId !== 'string' || !KIOSK_ID_PATTERN.test(kioskId)) {
+    return res.status(400).json({ error: 'Expected a kiosk ID' });
+  }
+  if (!Array.isArray(entries) || entries.length === 0 || entries.length > LOG_STREAM_MAX_BATCH) {
+    return res.status(400).json({ error: `Expected 1-${LOG_STREAM_MAX_BATCH} entries` });
+  }
+  
+  const accepted = entries.filter(isValidLogEntry).map((entry) => ({
+    kioskId,
+    timestamp: entry.timestamp,
+    level: entry.level,
+    source: entry.source,
+    message: entry.message.slice(0, 2000),
+    fields: limitSerializedSize(entry.fields, LOG_STREAM_MAX_FIELDS_BYTES)
+  }));
+  
+  const now = Date.now();
+  pruneKiosks(now);
+  if (!kioskLogs.has(kioskId) && kioskLogs.size >= LOG_STREAM_MAX_KIOSKS) {
+    // Full - make room by dropping the kiosk that has been quiet longest
+    const [stalest] = listKiosks().slice(-1);
+    kioskLogs.delete(stalest.id);
+  }
+  
+  const kiosk = kioskLogs.get(kioskId) || { entries: [], lastSeen: 0 };
+  kiosk.entries = kiosk.entries.concat(accepted).slice(-LOG_STREAM_BACKLOG);
+  kiosk.lastSeen = now;
+  kioskLogs.set(kioskId, kiosk);
+  
+  logSubscribers.forEach((subscriber) => {
+    if (subscriber.kioskId && subscriber.kioskId !== kioskId) return;
+    accepted.forEach((entry) => sendServerEvent(subscriber.res, 'log', entry));
+  });
+  
+  res.status(202).json({ accepted: accepted.length, rejected: entries.length - accepted.length });
+});
+
+app.get('/api/logs/kiosks', requireLogToken, (req, res) => {
+  pruneKiosks(Date.now());
+  res.set('Cache-Control', 'no-store').json(listKiosks());
+});
+
+// Server-sent events: backlog first, then live entries. ?kiosk= narrows to one booth
+app.get('/api/logs/stream', requireLogToken, (req, res) => {
+  const kioskId = typeof req.query.kiosk === 'string' && KIOSK_ID_PATTERN.test(req.query.kiosk) ? req.query.kiosk : null;
+  
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-store',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  res.flushHeaders();
+  
+  pruneKiosks(Date.now());
+  const backlog = kioskId
+    ? (kioskLogs.get(kioskId) || { entries: [] }).entries
+    : Array.from(kioskLogs.values()).flatMap((kiosk) => kiosk.entries).sort((a, b) => a.timestamp - b.timestamp).slice(-LOG_STREAM_BACKLOG);
+  sendServerEvent(res, 'kiosks', listKiosks());
+  backlog.forEach((entry) => sendServerEvent(res, 'log', entry));
+  
+  const subscriber = { res, kioskId };
+  logSubscribers.add(subscriber);
+  
+  // Comment lines keep proxies and the browser from timing out an idle stream
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), LOG_STREAM_HEARTBEAT_MS);
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    logSubscribers.delete(subscriber);
+  });
+});
+
+app.get('/logs', requireLogToken, (req, res) => {
+  res.set('Cache-Control', 'no-store').send(renderLogsPage());
+});
+
+function isValidLogEntry(entry) {
+  return Boolean(entry) &&
+    Number.isFinite(entry.timestamp) &&
+    LOG_LEVELS.includes(entry.level) &&
+    typeof entry.source === 'string' && entry.source.length <= 64 &&
+    typeof entry.message === 'string' &&
+    (entry.fields === undefined || (typeof entry.fields === 'object' && !Array.isArray(entry.fields)));
+}
+
+function listKiosks() {
+  return Array.from(kioskLogs.entries())
+    .map(([id, kiosk]) => ({ id, lastSeen: kiosk.lastSeen, entries: kiosk.entries.length }))
+    .sort((a, b) => b.lastSeen - a.lastSeen);
+}
+
+function sendServerEvent(res, event, data) {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+// Capture handoff: guest download page
+app.get('/v/:id', async (req, res) => {
+  const meta = await readCaptureMeta(req.params.id);
+  if (!meta) {
+    return res.status(404).send(renderCapturePage(null));
+  }
+  res.set('Cache-Control', 'no-store').send(renderCapturePage(meta));
+});
+
+app.get('/v/:id/file', async (req, res) => {
+  const meta = await readCaptureMeta(req.params.id);
+  if (!meta) {
+    return res.status(404).send('Capture not found or expired');
+  }
+  
+  res.set({
+    'Cache-Control': 'no-store',
+    'X-Content-Type-Options': 'nosniff'
+  });
+  // Uploads from before the type allowlist are only ever offered as a download.
+  // attachment() sets a type from the filename, so the validated type goes on after it
+  const allowed = CAPTURE_TYPES.includes(meta.type);
+  if (req.query.inline === undefined || !allowed) {
+    res.attachment(getDownloadFilename(meta, allowed));
+  }
+  res.type(allowed ? meta.type : 'application/octet-stream');
+  res.sendFile(capturePath(meta.id));
+});
+
+function generateCaptureId() {
+  // 8 chars of [a-z0-9] - short enough for a QR, ~41 bits of entropy
+  const alphabet = 'abcdefghijklmnopqrstuvwxyz0123456789';
+  return Array.from({ length: 8 }, () => alphabet[crypto.randomInt(alphabet.length)]).join('');
+}
+
+function capturePath(id) {
+  return path.join(UPLOAD_DIR, `${id}.bin`);
+}
+
+function captureMetaPath(id) {
+  return path.join(UPLOAD_DIR, `${id}.json`);
+}
+
+function getCaptureExtension(type) {
+  return type.startsWith('image/')
+    ? (type.includes('png') ? 'png' : 'jpg')
+    : (type.includes('mp4') ? 'mp4' : 'webm');
+}
+
+function sanitizeFilename(filename, type, createdAt) {
+  const cleaned = (filename || '').replace(/[^\w.-]/g, '_').slice(0, 100);
+  if (cleaned) return cleaned;
+  return `ar-capture-${createdAt}.${getCaptureExtension(type)}`;
+}
+
+// The client picked the name - only its stem is kept, the extension follows the stored type
+function getDownloadFilename(meta, allowed) {
+  const stem = path.basename(meta.filename, path.extname(meta.filename)) || `ar-capture-${meta.createdAt}`;
+  return `${stem}.${allowed ? getCaptureExtension(meta.type) : 'bin'}`;
+}
+
+async function readCaptureMeta(id) {
+  if (!CAPTURE_ID_PATTERN.test(id)) return null;
+  
+  try {
+    const meta = JSON.parse(await fs.promises.readFile(captureMetaPath(id), 'utf8'));
+    if (meta.expiresAt <= Date.now()) {
+      await removeCapture(id);
+      return null;
+    }
+    return meta;
+  } catch (error) {
+    return null;
+  }
+}
+
+async function removeCapture(id) {
+  await fs.promises.rm(capturePath(id), { force: true });
+  await fs.promises.rm(captureMetaPath(id), { force: true });
+}
+
+async function cleanupExpiredCaptures() {
+  try {
+    const files = await fs.promises.readdir(UPLOAD_DIR);
+    const ids = files.filter((file) => file.endsWith('.json')).map((file) => file.slice(0, -5));
+    // readCaptureMeta removes anything past its expiry
+    await Promise.all(ids.map((id) => readCaptureMeta(id)));
+  } catch (error) {
+    if (error.code === 'ENOENT') return; // nothing uploaded yet
+    console.warn('Capture cleanup failed:', error);
+  }
+}
+
+/**
+ * Guests scan from their own phones, so "localhost" is useless in the QR -
+ * prefer PUBLIC_BASE_URL, then the kiosk's LAN address.
+ */
+function getPublicBaseUrl(req) {
+  if (process.env.PUBLIC_BASE_URL) {
+    return process.env.PUBLIC_BASE_URL.replace(/\/$/, '');
+  }
+  
+  const host = req.get('host') || `localhost:${PORT}`;
+  const [hostname, port] = host.split(':');
+  if (!['localhost', '127.0.0.1', '[::1]'].includes(hostname)) {
+    return `${req.protocol}://${host}`;
+  }
+  
+  const lanAddress = Object.values(os.networkInterfaces())
+    .flat()
+    .find((iface) => iface && iface.family === 'IPv4' && !iface.internal);
+  
+  return `${req.protocol}://${lanAddress ? lanAddress.address : hostname}${port ? `:${port}` : ''}`;
+}
+
+function escapeHtml(value) {
+  return String(value).replace(/[&<>"']/g, (char) => ({
+    '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;'
+  })[char]);
+}
+
+function renderCapturePage(meta) {
+  const body = meta ? `
+    <h1>Your ${meta.type.startsWith('image/') ? 'photo' : 'video'} is ready</h1>
+    ${meta.type.startsWith('image/')
+      ? `<img src="/v/${meta.id}/file?inline" alt="Your capture">`
+      : `<video src="/v/${meta.id}/file?inline" controls playsinline loop muted autoplay></video>`}
+    <a class="button" href="/v/${meta.id}/file" download="${escapeHtml(meta.filename)}">Download</a>
+    <p>${(meta.size / (1024 * 1024)).toFixed(1)}MB &bull; available until ${escapeHtml(new Date(meta.expiresAt).toLocaleString())}</p>
+  ` : `
+    <h1>Capture not found</h1>
+    <p>This link has expired or never existed.</p>
+  `;
+  
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>Web AR Netramaya</title>
+  <style>
+    body { margin: 0; min-height: 100vh; display: flex; flex-direction: column; align-items: center; justify-content: center; gap: 16px; padding: 24px; box-sizing: border-box; background: #000; color: #fff; font-family: system-ui, sans-serif; text-align: center; }
+    h1 { font-size: 20px; margin: 0; }
+    img, video { max-width: 100%; max-height: 60vh; border-radius: 12px; }
+    .button { display: block; width: 100%; max-width: 320px; padding: 14px; border-radius: 10px; background: #3b82f6; color: #fff; font-weight: 600; text-decoration: none; }
+    p { margin: 0; color: rgba(255, 255, 255, 0.6); font-size: 13px; }
+  </style>
+</head>
+<body>${body}</body>
+</html>`;
+}
+
+/**
+ * Technician view: tails /api/logs/stream for one kiosk (or all of them).
+ * Plain DOM so it loads instantly on any laptop on the booth's LAN.
+ */
+function renderLogsPage() {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>Kiosk Logs - Web AR Netramaya</title>
+  <style>
+    body { margin: 0; background: #0b0b0f; color: #e5e7eb; font-family: ui-monospace, SFMono-Regular, Menlo, monospace; font-size: 12px; }
+    header { position: sticky; top: 0; display: flex; flex-wrap: wrap; gap: 8px; align-items: center; padding: 10px 12px; background: #111827; border-bottom: 1px solid #374151; }
+    header h1 { font-size: 14px; margin: 0 8px 0 0; }
+    select, input, button { background: #1f2937; color: #e5e7eb; border: 1px solid #374151; border-radius: 6px; padding: 4px 8px; font: inherit; }
+    #status { margin-left: auto; color: #9ca3af; }
+    #log { padding: 8px 12px; white-space: pre-wrap; word-break: break-word; }
+    .entry { padding: 1px 0; }
+    .time { color: #6b7280; }
+    .kiosk { color: #a78bfa; }
+    .source { color: #9ca3af; }
+    .info { color: #93c5fd; }
+    .warning { color: #fbbf24; }
+    .error { color: #f87171; }
+    .success { color: #34d399; }
+    .fields { color: #6b7280; }
+  </style>
+</head>
+<body>
+  <header>
+    <h1>Kiosk Logs</h1>
+    <select id="kiosk"><option value="">All kiosks</option></select>
+    <select id="level">
+      <option value="">All levels</option>
+      ${LOG_LEVELS.map((level) => `<option value="${level}">${level}</option>`).join('')}
+    </select>
+    <input id="search" type="search" placeholder="Filter...">
+    <label><input id="follow" type="checkbox" checked> Follow</label>
+    <button id="clear">Clear</button>
+    <span id="status">connecting...</span>
+  </header>
+  <div id="log"></div>
+  <script>
+    const MAX_LINES = 2000;
+    const params = new URLSearchParams(location.search);
+    const kioskSelect = document.getElementById('kiosk');
+    const levelSelect = document.getElementById('level');
+    const searchInput = document.getElementById('search');
+    const follow = document.getElementById('follow');
+    const log = document.getElementById('log');
+    const status = document.getElementById('status');
+    let source = null;
+
+    const matches = (el) =>
+      (!levelSelect.value || el.dataset.level === levelSelect.value) &&
+      (!searchInput.value || el.textContent.toLowerCase().includes(searchInput.value.toLowerCase()));
+
+    const applyFilter = () => {
+      log.querySelectorAll('.entry').forEach((el) => { el.hidden = !matches(el); });
+    };
+
+    const span = (className, text) => {
+      const el = document.createElement('span');
+      el.className = className;
+      el.textContent = text;
+      return el;
+    };
+
+    const append = (entry) => {
+      const el = document.createElement('div');
+      el.className = 'entry ' + entry.level;
+      el.dataset.level = entry.level;
+      el.append(
+        span('time', new Date(entry.timestamp).toLocaleTimeString() + ' '),
+        ...(kioskSelect.value ? [] : [span('kiosk', entry.kioskId + ' ')]),
+        span('source', '[' + entry.source + '] '),
+        document.createTextNode(entry.message),
+        ...(entry.fields ? [span('fields', ' ' + JSON.stringify(entry.fields))] : [])
+      );
+      el.hidden = !matches(el);
+      log.appendChild(el);
+      while (log.childElementCount > MAX_LINES) log.firstElementChild.remove();
+      if (follow.checked) window.scrollTo(0, document.body.scrollHeight);
+    };
+
+    const updateKiosks = (kiosks) => {
+      const selected = kioskSelect.value;
+      kiosks.forEach((kiosk) => {
+        if (!kioskSelect.querySelector('option[value="' + CSS.escape(kiosk.id) + '"]')) {
+          kioskSelect.appendChild(new Option(kiosk.id, kiosk.id));
+        }
+      });
+      kioskSelect.value = selected;
+    };
+
+    const connect = () => {
+      if (source) source.close();
+      log.replaceChildren();
+      const kiosk = kioskSelect.value;
+      const query = new URLSearchParams();
+      if (kiosk) query.set('kiosk', kiosk);
+      if (params.get('token')) query.set('token', params.get('token'));
+      source = new EventSource('/api/logs/stream?' + query);
+      source.addEventListener('open', () => { status.textContent = 'live' + (kiosk ? ' - ' + kiosk : ''); });
+      source.addEventListener('error', () => { status.textContent = 'reconnecting...'; });
+      source.addEventListener('kiosks', (event) => updateKiosks(JSON.parse(event.data)));
+      source.addEventListener('log', (event) => {
+        const entry = JSON.parse(event.data);
+        updateKiosks([{ id: entry.kioskId }]);
+        append(entry);
+      });
+    };
+
+    kioskSelect.addEventListener('change', () => {
+      const url = new URL(location.href);
+      if (kioskSelect.value) url.searchParams.set('kiosk', kioskSelect.value);
+      else url.searchParams.delete('kiosk');
+      history.replaceState(null, '', url);
+      connect();
+    });
+    levelSelect.addEventListener('change', applyFilter);
+    searchInput.addEventListener('input', applyFilter);
+    document.getElementById('clear').addEventListener('click', () => log.replaceChildren());
+
+    if (params.get('kiosk')) {
+      kioskSelect.appendChild(new Option(params.get('kiosk'), params.get('kiosk')));
+      kioskSelect.value = params.get('kiosk');
+    }
+    connect();
+  </script>
+</body>
+</html>`;
+}
+
 // Catch all - serve React app
 app.get('*', (req, res) => {
   res.sendFile(path.join(__dirname, 'dist', 'index.html'));
@@ -100,6 +1005,10 @@ app.get('*', (req, res) => {
 if (process.env.VERCEL) {
   module.exports = app;
 } else {
+  setInterval(cleanupExpiredCaptures, 15 * 60 * 1000);
+  cleanupExpiredCaptures();
+  setInterval(cleanupAuthState, 15 * 60 * 1000);
+  
   app.listen(PORT, () => {
     console.log(`Server running on port ${PORT}`);
   });
@@ -1,8 +1,10 @@
 // Modified App.tsx with Push2Web Integration
 import React, { useState, useEffect, useRef } from 'react';
 import { 
+  AuthProvider,
   CameraProvider, 
   RecordingProvider, 
+  useAuthContext,
   useCameraContext, 
   useRecordingContext 
 } from './context';
@@ -14,28 +16,34 @@ import {
   RecordingControls,
   VideoPreview,
   SettingsPanel,
-  RenderingModal
+  OverlaySettingsSection,
+  OperatorSettingsSection,
+  OperatorPinPrompt,
+  DeviceSettingsSection,
+  RenderingModal,
+  ShareModal,
+  CaptureOverlay,
+  CaptureGallery,
+  OfflineIndicator,
+  SmileMeter,
+  DebugOverlay,
+  ErrorBoundary,
+  LoginModal,
+  Push2WebManager
 } from './components';
+import { useNetworkStatus, useSmileMeter, usePerformanceMonitor } from './hooks';
+import { FEATURE_FLAGS, PHOTO_CONFIG, RENDER_CONFIG } from './utils/constants';
+import type { BitrateProfile } from './utils/operatorSettings';
+import type { RenderQuality } from './utils/resolutionDetector';
+import { AppError, getErrorText } from './utils/appErrors';
 import { checkAndRedirect, isInstagramBrowser, retryRedirect } from './utils/instagramBrowserDetector';
 import { Maximize, X } from 'lucide-react';
 import { Push2Web } from '@snap/push2web'; // Make sure this is imported
 
-// Define types for Snapchat SDK
-declare global {
-  interface Window {
-    snapKitInit?: () => void;
-    snap?: {
-      loginkit: {
-        mountButton: (elementId: string, config: any) => void;
-        fetchUserInfo: () => Promise<any>;
-      };
-    };
-  }
-}
-
 const CameraApp: React.FC = () => {
   const [isFlipped, setIsFlipped] = useState<boolean>(false);
   const [showSettings, setShowSettings] = useState<boolean>(false);
+  const [showGallery, setShowGallery] = useState<boolean>(false);
   const [appReady, setAppReady] = useState<boolean>(false);
   
   // Fullscreen state
@@ -47,9 +55,7 @@ const CameraApp: React.FC = () => {
   
   // Snapchat Login & Push2Web state
   const [showLogin, setShowLogin] = useState<boolean>(false);
-  const [isLoggedIn, setIsLoggedIn] = useState<boolean>(false);
-  const [userInfo, setUserInfo] = useState<any>(null);
-  const [loginError, setLoginError] = useState<string | null>(null);
+  const { isLoggedIn, accessToken, refresh: refreshAuth } = useAuthContext();
 
   const {
     cameraState,
@@ -59,6 +65,11 @@ const CameraApp: React.FC = () => {
     initializeCameraKit,
     switchCamera,
     reloadLens,
+    lenses,
+    currentLens,
+    applyLensById,
+    nextLens,
+    previousLens,
     requestCameraStream,
     requestPermission,
     checkCameraPermission,
@@ -66,12 +77,21 @@ const CameraApp: React.FC = () => {
     getCanvas,
     getStream,
     addLog,
+    getLogger,
     debugLogs,
     exportLogs,
     isReady,
     restoreCameraFeed,
-    subscribePush2Web, // This should be implemented in your CameraContext
-    getPush2WebStatus
+    videoDevices,
+    audioDevices,
+    selectDevices,
+    refreshDevices,
+    renderDecision,
+    applyRenderSize,
+    holdRenderSize,
+    subscribePush2Web,
+    unsubscribePush2Web,
+    push2WebConnection
   } = useCameraContext();
 
   const {
@@ -79,8 +99,38 @@ const CameraApp: React.FC = () => {
     recordingTime,
     recordedVideo,
     toggleRecording,
+    capturePhoto,
+    captureMode,
+    setCaptureMode,
+    countdown,
+    isFlashing,
+    cancelCountdown,
+    preRollSeconds,
+    setPreRollSeconds,
+    clipDuration,
+    setClipDuration,
+    maxRecordingDuration,
+    minRecordingDuration,
+    clipRejection,
+    recordingError,
+    overlaySettings,
+    updateOverlaySettings,
+    resetOverlaySettings,
+    operatorSettings,
+    updateOperatorSettings,
+    isOperatorUnlocked,
+    isUsingDefaultPin,
+    operatorLockedUntil,
+    unlockOperatorMode,
+    lockOperatorMode,
+    changeOperatorPin,
+    effectiveBitrateProfile,
+    setBitrateOverride,
     formatTime,
     downloadVideo,
+    createHandoff,
+    showShareModal,
+    setShowShareModal,
     showPreview,
     setShowPreview,
     processAndShareVideo,
@@ -88,9 +138,72 @@ const CameraApp: React.FC = () => {
     processingMessage,
     processingError,
     showRenderingModal,
-    setShowRenderingModal
+    setShowRenderingModal,
+    captures,
+    isCaptureStoreAvailable,
+    shareCapture,
+    downloadCapture,
+    deleteCapture
   } = useRecordingContext();
 
+  const { isOffline } = useNetworkStatus(getLogger('network'));
+
+  // Smile-triggered capture - only armed while the booth is idle on the live camera
+  const isSmileCaptureArmed = isReady &&
+    recordingState === 'idle' &&
+    countdown === null &&
+    !recordedVideo &&
+    !showPreview &&
+    !showSettings &&
+    !showGallery;
+
+  const handleSmileTrigger = () => {
+    const canvas = getCanvas();
+    if (!canvas || !isSmileCaptureArmed) return;
+
+    if (operatorSettings.smileAutoCapture === 'photo') {
+      capturePhoto(canvas, { countdownSeconds: 0 });
+    } else if (operatorSettings.smileAutoCapture === 'video') {
+      toggleRecording(canvas, getStream() || undefined);
+    }
+  };
+
+  const { smileScore, faceDetected, holdProgress } = useSmileMeter(getLogger('smile-meter'), getStream, {
+    enabled: operatorSettings.smileMeterEnabled && isReady,
+    threshold: operatorSettings.smileThreshold,
+    holdFrames: operatorSettings.smileHoldFrames,
+    paused: !isSmileCaptureArmed,
+    onTrigger: operatorSettings.smileAutoCapture !== 'off' ? handleSmileTrigger : undefined
+  });
+
+  // Auto-downgrade steps render quality and recording bitrate down one rung together
+  // One step per call: render quality first, bitrate only once render quality is at the bottom
+  const handlePerformanceDowngrade = async (): Promise<boolean> => {
+    const renderLadder = Object.keys(RENDER_CONFIG.QUALITY_PROFILES) as RenderQuality[];
+    const nextRenderQuality = renderDecision ? renderLadder[renderLadder.indexOf(renderDecision.quality) + 1] : undefined;
+    if (nextRenderQuality && await applyRenderSize(nextRenderQuality)) {
+      return true;
+    }
+
+    const bitrateLadder: BitrateProfile[] = ['max', 'high', 'standard'];
+    const nextBitrate = bitrateLadder[bitrateLadder.indexOf(effectiveBitrateProfile) + 1];
+    if (nextBitrate) {
+      setBitrateOverride(nextBitrate);
+      addLog(`📉 Recording bitrate lowered to ${nextBitrate}`);
+      return true;
+    }
+
+    return false;
+  };
+
+  const { performanceSnapshot, resetDowngrades } = usePerformanceMonitor(getLogger('performance'), getCanvas, getStream, {
+    enabled: FEATURE_FLAGS.ENABLE_PERFORMANCE_MONITORING && isReady,
+    autoDowngrade: operatorSettings.autoQualityDowngrade,
+    canDowngrade: recordingState === 'idle' && countdown === null,
+    onDowngrade: handlePerformanceDowngrade
+  });
+  const latestPerformanceSample = performanceSnapshot?.history[performanceSnapshot.history.length - 1];
+
   // Fullscreen functions
   const enterFullscreen = async () => {
     try {
@@ -171,102 +284,46 @@ const CameraApp: React.FC = () => {
     });
   };
 
-  // Initialize Snapchat Login
+  // Connect to Push2Web once logged in and Camera Kit is running; a refreshed token is swapped in
   useEffect(() => {
-    if (showLogin) {
-      // Define the SDK callback function
-      window.snapKitInit = () => {
-        addLog('🎭 SnapKit SDK loaded');
-        
-        if (!window.snap?.loginkit) {
-          addLog('❌ SnapKit LoginKit not available');
-          setLoginError('Login SDK failed to load');
-          return;
-        }
-        
-        // Add delay to ensure DOM is ready
-        setTimeout(() => {
-          try {
-            addLog('🔄 Mounting Snapchat login button');
-            
-            (window.snap as any).loginkit.mountButton('snap-login-button', {
-              clientId: import.meta.env.VITE_SNAPCHAT_CLIENT_ID,
-              redirectURI: import.meta.env.VITE_SNAPCHAT_REDIRECT_URI,
-              scopeList: [
-                'user.display_name',
-                'user.external_id',
-                'user.bitmoji.avatar',
-                'camkit_lens_push_to_device' // Required for Push2Web
-              ],
-              handleResponseCallback: async () => {
-                addLog('🔗 Login callback triggered');
-                
-                try {
-                  // Add delay before fetchUserInfo
-                  await new Promise(resolve => setTimeout(resolve, 500));
-                  
-                  const result = await window.snap?.loginkit.fetchUserInfo();
-                  const user = result?.data?.me;
-                  
-                  if (user) {
-                    addLog(`✅ Logged in as: ${user.displayName}`);
-                    setUserInfo(user);
-                    setIsLoggedIn(true);
-                    setLoginError(null);
-                    
-                    // Connect to Push2Web with Camera Kit
-                    const success = await subscribePush2Web(`snap_${user.externalId}_${Date.now()}`);
-                    
-                    if (success) {
-                      addLog('🎬 Push2Web connection successful');
-                      addLog('🎭 Ready to receive lenses from Lens Studio');
-                    } else {
-                      addLog('❌ Push2Web connection failed');
-                      setLoginError('Failed to connect to Push2Web');
-                    }
-                  } else {
-                    addLog('❌ No user data in response');
-                    setLoginError('Failed to get user data');
-                  }
-                } catch (err) {
-                  const errorMessage = err instanceof Error 
-                    ? err.message 
-                    : JSON.stringify(err, null, 2);
-                  addLog(`❌ Login error: ${errorMessage}`);
-                  setLoginError(`Authentication failed: ${errorMessage}`);
-                }
-              }
-            });
-            
-            addLog('✅ Button mounted successfully');
-          } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : String(err);
-            addLog(`❌ Button mount error: ${errorMessage}`);
-            setLoginError(`Failed to mount button: ${errorMessage}`);
-          }
-        }, 300);
-      };
-      
-      // Load the SDK script
-      const script = document.createElement('script');
-      script.src = 'https://sdk.snapkit.com/js/v1/login.js';
-      script.async = true;
-      script.id = 'loginkit-sdk';
-      script.onload = () => addLog('📜 SDK script loaded');
-      script.onerror = () => {
-        addLog('❌ SDK script failed to load');
-        setLoginError('Failed to load Snapchat SDK');
-      };
-      
-      document.head.appendChild(script);
-      
-      return () => {
-        if (script.parentNode) {
-          script.parentNode.removeChild(script);
-        }
-      };
+    if (!accessToken) {
+      unsubscribePush2Web();
+      return;
+    }
+    if (!isReady) return;
+
+    subscribePush2Web(accessToken).then(success => {
+      if (success) addLog('🎭 Ready to receive lenses from Lens Studio');
+    });
+  }, [accessToken, isReady, subscribePush2Web, unsubscribePush2Web, addLog]);
+
+  // Push2Web rejected the token - a refreshed one resubscribes through the effect above.
+  // Only one refresh per failure streak: if that token is rejected too, stay failed and
+  // ask for a new login. The streak ends once a lens has arrived over the subscription.
+  const authRefreshUsedRef = useRef<boolean>(false);
+  const { state: push2WebState, error: push2WebFailure, healthy: isPush2WebHealthy } = push2WebConnection;
+  useEffect(() => {
+    if (isPush2WebHealthy) {
+      authRefreshUsedRef.current = false;
+      return;
+    }
+    if (push2WebState !== 'failed' || push2WebFailure?.code !== 'PUSH2WEB_AUTH') return;
+
+    if (authRefreshUsedRef.current) {
+      addLog('🔑 Push2Web rejected the refreshed token - please log in again');
+      setShowLogin(true);
+      return;
     }
-  }, [showLogin, addLog, subscribePush2Web]);
+    authRefreshUsedRef.current = true;
+    addLog('🔑 Push2Web token rejected - refreshing login');
+    refreshAuth();
+  }, [push2WebState, push2WebFailure, isPush2WebHealthy, refreshAuth, addLog]);
+
+  const push2WebError = push2WebConnection.state === 'failed'
+    ? push2WebConnection.error
+    : isLoggedIn && !accessToken
+      ? new AppError('PUSH2WEB_AUTH', 'Snapchat login did not provide a Push2Web access token')
+      : null;
 
   // Instagram redirect check
   useEffect(() => {
@@ -284,6 +341,20 @@ const CameraApp: React.FC = () => {
     }
   }, [addLog]);
 
+  // Keep the canvas size fixed for the length of a clip
+  useEffect(() => {
+    holdRenderSize(recordingState === 'recording');
+  }, [recordingState, holdRenderSize]);
+
+  // Operator changed the AR render quality - re-run the render size policy live
+  const renderQualityRef = useRef(operatorSettings.renderQuality);
+  useEffect(() => {
+    if (renderQualityRef.current === operatorSettings.renderQuality) return;
+    renderQualityRef.current = operatorSettings.renderQuality;
+    resetDowngrades();
+    if (isReady) applyRenderSize(null);
+  }, [operatorSettings.renderQuality, isReady, applyRenderSize, resetDowngrades]);
+
   // Auto-recovery on app focus/visibility
   useEffect(() => {
     const handleFocus = () => {
@@ -310,7 +381,8 @@ const CameraApp: React.FC = () => {
   }, [cameraState, addLog, restoreCameraFeed]);
 
   const initializeApp = async () => {
-    if (cameraState === 'ready') {
+    // After an error boundary recovery the session is still 'ready' but its stream was stopped
+    if (cameraState === 'ready' && getStream()?.active) {
       addLog('📱 Camera already ready');
       return;
     }
@@ -365,6 +437,17 @@ const CameraApp: React.FC = () => {
       return;
     }
 
+    // Tap during the countdown cancels it
+    if (countdown !== null) {
+      cancelCountdown();
+      return;
+    }
+
+    if (captureMode === 'photo') {
+      capturePhoto(canvas, { countdownSeconds: PHOTO_CONFIG.DEFAULT_COUNTDOWN });
+      return;
+    }
+
     if (stream) {
       const audioTracks = stream.getAudioTracks();
       const videoTracks = stream.getVideoTracks();
@@ -402,6 +485,21 @@ const CameraApp: React.FC = () => {
     }
   };
 
+  const handleSelectLens = async (lensId: string) => {
+    if (!isReady || recordingState !== 'idle') return;
+    await applyLensById(lensId);
+  };
+
+  const handleNextLens = async () => {
+    if (!isReady || recordingState !== 'idle') return;
+    await nextLens();
+  };
+
+  const handlePreviousLens = async () => {
+    if (!isReady || recordingState !== 'idle') return;
+    await previousLens();
+  };
+
   const handleClosePreview = () => {
     setShowPreview(false);
     addLog('📱 Preview closed');
@@ -494,12 +592,23 @@ const CameraApp: React.FC = () => {
           onClose={handleClosePreview}
           onDownload={handleDownload}
           onProcessAndShare={handleProcessAndShare}
+          onShowQrCode={() => setShowShareModal(true)}
+        />
+        
+        <ShareModal
+          recordedVideo={recordedVideo}
+          isOpen={showShareModal}
+          onClose={() => setShowShareModal(false)}
+          onDownload={handleDownload}
+          onProcessAndShare={processAndShareVideo}
+          onCreateHandoff={createHandoff}
+          addLog={addLog}
         />
         
         <RenderingModal
           isOpen={showRenderingModal}
           progress={processingProgress}
-          message={processingMessage}
+          message={processingError ? getErrorText(processingError).message : processingMessage}
           isComplete={processingProgress === 100 && !processingError}
           hasError={!!processingError}
           onCancel={() => {
@@ -514,62 +623,7 @@ const CameraApp: React.FC = () => {
 
   // Push2Web Login Modal
   if (showLogin) {
-    return (
-      <div className="fixed inset-0 bg-black/90 backdrop-blur-lg flex items-center justify-center p-6">
-        <div className="bg-gray-800/80 backdrop-blur-md rounded-xl max-w-md w-full p-6">
-          <div className="flex justify-between items-center mb-6">
-            <h2 className="text-white text-xl font-semibold">Snapchat Login</h2>
-            <button 
-              onClick={() => setShowLogin(false)}
-              className="text-white/60 hover:text-white"
-            >
-              <X className="w-5 h-5" />
-            </button>
-          </div>
-          
-          <div className="bg-black/30 rounded-lg p-4 mb-4">
-            <div id="snap-login-button" className="min-h-[48px] w-full"></div>
-          </div>
-          
-          {loginError && (
-            <div className="bg-red-500/20 border border-red-500/30 rounded-lg p-4 mb-4 text-red-300 text-sm">
-              {loginError}
-            </div>
-          )}
-          
-          {isLoggedIn && userInfo && (
-            <div className="bg-green-500/20 border border-green-500/30 rounded-lg p-4 mb-4">
-              <div className="text-green-300 font-medium">
-                Logged in as: {userInfo.displayName}
-              </div>
-              <div className="text-green-300/70 text-sm mt-1">
-                Push2Web enabled and ready!
-              </div>
-              {userInfo.bitmoji?.avatar && (
-                <img 
-                  src={userInfo.bitmoji.avatar} 
-                  alt="Bitmoji" 
-                  className="w-10 h-10 rounded-full mt-2"
-                />
-              )}
-            </div>
-          )}
-          
-          <div className="text-xs text-white/60 space-y-1 mb-4">
-            <p>• Login with your Snapchat account</p>
-            <p>• Enable Push2Web to receive lenses</p>
-            <p>• Must be same account as Lens Studio</p>
-          </div>
-          
-          <button
-            onClick={() => setShowLogin(false)}
-            className="w-full px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg text-white font-medium"
-          >
-            {isLoggedIn ? 'Return to Camera' : 'Cancel'}
-          </button>
-        </div>
-      </div>
-    );
+    return <LoginModal onClose={() => setShowLogin(false)} push2WebError={push2WebError} />;
   }
 
   return (
@@ -587,8 +641,31 @@ const CameraApp: React.FC = () => {
         cameraState={cameraState}
         recordingState={recordingState}
         isFlipped={isFlipped}
+      >
+        {operatorSettings.smileMeterEnabled && isSmileCaptureArmed && (
+          <SmileMeter
+            score={smileScore}
+            threshold={operatorSettings.smileThreshold}
+            faceDetected={faceDetected}
+            holdProgress={holdProgress}
+            autoCaptureLabel={operatorSettings.smileAutoCapture !== 'off' ? `Smile to ${operatorSettings.smileAutoCapture === 'photo' ? 'snap' : 'record'}` : null}
+          />
+        )}
+      </CameraFeed>
+
+      <OfflineIndicator isOffline={isOffline} />
+
+      <DebugOverlay
+        stream={getStream()}
+        canvas={getCanvas()}
+        isVisible={operatorSettings.showPerformanceOverlay}
+        onToggle={() => updateOperatorSettings({ showPerformanceOverlay: false })}
+        performance={performanceSnapshot}
       />
 
+      {/* Photo countdown + flash */}
+      <CaptureOverlay countdown={countdown} isFlashing={isFlashing} />
+
       {/* Push2Web Button - Always visible in top corner */}
       <button
         onClick={() => setShowLogin(true)}
@@ -601,7 +678,14 @@ const CameraApp: React.FC = () => {
       {/* Camera Controls - Already hidden via updated component */}
       <CameraControls
         onSettings={() => setShowSettings(true)}
+        onGallery={() => setShowGallery(true)}
         onFlip={() => setIsFlipped(!isFlipped)}
+        lenses={lenses}
+        currentLensId={currentLens?.id || null}
+        onSelectLens={handleSelectLens}
+        onNextLens={handleNextLens}
+        onPreviousLens={handlePreviousLens}
+        lensSwitchDisabled={!isReady || recordingState !== 'idle'}
       />
 
       {/* Recording Controls - Already hidden via updated component */}
@@ -613,6 +697,17 @@ const CameraApp: React.FC = () => {
         onSwitchCamera={handleSwitchCamera}
         formatTime={formatTime}
         disabled={!isReady}
+        captureMode={captureMode}
+        onCaptureModeChange={setCaptureMode}
+        countdown={countdown}
+        preRollSeconds={preRollSeconds}
+        onPreRollChange={setPreRollSeconds}
+        clipDuration={clipDuration}
+        onClipDurationChange={setClipDuration}
+        maxDuration={maxRecordingDuration}
+        minDuration={minRecordingDuration}
+        clipRejection={clipRejection}
+        recordingError={recordingError ? getErrorText(recordingError).message : null}
       />
 
       {/* Fullscreen Entry Button - Show only when NOT in fullscreen */}
@@ -641,19 +736,21 @@ const CameraApp: React.FC = () => {
       )}
 
       {/* Essential modals */}
-      {cameraState === 'initializing' && (
+      {cameraState === 'initializing' && !errorInfo && (
         <LoadingScreen 
           message="Initializing Web AR Netramaya..."
           subMessage="Setting up camera and AR engine..."
         />
       )}
 
-      {(cameraState === 'error' || cameraState === 'permission_denied' || cameraState === 'https_required') && errorInfo && (
+      {/* Permission failures stop initialization before Camera Kit ever reports an error */}
+      {cameraState !== 'ready' && errorInfo && (
         <ErrorScreen
           errorInfo={errorInfo}
           permissionState={permissionState}
           onRequestPermission={handleRequestPermission}
           onRetry={handleRetry}
+          onOpenSettings={() => setShowSettings(true)}
           debugInfo={{
             protocol: location.protocol,
             hostname: location.hostname,
@@ -662,20 +759,73 @@ const CameraApp: React.FC = () => {
         />
       )}
 
+      {/* Guests get the PIN keypad; the settings panel is operator-only */}
+      <OperatorPinPrompt
+        isOpen={showSettings && !isOperatorUnlocked}
+        onClose={() => setShowSettings(false)}
+        onSubmit={unlockOperatorMode}
+        lockedUntil={operatorLockedUntil}
+      />
+
       <SettingsPanel
-        isOpen={showSettings}
+        isOpen={showSettings && isOperatorUnlocked}
         onClose={() => setShowSettings(false)}
         debugLogs={debugLogs}
-        onExportLogs={exportLogs}
+        onExportLogs={() => exportLogs()}
         currentStream={getStream()}
         canvas={getCanvas()}
         containerRef={cameraFeedRef}
+        renderDecision={renderDecision}
+        outputFps={latestPerformanceSample?.fps ?? null}
+      >
+        <DeviceSettingsSection
+          videoDevices={videoDevices}
+          audioDevices={audioDevices}
+          currentStream={getStream()}
+          onSelect={selectDevices}
+          onRefresh={refreshDevices}
+          disabled={recordingState !== 'idle' || !isReady}
+        />
+        <OperatorSettingsSection
+          settings={operatorSettings}
+          onChange={updateOperatorSettings}
+          lenses={lenses}
+          currentLensId={currentLens?.id || null}
+          onApplyLens={handleSelectLens}
+          isUsingDefaultPin={isUsingDefaultPin}
+          onChangePin={changeOperatorPin}
+          onLock={() => {
+            lockOperatorMode();
+            setShowSettings(false);
+          }}
+          disabled={recordingState !== 'idle'}
+        />
+        <Push2WebManager />
+        <OverlaySettingsSection
+          settings={overlaySettings}
+          onChange={updateOverlaySettings}
+          onReset={resetOverlaySettings}
+          disabled={recordingState !== 'idle'}
+        />
+      </SettingsPanel>
+
+      <CaptureGallery
+        isOpen={showGallery}
+        captures={captures}
+        isAvailable={isCaptureStoreAvailable}
+        onClose={() => {
+          setShowGallery(false);
+          setTimeout(() => restoreCameraFeed(), 100);
+        }}
+        onShare={shareCapture}
+        onDownload={downloadCapture}
+        onDelete={deleteCapture}
       />
 
       <RenderingModal
         isOpen={showRenderingModal && !showPreview}
         progress={processingProgress}
-        message={processingMessage}
+        message={processingError ? getErrorText(processingError).message : processingMessage}
         isComplete={processingProgress === 100 && !processingError}
         hasError={!!processingError}
         onCancel={() => {
@@ -699,12 +849,22 @@ const App: React.FC = () => {
 };
 
 const AppWithContext: React.FC = () => {
-  const { addLog, restoreCameraFeed } = useCameraContext();
+  const { addLog, getLogger, restoreCameraFeed, cleanup } = useCameraContext();
   
   return (
-    <RecordingProvider addLog={addLog} restoreCameraFeed={restoreCameraFeed}>
-      <CameraApp />
-    </RecordingProvider>
+    <AuthProvider addLog={getLogger('auth')}>
+      <RecordingProvider addLog={getLogger('recording')} restoreCameraFeed={restoreCameraFeed}>
+        <ErrorBoundary
+          component="CameraApp"
+          onRecover={() => {
+            addLog('🩹 Recovering from crash - restarting camera...');
+            cleanup();
+          }}
+        >
+          <CameraApp />
+        </ErrorBoundary>
+      </RecordingProvider>
+    </AuthProvider>
   );
 };
 
@@ -0,0 +1,109 @@
+// src/components/LoginModal.tsx - Snapchat login for Push2Web, driven by AuthContext
+import React, { useEffect } from 'react';
+import { X, LogIn } from 'lucide-react';
+import { useAuthContext } from '../context/AuthContext';
+import { AUTH_CONFIG } from '../utils/constants';
+import { getErrorText } from '../utils/appErrors';
+import type { AppError } from '../utils/appErrors';
+
+interface LoginModalProps {
+  onClose: () => void;
+  push2WebError?: AppError | null; // login worked but the Push2Web subscription didn't
+}
+
+export const LoginModal: React.FC<LoginModalProps> = ({ onClose, push2WebError = null }) => {
+  const { needsLoginButton, isLoggedIn, isLoading, user, error, login, cancelLogin, logout } = useAuthContext();
+  const shownError = error || push2WebError;
+
+  // Login Kit renders its own button - mount it once the placeholder is in the DOM,
+  // and give up on the pending login when the modal closes
+  useEffect(() => {
+    if (needsLoginButton && !isLoggedIn && !isLoading) {
+      login(AUTH_CONFIG.LOGIN_BUTTON_ID);
+      return cancelLogin;
+    }
+  }, [needsLoginButton, isLoggedIn, isLoading, login, cancelLogin]);
+
+  return (
+    <div className="fixed inset-0 bg-black/90 backdrop-blur-lg flex items-center justify-center p-6">
+      <div className="bg-gray-800/80 backdrop-blur-md rounded-xl max-w-md w-full p-6">
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-white text-xl font-semibold">Snapchat Login</h2>
+          <button
+            onClick={onClose}
+            className="text-white/60 hover:text-white"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {!isLoggedIn && (
+          <div className="bg-black/30 rounded-lg p-4 mb-4">
+            {isLoading ? (
+              <div className="text-white/70 text-sm flex items-center justify-center min-h-[48px]">
+                <div className="w-4 h-4 border-2 border-white/70 border-t-transparent rounded-full animate-spin mr-2" />
+                Checking login...
+              </div>
+            ) : needsLoginButton ? (
+              <div id={AUTH_CONFIG.LOGIN_BUTTON_ID} className="min-h-[48px] w-full"></div>
+            ) : (
+              <button
+                onClick={() => login()}
+                className="w-full min-h-[48px] flex items-center justify-center gap-2 bg-yellow-400 hover:bg-yellow-300 rounded-lg text-black font-medium"
+              >
+                <LogIn className="w-5 h-5" />
+                Continue with Snapchat
+              </button>
+            )}
+          </div>
+        )}
+
+        {shownError && (
+          <div className="bg-red-500/20 border border-red-500/30 rounded-lg p-4 mb-4 text-red-300 text-sm">
+            <div className="font-medium">{getErrorText(shownError).message}</div>
+            <div className="text-red-300/70 mt-1">{getErrorText(shownError).solution}</div>
+          </div>
+        )}
+
+        {isLoggedIn && user && (
+          <div className="bg-green-500/20 border border-green-500/30 rounded-lg p-4 mb-4">
+            <div className="text-green-300 font-medium">
+              Logged in as: {user.displayName}
+            </div>
+            {!push2WebError && (
+              <div className="text-green-300/70 text-sm mt-1">
+                Push2Web enabled and ready!
+              </div>
+            )}
+            {user.bitmoji?.avatar && (
+              <img
+                src={user.bitmoji.avatar}
+                alt="Bitmoji"
+                className="w-10 h-10 rounded-full mt-2"
+              />
+            )}
+            <button
+              onClick={logout}
+              className="text-green-300/70 hover:text-green-200 text-xs underline mt-2"
+            >
+              Log out
+            </button>
+          </div>
+        )}
+
+        <div className="text-xs text-white/60 space-y-1 mb-4">
+          <p>• Login with your Snapchat account</p>
+          <p>• Enable Push2Web to receive lenses</p>
+          <p>• Must be same account as Lens Studio</p>
+        </div>
+
+        <button
+          onClick={onClose}
+          className="w-full px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg text-white font-medium"
+        >
+          {isLoggedIn ? 'Return to Camera' : 'Cancel'}
+        </button>
+      </div>
+    </div>
+  );
+};
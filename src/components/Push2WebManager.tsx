@@ -1,65 +1,40 @@
-// src/components/Push2WebManager.tsx - Updated untuk server OAuth
-import React, { useState, useEffect } from 'react';
-import { X, RotateCcw } from 'lucide-react';
+// src/components/Push2WebManager.tsx - Push2Web status, login session and pushed lens history
+import React from 'react';
+import { X, RotateCcw, History, Pin, PinOff, Play, Trash2 } from 'lucide-react';
 import { useCameraContext } from '../context/CameraContext';
+import { useAuthContext } from '../context/AuthContext';
+import { useLensReceived, usePush2WebStatus } from '../hooks';
+import { RETRY_CONFIG } from '../utils/constants';
+import { toPushedLensRecord } from '../utils/lensHistory';
+import type { PushedLensRecord } from '../utils/lensHistory';
 
 interface Push2WebManagerProps {
-  onLensReceived?: (lensData: any) => void;
+  onLensReceived?: (lensData: PushedLensRecord) => void;
 }
 
 export const Push2WebManager: React.FC<Push2WebManagerProps> = ({ 
   onLensReceived 
 }) => {
-  const { addLog, reloadLens, getPush2WebStatus } = useCameraContext();
-  const [lastLensReceived, setLastLensReceived] = useState<{name: string, time: string} | null>(null);
-  const [status, setStatus] = useState(getPush2WebStatus());
+  const {
+    addLog,
+    reloadLens,
+    currentLens,
+    lensHistory,
+    applyLensById,
+    pinLens,
+    removeFromLensHistory,
+    isLensAvailable,
+    reconnectPush2Web
+  } = useCameraContext();
+  const { isLoggedIn, user, logout } = useAuthContext();
+  const status = usePush2WebStatus();
+  const push2WebConnection = status.connection;
+  const { latestLens, receivedAt } = useLensReceived(lens => onLensReceived?.(toPushedLensRecord(lens)));
 
-  // Update status periodically
-  useEffect(() => {
-    const interval = setInterval(() => {
-      setStatus(getPush2WebStatus());
-    }, 5000);
-    
-    return () => clearInterval(interval);
-  }, [getPush2WebStatus]);
-
-  // Listen for lens received events
-  useEffect(() => {
-    const handleLensReceived = (event: any) => {
-      if (!event.detail) return;
-      
-      const lensData = event.detail;
-      addLog(`🎭 Push2Web lens received: ${lensData.name}`);
-      
-      setLastLensReceived({
-        name: lensData.name,
-        time: new Date().toLocaleTimeString()
-      });
-      
-      if (onLensReceived) {
-        onLensReceived(lensData);
-      }
-    };
-    
-    window.addEventListener('lensReceived', handleLensReceived);
-    
-    return () => {
-      window.removeEventListener('lensReceived', handleLensReceived);
-    };
-  }, [onLensReceived, addLog]);
-
-  const handleLogout = () => {
-    // Clear session storage
-    try {
-      sessionStorage.removeItem('oauth_token');
-      sessionStorage.removeItem('oauth_user');
-      addLog('👋 Logging out Push2Web session');
-      
-      // Reload page to reset everything
-      window.location.reload();
-    } catch (error) {
-      addLog(`❌ Logout failed: ${error}`);
-    }
+  // App unsubscribes Push2Web once the token is gone
+  const handleLogout = async () => {
+    addLog('👋 Logging out Push2Web session');
+    await logout();
   };
 
   const handleReloadLens = async () => {
@@ -76,15 +51,31 @@ export const Push2WebManager: React.FC<Push2WebManagerProps> = ({
     }
   };
 
+  const handleApply = async (record: PushedLensRecord) => {
+    addLog(`🎭 Re-applying pushed lens: ${record.name}`);
+    await applyLensById(record.id);
+  };
+
+  const handleTogglePin = async (record: PushedLensRecord) => {
+    await pinLens(record.pinned ? null : record.id);
+  };
+
   return (
     <div className="space-y-4">
-      <div className="bg-green-500/10 rounded-lg p-4">
-        <h3 className="text-green-300 font-semibold mb-3 flex items-center gap-2">
-          <span>✅</span>
-          Push2Web Connected
+      <div className={`${status.subscribed ? 'bg-green-500/10' : 'bg-white/5'} rounded-lg p-4`}>
+        <h3 className={`${status.subscribed ? 'text-green-300' : 'text-white/70'} font-semibold mb-3 flex items-center gap-2`}>
+          <span>{status.subscribed ? '✅' : '⚪'}</span>
+          {status.subscribed ? 'Push2Web Connected' : 'Push2Web Not Connected'}
         </h3>
         
         <div className="space-y-1 text-sm">
+          <div className="flex justify-between">
+            <span className="text-white/70">Snapchat:</span>
+            <span className={isLoggedIn ? 'text-green-400' : 'text-red-400'}>
+              {isLoggedIn ? user?.displayName || 'Logged in' : 'Logged out'}
+            </span>
+          </div>
+
           <div className="flex justify-between">
             <span className="text-white/70">Subscription:</span>
             <span className={status.subscribed ? 'text-green-400' : 'text-red-400'}>
@@ -92,6 +83,15 @@ export const Push2WebManager: React.FC<Push2WebManagerProps> = ({
             </span>
           </div>
           
+          <div className="flex justify-between">
+            <span className="text-white/70">Connection:</span>
+            <span className={push2WebConnection.state === 'subscribed' ? 'text-green-400' : push2WebConnection.state === 'failed' ? 'text-red-400' : 'text-yellow-400'}>
+              {push2WebConnection.state === 'retrying'
+                ? `Reconnecting (${push2WebConnection.attempt}/${RETRY_CONFIG.MAX_RETRIES})`
+                : push2WebConnection.state}
+            </span>
+          </div>
+
           <div className="flex justify-between">
             <span className="text-white/70">Session:</span>
             <span className={status.session ? 'text-green-400' : 'text-red-400'}>
@@ -107,14 +107,98 @@ export const Push2WebManager: React.FC<Push2WebManagerProps> = ({
           </div>
         </div>
 
-        {lastLensReceived && (
-          <div className="mt-3 p-2 bg-blue-500/20 rounded text-xs">
-            <div className="text-blue-300 font-medium mb-1">Latest Lens Received:</div>
-            <div className="flex justify-between">
-              <span className="text-white/90">{lastLensReceived.name}</span>
-              <span className="text-white/70">{lastLensReceived.time}</span>
-            </div>
+        {push2WebConnection.state === 'failed' && (
+          <div className="mt-3 flex items-center gap-2">
+            <span className="flex-1 text-red-300 text-xs truncate">
+              {push2WebConnection.error?.message || 'Push2Web connection lost'}
+            </span>
+            <button
+              onClick={reconnectPush2Web}
+              className="px-3 py-1 bg-white/10 hover:bg-white/20 rounded text-white text-xs"
+            >
+              Reconnect
+            </button>
+          </div>
+        )}
+      </div>
+
+      {latestLens && (
+        <div className="bg-blue-500/10 rounded-lg p-3 text-sm">
+          <h3 className="text-blue-300 font-medium mb-1">Latest Lens Received</h3>
+          <div className="text-white/90 truncate">{latestLens.name}</div>
+          <div className="text-white/50 text-xs truncate">
+            {latestLens.lensCreator?.displayName ? `${latestLens.lensCreator.displayName} • ` : ''}
+            {receivedAt ? new Date(receivedAt).toLocaleTimeString() : ''}
           </div>
+        </div>
+      )}
+
+      {/* Pushed lens history */}
+      <div className="bg-black/20 rounded-lg p-3">
+        <h3 className="text-white/80 text-sm font-medium mb-2 flex items-center gap-2">
+          <History className="w-4 h-4" />
+          Pushed Lenses
+        </h3>
+
+        {lensHistory.length === 0 ? (
+          <p className="text-white/40 text-xs">No lenses pushed yet</p>
+        ) : (
+          <ul className="space-y-2 max-h-64 overflow-y-auto">
+            {lensHistory.map(record => {
+              const isActive = currentLens?.id === record.id;
+              const isAvailable = isLensAvailable(record.id);
+              return (
+                <li
+                  key={record.id}
+                  className={`flex items-center gap-2 p-2 rounded ${isActive ? 'bg-blue-500/20' : 'bg-white/5'}`}
+                >
+                  {record.iconUrl ? (
+                    <img src={record.iconUrl} alt="" className="w-8 h-8 rounded object-cover flex-shrink-0" />
+                  ) : (
+                    <div className="w-8 h-8 rounded bg-white/10 flex-shrink-0" />
+                  )}
+
+                  <div className="flex-1 min-w-0 text-xs">
+                    <div className="text-white/90 truncate">
+                      {record.pinned && <Pin className="w-3 h-3 inline mr-1 text-yellow-400" />}
+                      {record.name}
+                    </div>
+                    <div className="text-white/50 truncate">
+                      {record.creator ? `${record.creator} • ` : ''}{new Date(record.receivedAt).toLocaleString()}
+                    </div>
+                    <div className="text-white/30 truncate">{record.id}</div>
+                    {!isAvailable && (
+                      <div className="text-orange-400">Push again from Lens Studio to use</div>
+                    )}
+                  </div>
+
+                  <button
+                    onClick={() => handleApply(record)}
+                    disabled={!isAvailable || isActive}
+                    className="p-1.5 rounded bg-white/10 hover:bg-white/20 disabled:opacity-30 text-white"
+                    aria-label={`Apply ${record.name}`}
+                  >
+                    <Play className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    onClick={() => handleTogglePin(record)}
+                    disabled={!record.pinned && !isAvailable}
+                    className={`p-1.5 rounded disabled:opacity-30 ${record.pinned ? 'bg-yellow-500/30 text-yellow-300' : 'bg-white/10 hover:bg-white/20 text-white'}`}
+                    aria-label={record.pinned ? `Unpin ${record.name}` : `Pin ${record.name}`}
+                  >
+                    {record.pinned ? <PinOff className="w-3.5 h-3.5" /> : <Pin className="w-3.5 h-3.5" />}
+                  </button>
+                  <button
+                    onClick={() => removeFromLensHistory(record.id)}
+                    className="p-1.5 rounded bg-white/10 hover:bg-red-500/40 text-white"
+                    aria-label={`Remove ${record.name}`}
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
         )}
       </div>
       
@@ -129,7 +213,8 @@ export const Push2WebManager: React.FC<Push2WebManagerProps> = ({
         
         <button
           onClick={handleLogout}
-          className="flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-red-500 hover:bg-red-600 rounded-lg text-white text-sm font-medium"
+          disabled={!isLoggedIn}
+          className="flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-red-500 hover:bg-red-600 disabled:opacity-40 rounded-lg text-white text-sm font-medium"
         >
           <X className="w-4 h-4" />
           <span>Logout</span>
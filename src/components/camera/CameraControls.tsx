@@ -1,18 +1,34 @@
 // src/components/camera/CameraControls.tsx - Fullscreen compatible, flip button removed
 import React from 'react';
-import { Settings } from 'lucide-react';
+import { Settings, Image } from 'lucide-react';
+import type { Lens } from '@snap/camera-kit';
 import { ControlButton } from '../ui';
+import { LensCarousel } from './LensCarousel';
 import { detectAndroid } from '../../utils/androidRecorderFix';
 
 interface CameraControlsProps {
   onSettings: () => void;
   onFlip: () => void;
+  onGallery?: () => void;
   isFullscreen?: boolean;
+  lenses?: Lens[];
+  currentLensId?: string | null;
+  onSelectLens?: (lensId: string) => void;
+  onNextLens?: () => void;
+  onPreviousLens?: () => void;
+  lensSwitchDisabled?: boolean;
 }
 
 export const CameraControls: React.FC<CameraControlsProps> = ({ 
   onSettings, 
-  isFullscreen = false 
+  onGallery,
+  isFullscreen = false,
+  lenses = [],
+  currentLensId = null,
+  onSelectLens,
+  onNextLens,
+  onPreviousLens,
+  lensSwitchDisabled = false
 }) => {
   return (
     <>
@@ -36,10 +52,31 @@ export const CameraControls: React.FC<CameraControlsProps> = ({
             )}
           </div>
           
-          <div className="w-10" /> {/* Spacer instead of flip button */}
+          {onGallery ? (
+            <ControlButton 
+              icon={Image} 
+              onClick={onGallery} 
+              label="Saved Captures"
+              size="sm"
+            />
+          ) : (
+            <div className="w-10" /> /* Spacer instead of flip button */
+          )}
         </div>
       </div>
 
+      {/* Lens carousel - swipe or tap to switch between lenses in the group */}
+      {onSelectLens && onNextLens && onPreviousLens && (
+        <LensCarousel
+          lenses={lenses}
+          currentLensId={currentLensId}
+          onSelectLens={onSelectLens}
+          onNextLens={onNextLens}
+          onPreviousLens={onPreviousLens}
+          disabled={lensSwitchDisabled}
+        />
+      )}
+
       {/* Attribution - Always visible, positioned to avoid fullscreen buttons */}
       <div 
         className={`attribution-bottom z-20 transition-all duration-300 ${
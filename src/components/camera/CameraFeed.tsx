@@ -7,10 +7,12 @@ interface CameraFeedProps {
   cameraState: CameraState;
   recordingState: RecordingState;
   isFlipped: boolean;
+  children?: React.ReactNode; // overlays drawn above the AR canvas (e.g. smile meter)
 }
 
 export const CameraFeed: React.FC<CameraFeedProps> = ({
-  cameraFeedRef
+  cameraFeedRef,
+  children
 }) => {
   return (
     <div className="flex-1 relative overflow-hidden bg-black">
@@ -31,6 +33,8 @@ export const CameraFeed: React.FC<CameraFeedProps> = ({
       >
         {/* Canvas injected here by Camera Kit */}
       </div>
+      
+      {children}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,142 @@
+// src/components/camera/LensCarousel.tsx - Swipeable lens picker for the lens group
+import React, { useEffect, useRef } from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import type { Lens } from '@snap/camera-kit';
+
+interface LensCarouselProps {
+  lenses: Lens[];
+  currentLensId: string | null;
+  onSelectLens: (lensId: string) => void;
+  onNextLens: () => void;
+  onPreviousLens: () => void;
+  disabled?: boolean;
+}
+
+// Minimum horizontal travel (px) before a touch counts as a swipe
+const SWIPE_THRESHOLD = 40;
+
+export const LensCarousel: React.FC<LensCarouselProps> = ({
+  lenses,
+  currentLensId,
+  onSelectLens,
+  onNextLens,
+  onPreviousLens,
+  disabled = false
+}) => {
+  const touchStartXRef = useRef<number | null>(null);
+  const stripRef = useRef<HTMLDivElement | null>(null);
+  const itemRefs = useRef<Map<string, HTMLButtonElement>>(new Map());
+
+  // Keep the active lens centered in the strip
+  useEffect(() => {
+    if (!currentLensId) return;
+    itemRefs.current.get(currentLensId)?.scrollIntoView({
+      behavior: 'smooth',
+      inline: 'center',
+      block: 'nearest'
+    });
+  }, [currentLensId]);
+
+  if (lenses.length < 2) return null;
+
+  // The icon strip scrolls sideways on its own - a drag there must not also change the lens
+  const handleTouchStart = (e: React.TouchEvent) => {
+    e.stopPropagation();
+    const inStrip = stripRef.current?.contains(e.target as Node) ?? false;
+    touchStartXRef.current = inStrip ? null : e.touches[0].clientX;
+  };
+
+  const handleTouchEnd = (e: React.TouchEvent) => {
+    e.stopPropagation();
+    if (touchStartXRef.current === null || disabled) return;
+
+    const deltaX = e.changedTouches[0].clientX - touchStartXRef.current;
+    touchStartXRef.current = null;
+
+    if (deltaX <= -SWIPE_THRESHOLD) {
+      onNextLens();
+    } else if (deltaX >= SWIPE_THRESHOLD) {
+      onPreviousLens();
+    }
+  };
+
+  return (
+    <div
+      className="absolute bottom-12 inset-x-0 z-20 flex items-center justify-center px-2"
+      onTouchStart={handleTouchStart}
+      onTouchEnd={handleTouchEnd}
+      onMouseDown={(e) => e.stopPropagation()}
+      onClick={(e) => e.stopPropagation()}
+    >
+      <button
+        onClick={onPreviousLens}
+        disabled={disabled}
+        aria-label="Previous lens"
+        className="w-8 h-8 flex-shrink-0 rounded-full bg-black/30 text-white flex items-center justify-center disabled:opacity-50"
+      >
+        <ChevronLeft className="w-5 h-5" />
+      </button>
+
+      <div ref={stripRef} className="flex-1 max-w-md overflow-x-auto snap-x snap-mandatory mx-2 scrollbar-hide">
+        <div className="flex items-center gap-3 px-[40%] py-2">
+          {lenses.map((lens) => {
+            const isActive = lens.id === currentLensId;
+
+            return (
+              <button
+                key={lens.id}
+                ref={(el) => {
+                  if (el) {
+                    itemRefs.current.set(lens.id, el);
+                  } else {
+                    itemRefs.current.delete(lens.id);
+                  }
+                }}
+                onClick={() => !isActive && onSelectLens(lens.id)}
+                disabled={disabled}
+                aria-label={`Apply lens ${lens.name}`}
+                aria-pressed={isActive}
+                className={`
+                  snap-center
+                  flex-shrink-0
+                  rounded-full
+                  overflow-hidden
+                  border-2
+                  transition-all
+                  duration-200
+                  disabled:opacity-50
+                  ${isActive
+                    ? 'w-16 h-16 border-white scale-110'
+                    : 'w-12 h-12 border-white/30 opacity-80'
+                  }
+                `}
+              >
+                {lens.iconUrl ? (
+                  <img
+                    src={lens.iconUrl}
+                    alt={lens.name}
+                    className="w-full h-full object-cover"
+                    draggable={false}
+                  />
+                ) : (
+                  <div className="w-full h-full bg-white/20 backdrop-blur-md flex items-center justify-center text-white text-xs font-medium">
+                    {lens.name.substring(0, 2).toUpperCase()}
+                  </div>
+                )}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      <button
+        onClick={onNextLens}
+        disabled={disabled}
+        aria-label="Next lens"
+        className="w-8 h-8 flex-shrink-0 rounded-full bg-black/30 text-white flex items-center justify-center disabled:opacity-50"
+      >
+        <ChevronRight className="w-5 h-5" />
+      </button>
+    </div>
+  );
+};
@@ -1,8 +1,9 @@
 // src/components/camera/RecordingControls.tsx - All buttons hidden
 import React from 'react';
-import { SwitchCamera, RefreshCw } from 'lucide-react';
+import { SwitchCamera, RefreshCw, Timer, Clock } from 'lucide-react';
 import { ControlButton, RecordButton } from '../ui';
-import type { RecordingState } from '../../hooks';
+import { RECORDING_CONFIG } from '../../utils/constants';
+import type { RecordingState, CaptureMode } from '../../hooks';
 
 interface RecordingControlsProps {
   recordingState: RecordingState;
@@ -12,8 +13,22 @@ interface RecordingControlsProps {
   onSwitchCamera: () => void;
   formatTime: (seconds: number) => string;
   disabled?: boolean;
+  captureMode?: CaptureMode;
+  onCaptureModeChange?: (mode: CaptureMode) => void;
+  countdown?: number | null;
+  preRollSeconds?: number;
+  onPreRollChange?: (seconds: number) => void;
+  clipDuration?: number | null;
+  onClipDurationChange?: (seconds: number | null) => void;
+  maxDuration?: number;
+  minDuration?: number;
+  clipRejection?: string | null;
+  recordingError?: string | null;
 }
 
+const optionClass = (active: boolean) =>
+  `px-2 py-0.5 rounded-full transition-colors disabled:opacity-50 ${active ? 'bg-white text-black' : 'text-white/70'}`;
+
 export const RecordingControls: React.FC<RecordingControlsProps> = ({
   recordingState,
   recordingTime,
@@ -21,10 +36,103 @@ export const RecordingControls: React.FC<RecordingControlsProps> = ({
   onGallery,
   onSwitchCamera,
   formatTime,
-  disabled = false
+  disabled = false,
+  captureMode = 'video',
+  onCaptureModeChange,
+  countdown = null,
+  preRollSeconds = 0,
+  onPreRollChange,
+  clipDuration = null,
+  onClipDurationChange,
+  maxDuration,
+  minDuration,
+  clipRejection = null,
+  recordingError = null
 }) => {
+  const settingsLocked = disabled || recordingState !== 'idle' || countdown !== null;
+
   return (
     <div className="absolute bottom-0 inset-x-0 p-6 bg-gradient-to-t from-black/50 to-transparent z-10" style={{ display: 'none' }}>
+      {/* Capture mode switch - locked while a capture is running */}
+      {onCaptureModeChange && (
+        <div className="flex justify-center mb-4">
+          <div className="flex bg-black/30 backdrop-blur-md rounded-full p-1 text-sm">
+            {(['video', 'photo'] as CaptureMode[]).map((mode) => (
+              <button
+                key={mode}
+                onClick={() => onCaptureModeChange(mode)}
+                disabled={settingsLocked}
+                className={`px-4 py-1 rounded-full font-medium transition-colors disabled:opacity-50 ${
+                  captureMode === mode ? 'bg-white text-black' : 'text-white/70'
+                }`}
+              >
+                {mode === 'video' ? 'Video' : 'Photo'}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+      
+      {/* Pre-roll countdown and clip length - video only */}
+      {captureMode === 'video' && (onPreRollChange || onClipDurationChange) && (
+        <div className="flex justify-center gap-3 mb-4 text-xs">
+          {onPreRollChange && (
+            <div className="flex items-center bg-black/30 backdrop-blur-md rounded-full p-1 gap-1">
+              <Timer className="w-4 h-4 text-white/70 mx-1" aria-label="Countdown" />
+              {RECORDING_CONFIG.PRE_ROLL_OPTIONS.map((seconds) => (
+                <button
+                  key={seconds}
+                  onClick={() => onPreRollChange(seconds)}
+                  disabled={settingsLocked}
+                  className={optionClass(preRollSeconds === seconds)}
+                >
+                  {seconds === 0 ? 'Off' : `${seconds}s`}
+                </button>
+              ))}
+            </div>
+          )}
+          
+          {onClipDurationChange && (
+            <div className="flex items-center bg-black/30 backdrop-blur-md rounded-full p-1 gap-1">
+              <Clock className="w-4 h-4 text-white/70 mx-1" aria-label="Clip length" />
+              <button
+                onClick={() => onClipDurationChange(null)}
+                disabled={settingsLocked}
+                className={optionClass(clipDuration === null)}
+              >
+                Free
+              </button>
+              {RECORDING_CONFIG.CLIP_LENGTH_OPTIONS.map((seconds) => (
+                <button
+                  key={seconds}
+                  onClick={() => onClipDurationChange(seconds)}
+                  disabled={settingsLocked}
+                  className={optionClass(clipDuration === seconds)}
+                >
+                  {seconds}s
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+      
+      {clipRejection && (
+        <div className="flex justify-center mb-3">
+          <div className="bg-yellow-500/90 text-black text-xs font-medium px-3 py-1 rounded-full">
+            {clipRejection}
+          </div>
+        </div>
+      )}
+      
+      {recordingError && (
+        <div className="flex justify-center mb-3">
+          <div className="bg-red-500/90 text-white text-xs font-medium px-3 py-1 rounded-full">
+            {recordingError}
+          </div>
+        </div>
+      )}
+      
       <div className="flex items-center justify-between">
         <ControlButton 
           icon={SwitchCamera} 
@@ -40,6 +148,11 @@ export const RecordingControls: React.FC<RecordingControlsProps> = ({
           onClick={onToggleRecording}
           disabled={disabled}
           formatTime={formatTime}
+          captureMode={captureMode}
+          countdown={countdown}
+          maxDuration={maxDuration}
+          minDuration={minDuration}
+          isFixedLength={clipDuration !== null}
         />
         
         <ControlButton 
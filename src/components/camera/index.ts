@@ -1,4 +1,5 @@
 // src/components/camera/index.ts
 export { CameraFeed } from './CameraFeed';
 export { CameraControls } from './CameraControls';
-export { RecordingControls } from './RecordingControls';
\ No newline at end of file
+export { RecordingControls } from './RecordingControls';
+export { LensCarousel } from './LensCarousel';
\ No newline at end of file
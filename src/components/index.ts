@@ -11,5 +11,5 @@ export * from './video';
 export * from './settings';
 
 // Login Components
-export { LoginKit } from './LoginKit';
+export { LoginModal } from './LoginModal';
 export { Push2WebManager } from './Push2WebManager';  // ← ADD THIS
\ No newline at end of file
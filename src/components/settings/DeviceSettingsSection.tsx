@@ -0,0 +1,106 @@
+// src/components/settings/DeviceSettingsSection.tsx - Camera + microphone pickers (by deviceId)
+import React, { useState } from 'react';
+import { RotateCcw } from 'lucide-react';
+import type { DeviceSelection } from '../../utils/cameraHelpers';
+
+interface DeviceSettingsSectionProps {
+  videoDevices: MediaDeviceInfo[];
+  audioDevices: MediaDeviceInfo[];
+  currentStream?: MediaStream | null;
+  onSelect: (changes: Partial<DeviceSelection>) => Promise<MediaStream | null>;
+  onRefresh: () => void;
+  disabled?: boolean;
+}
+
+const deviceLabel = (device: MediaDeviceInfo, index: number, fallback: string): string => {
+  return device.label || `${fallback} ${index + 1}`;
+};
+
+export const DeviceSettingsSection: React.FC<DeviceSettingsSectionProps> = ({
+  videoDevices,
+  audioDevices,
+  currentStream,
+  onSelect,
+  onRefresh,
+  disabled = false
+}) => {
+  const [isSwitching, setIsSwitching] = useState<boolean>(false);
+
+  // Highlight what's actually live rather than what was saved - "default" resolves to a real device
+  const activeVideoId = currentStream?.getVideoTracks()[0]?.getSettings().deviceId || null;
+  const activeAudioId = currentStream?.getAudioTracks()[0]?.getSettings().deviceId || null;
+
+  const handleSelect = async (changes: Partial<DeviceSelection>) => {
+    setIsSwitching(true);
+    try {
+      await onSelect(changes);
+    } finally {
+      setIsSwitching(false);
+    }
+  };
+
+  const isDisabled = disabled || isSwitching;
+
+  const optionClass = (isSelected: boolean) => `w-full text-left px-3 py-2 rounded transition-colors disabled:opacity-40 ${
+    isSelected
+      ? 'bg-purple-500/30 border border-purple-500/50 text-purple-200'
+      : 'bg-black/20 hover:bg-black/40 text-white/60'
+  }`;
+
+  return (
+    <div className="space-y-4">
+      {/* Camera */}
+      <div className="text-white/80 text-sm">
+        <div className="flex justify-between items-center mb-2">
+          <p className="font-medium">📷 Camera:</p>
+          <button
+            onClick={onRefresh}
+            className="text-white/60 hover:text-white text-xs flex items-center space-x-1"
+          >
+            <RotateCcw className="w-3 h-3" />
+            <span>Rescan</span>
+          </button>
+        </div>
+        {videoDevices.length > 0 ? (
+          <div className="space-y-1">
+            {videoDevices.map((device, index) => (
+              <button
+                key={device.deviceId}
+                onClick={() => handleSelect({ videoDeviceId: device.deviceId })}
+                disabled={isDisabled || activeVideoId === device.deviceId}
+                className={optionClass(activeVideoId === device.deviceId)}
+              >
+                <span className="block truncate">{deviceLabel(device, index, 'Camera')}</span>
+              </button>
+            ))}
+          </div>
+        ) : (
+          <p className="text-xs text-white/60 bg-black/20 p-3 rounded">No cameras found</p>
+        )}
+      </div>
+
+      {/* Microphone */}
+      <div className="text-white/80 text-sm">
+        <p className="mb-2 font-medium">🎤 Microphone:</p>
+        {audioDevices.length > 0 ? (
+          <div className="space-y-1">
+            {audioDevices.map((device, index) => (
+              <button
+                key={device.deviceId}
+                onClick={() => handleSelect({ audioDeviceId: device.deviceId })}
+                disabled={isDisabled || activeAudioId === device.deviceId}
+                className={optionClass(activeAudioId === device.deviceId)}
+              >
+                <span className="block truncate">{deviceLabel(device, index, 'Microphone')}</span>
+              </button>
+            ))}
+          </div>
+        ) : (
+          <p className="text-xs text-white/60 bg-black/20 p-3 rounded">No microphones found</p>
+        )}
+      </div>
+
+      {isSwitching && <p className="text-xs text-white/60">Switching devices...</p>}
+    </div>
+  );
+};
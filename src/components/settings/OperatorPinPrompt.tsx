@@ -0,0 +1,120 @@
+// src/components/settings/OperatorPinPrompt.tsx - Keypad gate in front of the operator settings
+import React, { useState, useEffect } from 'react';
+import { Lock, X, Delete } from 'lucide-react';
+import { OPERATOR_CONFIG } from '../../utils/constants';
+
+interface OperatorPinPromptProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSubmit: (pin: string) => Promise<boolean>;
+  lockedUntil: number | null;
+}
+
+const KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9', 'clear', '0', 'back'];
+
+export const OperatorPinPrompt: React.FC<OperatorPinPromptProps> = ({
+  isOpen,
+  onClose,
+  onSubmit,
+  lockedUntil
+}) => {
+  const [pin, setPin] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+  const [isChecking, setIsChecking] = useState<boolean>(false);
+  const [now, setNow] = useState<number>(Date.now());
+
+  useEffect(() => {
+    if (!isOpen) {
+      setPin('');
+      setError(null);
+    }
+  }, [isOpen]);
+
+  // Tick while locked out so the countdown updates
+  useEffect(() => {
+    if (!isOpen || !lockedUntil) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [isOpen, lockedUntil]);
+
+  if (!isOpen) return null;
+
+  const lockoutSeconds = lockedUntil ? Math.max(0, Math.ceil((lockedUntil - now) / 1000)) : 0;
+  const isLockedOut = lockoutSeconds > 0;
+
+  const handleKey = (key: string) => {
+    setError(null);
+    if (key === 'clear') {
+      setPin('');
+    } else if (key === 'back') {
+      setPin(prev => prev.slice(0, -1));
+    } else if (pin.length < OPERATOR_CONFIG.PIN_MAX_LENGTH) {
+      setPin(prev => prev + key);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (pin.length < OPERATOR_CONFIG.PIN_MIN_LENGTH || isChecking) return;
+    setIsChecking(true);
+    const success = await onSubmit(pin);
+    setIsChecking(false);
+    if (!success) {
+      setPin('');
+      setError('Wrong PIN');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/90 backdrop-blur-sm z-50 flex items-center justify-center p-6">
+      <div className="bg-white/10 rounded-xl p-6 w-full max-w-xs text-center">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-white text-lg font-semibold flex items-center gap-2">
+            <Lock className="w-5 h-5" /> Operator PIN
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-white/60 hover:text-white transition-colors"
+            aria-label="Close"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex justify-center gap-2 mb-2 h-4">
+          {Array.from({ length: Math.max(pin.length, OPERATOR_CONFIG.PIN_MIN_LENGTH) }).map((_, i) => (
+            <span
+              key={i}
+              className={`w-3 h-3 rounded-full ${i < pin.length ? 'bg-white' : 'bg-white/20'}`}
+            />
+          ))}
+        </div>
+
+        <p className="text-xs h-4 mb-4 text-red-400">
+          {isLockedOut ? `Too many attempts - wait ${lockoutSeconds}s` : error}
+        </p>
+
+        <div className="grid grid-cols-3 gap-3 mb-4">
+          {KEYS.map((key) => (
+            <button
+              key={key}
+              onClick={() => handleKey(key)}
+              disabled={isLockedOut || isChecking}
+              className="h-14 rounded-lg bg-white/10 hover:bg-white/20 text-white text-xl font-medium disabled:opacity-40 flex items-center justify-center"
+              aria-label={key === 'back' ? 'Delete' : key === 'clear' ? 'Clear' : key}
+            >
+              {key === 'back' ? <Delete className="w-5 h-5" /> : key === 'clear' ? <span className="text-sm">C</span> : key}
+            </button>
+          ))}
+        </div>
+
+        <button
+          onClick={handleSubmit}
+          disabled={isLockedOut || isChecking || pin.length < OPERATOR_CONFIG.PIN_MIN_LENGTH}
+          className="w-full py-3 rounded-lg bg-purple-600 hover:bg-purple-700 text-white font-medium disabled:opacity-40"
+        >
+          {isChecking ? 'Checking...' : 'Unlock'}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,327 @@
+// src/components/settings/OperatorSettingsSection.tsx - Kiosk configuration (lens group, limits, bitrate, PIN)
+import React, { useState, useEffect } from 'react';
+import { Lock, KeyRound } from 'lucide-react';
+import type { Lens } from '@snap/camera-kit';
+import { BITRATE_PROFILES, OPERATOR_CONFIG, RECORDING_CONFIG, RENDER_CONFIG, SMILE_CONFIG } from '../../utils/constants';
+import { isValidPin } from '../../utils/operatorSettings';
+import type { BitrateProfile, OperatorSettings, SmileAutoCapture } from '../../utils/operatorSettings';
+import type { RenderQuality, RenderQualitySetting } from '../../utils/resolutionDetector';
+
+interface OperatorSettingsSectionProps {
+  settings: OperatorSettings;
+  onChange: (changes: Partial<OperatorSettings>) => void;
+  lenses: Lens[];
+  currentLensId: string | null;
+  onApplyLens: (lensId: string) => void;
+  isUsingDefaultPin: boolean;
+  onChangePin: (pin: string) => Promise<boolean>;
+  onLock: () => void;
+  disabled?: boolean;
+}
+
+export const OperatorSettingsSection: React.FC<OperatorSettingsSectionProps> = ({
+  settings,
+  onChange,
+  lenses,
+  currentLensId,
+  onApplyLens,
+  isUsingDefaultPin,
+  onChangePin,
+  onLock,
+  disabled = false
+}) => {
+  const [lensGroupDraft, setLensGroupDraft] = useState<string>(settings.lensGroupId);
+  const [newPin, setNewPin] = useState<string>('');
+  const [pinMessage, setPinMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    setLensGroupDraft(settings.lensGroupId);
+  }, [settings.lensGroupId]);
+
+  const lensGroupChanged = lensGroupDraft.trim() !== settings.lensGroupId;
+
+  // Lens groups are loaded once per Camera Kit session - a reload picks up the new group
+  const applyLensGroup = () => {
+    const lensGroupId = lensGroupDraft.trim();
+    if (!lensGroupId) return;
+    onChange({ lensGroupId });
+    window.location.reload();
+  };
+
+  const handleSelectLens = (lensId: string) => {
+    onChange({ lensId });
+    onApplyLens(lensId);
+  };
+
+  const handleChangePin = async () => {
+    if (!isValidPin(newPin)) {
+      setPinMessage(`Use ${OPERATOR_CONFIG.PIN_MIN_LENGTH}-${OPERATOR_CONFIG.PIN_MAX_LENGTH} digits`);
+      return;
+    }
+    const success = await onChangePin(newPin);
+    setPinMessage(success ? 'PIN updated' : 'PIN change failed');
+    if (success) setNewPin('');
+  };
+
+  const smileAutoCaptureOptions: Array<{ value: SmileAutoCapture; label: string }> = [
+    { value: 'off', label: 'Off' },
+    { value: 'photo', label: 'Photo' },
+    { value: 'video', label: 'Video' }
+  ];
+
+  const renderQualityOptions: RenderQualitySetting[] = ['auto', ...(Object.keys(RENDER_CONFIG.QUALITY_PROFILES) as RenderQuality[])];
+
+  const optionClass = (isSelected: boolean) => `px-3 py-2 rounded transition-colors disabled:opacity-40 ${
+    isSelected
+      ? 'bg-purple-500/30 border border-purple-500/50 text-purple-200'
+      : 'bg-black/20 hover:bg-black/40 text-white/60'
+  }`;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center text-white/80 text-sm">
+        <p className="font-medium flex items-center gap-1">
+          <span className="text-green-400">🔓</span> Operator Mode
+        </p>
+        <button
+          onClick={onLock}
+          className="text-white/60 hover:text-white text-xs flex items-center space-x-1"
+        >
+          <Lock className="w-3 h-3" />
+          <span>Lock</span>
+        </button>
+      </div>
+
+      {isUsingDefaultPin && (
+        <p className="text-xs text-yellow-300 bg-yellow-500/10 border border-yellow-500/30 p-2 rounded">
+          ⚠️ Default PIN in use - set a new one below before the event.
+        </p>
+      )}
+
+      {/* Lens group + default lens */}
+      <div className="text-white/80 text-sm">
+        <p className="mb-2 font-medium">🎭 Lens Group:</p>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={lensGroupDraft}
+            onChange={(e) => setLensGroupDraft(e.target.value)}
+            disabled={disabled}
+            className="flex-1 min-w-0 bg-black/30 border border-white/10 rounded px-2 py-1 text-white text-xs font-mono"
+          />
+          <button
+            onClick={applyLensGroup}
+            disabled={disabled || !lensGroupChanged || !lensGroupDraft.trim()}
+            className="px-3 py-1 rounded bg-purple-600 hover:bg-purple-700 text-white text-xs disabled:opacity-40"
+          >
+            Apply & Reload
+          </button>
+        </div>
+
+        {lenses.length > 0 && (
+          <>
+            <p className="mt-3 mb-2 font-medium">Default Lens:</p>
+            <div className="space-y-1 max-h-40 overflow-y-auto">
+              {lenses.map((lens) => (
+                <button
+                  key={lens.id}
+                  onClick={() => handleSelectLens(lens.id)}
+                  disabled={disabled}
+                  className={`w-full text-left ${optionClass(settings.lensId === lens.id)}`}
+                >
+                  <div className="flex justify-between items-center">
+                    <span className="truncate">{lens.name}</span>
+                    {currentLensId === lens.id && <span className="text-xs opacity-70">active</span>}
+                  </div>
+                </button>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+
+      {/* Recording limit */}
+      <div className="text-white/80 text-sm">
+        <p className="mb-2 font-medium">⏱️ Max Recording Length:</p>
+        <div className="grid grid-cols-4 gap-2">
+          {RECORDING_CONFIG.MAX_DURATION_OPTIONS.map((seconds) => (
+            <button
+              key={seconds}
+              onClick={() => onChange({ maxRecordingDuration: seconds })}
+              disabled={disabled}
+              className={optionClass(settings.maxRecordingDuration === seconds)}
+            >
+              {seconds}s
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Bitrate profile */}
+      <div className="text-white/80 text-sm">
+        <p className="mb-2 font-medium">🚀 Bitrate Profile:</p>
+        <div className="grid grid-cols-3 gap-2">
+          {(Object.keys(BITRATE_PROFILES) as BitrateProfile[]).map((profile) => (
+            <button
+              key={profile}
+              onClick={() => onChange({ bitrateProfile: profile })}
+              disabled={disabled}
+              className={optionClass(settings.bitrateProfile === profile)}
+            >
+              <span className="block">{BITRATE_PROFILES[profile].label}</span>
+              <span className="block text-xs opacity-70">{BITRATE_PROFILES[profile].mp4 / 1000000}Mbps</span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Render quality */}
+      <div className="text-white/80 text-sm">
+        <p className="mb-2 font-medium">🖼️ AR Render Quality:</p>
+        <div className="grid grid-cols-4 gap-2">
+          {renderQualityOptions.map((quality) => (
+            <button
+              key={quality}
+              onClick={() => onChange({ renderQuality: quality })}
+              disabled={disabled}
+              className={optionClass(settings.renderQuality === quality)}
+            >
+              <span className="block">{quality === 'auto' ? 'Auto' : RENDER_CONFIG.QUALITY_PROFILES[quality].label}</span>
+              <span className="block text-xs opacity-70">{quality === 'auto' ? 'device' : `${RENDER_CONFIG.QUALITY_PROFILES[quality].longEdge}p`}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Performance */}
+      <div className="text-white/80 text-sm bg-black/20 p-3 rounded space-y-2">
+        <label className="flex items-center justify-between">
+          <span>🐢 Auto-lower quality when FPS drops</span>
+          <input
+            type="checkbox"
+            checked={settings.autoQualityDowngrade}
+            onChange={(e) => onChange({ autoQualityDowngrade: e.target.checked })}
+            disabled={disabled}
+          />
+        </label>
+        <label className="flex items-center justify-between">
+          <span>📈 Performance overlay</span>
+          <input
+            type="checkbox"
+            checked={settings.showPerformanceOverlay}
+            onChange={(e) => onChange({ showPerformanceOverlay: e.target.checked })}
+            disabled={disabled}
+          />
+        </label>
+      </div>
+
+      {/* Auto-share */}
+      <label className="flex items-center justify-between text-white/80 text-sm bg-black/20 p-3 rounded">
+        <span>📤 Auto-share after recording</span>
+        <input
+          type="checkbox"
+          checked={settings.autoShare}
+          onChange={(e) => onChange({ autoShare: e.target.checked })}
+          disabled={disabled}
+        />
+      </label>
+
+      {/* Smile meter */}
+      <div className="text-white/80 text-sm">
+        <label className="flex items-center justify-between mb-2">
+          <span className="font-medium">😊 Smile Meter</span>
+          <input
+            type="checkbox"
+            checked={settings.smileMeterEnabled}
+            onChange={(e) => onChange({ smileMeterEnabled: e.target.checked })}
+            disabled={disabled}
+          />
+        </label>
+
+        {settings.smileMeterEnabled && (
+          <div className="bg-black/20 p-3 rounded space-y-3">
+            <div>
+              <p className="text-xs text-white/60 mb-1">Auto capture on smile:</p>
+              <div className="grid grid-cols-3 gap-2">
+                {smileAutoCaptureOptions.map(({ value, label }) => (
+                  <button
+                    key={value}
+                    onClick={() => onChange({ smileAutoCapture: value })}
+                    disabled={disabled}
+                    className={optionClass(settings.smileAutoCapture === value)}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <p className="text-xs text-white/60 mb-1">Smile threshold:</p>
+              <div className="grid grid-cols-4 gap-2">
+                {SMILE_CONFIG.THRESHOLD_OPTIONS.map((threshold) => (
+                  <button
+                    key={threshold}
+                    onClick={() => onChange({ smileThreshold: threshold })}
+                    disabled={disabled}
+                    className={optionClass(settings.smileThreshold === threshold)}
+                  >
+                    {Math.round(threshold * 100)}%
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <p className="text-xs text-white/60 mb-1">Hold for:</p>
+              <div className="grid grid-cols-3 gap-2">
+                {SMILE_CONFIG.HOLD_FRAME_OPTIONS.map((frames) => (
+                  <button
+                    key={frames}
+                    onClick={() => onChange({ smileHoldFrames: frames })}
+                    disabled={disabled}
+                    className={optionClass(settings.smileHoldFrames === frames)}
+                  >
+                    <span className="block">{frames} frames</span>
+                    <span className="block text-xs opacity-70">~{(frames * SMILE_CONFIG.SAMPLE_INTERVAL / 1000).toFixed(1)}s</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* PIN */}
+      <div className="text-white/80 text-sm">
+        <p className="mb-2 font-medium flex items-center gap-1">
+          <KeyRound className="w-4 h-4" /> Change PIN:
+        </p>
+        <div className="flex gap-2">
+          <input
+            type="password"
+            inputMode="numeric"
+            value={newPin}
+            onChange={(e) => {
+              setNewPin(e.target.value.replace(/\D/g, '').slice(0, OPERATOR_CONFIG.PIN_MAX_LENGTH));
+              setPinMessage(null);
+            }}
+            placeholder="New PIN"
+            className="flex-1 min-w-0 bg-black/30 border border-white/10 rounded px-2 py-1 text-white text-sm"
+          />
+          <button
+            onClick={handleChangePin}
+            disabled={!newPin}
+            className="px-3 py-1 rounded bg-purple-600 hover:bg-purple-700 text-white text-xs disabled:opacity-40"
+          >
+            Save
+          </button>
+        </div>
+        {pinMessage && <p className="text-xs text-white/60 mt-1">{pinMessage}</p>}
+        <p className="text-xs text-white/40 mt-1">
+          The PIN stops guests from casually changing settings. It is not a security control.
+        </p>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,127 @@
+// src/components/settings/OverlaySettingsSection.tsx - Branding overlay controls for SettingsPanel
+import React from 'react';
+import { RotateCcw } from 'lucide-react';
+import { OVERLAY_CONFIG } from '../../utils/constants';
+import type { OverlayLayout, OverlaySettings } from '../../utils/overlayCompositor';
+
+interface OverlaySettingsSectionProps {
+  settings: OverlaySettings;
+  onChange: (changes: Partial<OverlaySettings>) => void;
+  onReset: () => void;
+  disabled?: boolean;
+}
+
+const LAYOUT_LABELS: Record<OverlayLayout, { label: string; description: string }> = {
+  none: { label: 'None', description: 'Raw AR output' },
+  minimal: { label: 'Minimal', description: 'Corner logo + hashtag' },
+  frame: { label: 'Frame', description: 'Colored border with caption band' },
+  banner: { label: 'Banner', description: 'Bottom gradient with logo & event' }
+};
+
+export const OverlaySettingsSection: React.FC<OverlaySettingsSectionProps> = ({
+  settings,
+  onChange,
+  onReset,
+  disabled = false
+}) => {
+  const isEnabled = settings.layout !== 'none';
+
+  const toggles: Array<{ key: 'showLogo' | 'showDate' | 'showAttribution'; label: string }> = [
+    { key: 'showLogo', label: 'Logo' },
+    { key: 'showDate', label: 'Date' },
+    { key: 'showAttribution', label: 'Attribution' }
+  ];
+
+  return (
+    <div className="text-white/80 text-sm">
+      <div className="flex justify-between items-center mb-2">
+        <p className="font-medium flex items-center gap-1">
+          <span className="text-pink-400">🏷️</span> Branding Overlay:
+        </p>
+        <button
+          onClick={onReset}
+          disabled={disabled}
+          className="text-white/60 hover:text-white text-xs flex items-center space-x-1 disabled:opacity-40"
+        >
+          <RotateCcw className="w-3 h-3" />
+          <span>Reset</span>
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        {OVERLAY_CONFIG.LAYOUTS.map((layout) => {
+          const isSelected = settings.layout === layout;
+          return (
+            <button
+              key={layout}
+              onClick={() => onChange({ layout })}
+              disabled={disabled}
+              className={`text-left px-3 py-2 rounded transition-colors disabled:opacity-40 ${
+                isSelected
+                  ? 'bg-pink-500/30 border border-pink-500/50 text-pink-200'
+                  : 'bg-black/20 hover:bg-black/40 text-white/60'
+              }`}
+            >
+              <span className="block font-medium">{LAYOUT_LABELS[layout].label}</span>
+              <span className="block text-xs opacity-70">{LAYOUT_LABELS[layout].description}</span>
+            </button>
+          );
+        })}
+      </div>
+
+      {isEnabled && (
+        <div className="bg-black/20 p-3 rounded mt-2 space-y-2">
+          <label className="block text-xs text-white/60">
+            Event name
+            <input
+              type="text"
+              value={settings.eventName}
+              onChange={(e) => onChange({ eventName: e.target.value })}
+              disabled={disabled}
+              maxLength={40}
+              className="mt-1 w-full bg-black/30 border border-white/10 rounded px-2 py-1 text-white text-sm"
+            />
+          </label>
+          <label className="block text-xs text-white/60">
+            Hashtag
+            <input
+              type="text"
+              value={settings.hashtag}
+              onChange={(e) => onChange({ hashtag: e.target.value })}
+              disabled={disabled}
+              maxLength={40}
+              className="mt-1 w-full bg-black/30 border border-white/10 rounded px-2 py-1 text-white text-sm"
+            />
+          </label>
+          <div className="flex items-center justify-between text-xs text-white/60">
+            <span>Accent color</span>
+            <input
+              type="color"
+              value={settings.accentColor}
+              onChange={(e) => onChange({ accentColor: e.target.value })}
+              disabled={disabled}
+              className="w-10 h-6 bg-transparent border-0 p-0"
+            />
+          </div>
+          <div className="flex flex-wrap gap-3 text-xs text-white/60">
+            {toggles.map(({ key, label }) => (
+              <label key={key} className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={settings[key]}
+                  onChange={(e) => onChange({ [key]: e.target.checked })}
+                  disabled={disabled}
+                />
+                {label}
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <p className="text-xs text-white/40 mt-2">
+        {disabled ? 'Locked while recording' : 'Burned into every new video and photo'}
+      </p>
+    </div>
+  );
+};
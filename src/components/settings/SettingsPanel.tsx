@@ -2,6 +2,9 @@ import React, { useState, useEffect } from 'react';
 import { X, Download } from 'lucide-react';
 import { detectAndroid } from '../../utils/androidRecorderFix';
 import { useFrameSize, FrameSize } from '../../hooks/useFrameSize';
+import type { RenderSizeDecision } from '../../utils/resolutionDetector';
+import { FEATURE_FLAGS } from '../../utils/constants';
+import { getKioskId } from '../../utils/logStream';
 
 interface CameraCapability {
   front: { width: number; height: number; fps: number } | null;
@@ -31,6 +34,8 @@ interface SettingsPanelProps {
   currentStream?: MediaStream | null;
   canvas?: HTMLCanvasElement | null;
   containerRef?: React.RefObject<HTMLDivElement>;
+  renderDecision?: RenderSizeDecision | null;
+  outputFps?: number | null;
   children?: React.ReactNode;
 }
 
@@ -42,6 +47,8 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
   currentStream,
   canvas,
   containerRef,
+  renderDecision = null,
+  outputFps = null,
   children
 }) => {
   const { frameSize, updateFrameSize, getFrameDimensions } = useFrameSize();
@@ -179,7 +186,6 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
     const updateARInfo = () => {
       let cameraInput = null;
       let arProcessing = null;
-      let actualFPS = null;
 
       if (currentStream) {
         const videoTrack = currentStream.getVideoTracks()[0];
@@ -190,7 +196,6 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
             height: settings.height || 0,
             fps: settings.frameRate || 0
           };
-          actualFPS = settings.frameRate || null;
         }
       }
 
@@ -205,7 +210,7 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
         cameraInput,
         arProcessing,
         displayOutput: { width: window.innerWidth, height: window.innerHeight },
-        actualFPS
+        actualFPS: outputFps // measured AR output, not the camera's nominal rate
       });
     };
 
@@ -214,7 +219,7 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
       const interval = setInterval(updateARInfo, 1000);
       return () => clearInterval(interval);
     }
-  }, [isOpen, currentStream, canvas]);
+  }, [isOpen, currentStream, canvas, outputFps]);
 
   if (!isOpen) return null;
 
@@ -350,6 +355,13 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
               }</p>
               <p>Display Output: {arInfo.displayOutput.width}×{arInfo.displayOutput.height}</p>
               <p>Processing FPS: {arInfo.actualFPS || 'Unknown'}</p>
+              <p>Render Policy: {renderDecision ?
+                `${renderDecision.width}×${renderDecision.height} • ${renderDecision.quality}${renderDecision.requestedQuality === 'auto' ? ' (auto)' : ''} • limited by ${renderDecision.limitedBy}` :
+                'Not decided'
+              }</p>
+              {renderDecision && (
+                <p>Camera Max: {renderDecision.camera.width}×{renderDecision.camera.height}@{renderDecision.camera.fps}fps</p>
+              )}
             </div>
           </div>
 
@@ -379,6 +391,9 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({
               <p>Platform: {isAndroid ? 'Android' : 'Other'} • {location.protocol} • {location.hostname}</p>
               <p>User Agent: {navigator.userAgent.substring(0, 60)}...</p>
               <p>Language: {navigator.language} • Timezone: {Intl.DateTimeFormat().resolvedOptions().timeZone}</p>
+              {FEATURE_FLAGS.ENABLE_LOG_STREAMING && (
+                <p>Kiosk ID: {getKioskId()} • Live logs at {location.origin}/logs?kiosk={getKioskId()}&amp;token=…</p>
+              )}
             </div>
           </div>
           
@@ -1,2 +1,6 @@
 // src/components/settings/index.ts
-export { SettingsPanel } from './SettingsPanel';
\ No newline at end of file
+export { SettingsPanel } from './SettingsPanel';
+export { OverlaySettingsSection } from './OverlaySettingsSection';
+export { OperatorSettingsSection } from './OperatorSettingsSection';
+export { OperatorPinPrompt } from './OperatorPinPrompt';
+export { DeviceSettingsSection } from './DeviceSettingsSection';
\ No newline at end of file
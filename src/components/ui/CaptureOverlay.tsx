@@ -0,0 +1,35 @@
+// src/components/ui/CaptureOverlay.tsx - Countdown numbers and camera flash
+import React from 'react';
+
+interface CaptureOverlayProps {
+  countdown: number | null;
+  isFlashing: boolean;
+}
+
+export const CaptureOverlay: React.FC<CaptureOverlayProps> = ({
+  countdown,
+  isFlashing
+}) => {
+  return (
+    <>
+      {countdown !== null && (
+        <div className="absolute inset-0 flex items-center justify-center z-30 pointer-events-none">
+          <div
+            key={countdown}
+            className="text-white font-bold drop-shadow-lg animate-pulse"
+            style={{ fontSize: 'clamp(96px, 30vw, 240px)' }}
+          >
+            {countdown}
+          </div>
+        </div>
+      )}
+
+      {/* White flash - fades out over PHOTO_CONFIG.FLASH_DURATION */}
+      <div
+        className={`absolute inset-0 bg-white z-40 pointer-events-none transition-opacity ${
+          isFlashing ? 'opacity-90 duration-0' : 'opacity-0 duration-300'
+        }`}
+      />
+    </>
+  );
+};
@@ -1,5 +1,11 @@
 // src/components/ui/DebugOverlay.tsx
 import React, { useState, useEffect } from 'react';
+import type { PerformanceSnapshot } from '../../utils/performanceMonitor';
+import { DEBUG_CONFIG, LOG_STORE_CONFIG } from '../../utils/constants';
+import { isLogStoreSupported, queryLogs } from '../../utils/logStore';
+import type { LogEntry, LogLevel } from '../../utils/logStore';
+import { downloadLogs } from '../../utils/logger';
+import type { LogExportFormat } from '../../utils/logger';
 
 interface DebugInfo {
   camera: {
@@ -33,13 +39,159 @@ interface DebugOverlayProps {
   canvas: HTMLCanvasElement | null;
   isVisible?: boolean;
   onToggle?: () => void;
+  performance?: PerformanceSnapshot | null;
 }
 
+interface SparklineProps {
+  values: number[];
+  max: number;
+  color: string;
+  threshold?: number;
+}
+
+const SPARKLINE_WIDTH = 200;
+const SPARKLINE_HEIGHT = 32;
+
+const Sparkline: React.FC<SparklineProps> = ({ values, max, color, threshold }) => {
+  if (values.length < 2 || max <= 0) {
+    return <div className="h-8 text-white/40">collecting...</div>;
+  }
+
+  const step = SPARKLINE_WIDTH / (values.length - 1);
+  const toY = (value: number) => SPARKLINE_HEIGHT - Math.min(value / max, 1) * SPARKLINE_HEIGHT;
+  const points = values.map((value, i) => `${(i * step).toFixed(1)},${toY(value).toFixed(1)}`).join(' ');
+
+  return (
+    <svg width={SPARKLINE_WIDTH} height={SPARKLINE_HEIGHT} className="bg-white/5 rounded">
+      {threshold !== undefined && (
+        <line
+          x1={0}
+          x2={SPARKLINE_WIDTH}
+          y1={toY(threshold)}
+          y2={toY(threshold)}
+          stroke="rgba(255,255,255,0.3)"
+          strokeDasharray="3 3"
+        />
+      )}
+      <polyline points={points} fill="none" stroke={color} strokeWidth={1.5} />
+    </svg>
+  );
+};
+
+const LOG_REFRESH_INTERVAL = 2000; // ms
+
+/**
+ * Persisted logs, newest last. Filters run against the IndexedDB store, so
+ * entries from before the last reload are searchable too.
+ */
+const LogViewer: React.FC = () => {
+  const [entries, setEntries] = useState<LogEntry[]>([]);
+  const [sources, setSources] = useState<string[]>([]);
+  const [levels, setLevels] = useState<LogLevel[]>([...DEBUG_CONFIG.LOG_LEVELS]);
+  const [source, setSource] = useState('');
+  const [search, setSearch] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const refresh = async () => {
+      try {
+        const [matches, recent] = await Promise.all([
+          queryLogs({ levels, source: source || undefined, search, limit: LOG_STORE_CONFIG.QUERY_LIMIT }),
+          queryLogs({ limit: LOG_STORE_CONFIG.QUERY_LIMIT })
+        ]);
+        if (cancelled) return;
+        setEntries(matches);
+        setSources(prev => Array.from(new Set([...prev, ...recent.map(entry => entry.source)])).sort());
+      } catch (error) {
+        console.warn('Log viewer query failed:', error);
+      }
+    };
+
+    refresh();
+    const interval = setInterval(refresh, LOG_REFRESH_INTERVAL);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [levels, source, search]);
+
+  const toggleLevel = (level: LogLevel) => {
+    setLevels(prev => prev.includes(level) ? prev.filter(l => l !== level) : [...prev, level]);
+  };
+
+  const exportFiltered = (format: LogExportFormat) => {
+    downloadLogs(format, { levels, source: source || undefined, search })
+      .catch(error => console.warn('Log export failed:', error));
+  };
+
+  if (!isLogStoreSupported()) {
+    return <div className="text-white/40">Log store unavailable (no IndexedDB)</div>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <input
+        type="search"
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+        placeholder="Search logs..."
+        className="w-full bg-white/10 rounded px-2 py-1 text-white placeholder-white/40"
+      />
+      <div className="flex flex-wrap gap-1">
+        {DEBUG_CONFIG.LOG_LEVELS.map(level => (
+          <button
+            key={level}
+            onClick={() => toggleLevel(level)}
+            className="px-2 py-0.5 rounded border"
+            style={{
+              borderColor: DEBUG_CONFIG.CONSOLE_COLORS[level],
+              backgroundColor: levels.includes(level) ? DEBUG_CONFIG.CONSOLE_COLORS[level] : 'transparent'
+            }}
+          >
+            {level}
+          </button>
+        ))}
+      </div>
+      <select
+        value={source}
+        onChange={(e) => setSource(e.target.value)}
+        className="w-full bg-white/10 rounded px-2 py-1 text-white"
+      >
+        <option value="">All sources</option>
+        {sources.map(name => (
+          <option key={name} value={name}>{name}</option>
+        ))}
+      </select>
+      <div className="bg-black/40 rounded p-2 max-h-48 overflow-y-auto space-y-1">
+        {entries.length > 0 ? entries.map(entry => (
+          <div key={entry.id} style={{ color: DEBUG_CONFIG.CONSOLE_COLORS[entry.level] }} className="break-words">
+            <span className="text-white/40">{new Date(entry.timestamp).toLocaleTimeString()}</span>{' '}
+            <span className="text-white/60">[{entry.source}]</span> {entry.message}
+            {entry.fields && <div className="text-white/40 pl-2">{JSON.stringify(entry.fields)}</div>}
+          </div>
+        )) : (
+          <div className="text-white/40">No matching logs</div>
+        )}
+      </div>
+      <div className="flex gap-2">
+        <button onClick={() => exportFiltered('text')} className="flex-1 bg-white/10 hover:bg-white/20 rounded py-1">
+          Export TXT
+        </button>
+        <button onClick={() => exportFiltered('json')} className="flex-1 bg-white/10 hover:bg-white/20 rounded py-1">
+          Export JSON
+        </button>
+      </div>
+    </div>
+  );
+};
+
 export const DebugOverlay: React.FC<DebugOverlayProps> = ({
   stream,
   canvas,
   isVisible = false,
-  onToggle
+  onToggle,
+  performance = null
 }) => {
   const [debugInfo, setDebugInfo] = useState<DebugInfo | null>(null);
 
@@ -93,6 +245,12 @@ export const DebugOverlay: React.FC<DebugOverlayProps> = ({
 
   if (!isVisible || !debugInfo) return null;
 
+  const history = performance?.history || [];
+  const fpsValues = history.map(sample => sample.fps);
+  const jitterValues = history.map(sample => sample.jitter);
+  const heapValues = history.flatMap(sample => sample.heapMB !== null ? [sample.heapMB] : []);
+  const latest = history[history.length - 1];
+
   return (
     <>
       {/* Toggle button */}
@@ -104,8 +262,31 @@ export const DebugOverlay: React.FC<DebugOverlayProps> = ({
       </button>
 
       {/* Debug panel */}
-      <div className="fixed top-4 right-4 z-50 bg-black/80 backdrop-blur-md text-white text-xs font-mono p-4 rounded-lg border border-white/20 max-w-xs">
+      <div className="fixed top-4 right-4 z-50 bg-black/80 backdrop-blur-md text-white text-xs font-mono p-4 rounded-lg border border-white/20 max-w-xs max-h-[90vh] overflow-y-auto">
         <div className="space-y-3">
+          {/* Performance */}
+          {performance && (
+            <div>
+              <div className="text-pink-400 font-bold mb-1">📈 PERFORMANCE</div>
+              <div>Output FPS: {latest ? latest.fps : '-'} / {performance.targetFps}</div>
+              <Sparkline values={fpsValues} max={performance.targetFps * 1.25} color="#4ade80" threshold={performance.targetFps} />
+              <div className="mt-1">Jitter: {latest ? `${latest.jitter}ms` : '-'}</div>
+              <Sparkline values={jitterValues} max={Math.max(20, ...jitterValues)} color="#facc15" />
+              {heapValues.length > 0 && (
+                <>
+                  <div className="mt-1">JS Heap: {heapValues[heapValues.length - 1]}MB</div>
+                  <Sparkline values={heapValues} max={Math.max(...heapValues) * 1.2} color="#60a5fa" />
+                </>
+              )}
+              <div className="mt-1">Init: {performance.metrics.initializationTime}ms • Camera: {performance.metrics.cameraStartTime}ms</div>
+              <div>Lens load: {performance.metrics.lensLoadTime}ms • Rec start: {performance.metrics.recordingStartTime}ms</div>
+              <div>Processing: {performance.metrics.processingTime}ms</div>
+              {performance.downgradeCount > 0 && (
+                <div className="text-orange-400">Quality lowered {performance.downgradeCount}×</div>
+              )}
+            </div>
+          )}
+
           {/* Camera info */}
           <div>
             <div className="text-green-400 font-bold mb-1">📹 CAMERA</div>
@@ -146,6 +327,12 @@ export const DebugOverlay: React.FC<DebugOverlayProps> = ({
               </div>
             )}
           </div>
+
+          {/* Persisted logs */}
+          <div>
+            <div className="text-cyan-400 font-bold mb-1">📜 LOGS</div>
+            <LogViewer />
+          </div>
         </div>
       </div>
     </>
@@ -0,0 +1,138 @@
+// src/components/ui/ErrorBoundary.tsx - Catches render crashes, reports them and restarts the booth
+import React from 'react';
+import { AlertTriangle, RefreshCw } from 'lucide-react';
+import { ERROR_REPORTING_CONFIG } from '../../utils/constants';
+import { reportError } from '../../utils/errorHandling';
+
+interface ErrorBoundaryProps {
+  children: React.ReactNode;
+  component: string; // names the subtree in error reports
+  onRecover?: () => void; // release resources the crashed tree held before it remounts
+}
+
+interface ErrorBoundaryState {
+  error: Error | null;
+  countdown: number;
+  recoveryKey: number;
+}
+
+/**
+ * An unattended booth can't sit on a blank screen: after a crash the tree is
+ * remounted (re-running app initialization) once the countdown ends. Repeated
+ * crashes fall back to a full page reload.
+ */
+export class ErrorBoundary extends React.Component<ErrorBoundaryProps, ErrorBoundaryState> {
+  state: ErrorBoundaryState = {
+    error: null,
+    countdown: ERROR_REPORTING_CONFIG.RECOVERY_DELAY,
+    recoveryKey: 0
+  };
+
+  private countdownTimer: number | null = null;
+  private crashTimes: number[] = [];
+
+  static getDerivedStateFromError(error: Error): Partial<ErrorBoundaryState> {
+    return { error, countdown: ERROR_REPORTING_CONFIG.RECOVERY_DELAY };
+  }
+
+  componentDidCatch(error: Error, info: React.ErrorInfo) {
+    const now = Date.now();
+    this.crashTimes = [...this.crashTimes, now].filter(time => now - time < ERROR_REPORTING_CONFIG.RECOVERY_WINDOW);
+
+    reportError(error, this.props.component, 'render', {
+      componentStack: info.componentStack,
+      crashesInWindow: this.crashTimes.length
+    });
+
+    this.startCountdown();
+  }
+
+  componentWillUnmount() {
+    this.stopCountdown();
+  }
+
+  private startCountdown() {
+    this.stopCountdown();
+    this.countdownTimer = window.setInterval(() => {
+      if (this.state.countdown <= 1) {
+        this.recover();
+      } else {
+        this.setState(state => ({ countdown: state.countdown - 1 }));
+      }
+    }, 1000);
+  }
+
+  private stopCountdown() {
+    if (this.countdownTimer !== null) {
+      clearInterval(this.countdownTimer);
+      this.countdownTimer = null;
+    }
+  }
+
+  private recover = () => {
+    this.stopCountdown();
+
+    // Remounting keeps crashing - start over from a clean page
+    if (this.crashTimes.length >= ERROR_REPORTING_CONFIG.MAX_RECOVERIES) {
+      window.location.reload();
+      return;
+    }
+
+    try {
+      this.props.onRecover?.();
+    } catch (error) {
+      reportError(error, this.props.component, 'recover');
+    }
+
+    this.setState(state => ({
+      error: null,
+      countdown: ERROR_REPORTING_CONFIG.RECOVERY_DELAY,
+      recoveryKey: state.recoveryKey + 1
+    }));
+  };
+
+  render() {
+    const { error, countdown, recoveryKey } = this.state;
+
+    if (!error) {
+      return <React.Fragment key={recoveryKey}>{this.props.children}</React.Fragment>;
+    }
+
+    const willReload = this.crashTimes.length >= ERROR_REPORTING_CONFIG.MAX_RECOVERIES;
+
+    return (
+      <div className="fixed inset-0 flex items-center justify-center bg-black z-50">
+        <div className="text-center px-6 max-w-md">
+          <div className="w-20 h-20 bg-red-500/20 rounded-full flex items-center justify-center mx-auto mb-6">
+            <AlertTriangle className="w-10 h-10 text-red-400" />
+          </div>
+
+          <div className="text-white text-xl font-medium mb-3">
+            Something went wrong
+          </div>
+
+          <div className="text-white/70 text-sm mb-6">
+            {willReload ? 'Reloading the booth' : 'Restarting the camera'} in {countdown}s...
+          </div>
+
+          <button
+            onClick={this.recover}
+            className="w-full px-6 py-3 bg-white/20 hover:bg-white/30 rounded-lg text-white font-medium transition-colors"
+          >
+            <RefreshCw className="w-5 h-5 inline mr-2" />
+            Restart Now
+          </button>
+
+          <details className="mt-6 text-left">
+            <summary className="text-white/50 text-xs cursor-pointer hover:text-white/70">
+              Technical Details
+            </summary>
+            <div className="mt-2 p-3 bg-black/50 rounded text-xs font-mono text-white/60 break-words">
+              {error.name}: {error.message}
+            </div>
+          </details>
+        </div>
+      </div>
+    );
+  }
+}
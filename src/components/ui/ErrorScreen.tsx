@@ -1,13 +1,17 @@
 // src/components/ui/ErrorScreen.tsx
 import React from 'react';
-import { Shield, Wifi, Camera, AlertTriangle, RefreshCw } from 'lucide-react';
-import type { ErrorInfo, PermissionState } from '../../hooks';
+import { Shield, Wifi, Camera, AlertTriangle, RefreshCw, Lock, Settings, Sparkles, LogIn } from 'lucide-react';
+import type { PermissionState } from '../../hooks';
+import { RECOVERY_ACTIONS, getErrorText, getRecoveryActionLabel } from '../../utils/appErrors';
+import type { AppError, AppErrorCode, RecoveryAction } from '../../utils/appErrors';
 
 interface ErrorScreenProps {
-  errorInfo: ErrorInfo;
+  errorInfo: AppError;
   permissionState: PermissionState;
   onRequestPermission: () => void;
   onRetry: () => void;
+  onOpenSettings?: () => void;
+  onLogin?: () => void;
   debugInfo?: {
     protocol: string;
     hostname: string;
@@ -15,23 +19,59 @@ interface ErrorScreenProps {
   };
 }
 
+const getErrorIcon = (code: AppErrorCode) => {
+  switch (code) {
+    case 'PERMISSION_DENIED': return Shield;
+    case 'HTTPS_REQUIRED': return Lock;
+    case 'NETWORK_ERROR': return Wifi;
+    case 'DEVICE_NOT_FOUND':
+    case 'DEVICE_IN_USE':
+    case 'CONSTRAINTS_UNSATISFIED':
+    case 'CAMERA_NOT_SUPPORTED': return Camera;
+    case 'CAMERA_KIT_INIT':
+    case 'LENS_LOAD_TIMEOUT':
+    case 'LENS_NOT_FOUND': return Sparkles;
+    default: return AlertTriangle;
+  }
+};
+
+const ACTION_ICONS: Record<RecoveryAction, React.ComponentType<{ className?: string }>> = {
+  retry: RefreshCw,
+  request_permission: Shield,
+  use_https: Lock,
+  open_settings: Settings,
+  reload: RefreshCw,
+  login: LogIn
+};
+
 export const ErrorScreen: React.FC<ErrorScreenProps> = ({
   errorInfo,
   permissionState,
   onRequestPermission,
   onRetry,
+  onOpenSettings,
+  onLogin,
   debugInfo
 }) => {
-  const getErrorIcon = () => {
-    switch (errorInfo.type) {
-      case 'permission': return Shield;
-      case 'https': return Wifi;
-      case 'device': return Camera;
-      default: return AlertTriangle;
-    }
+  const { message, solution } = getErrorText(errorInfo);
+  const ErrorIcon = getErrorIcon(errorInfo.code);
+
+  const handlers: Record<RecoveryAction, (() => void) | undefined> = {
+    retry: onRetry,
+    request_permission: onRequestPermission,
+    use_https: () => {
+      window.location.href = window.location.href.replace(/^http:/, 'https:');
+    },
+    open_settings: onOpenSettings,
+    reload: () => window.location.reload(),
+    login: onLogin
   };
 
-  const ErrorIcon = getErrorIcon();
+  // Actions the host didn't wire up are skipped; Try Again is always the last resort
+  const actions = RECOVERY_ACTIONS[errorInfo.code].filter(action => handlers[action]);
+  if (!actions.includes('retry')) {
+    actions.push('retry');
+  }
 
   return (
     <div className="absolute inset-0 flex items-center justify-center bg-black/90 backdrop-blur-sm z-30">
@@ -39,35 +79,33 @@ export const ErrorScreen: React.FC<ErrorScreenProps> = ({
         <div className="w-20 h-20 bg-red-500/20 rounded-full flex items-center justify-center mx-auto mb-6">
           <ErrorIcon className="w-10 h-10 text-red-400" />
         </div>
-        
+
         <div className="text-white text-xl font-medium mb-3">
-          {errorInfo.message}
+          {message}
         </div>
-        
+
         <div className="text-white/70 text-sm mb-6">
-          {errorInfo.solution}
+          {solution}
         </div>
-        
+
         <div className="space-y-3">
-          {permissionState === 'denied' && errorInfo.type === 'permission' && (
-            <button
-              onClick={onRequestPermission}
-              className="w-full px-6 py-3 bg-blue-500 hover:bg-blue-600 rounded-lg text-white font-medium transition-colors"
-            >
-              <Shield className="w-5 h-5 inline mr-2" />
-              Grant Camera Access
-            </button>
-          )}
-          
-          <button
-            onClick={onRetry}
-            className="w-full px-6 py-3 bg-white/20 hover:bg-white/30 rounded-lg text-white font-medium transition-colors"
-          >
-            <RefreshCw className="w-5 h-5 inline mr-2" />
-            Try Again
-          </button>
+          {actions.map((action, index) => {
+            const ActionIcon = ACTION_ICONS[action];
+            return (
+              <button
+                key={action}
+                onClick={handlers[action]}
+                className={`w-full px-6 py-3 rounded-lg text-white font-medium transition-colors ${
+                  index === 0 ? 'bg-blue-500 hover:bg-blue-600' : 'bg-white/20 hover:bg-white/30'
+                }`}
+              >
+                <ActionIcon className="w-5 h-5 inline mr-2" />
+                {getRecoveryActionLabel(action)}
+              </button>
+            );
+          })}
         </div>
-        
+
         {/* Debug info for developers */}
         {debugInfo && (
           <details className="mt-6 text-left">
@@ -78,7 +116,8 @@ export const ErrorScreen: React.FC<ErrorScreenProps> = ({
               <div>Protocol: {debugInfo.protocol}</div>
               <div>Host: {debugInfo.hostname}</div>
               <div>Permission State: {permissionState}</div>
-              <div>Error Type: {errorInfo.type}</div>
+              <div>Error Code: {errorInfo.code}</div>
+              <div>Detail: {errorInfo.message}</div>
               <div>User Agent: {debugInfo.userAgent.substring(0, 50)}...</div>
             </div>
           </details>
@@ -86,4 +125,4 @@ export const ErrorScreen: React.FC<ErrorScreenProps> = ({
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,20 @@
+// src/components/ui/OfflineIndicator.tsx
+import React from 'react';
+import { WifiOff } from 'lucide-react';
+
+interface OfflineIndicatorProps {
+  isOffline: boolean;
+}
+
+export const OfflineIndicator: React.FC<OfflineIndicatorProps> = ({ isOffline }) => {
+  if (!isOffline) return null;
+
+  return (
+    <div className="absolute top-16 left-1/2 -translate-x-1/2 z-40 pointer-events-none">
+      <div className="flex items-center gap-2 bg-orange-500/90 text-white text-xs font-medium px-3 py-1 rounded-full shadow-lg">
+        <WifiOff className="w-3 h-3" />
+        <span>Offline - captures saved on device</span>
+      </div>
+    </div>
+  );
+};
@@ -1,7 +1,7 @@
 // src/components/ui/RecordButton.tsx
 import React from 'react';
-import { Circle, Square } from 'lucide-react';
-import type { RecordingState } from '../../hooks';
+import { Circle, Square, Camera } from 'lucide-react';
+import type { RecordingState, CaptureMode } from '../../hooks';
 
 interface RecordButtonProps {
   recordingState: RecordingState;
@@ -9,21 +9,45 @@ interface RecordButtonProps {
   onClick: () => void;
   disabled?: boolean;
   formatTime: (seconds: number) => string;
+  captureMode?: CaptureMode;
+  countdown?: number | null;
+  maxDuration?: number;
+  minDuration?: number;
+  isFixedLength?: boolean;
 }
 
+const RING_RADIUS = 44;
+const RING_CIRCUMFERENCE = 2 * Math.PI * RING_RADIUS;
+
 export const RecordButton: React.FC<RecordButtonProps> = ({
   recordingState,
   recordingTime,
   onClick,
   disabled = false,
-  formatTime
+  formatTime,
+  captureMode = 'video',
+  countdown = null,
+  maxDuration,
+  minDuration = 0,
+  isFixedLength = false
 }) => {
+  const isCountingDown = countdown !== null;
+  const isRecording = recordingState === 'recording';
+  const progress = isRecording && maxDuration ? Math.min(recordingTime / maxDuration, 1) : 0;
+  const belowMinimum = isRecording && recordingTime < minDuration;
+
+  const getLabel = () => {
+    if (isCountingDown) return 'Cancel countdown';
+    if (captureMode === 'photo') return 'Take photo';
+    return isRecording ? 'Stop recording' : 'Start recording';
+  };
+
   return (
     <div className="relative">
       <button
         onClick={onClick}
         disabled={disabled}
-        aria-label={recordingState === 'recording' ? 'Stop recording' : 'Start recording'}
+        aria-label={getLabel()}
         className={`
           w-20 h-20 
           rounded-full 
@@ -43,19 +67,47 @@ export const RecordButton: React.FC<RecordButtonProps> = ({
           }
         `}
       >
-        {recordingState === 'recording' ? (
+        {isCountingDown ? (
+          <span className="text-white text-3xl font-bold">{countdown}</span>
+        ) : recordingState === 'recording' ? (
           <Square className="w-8 h-8 text-white fill-white" />
         ) : recordingState === 'processing' ? (
           <div className="w-8 h-8 border-2 border-white border-t-transparent rounded-full animate-spin" />
+        ) : captureMode === 'photo' ? (
+          <Camera className="w-10 h-10 text-white" />
         ) : (
           <Circle className="w-12 h-12 text-red-500 fill-red-500" />
         )}
       </button>
       
+      {/* Progress toward the clip length / max duration */}
+      {isRecording && maxDuration && (
+        <svg
+          className="absolute -inset-2 w-24 h-24 -rotate-90 pointer-events-none"
+          viewBox="0 0 96 96"
+        >
+          <circle
+            cx="48"
+            cy="48"
+            r={RING_RADIUS}
+            fill="none"
+            stroke="white"
+            strokeWidth="4"
+            strokeLinecap="round"
+            strokeDasharray={RING_CIRCUMFERENCE}
+            strokeDashoffset={RING_CIRCUMFERENCE * (1 - progress)}
+            className="transition-[stroke-dashoffset] duration-1000 ease-linear"
+          />
+        </svg>
+      )}
+      
       {recordingState === 'recording' && (
-        <div className="absolute -top-8 left-1/2 transform -translate-x-1/2">
-          <div className="bg-red-500 text-white px-3 py-1 rounded-full text-sm font-medium">
-            {formatTime(recordingTime)}
+        <div className="absolute -top-8 left-1/2 transform -translate-x-1/2 whitespace-nowrap">
+          <div className={`${belowMinimum ? 'bg-yellow-500' : 'bg-red-500'} text-white px-3 py-1 rounded-full text-sm font-medium`}>
+            {isFixedLength && maxDuration
+              ? `${formatTime(recordingTime)} / ${formatTime(maxDuration)}`
+              : formatTime(recordingTime)
+            }
           </div>
         </div>
       )}
@@ -0,0 +1,79 @@
+// src/components/ui/SmileMeter.tsx - Live smile gauge over the camera feed
+import React from 'react';
+
+interface SmileMeterProps {
+  score: number; // 0..1
+  threshold: number; // 0..1
+  faceDetected: boolean;
+  holdProgress?: number; // 0..1 towards an auto capture
+  autoCaptureLabel?: string | null;
+}
+
+const scoreEmoji = (score: number, faceDetected: boolean): string => {
+  if (!faceDetected) return '🙂';
+  if (score >= 0.8) return '😁';
+  if (score >= 0.5) return '😄';
+  if (score >= 0.25) return '😊';
+  return '😐';
+};
+
+export const SmileMeter: React.FC<SmileMeterProps> = ({
+  score,
+  threshold,
+  faceDetected,
+  holdProgress = 0,
+  autoCaptureLabel = null
+}) => {
+  const percent = Math.round(score * 100);
+  const isAboveThreshold = faceDetected && score >= threshold;
+
+  return (
+    <div className="absolute right-4 top-1/2 -translate-y-1/2 z-20 flex flex-col items-center gap-2 pointer-events-none">
+      <span className="text-3xl drop-shadow-lg" aria-hidden="true">
+        {scoreEmoji(score, faceDetected)}
+      </span>
+
+      <div
+        className="relative w-5 h-48 rounded-full bg-black/40 border border-white/20 overflow-hidden"
+        role="meter"
+        aria-label="Smile meter"
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={percent}
+      >
+        <div
+          className={`absolute bottom-0 inset-x-0 rounded-full transition-all duration-150 ${
+            isAboveThreshold
+              ? 'bg-gradient-to-t from-yellow-400 to-pink-500'
+              : 'bg-gradient-to-t from-blue-400 to-purple-500'
+          }`}
+          style={{ height: `${faceDetected ? percent : 0}%` }}
+        />
+        {/* Trigger threshold */}
+        <div
+          className="absolute inset-x-0 h-0.5 bg-white/80"
+          style={{ bottom: `${Math.round(threshold * 100)}%` }}
+        />
+      </div>
+
+      <span className="text-white text-xs font-mono drop-shadow">
+        {faceDetected ? `${percent}%` : 'No face'}
+      </span>
+
+      {autoCaptureLabel && (
+        <div className="w-12 h-1 rounded-full bg-white/20 overflow-hidden">
+          <div
+            className="h-full bg-yellow-400 transition-all duration-100"
+            style={{ width: `${Math.round(holdProgress * 100)}%` }}
+          />
+        </div>
+      )}
+
+      {autoCaptureLabel && (
+        <span className="text-white/70 text-[10px] uppercase tracking-wide drop-shadow">
+          {autoCaptureLabel}
+        </span>
+      )}
+    </div>
+  );
+};
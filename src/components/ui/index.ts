@@ -3,4 +3,9 @@ export { ControlButton } from './ControlButton';
 export { RecordButton } from './RecordButton';
 export { LoadingScreen } from './LoadingScreen';
 export { ErrorScreen } from './ErrorScreen';
-export { RenderingModal } from './RenderingModal';
\ No newline at end of file
+export { ErrorBoundary } from './ErrorBoundary';
+export { RenderingModal } from './RenderingModal';
+export { CaptureOverlay } from './CaptureOverlay';
+export { OfflineIndicator } from './OfflineIndicator';
+export { SmileMeter } from './SmileMeter';
+export { DebugOverlay } from './DebugOverlay';
\ No newline at end of file
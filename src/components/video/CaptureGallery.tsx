@@ -0,0 +1,156 @@
+// src/components/video/CaptureGallery.tsx - Offline captures saved in IndexedDB
+import React, { useState, useEffect } from 'react';
+import { X, Share2, Download, Trash2, Image as ImageIcon, Film } from 'lucide-react';
+import type { StoredCapture } from '../../utils/captureStore';
+
+interface CaptureGalleryProps {
+  isOpen: boolean;
+  captures: StoredCapture[];
+  isAvailable: boolean;
+  onClose: () => void;
+  onShare: (id: string) => void;
+  onDownload: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const formatSize = (bytes: number): string => {
+  return bytes >= 1024 * 1024
+    ? `${(bytes / (1024 * 1024)).toFixed(1)}MB`
+    : `${Math.round(bytes / 1024)}KB`;
+};
+
+export const CaptureGallery: React.FC<CaptureGalleryProps> = ({
+  isOpen,
+  captures,
+  isAvailable,
+  onClose,
+  onShare,
+  onDownload,
+  onDelete
+}) => {
+  const [thumbnailUrls, setThumbnailUrls] = useState<Record<string, string>>({});
+  const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null);
+
+  // Object URLs for thumbnails - revoked whenever the list changes or the gallery closes
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const urls: Record<string, string> = {};
+    captures.forEach(capture => {
+      urls[capture.id] = URL.createObjectURL(capture.blob);
+    });
+    setThumbnailUrls(urls);
+
+    return () => {
+      Object.values(urls).forEach(url => URL.revokeObjectURL(url));
+    };
+  }, [isOpen, captures]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/90 backdrop-blur-sm z-40 flex flex-col">
+      {/* Header */}
+      <div className="flex justify-between items-center p-4 border-b border-white/10">
+        <div>
+          <h2 className="text-white text-lg font-semibold">Saved Captures</h2>
+          <p className="text-white/60 text-xs">
+            {isAvailable
+              ? `${captures.length} stored on this device`
+              : 'Offline storage not available in this browser'
+            }
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          className="w-10 h-10 rounded-full bg-white/20 border border-white/30 flex items-center justify-center text-white"
+          aria-label="Close gallery"
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      {/* Grid */}
+      <div className="flex-1 overflow-y-auto p-4">
+        {captures.length === 0 ? (
+          <div className="h-full flex items-center justify-center text-white/40 text-sm">
+            No captures yet
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-3">
+            {captures.map(capture => {
+              const url = thumbnailUrls[capture.id];
+              const duration = capture.metadata.recordingDuration;
+
+              return (
+                <div key={capture.id} className="bg-white/10 rounded-lg overflow-hidden">
+                  <div className="relative aspect-[9/16] bg-black">
+                    {url && (capture.kind === 'photo' ? (
+                      <img src={url} alt={capture.name} className="w-full h-full object-cover" />
+                    ) : (
+                      <video src={url} muted playsInline preload="metadata" className="w-full h-full object-cover" />
+                    ))}
+                    <div className="absolute top-2 left-2 bg-black/60 rounded px-2 py-0.5 text-white text-xs flex items-center gap-1">
+                      {capture.kind === 'photo' ? <ImageIcon className="w-3 h-3" /> : <Film className="w-3 h-3" />}
+                      {capture.kind === 'video' && duration ? `${duration}s` : capture.kind}
+                    </div>
+                  </div>
+
+                  <div className="p-2">
+                    <div className="text-white/70 text-xs mb-2">
+                      {new Date(capture.createdAt).toLocaleString()} • {formatSize(capture.size)}
+                    </div>
+
+                    {pendingDeleteId === capture.id ? (
+                      <div className="flex gap-1">
+                        <button
+                          onClick={() => {
+                            onDelete(capture.id);
+                            setPendingDeleteId(null);
+                          }}
+                          className="flex-1 py-1 bg-red-500 hover:bg-red-600 rounded text-white text-xs font-medium"
+                        >
+                          Delete
+                        </button>
+                        <button
+                          onClick={() => setPendingDeleteId(null)}
+                          className="flex-1 py-1 bg-white/20 hover:bg-white/30 rounded text-white text-xs"
+                        >
+                          Keep
+                        </button>
+                      </div>
+                    ) : (
+                      <div className="flex gap-1">
+                        <button
+                          onClick={() => onShare(capture.id)}
+                          className="flex-1 py-1 bg-blue-500 hover:bg-blue-600 rounded text-white flex items-center justify-center"
+                          aria-label="Share capture"
+                        >
+                          <Share2 className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => onDownload(capture.id)}
+                          className="flex-1 py-1 bg-white/20 hover:bg-white/30 rounded text-white flex items-center justify-center"
+                          aria-label="Download capture"
+                        >
+                          <Download className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => setPendingDeleteId(capture.id)}
+                          className="flex-1 py-1 bg-white/20 hover:bg-red-500/60 rounded text-white flex items-center justify-center"
+                          aria-label="Delete capture"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
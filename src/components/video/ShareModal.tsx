@@ -1,10 +1,12 @@
 // src/components/video/ShareModal.tsx
-import React from 'react';
-import { X, Share2, Download } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { X, Share2, Download, QrCode } from 'lucide-react';
 import { 
   checkSocialMediaCompatibility,
   detectAndroid 
 } from '../../utils/androidRecorderFix';
+import { isPhotoFile } from '../../utils/VideoProcessor';
+import type { CaptureHandoff } from '../../utils/captureHandoff';
 
 interface ShareModalProps {
   recordedVideo: File | Blob;
@@ -12,6 +14,7 @@ interface ShareModalProps {
   onClose: () => void;
   onDownload: () => void;
   onProcessAndShare: () => void;
+  onCreateHandoff?: () => Promise<CaptureHandoff | null>;
   addLog: (message: string) => void;
 }
 
@@ -21,10 +24,38 @@ export const ShareModal: React.FC<ShareModalProps> = ({
   onClose,
   onDownload,
   onProcessAndShare,
+  onCreateHandoff,
   addLog
 }) => {
+  const [handoff, setHandoff] = useState<CaptureHandoff | null>(null);
+  const [isUploading, setIsUploading] = useState<boolean>(false);
+  const [handoffError, setHandoffError] = useState<string | null>(null);
+
+  // A new capture needs its own upload
+  useEffect(() => {
+    setHandoff(null);
+    setHandoffError(null);
+  }, [recordedVideo]);
+
   if (!isOpen) return null;
 
+  const handleCreateHandoff = async () => {
+    if (!onCreateHandoff || isUploading) return;
+
+    setIsUploading(true);
+    setHandoffError(null);
+    try {
+      const result = await onCreateHandoff();
+      if (result) {
+        setHandoff(result);
+      } else {
+        setHandoffError('Upload failed - is the kiosk server running?');
+      }
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
   const file = recordedVideo instanceof File ? 
     recordedVideo : 
     new File([recordedVideo], `lens-video-${Date.now()}.mp4`, {
@@ -33,6 +64,7 @@ export const ShareModal: React.FC<ShareModalProps> = ({
     });
 
   const isAndroid = detectAndroid();
+  const isPhoto = isPhotoFile(file);
   const duration = (file as any).recordingDuration;
   const compatibility = checkSocialMediaCompatibility(file);
 
@@ -40,7 +72,7 @@ export const ShareModal: React.FC<ShareModalProps> = ({
     <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50 p-6">
       <div className="bg-white/10 backdrop-blur-md rounded-xl p-6 max-w-sm w-full mx-auto">
         <div className="flex justify-between items-center mb-4">
-          <h3 className="text-white text-lg font-semibold">Share Video</h3>
+          <h3 className="text-white text-lg font-semibold">{isPhoto ? 'Share Photo' : 'Share Video'}</h3>
           <button
             onClick={onClose}
             className="text-white/60 hover:text-white transition-colors"
@@ -52,7 +84,10 @@ export const ShareModal: React.FC<ShareModalProps> = ({
         {/* Video info */}
         <div className="text-white/80 text-sm mb-4">
           <p className="mb-2">
-            📹 {duration ? `${duration}s` : 'Recording'} • {isAndroid ? 'MP4' : 'WebM'} format
+            {isPhoto 
+              ? `📸 ${(file as any).canvasResolution || 'Photo'} • ${file.type.includes('png') ? 'PNG' : 'JPEG'} format`
+              : `📹 ${duration ? `${duration}s` : 'Recording'} • ${isAndroid ? 'MP4' : 'WebM'} format`
+            }
           </p>
           
           {/* Compatibility status */}
@@ -69,8 +104,40 @@ export const ShareModal: React.FC<ShareModalProps> = ({
           </div>
         </div>
 
+        {/* QR handoff - guest scans to download on their own phone */}
+        {handoff && (
+          <div className="mb-4 flex flex-col items-center">
+            <div className="bg-white rounded-lg p-2">
+              <img src={handoff.qrDataUrl} alt="Scan to download" className="w-48 h-48" />
+            </div>
+            <p className="text-white text-sm font-medium mt-3">Scan with your phone camera</p>
+            <p className="text-white/50 text-xs mt-1 break-all">{handoff.url}</p>
+            <p className="text-white/50 text-xs">
+              Available until {new Date(handoff.expiresAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+            </p>
+          </div>
+        )}
+
+        {handoffError && (
+          <div className="mb-4 p-3 bg-red-500/20 border border-red-500/30 rounded-lg text-xs text-red-300">
+            {handoffError}
+          </div>
+        )}
+
         {/* Main share button */}
         <div className="space-y-3">
+          {onCreateHandoff && !handoff && (
+            <button
+              onClick={handleCreateHandoff}
+              disabled={isUploading}
+              className="w-full flex items-center justify-center space-x-3 px-4 py-3 bg-green-500 hover:bg-green-600 disabled:opacity-60 rounded-lg text-white font-medium transition-colors"
+            >
+              <QrCode className="w-5 h-5" />
+              <span>{isUploading ? 'Preparing QR code...' : 'Send to Phone'}</span>
+            </button>
+          )}
+
+
           <button
             onClick={() => {
               addLog('🎬 Starting video processing...');
@@ -80,7 +147,7 @@ export const ShareModal: React.FC<ShareModalProps> = ({
             className="w-full flex items-center justify-center space-x-3 px-4 py-3 bg-blue-500 hover:bg-blue-600 rounded-lg text-white font-medium transition-colors"
           >
             <Share2 className="w-5 h-5" />
-            <span>Process & Share</span>
+            <span>{isPhoto ? 'Share' : 'Process & Share'}</span>
           </button>
 
           <button
@@ -96,9 +163,11 @@ export const ShareModal: React.FC<ShareModalProps> = ({
         </div>
 
         {/* Info tip */}
-        <div className="mt-4 p-3 bg-blue-500/10 rounded-lg text-xs text-blue-300">
-          💡 <strong>Process & Share:</strong> Optimizes video metadata for Instagram and other apps
-        </div>
+        {!isPhoto && (
+          <div className="mt-4 p-3 bg-blue-500/10 rounded-lg text-xs text-blue-300">
+            💡 <strong>Process & Share:</strong> Optimizes video metadata for Instagram and other apps
+          </div>
+        )}
       </div>
     </div>
   );
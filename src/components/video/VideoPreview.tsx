@@ -1,27 +1,32 @@
 // src/components/video/VideoPreview.tsx - Share & Download buttons
 import React from 'react';
-import { X, Download, Send } from 'lucide-react';
+import { X, Download, Send, QrCode } from 'lucide-react';
 import { ControlButton } from '../ui';
 import { checkSocialMediaCompatibility } from '../../utils/androidRecorderFix';
+import { isPhotoFile } from '../../utils/VideoProcessor';
 
 interface VideoPreviewProps {
   recordedVideo: Blob | File;
   onClose: () => void;
   onDownload: () => void;
   onProcessAndShare: () => void;
+  onShowQrCode?: () => void;
 }
 
 export const VideoPreview: React.FC<VideoPreviewProps> = ({
   recordedVideo,
   onClose,
   onDownload,
-  onProcessAndShare
+  onProcessAndShare,
+  onShowQrCode
 }) => {
   const isAndroidRecording = (recordedVideo as any).isAndroidRecording;
   const isiOSRecording = (recordedVideo as any).isiOSRecording;
   const duration = (recordedVideo as any).recordingDuration;
   const compatibility = checkSocialMediaCompatibility(recordedVideo as File);
   const platform = isAndroidRecording ? 'Android' : isiOSRecording ? 'iPhone' : 'Desktop';
+  const isPhoto = isPhotoFile(recordedVideo);
+  const resolution = (recordedVideo as any).canvasResolution;
 
   const handleShare = () => {
     onProcessAndShare();
@@ -42,7 +47,11 @@ export const VideoPreview: React.FC<VideoPreviewProps> = ({
           
           <div className="text-center">
             <h2 className="text-white font-semibold">Preview</h2>
-            {duration && (
+            {isPhoto ? (
+              <div className="text-xs text-white/70 mt-1">
+                📸 {resolution || 'Photo'} • {platform} Ready
+              </div>
+            ) : duration && (
               <div className="text-xs text-white/70 mt-1">
                 {duration}s • {platform} Ready
               </div>
@@ -55,18 +64,26 @@ export const VideoPreview: React.FC<VideoPreviewProps> = ({
         
       </div>
 
-      {/* Video Player */}
+      {/* Video Player / Photo */}
       <div className="flex-1 flex items-center justify-center">
-        <video
-          src={URL.createObjectURL(recordedVideo)}
-          controls
-          autoPlay
-          loop
-          muted
-          playsInline
-          preload="metadata"
-          className="w-full h-full object-cover"
-        />
+        {isPhoto ? (
+          <img
+            src={URL.createObjectURL(recordedVideo)}
+            alt="Captured photo"
+            className="w-full h-full object-contain"
+          />
+        ) : (
+          <video
+            src={URL.createObjectURL(recordedVideo)}
+            controls
+            autoPlay
+            loop
+            muted
+            playsInline
+            preload="metadata"
+            className="w-full h-full object-cover"
+          />
+        )}
       </div>
 
       {/* Bottom Controls - Two buttons centered */}
@@ -85,6 +102,15 @@ export const VideoPreview: React.FC<VideoPreviewProps> = ({
             label="Download"
             size="lg"
           />
+          
+          {onShowQrCode && (
+            <ControlButton 
+              icon={QrCode} 
+              onClick={onShowQrCode} 
+              label="Send to phone"
+              size="lg"
+            />
+          )}
         </div>
         
 
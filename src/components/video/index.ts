@@ -1,3 +1,4 @@
 // src/components/video/index.ts
 export { VideoPreview } from './VideoPreview';
-export { ShareModal } from './ShareModal';
\ No newline at end of file
+export { ShareModal } from './ShareModal';
+export { CaptureGallery } from './CaptureGallery';
\ No newline at end of file
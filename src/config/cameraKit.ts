@@ -1,10 +1,31 @@
 // src/config/cameraKit.ts - MAX QUALITY: Hardware Landscape → Software Portrait
 import type { CameraKitConfig } from '../types/camera';
+import { loadOperatorSettings } from '../utils/operatorSettings';
 
 const API_TOKEN = import.meta.env.VITE_CAMERA_KIT_API_TOKEN;
 
-const LENS_ID = import.meta.env.VITE_CAMERA_KIT_LENS_ID;
-const LENS_GROUP_ID = import.meta.env.VITE_CAMERA_KIT_LENS_GROUP_ID;
+/**
+ * Enhanced device capability detection untuk Android TV/Box
+ * Device dianggap capable jika salah satu kondisi terpenuhi
+ */
+export const detectRenderCapability = () => {
+  const isAndroidTV = /Android.*TV|Android.*Box/i.test(navigator.userAgent);
+  const isKhadas = /Khadas/i.test(navigator.userAgent) || /RK3588|RK3576/i.test(navigator.userAgent);
+  const hasHighDPR = window.devicePixelRatio >= 1.5;
+  const has4KScreen = window.screen.width >= 1440 || window.screen.height >= 2560;
+  const hasGoodMemory = (navigator as any).deviceMemory >= 4 || !('deviceMemory' in navigator);
+  const hasGoodCores = navigator.hardwareConcurrency >= 6;
+
+  return {
+    isAndroidTV,
+    isKhadas,
+    hasHighDPR,
+    has4KScreen,
+    hasGoodMemory,
+    hasGoodCores,
+    deviceCanHandle4K: isAndroidTV || isKhadas || has4KScreen || (hasHighDPR && hasGoodMemory && hasGoodCores)
+  };
+};
 
 /**
  * MAKSIMAL PORTRAIT CANVAS - Rotate hardware landscape ke portrait
@@ -21,16 +42,14 @@ export const getMaxPortraitCanvasSize = () => {
   const portraitWidth = hardwareLandscapeHeight;   // 1440 (dari height landscape)
   const portraitHeight = hardwareLandscapeWidth;   // 2560 (dari width landscape)
   
-  // Enhanced device capability detection untuk Android TV/Box
-  const isAndroidTV = /Android.*TV|Android.*Box/i.test(navigator.userAgent);
-  const isKhadas = /Khadas/i.test(navigator.userAgent) || /RK3588|RK3576/i.test(navigator.userAgent);
-  const hasHighDPR = window.devicePixelRatio >= 1.5;
-  const has4KScreen = window.screen.width >= 1440 || window.screen.height >= 2560;
-  const hasGoodMemory = (navigator as any).deviceMemory >= 4 || !('deviceMemory' in navigator);
-  const hasGoodCores = navigator.hardwareConcurrency >= 6;
-  
-  // Device dianggap capable jika salah satu kondisi terpenuhi
-  const deviceCanHandle4K = isAndroidTV || isKhadas || has4KScreen || (hasHighDPR && hasGoodMemory && hasGoodCores);
+  const {
+    isAndroidTV,
+    isKhadas,
+    hasHighDPR,
+    has4KScreen,
+    hasGoodMemory,
+    deviceCanHandle4K
+  } = detectRenderCapability();
   
   let finalWidth, finalHeight;
   
@@ -79,11 +98,12 @@ export const getMaxPortraitCanvasSize = () => {
  */
 export const createMaxPortraitCameraKitConfig = (): CameraKitConfig => {
   const canvasSize = getMaxPortraitCanvasSize();
+  const { lensId, lensGroupId } = loadOperatorSettings();
   
   return {
     apiToken: API_TOKEN,
-    lensId: LENS_ID,
-    lensGroupId: LENS_GROUP_ID,
+    lensId,
+    lensGroupId,
     
     // MAKSIMAL portrait canvas - rotated dari hardware landscape
     canvas: {
@@ -108,18 +128,21 @@ export const createMaxPortraitCameraKitConfig = (): CameraKitConfig => {
 };
 
 // Hardware camera constraints - ALWAYS landscape untuk Brio
+// A selected deviceId wins over facingMode (desktop kiosks with several USB cameras)
 export const getBrioOptimalConstraints = (
-  facingMode: 'user' | 'environment' = 'user'
+  facingMode: 'user' | 'environment' = 'user',
+  devices: { videoDeviceId?: string | null; audioDeviceId?: string | null } = {}
 ): MediaStreamConstraints => {
   return {
     video: {
-      facingMode,
+      ...(devices.videoDeviceId ? { deviceId: { exact: devices.videoDeviceId } } : { facingMode }),
       // Brio native landscape resolution
       width: { ideal: 2560, min: 1280, max: 3840 },
       height: { ideal: 1440, min: 720, max: 2160 },
       frameRate: { ideal: 30, min: 15, max: 60 }
     },
     audio: {
+      ...(devices.audioDeviceId ? { deviceId: { exact: devices.audioDeviceId } } : {}),
       echoCancellation: true,
       noiseSuppression: true,
       autoGainControl: true,
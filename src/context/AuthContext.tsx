@@ -0,0 +1,195 @@
+// src/context/AuthContext.tsx - Single Snapchat login state for the login modal and Push2Web
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { AUTH_CONFIG } from '../utils/constants';
+import { toAppError } from '../utils/appErrors';
+import { canRetry, getRetryDelay } from '../utils/retry';
+import type { AppError } from '../utils/appErrors';
+import { clearLegacyAuthStorage, getConfiguredAuthStrategy } from '../utils/authStrategies';
+import type { AuthSession, AuthStrategy, AuthStrategyName, AuthUser } from '../utils/authStrategies';
+import type { LogFunction } from '../utils/logger';
+
+interface AuthContextValue {
+  strategy: AuthStrategyName;
+  needsLoginButton: boolean; // render an element for Login Kit to mount its button into
+  isLoggedIn: boolean;
+  isLoading: boolean;
+  user: AuthUser | null;
+  accessToken: string | null;
+  expiresAt: number | null;
+  error: AppError | null;
+
+  login: (buttonElementId?: string) => Promise<boolean>;
+  cancelLogin: () => void; // settles a pending login when its UI goes away
+  logout: () => Promise<void>;
+  refresh: () => Promise<boolean>;
+  clearError: () => void;
+}
+
+const AuthContext = createContext<AuthContextValue | undefined>(undefined);
+
+export const useAuthContext = () => {
+  const context = useContext(AuthContext);
+  if (context === undefined) {
+    throw new Error('useAuthContext must be used within an AuthProvider');
+  }
+  return context;
+};
+
+interface AuthProviderProps {
+  children: React.ReactNode;
+  addLog: LogFunction;
+  strategy?: AuthStrategy; // defaults to VITE_AUTH_STRATEGY
+}
+
+export const AuthProvider: React.FC<AuthProviderProps> = ({ children, addLog, strategy: strategyOverride }) => {
+  const strategy = useMemo(() => strategyOverride || getConfiguredAuthStrategy(), [strategyOverride]);
+  const [session, setSession] = useState<AuthSession | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<AppError | null>(null);
+  const [refreshFailures, setRefreshFailures] = useState<number>(0);
+  const sessionRef = useRef<AuthSession | null>(null);
+  const loginAbortRef = useRef<AbortController | null>(null);
+
+  const applySession = useCallback((next: AuthSession | null) => {
+    sessionRef.current = next;
+    setSession(next);
+  }, []);
+
+  const fail = useCallback((failure: unknown, context: string) => {
+    const appError = toAppError(failure, 'OAUTH_FAILED');
+    addLog(`❌ [${appError.code}] ${context}: ${appError.message}`);
+    setError(appError);
+  }, [addLog]);
+
+  // Restore an existing session (or finish a server redirect) on mount
+  useEffect(() => {
+    let cancelled = false;
+    clearLegacyAuthStorage();
+    addLog(`🔐 Auth strategy: ${strategy.name}`);
+
+    strategy.restore()
+      .then(restored => {
+        if (cancelled) return;
+        applySession(restored);
+        if (restored) {
+          addLog(`🔄 Restored Snapchat session: ${restored.user?.displayName || 'User'}`);
+        }
+      })
+      .catch(restoreError => {
+        if (!cancelled) fail(restoreError, 'Failed to restore session');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [strategy, addLog, applySession, fail]);
+
+  const login = useCallback(async (buttonElementId: string = AUTH_CONFIG.LOGIN_BUTTON_ID): Promise<boolean> => {
+    setError(null);
+    addLog(strategy.needsLoginButton ? '🔄 Mounting Snapchat login button' : '🔐 Redirecting to Snapchat OAuth...');
+    if (!strategy.needsLoginButton) setIsLoading(true);
+
+    loginAbortRef.current?.abort();
+    const controller = new AbortController();
+    loginAbortRef.current = controller;
+
+    try {
+      const next = await strategy.login(buttonElementId, controller.signal);
+      if (!next) return false; // navigating away
+
+      applySession(next);
+      setRefreshFailures(0);
+      addLog(`✅ Logged in as: ${next.user?.displayName || 'User'}`);
+      return true;
+    } catch (loginError) {
+      if (controller.signal.aborted) return false;
+      fail(loginError, 'Login error');
+      setIsLoading(false);
+      return false;
+    } finally {
+      if (loginAbortRef.current === controller) loginAbortRef.current = null;
+    }
+  }, [strategy, addLog, applySession, fail]);
+
+  const cancelLogin = useCallback(() => {
+    loginAbortRef.current?.abort();
+    loginAbortRef.current = null;
+  }, []);
+
+  const refresh = useCallback(async (): Promise<boolean> => {
+    const current = sessionRef.current;
+    if (!current) return false;
+
+    try {
+      const next = await strategy.refresh(current);
+      applySession(next);
+      setRefreshFailures(0);
+      if (!next) {
+        addLog('⚠️ Session expired - please log in again');
+        return false;
+      }
+      addLog('🔄 Snapchat token refreshed');
+      return true;
+    } catch (refreshError) {
+      fail(refreshError, 'Token refresh failed');
+      setRefreshFailures(failures => failures + 1);
+      return false;
+    }
+  }, [strategy, addLog, applySession, fail]);
+
+  // Refresh shortly before the access token expires; a failed refresh (server
+  // or network down) is retried with backoff until RETRY_CONFIG gives up
+  const expiresAt = session?.expiresAt ?? null;
+  useEffect(() => {
+    if (!expiresAt || !canRetry(refreshFailures)) return;
+
+    const delay = refreshFailures === 0
+      ? Math.max(expiresAt - Date.now() - AUTH_CONFIG.REFRESH_MARGIN, 0)
+      : getRetryDelay(refreshFailures - 1);
+    const timer = window.setTimeout(refresh, delay);
+    return () => clearTimeout(timer);
+  }, [expiresAt, refreshFailures, refresh]);
+
+  const logout = useCallback(async () => {
+    addLog('👋 Logging out...');
+
+    try {
+      await strategy.logout();
+    } catch (logoutError) {
+      addLog(`⚠️ Server logout failed: ${logoutError}`);
+    }
+
+    applySession(null);
+    setRefreshFailures(0);
+    setError(null);
+  }, [strategy, addLog, applySession]);
+
+  const clearError = useCallback(() => {
+    setError(null);
+  }, []);
+
+  const value: AuthContextValue = {
+    strategy: strategy.name,
+    needsLoginButton: strategy.needsLoginButton,
+    isLoggedIn: !!session,
+    isLoading,
+    user: session?.user || null,
+    accessToken: session?.accessToken || null,
+    expiresAt,
+    error,
+    login,
+    cancelLogin,
+    logout,
+    refresh,
+    clearError
+  };
+
+  return (
+    <AuthContext.Provider value={value}>
+      {children}
+    </AuthContext.Provider>
+  );
+};
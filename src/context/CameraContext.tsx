@@ -1,13 +1,19 @@
-import React, { createContext, useContext, useRef } from 'react';
-import { useCameraKit, useCameraPermissions, useDebugLogger } from '../hooks';
-import type { CameraState, PermissionState, ErrorInfo } from '../hooks';
+import React, { createContext, useContext, useRef, useEffect } from 'react';
+import { useCameraKit, useCameraPermissions, useDebugLogger, useMediaDevices } from '../hooks';
+import type { CameraState, PermissionState, Push2WebConnection } from '../hooks';
+import type { Lens } from '@snap/camera-kit';
+import type { DeviceSelection } from '../utils/cameraHelpers';
+import type { RenderQualitySetting, RenderSizeDecision } from '../utils/resolutionDetector';
+import type { AppError } from '../utils/appErrors';
+import type { PushedLensRecord } from '../utils/lensHistory';
+import type { LogExportFormat, LogFunction } from '../utils/logger';
 
 interface CameraContextValue {
   // Camera Kit
   cameraState: CameraState;
   currentFacingMode: 'user' | 'environment';
   initializeCameraKit: (stream: MediaStream, containerRef: React.RefObject<HTMLDivElement>) => Promise<boolean>;
-  switchCamera: () => Promise<MediaStream | null>;
+  switchCamera: (facingMode?: 'user' | 'environment') => Promise<MediaStream | null>; // facingMode targets a camera instead of cycling
   reloadLens: () => Promise<boolean>;
   pauseSession: () => void;
   resumeSession: () => void;
@@ -17,19 +23,37 @@ interface CameraContextValue {
   restoreCameraFeed: () => void;
   isReady: boolean;
   isInitializing: boolean;
+  renderDecision: RenderSizeDecision | null;
+  applyRenderSize: (quality?: RenderQualitySetting | null) => Promise<RenderSizeDecision | null>;
+  holdRenderSize: (held: boolean) => void; // defers render size changes, e.g. while recording
+  
+  // Devices
+  videoDevices: MediaDeviceInfo[];
+  audioDevices: MediaDeviceInfo[];
+  deviceSelection: DeviceSelection;
+  selectDevices: (changes: Partial<DeviceSelection>) => Promise<MediaStream | null>;
+  refreshDevices: () => Promise<void>;
+  
+  // Lenses
+  lenses: Lens[];
+  currentLens: Lens | null;
+  applyLensById: (lensId: string) => Promise<boolean>;
+  nextLens: () => Promise<boolean>;
+  previousLens: () => Promise<boolean>;
   
   // Push2Web
-  subscribePush2Web: (accessToken: string) => Promise<boolean>;
-  getPush2WebStatus: () => {
-    available: boolean;
-    subscribed: boolean;
-    session: boolean;
-    repository: boolean;
-  };
+  lensHistory: PushedLensRecord[];
+  pinLens: (lensId: string | null) => Promise<boolean>;
+  removeFromLensHistory: (lensId: string) => void;
+  isLensAvailable: (lensId: string) => boolean; // pushed lenses only survive until reload
+  subscribePush2Web: (accessToken: string) => Promise<boolean>; // also swaps in a refreshed token
+  unsubscribePush2Web: () => void;
+  reconnectPush2Web: () => Promise<boolean>;
+  push2WebConnection: Push2WebConnection; // reconnects with backoff after drops and errors
   
   // Permissions
   permissionState: PermissionState;
-  errorInfo: ErrorInfo | null;
+  errorInfo: AppError | null; // permission problems first, then Camera Kit failures
   checkCameraPermission: () => Promise<boolean>;
   requestCameraStream: (facingMode?: 'user' | 'environment', includeAudio?: boolean) => Promise<MediaStream | null>;
   requestPermission: () => Promise<MediaStream | null>;
@@ -38,9 +62,10 @@ interface CameraContextValue {
   
   // Debug Logger
   debugLogs: string[];
-  addLog: (message: string, level?: 'info' | 'warning' | 'error' | 'success') => void;
+  addLog: LogFunction;
+  getLogger: (source: string) => LogFunction; // tags entries with the calling module
   clearLogs: () => void;
-  exportLogs: () => void;
+  exportLogs: (format?: LogExportFormat) => Promise<void>;
   
   // Refs
   cameraFeedRef: React.RefObject<HTMLDivElement>;
@@ -63,24 +88,39 @@ interface CameraProviderProps {
 export const CameraProvider: React.FC<CameraProviderProps> = ({ children }) => {
   const cameraFeedRef = useRef<HTMLDivElement>(null);
   
-  const { debugLogs, addLog, clearLogs, exportLogs } = useDebugLogger();
+  const { debugLogs, addLog, getLogger, clearLogs, exportLogs } = useDebugLogger();
   
   const {
     permissionState,
-    errorInfo,
+    errorInfo: permissionError,
     checkCameraPermission,
     requestCameraStream,
     requestPermission,
     clearError,
     resetPermissionState
-  } = useCameraPermissions(addLog);
+  } = useCameraPermissions(getLogger('permissions'));
   
   const {
     cameraState,
     currentFacingMode,
+    lenses,
+    currentLens,
+    deviceSelection,
+    renderDecision,
+    cameraError,
+    applyRenderSize,
+    holdRenderSize,
     initializeCameraKit,
     switchCamera,
+    selectDevices,
     reloadLens,
+    applyLensById,
+    lensHistory,
+    pinLens,
+    removeFromLensHistory,
+    isLensAvailable,
+    nextLens,
+    previousLens,
     pauseSession,
     resumeSession,
     cleanup,
@@ -88,10 +128,21 @@ export const CameraProvider: React.FC<CameraProviderProps> = ({ children }) => {
     getStream,
     restoreCameraFeed,
     subscribePush2Web,
-    getPush2WebStatus,
+    unsubscribePush2Web,
+    reconnectPush2Web,
+    push2WebConnection,
     isReady,
     isInitializing
-  } = useCameraKit(addLog);
+  } = useCameraKit(getLogger('camera-kit'));
+
+  const { videoDevices, audioDevices, refreshDevices } = useMediaDevices(getLogger('devices'));
+
+  // Device labels only appear once camera permission has been granted
+  useEffect(() => {
+    if (isReady) refreshDevices();
+  }, [isReady, refreshDevices]);
+
+  const errorInfo = permissionError || cameraError;
 
   const value: CameraContextValue = {
     // Camera Kit
@@ -108,10 +159,33 @@ export const CameraProvider: React.FC<CameraProviderProps> = ({ children }) => {
     restoreCameraFeed,
     isReady,
     isInitializing,
+    renderDecision,
+    applyRenderSize,
+    holdRenderSize,
+    
+    // Devices
+    videoDevices,
+    audioDevices,
+    deviceSelection,
+    selectDevices,
+    refreshDevices,
+    
+    // Lenses
+    lenses,
+    currentLens,
+    applyLensById,
+    nextLens,
+    previousLens,
     
     // Push2Web
+    lensHistory,
+    pinLens,
+    removeFromLensHistory,
+    isLensAvailable,
     subscribePush2Web,
-    getPush2WebStatus,
+    unsubscribePush2Web,
+    reconnectPush2Web,
+    push2WebConnection,
     
     // Permissions
     permissionState,
@@ -125,6 +199,7 @@ export const CameraProvider: React.FC<CameraProviderProps> = ({ children }) => {
     // Debug Logger
     debugLogs,
     addLog,
+    getLogger,
     clearLogs,
     exportLogs,
     
@@ -1,8 +1,18 @@
 // src/context/RecordingContext.tsx - Fixed camera restoration after share
-import React, { createContext, useContext, useState, useEffect } from 'react';
-import { useMediaRecorder } from '../hooks';
-import { VideoProcessor, ProcessingProgress } from '../utils/VideoProcessor';
-import type { RecordingState } from '../hooks';
+import React, { createContext, useContext, useState, useEffect, useRef } from 'react';
+import { useMediaRecorder, useCaptureStore, useOverlaySettings, useOperatorSettings } from '../hooks';
+import { VideoProcessor, ProcessingProgress, isPhotoFile } from '../utils/VideoProcessor';
+import type { RecordingState, CaptureMode, PhotoCaptureOptions } from '../hooks';
+import type { StoredCapture } from '../utils/captureStore';
+import { uploadCaptureForHandoff } from '../utils/captureHandoff';
+import type { CaptureHandoff } from '../utils/captureHandoff';
+import type { OverlaySettings } from '../utils/overlayCompositor';
+import type { BitrateProfile, OperatorSettings } from '../utils/operatorSettings';
+import { UI_TIMING } from '../utils/constants';
+import { markPerformanceTiming } from '../utils/performanceMonitor';
+import { trackEvent } from '../utils/analytics';
+import { toAppError } from '../utils/appErrors';
+import type { AppError } from '../utils/appErrors';
 
 interface RecordingContextValue {
   recordingState: RecordingState;
@@ -15,17 +25,49 @@ interface RecordingContextValue {
   startRecording: (canvas: HTMLCanvasElement, audioStream?: MediaStream) => boolean;
   stopRecording: () => void;
   toggleRecording: (canvas: HTMLCanvasElement, audioStream?: MediaStream) => void;
+  capturePhoto: (canvas: HTMLCanvasElement, options?: PhotoCaptureOptions) => Promise<boolean>;
   clearRecording: () => void;
   cleanup: () => void;
   formatTime: (seconds: number) => string;
   
+  captureMode: CaptureMode;
+  setCaptureMode: (mode: CaptureMode) => void;
+  countdown: number | null;
+  isFlashing: boolean;
+  cancelCountdown: () => void;
+  
+  preRollSeconds: number;
+  setPreRollSeconds: (seconds: number) => void;
+  clipDuration: number | null;
+  setClipDuration: (seconds: number | null) => void;
+  maxRecordingDuration: number;
+  minRecordingDuration: number;
+  clipRejection: string | null;
+  recordingError: AppError | null;
+  
+  overlaySettings: OverlaySettings;
+  updateOverlaySettings: (changes: Partial<OverlaySettings>) => void;
+  resetOverlaySettings: () => void;
+  
+  operatorSettings: OperatorSettings;
+  updateOperatorSettings: (changes: Partial<OperatorSettings>) => void;
+  isOperatorUnlocked: boolean;
+  isUsingDefaultPin: boolean;
+  operatorLockedUntil: number | null;
+  unlockOperatorMode: (pin: string) => Promise<boolean>;
+  lockOperatorMode: () => void;
+  changeOperatorPin: (pin: string) => Promise<boolean>;
+  effectiveBitrateProfile: BitrateProfile;
+  setBitrateOverride: (profile: BitrateProfile | null) => void;
+  
   processAndShareVideo: () => Promise<void>;
   downloadVideo: () => void;
+  createHandoff: () => Promise<CaptureHandoff | null>;
   
   isVideoProcessing: boolean;
   processingProgress: number;
   processingMessage: string;
-  processingError: string | null;
+  processingError: AppError | null;
   showRenderingModal: boolean;
   setShowRenderingModal: (show: boolean) => void;
   
@@ -37,6 +79,12 @@ interface RecordingContextValue {
   
   showShareModal: boolean;
   setShowShareModal: (show: boolean) => void;
+  
+  captures: StoredCapture[];
+  isCaptureStoreAvailable: boolean;
+  shareCapture: (id: string) => Promise<void>;
+  downloadCapture: (id: string) => Promise<void>;
+  deleteCapture: (id: string) => Promise<boolean>;
 }
 
 const RecordingContext = createContext<RecordingContextValue | undefined>(undefined);
@@ -62,16 +110,41 @@ export const RecordingProvider: React.FC<RecordingProviderProps> = ({
 }) => {
   const [showPreview, setShowPreview] = useState<boolean>(false);
   const [showShareModal, setShowShareModal] = useState<boolean>(false);
-  const [autoShareEnabled, setAutoShareEnabled] = useState<boolean>(false);
   
   const [isVideoProcessing, setIsVideoProcessing] = useState<boolean>(false);
   const [processingProgress, setProcessingProgress] = useState<number>(0);
   const [processingMessage, setProcessingMessage] = useState<string>('');
-  const [processingError, setProcessingError] = useState<string | null>(null);
+  const [processingError, setProcessingError] = useState<AppError | null>(null);
   const [showRenderingModal, setShowRenderingModal] = useState<boolean>(false);
   
   const videoProcessor = new VideoProcessor(addLog);
   
+  const { overlaySettings, updateOverlaySettings, resetOverlaySettings } = useOverlaySettings();
+  const {
+    operatorSettings,
+    updateOperatorSettings,
+    isOperatorUnlocked,
+    isUsingDefaultPin,
+    operatorLockedUntil,
+    unlockOperatorMode,
+    lockOperatorMode,
+    changeOperatorPin
+  } = useOperatorSettings(addLog);
+  
+  // Runtime-only bitrate step-down from the performance monitor; the saved setting stays untouched
+  const [bitrateOverride, setBitrateOverride] = useState<BitrateProfile | null>(null);
+  const effectiveBitrateProfile = bitrateOverride || operatorSettings.bitrateProfile;
+  
+  useEffect(() => {
+    setBitrateOverride(null);
+  }, [operatorSettings.bitrateProfile]);
+  
+  // Auto-share is an operator setting so it survives kiosk restarts
+  const autoShareEnabled = operatorSettings.autoShare;
+  const setAutoShareEnabled = React.useCallback((enabled: boolean) => {
+    updateOperatorSettings({ autoShare: enabled });
+  }, [updateOperatorSettings]);
+  
   const {
     recordingState,
     recordingTime,
@@ -79,13 +152,49 @@ export const RecordingProvider: React.FC<RecordingProviderProps> = ({
     startRecording,
     stopRecording,
     toggleRecording,
+    capturePhoto,
     clearRecording: originalClearRecording,
     cleanup,
     formatTime,
+    captureMode,
+    setCaptureMode,
+    countdown,
+    isFlashing,
+    cancelCountdown,
+    preRollSeconds,
+    setPreRollSeconds,
+    clipDuration,
+    setClipDuration,
+    maxRecordingDuration,
+    minRecordingDuration,
+    clipRejection,
+    recordingError,
     isRecording,
     isProcessing,
     isIdle
-  } = useMediaRecorder(addLog);
+  } = useMediaRecorder(addLog, {
+    overlaySettings,
+    maxRecordingDuration: operatorSettings.maxRecordingDuration,
+    bitrateProfile: effectiveBitrateProfile
+  });
+
+  const {
+    captures,
+    isAvailable: isCaptureStoreAvailable,
+    saveCapture,
+    deleteCapture,
+    getCaptureFile
+  } = useCaptureStore(addLog);
+  
+  const lastSavedCaptureRef = useRef<Blob | null>(null);
+
+  // Persist every finished capture so it survives reloads and clearRecording
+  useEffect(() => {
+    if (recordedVideo && recordingState === 'idle' && lastSavedCaptureRef.current !== recordedVideo) {
+      lastSavedCaptureRef.current = recordedVideo;
+      saveCapture(recordedVideo);
+    }
+  }, [recordedVideo, recordingState, saveCapture]);
 
   // Auto-share when recording completes
   useEffect(() => {
@@ -110,25 +219,23 @@ export const RecordingProvider: React.FC<RecordingProviderProps> = ({
     }
   }, [originalClearRecording, restoreCameraFeed, addLog]);
 
-  const processAndShareVideo = async () => {
-    if (!recordedVideo) {
-      addLog('❌ No video to process');
-      return;
+  const processFile = async (video: Blob, fallbackDuration: number): Promise<File> => {
+    const recordingDuration = (video as any).recordingDuration || 
+                             fallbackDuration || 
+                             5;
+    
+    addLog(`🎬 Processing ${recordingDuration}s video for share...`);
+    
+    // WebM → MP4 conversion re-encodes every frame - show progress while it runs
+    const needsTranscode = !video.type.includes('mp4');
+    if (needsTranscode) {
+      setShowRenderingModal(true);
     }
     
+    const processingStartedAt = performance.now();
     try {
-      setIsVideoProcessing(true);
-      setProcessingProgress(0);
-      setProcessingError(null);
-      
-      const recordingDuration = (recordedVideo as any).recordingDuration || 
-                               recordingTime || 
-                               5;
-      
-      addLog(`🎬 Processing ${recordingDuration}s video for share...`);
-      
-      const processedFile = await videoProcessor.processVideo(
-        recordedVideo,
+      return await videoProcessor.processVideo(
+        video,
         recordingDuration,
         (progress: ProcessingProgress) => {
           setProcessingProgress(progress.percent);
@@ -136,6 +243,21 @@ export const RecordingProvider: React.FC<RecordingProviderProps> = ({
           addLog(`📊 ${progress.message} (${progress.percent}%)`);
         }
       );
+    } finally {
+      markPerformanceTiming('processingTime', performance.now() - processingStartedAt);
+      if (needsTranscode) {
+        setTimeout(() => setShowRenderingModal(false), UI_TIMING.RENDERING_MODAL_HIDE_DELAY);
+      }
+    }
+  };
+
+  const processAndShareFile = async (video: Blob, fallbackDuration: number) => {
+    setIsVideoProcessing(true);
+    setProcessingProgress(0);
+    setProcessingError(null);
+    
+    try {
+      const processedFile = await processFile(video, fallbackDuration);
       
       addLog('📱 Attempting native share...');
       const shareSuccess = await videoProcessor.shareVideo(processedFile);
@@ -145,6 +267,37 @@ export const RecordingProvider: React.FC<RecordingProviderProps> = ({
       } else {
         addLog('📥 Video downloaded with share instructions');
       }
+      trackEvent('share_completed', { kind: 'video', method: shareSuccess ? 'native' : 'download', sizeBytes: processedFile.size });
+    } finally {
+      setIsVideoProcessing(false);
+    }
+  };
+
+  const processAndShareVideo = async () => {
+    if (!recordedVideo) {
+      addLog('❌ No video to process');
+      return;
+    }
+    
+    if (isPhotoFile(recordedVideo)) {
+      const photoFile = recordedVideo instanceof File 
+        ? recordedVideo 
+        : new File([recordedVideo], `ar_photo_${Date.now()}.jpg`, { type: recordedVideo.type });
+      
+      addLog('📱 Attempting native photo share...');
+      const shareSuccess = await videoProcessor.shareVideo(photoFile);
+      addLog(shareSuccess ? '✅ Photo shared successfully' : '📥 Photo downloaded');
+      trackEvent('share_completed', { kind: 'photo', method: shareSuccess ? 'native' : 'download', sizeBytes: photoFile.size });
+      
+      setTimeout(() => {
+        setShowPreview(false);
+        clearRecording();
+      }, 1000);
+      return;
+    }
+    
+    try {
+      await processAndShareFile(recordedVideo, recordingTime);
       
       // Reset state after share with camera restoration
       setTimeout(() => {
@@ -154,10 +307,9 @@ export const RecordingProvider: React.FC<RecordingProviderProps> = ({
       
     } catch (error) {
       addLog(`❌ Processing failed: ${error}`);
-      setProcessingError(error instanceof Error ? error.message : 'Processing failed');
+      trackEvent('share_failed', { kind: 'video', method: 'native', reason: String(error) });
+      setProcessingError(toAppError(error, 'PROCESSING_FAILED'));
       downloadVideo();
-    } finally {
-      setIsVideoProcessing(false);
     }
   };
 
@@ -167,12 +319,17 @@ export const RecordingProvider: React.FC<RecordingProviderProps> = ({
     const url = URL.createObjectURL(recordedVideo);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `ar-video-${Date.now()}${recordedVideo.type.includes('mp4') ? '.mp4' : '.webm'}`;
+    if (isPhotoFile(recordedVideo)) {
+      a.download = `ar-photo-${Date.now()}${recordedVideo.type.includes('png') ? '.png' : '.jpg'}`;
+    } else {
+      a.download = `ar-video-${Date.now()}${recordedVideo.type.includes('mp4') ? '.mp4' : '.webm'}`;
+    }
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
     URL.revokeObjectURL(url);
-    addLog('💾 Video downloaded');
+    addLog(isPhotoFile(recordedVideo) ? '💾 Photo downloaded' : '💾 Video downloaded');
+    trackEvent('download_completed', { kind: isPhotoFile(recordedVideo) ? 'photo' : 'video', sizeBytes: recordedVideo.size });
     
     // Restore camera after download
     setTimeout(() => {
@@ -183,6 +340,64 @@ export const RecordingProvider: React.FC<RecordingProviderProps> = ({
     }, 500);
   };
 
+  // Kiosk handoff - upload to the local server so guests can scan a QR and download
+  const createHandoff = async (): Promise<CaptureHandoff | null> => {
+    if (!recordedVideo) {
+      addLog('❌ No capture to hand off');
+      return null;
+    }
+    
+    setIsVideoProcessing(true);
+    setProcessingError(null);
+    
+    try {
+      const file = isPhotoFile(recordedVideo)
+        ? recordedVideo
+        : await processFile(recordedVideo, recordingTime);
+      
+      addLog(`📤 Uploading capture for QR handoff (${(file.size / (1024 * 1024)).toFixed(1)}MB)...`);
+      const handoff = await uploadCaptureForHandoff(file);
+      addLog(`✅ QR handoff ready: ${handoff.url}`);
+      trackEvent('share_completed', { kind: isPhotoFile(file) ? 'photo' : 'video', method: 'qr', sizeBytes: file.size });
+      return handoff;
+    } catch (error) {
+      addLog(`❌ QR handoff failed: ${error}`);
+      trackEvent('share_failed', { kind: isPhotoFile(recordedVideo) ? 'photo' : 'video', method: 'qr', reason: String(error) });
+      return null;
+    } finally {
+      setIsVideoProcessing(false);
+    }
+  };
+
+  // Gallery actions on captures restored from the offline store
+  const shareCapture = async (id: string) => {
+    const file = await getCaptureFile(id);
+    if (!file) return;
+    
+    if (isPhotoFile(file)) {
+      const shareSuccess = await videoProcessor.shareVideo(file);
+      trackEvent('share_completed', { kind: 'photo', method: shareSuccess ? 'native' : 'download', sizeBytes: file.size, source: 'gallery' });
+      return;
+    }
+    
+    try {
+      await processAndShareFile(file, 0);
+    } catch (error) {
+      addLog(`❌ Processing failed: ${error}`);
+      trackEvent('share_failed', { kind: 'video', method: 'native', source: 'gallery', reason: String(error) });
+      setProcessingError(toAppError(error, 'PROCESSING_FAILED'));
+      videoProcessor.downloadFile(file);
+    }
+  };
+
+  const downloadCapture = async (id: string) => {
+    const file = await getCaptureFile(id);
+    if (file) {
+      videoProcessor.downloadFile(file);
+      trackEvent('download_completed', { kind: isPhotoFile(file) ? 'photo' : 'video', sizeBytes: file.size, source: 'gallery' });
+    }
+  };
+
   const value: RecordingContextValue = {
     recordingState,
     recordingTime,
@@ -194,12 +409,44 @@ export const RecordingProvider: React.FC<RecordingProviderProps> = ({
     startRecording,
     stopRecording,
     toggleRecording,
+    capturePhoto,
     clearRecording,
     cleanup,
     formatTime,
     
+    captureMode,
+    setCaptureMode,
+    countdown,
+    isFlashing,
+    cancelCountdown,
+    
+    preRollSeconds,
+    setPreRollSeconds,
+    clipDuration,
+    setClipDuration,
+    maxRecordingDuration,
+    minRecordingDuration,
+    clipRejection,
+    recordingError,
+    
+    overlaySettings,
+    updateOverlaySettings,
+    resetOverlaySettings,
+    
+    operatorSettings,
+    updateOperatorSettings,
+    isOperatorUnlocked,
+    isUsingDefaultPin,
+    operatorLockedUntil,
+    unlockOperatorMode,
+    lockOperatorMode,
+    changeOperatorPin,
+    effectiveBitrateProfile,
+    setBitrateOverride,
+    
     processAndShareVideo,
     downloadVideo,
+    createHandoff,
     
     isVideoProcessing,
     processingProgress,
@@ -215,7 +462,13 @@ export const RecordingProvider: React.FC<RecordingProviderProps> = ({
     setAutoShareEnabled,
     
     showShareModal,
-    setShowShareModal
+    setShowShareModal,
+    
+    captures,
+    isCaptureStoreAvailable,
+    shareCapture,
+    downloadCapture,
+    deleteCapture
   };
 
   return (
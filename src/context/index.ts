@@ -1,3 +1,4 @@
 // src/context/index.ts
 export { CameraProvider, useCameraContext } from './CameraContext';
-export { RecordingProvider, useRecordingContext } from './RecordingContext';
\ No newline at end of file
+export { RecordingProvider, useRecordingContext } from './RecordingContext';
+export { AuthProvider, useAuthContext } from './AuthContext';
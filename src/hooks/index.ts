@@ -3,12 +3,22 @@ export { useCameraPermissions } from './useCameraPermissions';
 export { useCameraKit } from './useCameraKit';
 export { useMediaRecorder } from './useMediaRecorder';
 export { useFrameSize } from './useFrameSize';
-export { useOAuth } from './useOAuth';  // ← ADD THIS
 export { useFullscreen } from './useFullscreen';
+export { useCaptureStore } from './useCaptureStore';
+export { useNetworkStatus } from './useNetworkStatus';
+export { useOverlaySettings } from './useOverlaySettings';
+export { useOperatorSettings } from './useOperatorSettings';
+export { useSmileMeter } from './useSmileMeter';
+export { useMediaDevices } from './useMediaDevices';
+export { usePerformanceMonitor } from './usePerformanceMonitor';
+export { useLensReceived, usePush2WebStatus } from './usePush2WebEvents';
 
-export type { LogEntry } from './useDebugLogger';
-export type { PermissionState, CameraState, ErrorInfo } from './useCameraPermissions';
-export type { RecordingState } from './useMediaRecorder';
+export type { LogEntry, LogLevel } from './useDebugLogger';
+export type { PermissionState, CameraState } from './useCameraPermissions';
+export type { Push2WebConnection, Push2WebConnectionState, Push2WebStatus } from './usePush2WebEvents';
+export type { RecordingState, CaptureMode, PhotoCaptureOptions, StopReason, MediaRecorderOptions } from './useMediaRecorder';
 export type { FrameSize, FrameDimensions } from './useFrameSize';
-export type { OAuthUser, OAuthState } from './useOAuth';  // ← ADD THIS
-export type { FullscreenState } from './useFullscreen';
\ No newline at end of file
+export type { FullscreenState } from './useFullscreen';
+export type { NetworkState } from './useNetworkStatus';
+export type { SmileMeterOptions } from './useSmileMeter';
+export type { PerformanceMonitorOptions } from './usePerformanceMonitor';
\ No newline at end of file
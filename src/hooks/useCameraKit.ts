@@ -1,18 +1,61 @@
 import { useState, useRef, useCallback, useEffect } from 'react';
-import { bootstrapCameraKit, createMediaStreamSource, Transform2D } from '@snap/camera-kit';
-import { Push2Web } from '@snap/push2web';
-import { validateConfig } from '../config/cameraKit';
+import { bootstrapCameraKit, createMediaStreamSource, Lens_CameraFacing, Transform2D } from '@snap/camera-kit';
+import type { Lens } from '@snap/camera-kit';
+import { Push2Web, State as Push2WebSubscriptionState } from '@snap/push2web';
+import type { SubscriptionInstance } from '@snap/push2web';
+import { validateConfig, getBrioOptimalConstraints } from '../config/cameraKit';
+import { loadOperatorSettings } from '../utils/operatorSettings';
+import { findCameraWithFacing, getAvailableCameras, getTrackFacingMode, loadDeviceSelection, saveDeviceSelection } from '../utils/cameraHelpers';
+import type { DeviceSelection } from '../utils/cameraHelpers';
+import { getOptimalConfiguration, selectRenderSize } from '../utils/resolutionDetector';
+import type { RenderQualitySetting, RenderSizeDecision } from '../utils/resolutionDetector';
+import { RENDER_CONFIG, RETRY_CONFIG } from '../utils/constants';
+import { markPerformanceTiming } from '../utils/performanceMonitor';
+import { trackEvent } from '../utils/analytics';
+import { reportError } from '../utils/errorHandling';
+import { canRetry, getRetryDelay } from '../utils/retry';
+import { AppError, toAppError } from '../utils/appErrors';
+import { getPinnedLens, loadLensHistory, pinLensInHistory, recordPushedLens, saveLensHistory, toPushedLensRecord } from '../utils/lensHistory';
+import type { PushedLensRecord } from '../utils/lensHistory';
+import type { AppErrorCode } from '../utils/appErrors';
+import { attachPush2Web, getPush2WebStatusSnapshot, onPush2WebEvent, updatePush2WebConnection, updatePush2WebStatus } from '../utils/push2WebEvents';
 import type { CameraState } from './useCameraPermissions';
+import { usePush2WebStatus } from './usePush2WebEvents';
 
 let cameraKitInstance: any = null;
 let preloadPromise: Promise<any> | null = null;
 let push2WebInstance: Push2Web | null = null;
+// Push2Web only serves the most recent push, so earlier pushed lenses can only be re-applied from here
+const pushedLensCache = new Map<string, Lens>();
+// gRPC PERMISSION_DENIED / UNAUTHENTICATED - the token is bad, retrying it won't help
+const PUSH2WEB_AUTH_GRPC_CODES = [7, 16];
 
-const withTimeout = <T>(promise: Promise<T>, ms: number): Promise<T> => {
+type FacingMode = 'user' | 'environment';
+
+// Selfie cameras are mirrored; lenses built for the rear camera expect an unmirrored feed
+const createCameraSource = (stream: MediaStream, facingMode: FacingMode) => {
+  return createMediaStreamSource(stream, {
+    transform: facingMode === 'user' ? Transform2D.MirrorX : undefined,
+    cameraType: facingMode
+  });
+};
+
+const getLensFacingMode = (lens: Lens): FacingMode | null => {
+  switch (lens.cameraFacingPreference) {
+    case Lens_CameraFacing.CAMERA_FACING_FRONT:
+      return 'user';
+    case Lens_CameraFacing.CAMERA_FACING_BACK:
+      return 'environment';
+    default:
+      return null;
+  }
+};
+
+const withTimeout = <T>(promise: Promise<T>, ms: number, code: AppErrorCode = 'CAMERA_KIT_INIT'): Promise<T> => {
   return Promise.race([
     promise,
     new Promise<T>((_, reject) => 
-      setTimeout(() => reject(new Error(`Timeout after ${ms}ms`)), ms)
+      setTimeout(() => reject(new AppError(code, `Timeout after ${ms}ms`)), ms)
     )
   ]);
 };
@@ -24,12 +67,13 @@ const preloadCameraKit = async () => {
   preloadPromise = (async () => {
     try {
       if (location.protocol !== 'https:' && location.hostname !== 'localhost') {
-        throw new Error('HTTPS_REQUIRED');
+        throw new AppError('HTTPS_REQUIRED');
       }
       
       validateConfig();
       
       push2WebInstance = new Push2Web();
+      attachPush2Web(push2WebInstance);
       
       const extensions = (container: any) => container.provides(push2WebInstance!.extension);
       
@@ -52,7 +96,14 @@ preloadCameraKit().catch(console.error);
 
 export const useCameraKit = (addLog: (message: string) => void) => {
   const [cameraState, setCameraState] = useState<CameraState>('initializing');
-  const [currentFacingMode, setCurrentFacingMode] = useState<'user' | 'environment'>('user');
+  const [currentFacingMode, setCurrentFacingMode] = useState<FacingMode>('user');
+  const [lenses, setLenses] = useState<Lens[]>([]);
+  const [currentLens, setCurrentLens] = useState<Lens | null>(null);
+  const [deviceSelection, setDeviceSelection] = useState<DeviceSelection>(loadDeviceSelection);
+  const [renderDecision, setRenderDecision] = useState<RenderSizeDecision | null>(null);
+  const [cameraError, setCameraError] = useState<AppError | null>(null);
+  const [lensHistory, setLensHistory] = useState<PushedLensRecord[]>(loadLensHistory);
+  const { connection: push2WebConnection } = usePush2WebStatus();
   
   const sessionRef = useRef<any>(null);
   const streamRef = useRef<MediaStream | null>(null);
@@ -62,30 +113,155 @@ export const useCameraKit = (addLog: (message: string) => void) => {
   const containerRef = useRef<React.RefObject<HTMLDivElement> | null>(null);
   const isInitializedRef = useRef<boolean>(false);
   const currentConfigRef = useRef<any>(null);
-  const push2WebSubscriptionRef = useRef<any>(null);
+  const push2WebSubscriptionRef = useRef<SubscriptionInstance | null>(null);
+  const push2WebTokenRef = useRef<string | null>(null); // set while Push2Web should stay connected
+  const push2WebSessionRef = useRef<any>(null); // Camera Kit session the subscription is bound to
+  const push2WebRetryRef = useRef<{ attempt: number; timer: number | null }>({
+    attempt: 0,
+    timer: null
+  });
+  const connectPush2WebRef = useRef<(reason: string) => boolean>(() => false);
+  const currentLensIdRef = useRef<string | null>(null);
+  const facingModeRef = useRef<FacingMode>('user');
+  // Camera in use before a lens asked for the other one - restored once lenses stop asking
+  const facingRestoreRef = useRef<{ deviceId: string | null; facingMode: FacingMode } | null>(null);
+  const facingLensIdRef = useRef<string | null>(null); // lens whose preference was applied last
+  const facingOverrideLensIdRef = useRef<string | null>(null); // lens the operator picked a camera for by hand
+  const facingQueueRef = useRef<Promise<void>>(Promise.resolve());
+  const isApplyingLensRef = useRef<boolean>(false);
+  const sourceRef = useRef<any>(null);
+  const renderQualityOverrideRef = useRef<RenderQualitySetting | null>(null);
+  // A render size change mid-clip breaks the file - changes wait until the recording ends
+  const renderSizeHoldRef = useRef<{ held: boolean; deferred: boolean }>({ held: false, deferred: false });
+  const lensHistoryRef = useRef<PushedLensRecord[]>(lensHistory);
 
-  const subscribePush2Web = useCallback(async (accessToken: string): Promise<boolean> => {
-    if (!push2WebInstance || !sessionRef.current || !cameraKitInstance) {
-      addLog('❌ Push2Web not ready');
-      return false;
+  const updateLensHistory = useCallback((update: (history: PushedLensRecord[]) => PushedLensRecord[]) => {
+    const next = update(lensHistoryRef.current);
+    lensHistoryRef.current = next;
+    setLensHistory(next);
+    try {
+      saveLensHistory(next);
+    } catch (error) {
+      addLog(`⚠️ Lens history could not be saved: ${error}`);
     }
+  }, [addLog]);
 
-    try {
-      addLog('🔗 Subscribing to Push2Web...');
-      
-      push2WebInstance.events.addEventListener('lensReceived', (event: any) => {
-        const { id, name, iconUrl, cameraFacingPreference } = event.detail;
-        addLog(`📡 Lens received: ${name} (${id})`);
-      });
+  // Lens group first, then lenses pushed during this session
+  const findLens = useCallback((lensId: string): Lens | null => {
+    const groupLenses: Lens[] = lensRepositoryRef.current || [];
+    return groupLenses.find(lens => lens.id === lensId) || pushedLensCache.get(lensId) || null;
+  }, []);
 
-      push2WebInstance.events.addEventListener('error', (event: any) => {
-        addLog(`❌ Push2Web error: ${event.detail}`);
-      });
+  // A pinned lens wins over the configured default, as long as this session can still load it
+  const getPreferredLensId = useCallback((): string | null => {
+    const pinned = getPinnedLens(lensHistoryRef.current);
+    if (pinned) {
+      if (findLens(pinned.id)) return pinned.id;
+      addLog(`⚠️ Pinned lens "${pinned.name}" must be pushed again from Lens Studio after a reload`);
+    }
+    return currentConfigRef.current?.lensId || null;
+  }, [findLens, addLog]);
+
+  const clearPush2WebTimers = useCallback(() => {
+    const retry = push2WebRetryRef.current;
+    if (retry.timer !== null) clearTimeout(retry.timer);
+    retry.timer = null;
+  }, []);
+
+  const schedulePush2WebRetry = useCallback((error: AppError) => {
+    const retry = push2WebRetryRef.current;
+    if (!push2WebTokenRef.current || retry.timer !== null) return;
+
+    if (!canRetry(retry.attempt)) {
+      addLog(`❌ [${error.code}] Push2Web gave up after ${retry.attempt} reconnect attempts: ${error.message}`);
+      updatePush2WebConnection({ state: 'failed', attempt: retry.attempt, error });
+      return;
+    }
 
-      push2WebInstance.events.addEventListener('subscriptionChanged', (event: any) => {
-        addLog(`📊 Push2Web subscription: ${event.detail}`);
+    const delay = getRetryDelay(retry.attempt);
+    retry.attempt += 1;
+    addLog(`🔄 Push2Web reconnecting in ${delay}ms (attempt ${retry.attempt}/${RETRY_CONFIG.MAX_RETRIES})`);
+    updatePush2WebConnection({ state: 'retrying', attempt: retry.attempt, error });
+
+    retry.timer = window.setTimeout(() => {
+      retry.timer = null;
+      connectPush2WebRef.current('retry');
+    }, delay);
+  }, [addLog]);
+
+  // Bus listeners live as long as the hook - subscribe() is called again on every reconnect
+  useEffect(() => {
+    const offLensReceived = onPush2WebEvent('lensReceived', lens => {
+      addLog(`📡 Lens received: ${lens.name} (${lens.id})`);
+      trackEvent('lens_applied', { lensId: lens.id, lensName: lens.name, source: 'push2web' });
+
+      // Push2Web applies the lens itself - track it so reload and history know about it
+      pushedLensCache.set(lens.id, lens);
+      currentLensIdRef.current = lens.id;
+      setCurrentLens(lens);
+      updateLensHistory(history => recordPushedLens(history, toPushedLensRecord(lens)));
+
+      // The SDK reports Subscribed before the server accepts the stream - only a
+      // delivered lens proves it works, so that is what restores the retry budget.
+      // An idle kiosk therefore keeps counting attempts across drops until one arrives.
+      if (!getPush2WebStatusSnapshot().connection.healthy) {
+        push2WebRetryRef.current.attempt = 0;
+        updatePush2WebConnection({ attempt: 0, healthy: true, error: null });
+      }
+    });
+
+    const offError = onPush2WebEvent('error', detail => {
+      if (detail.name === 'LensExcludedError') {
+        addLog(`⚠️ Pushed lens ${detail.lensId} was excluded: ${detail.cause.message}`);
+        return;
+      }
+
+      const isAuthError = detail.name === 'CommunicationError' && PUSH2WEB_AUTH_GRPC_CODES.includes(detail.grpcCode);
+      const appError = new AppError(isAuthError ? 'PUSH2WEB_AUTH' : 'PUSH2WEB_UNAVAILABLE', detail.cause?.message, {
+        cause: detail.cause,
+        details: { name: detail.name, ...(detail.name === 'CommunicationError' ? { grpcCode: detail.grpcCode } : {}) }
       });
+      addLog(`❌ [${appError.code}] Push2Web error: ${appError.message}`);
+
+      if (isAuthError) {
+        // Wait for a new token from the auth provider instead of retrying this one
+        clearPush2WebTimers();
+        updatePush2WebConnection({ state: 'failed', error: appError });
+        return;
+      }
+      schedulePush2WebRetry(appError);
+    });
 
+    const offSubscriptionChanged = onPush2WebEvent('subscriptionChanged', state => {
+      addLog(`📊 Push2Web subscription: ${state}`);
+
+      if (state === Push2WebSubscriptionState.Subscribed) {
+        updatePush2WebConnection({ state: 'subscribed', error: null });
+      } else if (push2WebSubscriptionRef.current) {
+        // Dropped by the server rather than by us
+        schedulePush2WebRetry(new AppError('PUSH2WEB_UNAVAILABLE', 'Push2Web subscription dropped'));
+      }
+    });
+
+    return () => {
+      offLensReceived();
+      offError();
+      offSubscriptionChanged();
+    };
+  }, [addLog, updateLensHistory, clearPush2WebTimers, schedulePush2WebRetry]);
+
+  const connectPush2Web = useCallback((reason: string): boolean => {
+    const accessToken = push2WebTokenRef.current;
+    if (!push2WebInstance || !sessionRef.current || !cameraKitInstance || !accessToken) {
+      addLog(`❌ [PUSH2WEB_UNAVAILABLE] Push2Web not ready`);
+      return false;
+    }
+
+    try {
+      addLog(`🔗 Subscribing to Push2Web (${reason})...`);
+      updatePush2WebConnection({ state: 'connecting', healthy: false });
+
+      // Replaces any previous subscription on this Push2Web instance
       const subscription = push2WebInstance.subscribe(
         accessToken,
         sessionRef.current,
@@ -93,22 +269,70 @@ export const useCameraKit = (addLog: (message: string) => void) => {
       );
 
       push2WebSubscriptionRef.current = subscription;
+      push2WebSessionRef.current = sessionRef.current;
       addLog('✅ Push2Web subscription active');
       return true;
     } catch (error) {
-      addLog(`❌ Push2Web subscription failed: ${error}`);
+      const appError = toAppError(error, 'PUSH2WEB_AUTH');
+      addLog(`❌ [${appError.code}] Push2Web subscription failed: ${appError.message}`);
+      schedulePush2WebRetry(appError);
       return false;
     }
-  }, [addLog]);
+  }, [addLog, schedulePush2WebRetry]);
+  connectPush2WebRef.current = connectPush2Web;
 
-  const getPush2WebStatus = useCallback(() => {
-    return {
-      available: !!push2WebInstance,
-      subscribed: !!push2WebSubscriptionRef.current,
-      session: !!sessionRef.current,
-      repository: !!lensRepositoryRef.current
-    };
-  }, []);
+  // Safe to call again with a refreshed token - a healthy subscription just swaps it in
+  const subscribePush2Web = useCallback(async (accessToken: string): Promise<boolean> => {
+    const previousToken = push2WebTokenRef.current;
+    push2WebTokenRef.current = accessToken;
+
+    const subscription = push2WebSubscriptionRef.current;
+    const isHealthy = getPush2WebStatusSnapshot().connection.state === 'subscribed' && push2WebSessionRef.current === sessionRef.current;
+    if (subscription && isHealthy) {
+      if (previousToken !== accessToken) {
+        subscription.updateAccessToken(accessToken);
+        addLog('🔑 Push2Web access token updated');
+      }
+      return true;
+    }
+
+    clearPush2WebTimers();
+    push2WebRetryRef.current.attempt = 0;
+    return connectPush2Web(previousToken && previousToken !== accessToken ? 'new token' : 'login');
+  }, [addLog, clearPush2WebTimers, connectPush2Web]);
+
+  const releasePush2WebSubscription = useCallback(() => {
+    clearPush2WebTimers();
+    const subscription = push2WebSubscriptionRef.current;
+    // Cleared first so the resulting subscriptionChanged isn't taken for a dropped connection
+    push2WebSubscriptionRef.current = null;
+    push2WebSessionRef.current = null;
+    subscription?.unsubscribe();
+    updatePush2WebConnection({ state: 'disconnected', attempt: 0, healthy: false, error: null });
+    return !!subscription;
+  }, [clearPush2WebTimers]);
+
+  // Logout - stop listening and forget the token
+  const unsubscribePush2Web = useCallback(() => {
+    push2WebTokenRef.current = null;
+    push2WebRetryRef.current.attempt = 0;
+    if (releasePush2WebSubscription()) {
+      addLog('🔌 Push2Web unsubscribed');
+    }
+  }, [addLog, releasePush2WebSubscription]);
+
+  useEffect(() => clearPush2WebTimers, [clearPush2WebTimers]);
+
+  // Manual retry once the automatic attempts are used up
+  const reconnectPush2Web = useCallback(async (): Promise<boolean> => {
+    if (!push2WebTokenRef.current) {
+      addLog('⚠️ Push2Web needs a Snapchat login first');
+      return false;
+    }
+    clearPush2WebTimers();
+    push2WebRetryRef.current.attempt = 0;
+    return connectPush2Web('manual');
+  }, [addLog, clearPush2WebTimers, connectPush2Web]);
 
   const attachCameraOutput = useCallback((
     canvas: HTMLCanvasElement, 
@@ -212,32 +436,55 @@ export const useCameraKit = (addLog: (message: string) => void) => {
     }
   }, [addLog, attachCameraOutput]);
 
+  // Render size policy lives in resolutionDetector - this only feeds it the live stream
+  const decideRenderSize = useCallback(async (stream: MediaStream): Promise<RenderSizeDecision> => {
+    const capability = await getOptimalConfiguration(stream, addLog);
+    const inputSettings = stream.getVideoTracks()[0]?.getSettings();
+    const cameraInput = inputSettings?.width && inputSettings?.height
+      ? { width: inputSettings.width, height: inputSettings.height }
+      : null;
+    const quality = renderQualityOverrideRef.current || loadOperatorSettings().renderQuality;
+
+    const decision = selectRenderSize(capability, quality, cameraInput);
+    addLog(`📐 Render size: ${decision.width}x${decision.height} (${decision.quality}${decision.requestedQuality === 'auto' ? ' via auto' : ''}, limited by ${decision.limitedBy})`);
+    return decision;
+  }, [addLog]);
+
   const initializeCameraKit = useCallback(async (
     stream: MediaStream,
     containerReference: React.RefObject<HTMLDivElement>
   ): Promise<boolean> => {
+    const initStartedAt = performance.now();
+
     try {
+      // Lens group/default lens come from the operator panel (falling back to .env)
+      const { lensId, lensGroupId } = loadOperatorSettings();
+      const renderSize = await decideRenderSize(stream);
       const adaptiveConfig = {
         apiToken: import.meta.env.VITE_CAMERA_KIT_API_TOKEN,
-        lensId: import.meta.env.VITE_CAMERA_KIT_LENS_ID || '04441cd2-8e9d-420b-b293-90b5df8f577f',
-        lensGroupId: import.meta.env.VITE_CAMERA_KIT_LENS_GROUP_ID || 'cd5b1b49-4483-45ea-9772-cb241939e2ce',
+        lensId,
+        lensGroupId,
         canvas: {
-          width: Math.round(window.innerWidth * (window.devicePixelRatio || 1)),
-          height: Math.round(window.innerHeight * (window.devicePixelRatio || 1))
+          width: renderSize.width,
+          height: renderSize.height
         }
       };
       currentConfigRef.current = adaptiveConfig;
       
+      const facingMode = getTrackFacingMode(stream);
+      facingModeRef.current = facingMode;
+      setCurrentFacingMode(facingMode);
+      setDeviceSelection(loadDeviceSelection()); // the permission step forgets unplugged devices
+
       if (isInitializedRef.current && sessionRef.current && cameraState === 'ready') {
         addLog('📱 Updating existing session...');
         
-        const source = createMediaStreamSource(stream, {
-          transform: currentFacingMode === 'user' ? Transform2D.MirrorX : undefined,
-          cameraType: currentFacingMode
-        });
+        const source = createCameraSource(stream, facingMode);
         
         await withTimeout(sessionRef.current.setSource(source), 3000);
         await source.setRenderSize(adaptiveConfig.canvas.width, adaptiveConfig.canvas.height);
+        sourceRef.current = source;
+        setRenderDecision(renderSize);
         
         streamRef.current = stream;
         containerRef.current = containerReference;
@@ -256,41 +503,46 @@ export const useCameraKit = (addLog: (message: string) => void) => {
 
       addLog('🎭 Initializing Camera Kit with Push2Web...');
       setCameraState('initializing');
+      setCameraError(null);
       containerRef.current = containerReference;
 
       const cameraKit = await withTimeout(preloadCameraKit(), 10000);
       
       if (!cameraKit) {
-        throw new Error('Failed to initialize Camera Kit');
+        throw new AppError('CAMERA_KIT_INIT', 'Failed to initialize Camera Kit');
       }
 
       addLog('🎬 Creating session...');
       const session: any = await withTimeout(cameraKit.createSession(), 5000);
       sessionRef.current = session;
+      updatePush2WebStatus({ session: true });
       streamRef.current = stream;
       isInitializedRef.current = true;
       
       session.events.addEventListener("error", (event: any) => {
         addLog(`❌ Session error: ${event.detail}`);
+        setCameraError(new AppError('CAMERA_KIT_INIT', `Session error: ${event.detail}`));
         setCameraState('error');
       });
 
-      const source = createMediaStreamSource(stream, {
-        transform: currentFacingMode === 'user' ? Transform2D.MirrorX : undefined,
-        cameraType: currentFacingMode
-      });
+      const source = createCameraSource(stream, facingMode);
       
       await withTimeout(session.setSource(source), 3000);
       await source.setRenderSize(adaptiveConfig.canvas.width, adaptiveConfig.canvas.height);
+      sourceRef.current = source;
+      setRenderDecision(renderSize);
 
       if (!lensRepositoryRef.current) {
         try {
           const lensResult: any = await withTimeout(
             cameraKit.lensRepository.loadLensGroups([adaptiveConfig.lensGroupId]), 
-            5000
+            5000,
+            'LENS_LOAD_TIMEOUT'
           );
           lensRepositoryRef.current = lensResult.lenses;
-          addLog('✅ Lens repository loaded');
+          updatePush2WebStatus({ repository: true });
+          setLenses(lensResult.lenses);
+          addLog(`✅ Lens repository loaded: ${lensResult.lenses.length} lenses`);
         } catch (lensError) {
           addLog(`⚠️ Lens loading failed: ${lensError}`);
         }
@@ -299,9 +551,15 @@ export const useCameraKit = (addLog: (message: string) => void) => {
       const lenses = lensRepositoryRef.current;
       if (lenses && lenses.length > 0) {
         try {
-          const targetLens = lenses.find((lens: any) => lens.id === adaptiveConfig.lensId) || lenses[0];
-          await withTimeout(session.applyLens(targetLens), 3000);
+          const preferredLensId = getPreferredLensId();
+          const targetLens = (preferredLensId && findLens(preferredLensId)) || lenses[0];
+          const lensStartedAt = performance.now();
+          await withTimeout(session.applyLens(targetLens), 3000, 'LENS_LOAD_TIMEOUT');
+          markPerformanceTiming('lensLoadTime', performance.now() - lensStartedAt);
+          currentLensIdRef.current = targetLens.id;
+          setCurrentLens(targetLens);
           addLog(`✅ Default lens applied: ${targetLens.name}`);
+          trackEvent('lens_applied', { lensId: targetLens.id, lensName: targetLens.name, source: 'default' });
         } catch (lensApplyError) {
           addLog(`⚠️ Lens application failed: ${lensApplyError}`);
         }
@@ -315,62 +573,359 @@ export const useCameraKit = (addLog: (message: string) => void) => {
         }
       }, 500);
 
+      // A new session drops the old subscription - resubscribe if the user is logged in
+      if (push2WebTokenRef.current && push2WebSessionRef.current !== session) {
+        clearPush2WebTimers();
+        push2WebRetryRef.current.attempt = 0;
+        connectPush2Web('session recreated');
+      }
+
       setCameraState('ready');
+      markPerformanceTiming('initializationTime', performance.now() - initStartedAt);
       addLog('🎉 Camera Kit with Push2Web ready');
 
       return true;
 
     } catch (error: any) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      addLog(`❌ Camera Kit error: ${errorMessage}`);
+      const appError = toAppError(error, 'CAMERA_KIT_INIT');
+      addLog(`❌ [${appError.code}] Camera Kit error: ${appError.message}`);
+      reportError(appError, 'useCameraKit', 'initializeCameraKit');
+      setCameraError(appError);
       setCameraState('error');
       return false;
     }
-  }, [currentFacingMode, addLog, attachCameraOutput, cameraState]);
+  }, [addLog, attachCameraOutput, decideRenderSize, cameraState, findLens, getPreferredLensId, clearPush2WebTimers, connectPush2Web]);
+
+  /**
+   * Feeds a new camera stream into the running session, mirrored for selfie cameras.
+   * `facingMode` overrides what the track reports - webcams rarely report one at all.
+   */
+  const setSessionStream = useCallback(async (stream: MediaStream, facingModeOverride?: FacingMode): Promise<void> => {
+    const facingMode = facingModeOverride || getTrackFacingMode(stream);
+    const source = createCameraSource(stream, facingMode);
+
+    // A different camera may have a different max resolution
+    const renderSize = await decideRenderSize(stream);
+
+    await withTimeout(sessionRef.current.setSource(source), 3000);
+    await source.setRenderSize(renderSize.width, renderSize.height);
+    if (currentConfigRef.current) {
+      currentConfigRef.current.canvas = { width: renderSize.width, height: renderSize.height };
+    }
+
+    sourceRef.current = source;
+    streamRef.current = stream;
+    facingModeRef.current = facingMode;
+    setCurrentFacingMode(facingMode);
+    setRenderDecision(renderSize);
+  }, [decideRenderSize]);
+
+  /**
+   * Re-runs the render size policy against the live source. `quality` pins a
+   * profile until the next explicit call; omit it to keep the current one.
+   * While held, resolves null and runs once the hold is released.
+   */
+  const applyRenderSize = useCallback(async (quality?: RenderQualitySetting | null): Promise<RenderSizeDecision | null> => {
+    if (!sourceRef.current || !streamRef.current) return null;
+
+    if (quality !== undefined) {
+      renderQualityOverrideRef.current = quality;
+    }
+    if (renderSizeHoldRef.current.held) {
+      renderSizeHoldRef.current.deferred = true;
+      return null;
+    }
+
+    try {
+      const renderSize = await decideRenderSize(streamRef.current);
+      const current = currentConfigRef.current?.canvas;
+      if (current && current.width === renderSize.width && current.height === renderSize.height) {
+        setRenderDecision(renderSize);
+        return renderSize;
+      }
+
+      await sourceRef.current.setRenderSize(renderSize.width, renderSize.height);
+      if (currentConfigRef.current) {
+        currentConfigRef.current.canvas = { width: renderSize.width, height: renderSize.height };
+      }
+      setRenderDecision(renderSize);
+
+      // Canvas aspect changed - refit it into the container
+      if (outputCanvasRef.current && containerRef.current) {
+        attachCameraOutput(outputCanvasRef.current, containerRef.current);
+      }
+      return renderSize;
+    } catch (error) {
+      addLog(`❌ Render size update failed: ${error}`);
+      return null;
+    }
+  }, [decideRenderSize, attachCameraOutput, addLog]);
+
+  // Held while recording - the resize, rotation or quality change that came in meanwhile applies afterwards
+  const holdRenderSize = useCallback((held: boolean) => {
+    const hold = renderSizeHoldRef.current;
+    if (hold.held === held) return;
+    hold.held = held;
+
+    if (!held && hold.deferred) {
+      hold.deferred = false;
+      addLog('📐 Applying the render size change deferred during recording');
+      applyRenderSize();
+    }
+  }, [applyRenderSize, addLog]);
+
+  // Orientation changes and window resizes re-run the policy (debounced - rotation fires a burst)
+  useEffect(() => {
+    if (cameraState !== 'ready') return;
+
+    let timeout: ReturnType<typeof setTimeout> | null = null;
+    const handleResize = () => {
+      if (timeout) clearTimeout(timeout);
+      timeout = setTimeout(() => {
+        applyRenderSize();
+      }, RENDER_CONFIG.RESIZE_DEBOUNCE);
+    };
+
+    window.addEventListener('resize', handleResize);
+    window.addEventListener('orientationchange', handleResize);
+    return () => {
+      if (timeout) clearTimeout(timeout);
+      window.removeEventListener('resize', handleResize);
+      window.removeEventListener('orientationchange', handleResize);
+    };
+  }, [cameraState, applyRenderSize]);
 
-  const switchCamera = useCallback(async (): Promise<MediaStream | null> => {
+  /**
+   * Opens the requested devices and hands the new stream to the running session.
+   * Lens-driven switches pass `persist: false` so the operator's saved choice survives.
+   */
+  const selectDevices = useCallback(async (
+    changes: Partial<DeviceSelection>,
+    options: { facingMode?: FacingMode; persist?: boolean } = {}
+  ): Promise<MediaStream | null> => {
     if (!isInitializedRef.current || !sessionRef.current) {
       addLog('❌ Camera not initialized');
       return null;
     }
 
-    try {
-      addLog('🔄 Switching camera...');
-      
-      const newFacingMode = currentFacingMode === 'user' ? 'environment' : 'user';
-      
-      const stream = await navigator.mediaDevices.getUserMedia({
-        video: {
-          facingMode: newFacingMode,
-          width: { ideal: 1280, min: 640, max: 1920 },
-          height: { ideal: 720, min: 480, max: 1080 },
-          frameRate: { ideal: 30, min: 15, max: 60 }
-        },
-        audio: true
-      });
+    const selection: DeviceSelection = { ...deviceSelection, ...changes };
+    const facingMode = options.facingMode || facingModeRef.current;
 
-      const source = createMediaStreamSource(stream, {
-        transform: newFacingMode === 'user' ? Transform2D.MirrorX : undefined,
-        cameraType: newFacingMode
-      });
+    try {
+      addLog(`🔄 Opening devices - camera: ${selection.videoDeviceId?.slice(0, 8) || 'default'}, mic: ${selection.audioDeviceId?.slice(0, 8) || 'default'}`);
 
-      await sessionRef.current.setSource(source);
-      
+      // Release the current devices first - many USB cameras can't be opened twice
       if (streamRef.current) {
         streamRef.current.getTracks().forEach(track => track.stop());
       }
-      
-      streamRef.current = stream;
-      setCurrentFacingMode(newFacingMode);
-      
-      addLog(`✅ Switched to ${newFacingMode} camera`);
+
+      const stream = await navigator.mediaDevices.getUserMedia(
+        getBrioOptimalConstraints(facingMode, selection)
+      );
+      // Webcams report no facing mode and ignore the constraint - keep them tagged as they are
+      const reportsFacing = !!stream.getVideoTracks()[0]?.getSettings().facingMode;
+      await setSessionStream(stream, reportsFacing ? options.facingMode : undefined);
+
+      if (options.persist !== false) {
+        setDeviceSelection(selection);
+        saveDeviceSelection(selection);
+      }
+
+      const videoLabel = stream.getVideoTracks()[0]?.label || 'Camera';
+      const audioLabel = stream.getAudioTracks()[0]?.label || 'no microphone';
+      addLog(`✅ Using ${videoLabel} + ${audioLabel}`);
       return stream;
 
     } catch (error) {
-      addLog(`❌ Camera switch failed: ${error}`);
+      addLog(`❌ Device switch failed: ${error}`);
+
+      // Get the previous devices back so the booth isn't left without a camera
+      try {
+        const restored = await navigator.mediaDevices.getUserMedia(
+          getBrioOptimalConstraints(facingModeRef.current, deviceSelection)
+        );
+        await setSessionStream(restored);
+        addLog('↩️ Previous devices restored');
+      } catch (restoreError) {
+        addLog(`❌ Could not restore previous devices: ${restoreError}`);
+      }
+      return null;
+    }
+  }, [deviceSelection, setSessionStream, addLog]);
+
+  /**
+   * Cycles through the attached cameras by deviceId (facingMode means nothing on USB webcams).
+   * With `facingMode`, opens the camera that reports that facing - used by lens preferences.
+   * Returns null without touching the current camera when none does.
+   */
+  const switchCamera = useCallback(async (facingMode?: FacingMode): Promise<MediaStream | null> => {
+    if (!isInitializedRef.current || !sessionRef.current) {
+      addLog('❌ Camera not initialized');
+      return null;
+    }
+
+    const cameras = (await getAvailableCameras()).filter(camera => camera.deviceId);
+    if (cameras.length < 2) {
+      addLog('⚠️ Only one camera available');
       return null;
     }
-  }, [currentFacingMode, addLog]);
+
+    if (facingMode) {
+      const camera = await findCameraWithFacing(facingMode);
+      if (!camera) {
+        addLog(`⚠️ No camera reports itself as the ${facingMode === 'user' ? 'front' : 'rear'} camera`);
+        return null;
+      }
+      addLog(`🔄 Switching to the ${facingMode === 'user' ? 'front' : 'rear'} camera...`);
+      return selectDevices({ videoDeviceId: camera.deviceId }, { facingMode, persist: false });
+    }
+
+    const currentDeviceId = streamRef.current?.getVideoTracks()[0]?.getSettings().deviceId || deviceSelection.videoDeviceId;
+    const currentIndex = cameras.findIndex(camera => camera.deviceId === currentDeviceId);
+    const nextCamera = cameras[(currentIndex + 1) % cameras.length];
+
+    // A manual switch wins over whatever the current lens asked for - don't switch back for it
+    if (facingRestoreRef.current) {
+      addLog('📷 Manual camera choice overrides the lens preference');
+    }
+    facingRestoreRef.current = null;
+    facingOverrideLensIdRef.current = facingLensIdRef.current;
+    addLog(`🔄 Switching camera to ${nextCamera.label || nextCamera.deviceId.slice(0, 8)}...`);
+    return selectDevices({ videoDeviceId: nextCamera.deviceId });
+  }, [deviceSelection.videoDeviceId, selectDevices, addLog]);
+
+  /**
+   * Lenses can ask for the front or rear camera. Switch when another camera reports that
+   * facing, otherwise keep this one but mirror and tag it the way the lens expects. The
+   * device from before the first switch comes back once a lens has no preference.
+   */
+  const applyLensFacing = useCallback((lens: Lens): Promise<void> => {
+    const run = async () => {
+      if (!sessionRef.current || !streamRef.current) return;
+      if (lens.id === facingOverrideLensIdRef.current) return;
+      facingOverrideLensIdRef.current = null;
+
+      const preferred = getLensFacingMode(lens);
+      if (!preferred) {
+        const previous = facingRestoreRef.current;
+        facingRestoreRef.current = null;
+        if (!previous) return;
+
+        addLog('📷 Restoring the previous camera');
+        const currentDeviceId = streamRef.current.getVideoTracks()[0]?.getSettings().deviceId || null;
+        if (currentDeviceId === previous.deviceId) {
+          // Never switched, only re-tagged - undo that without reopening the camera
+          if (previous.facingMode !== facingModeRef.current) {
+            await setSessionStream(streamRef.current, previous.facingMode);
+          }
+          return;
+        }
+        await selectDevices(
+          previous.deviceId ? { videoDeviceId: previous.deviceId } : {},
+          { facingMode: previous.facingMode, persist: false }
+        );
+        return;
+      }
+      if (preferred === facingModeRef.current) return;
+
+      if (facingRestoreRef.current === null) {
+        facingRestoreRef.current = {
+          deviceId: streamRef.current.getVideoTracks()[0]?.getSettings().deviceId || null,
+          facingMode: facingModeRef.current
+        };
+      }
+      addLog(`📷 "${lens.name}" is made for the ${preferred === 'user' ? 'front' : 'rear'} camera`);
+
+      const switched = await switchCamera(preferred);
+      if (!switched && streamRef.current) {
+        await setSessionStream(streamRef.current, preferred);
+      }
+    };
+
+    // Lenses can change faster than cameras open - apply preferences one at a time
+    facingQueueRef.current = facingQueueRef.current
+      .then(run)
+      .catch(error => addLog(`⚠️ Camera facing change failed: ${error}`));
+    return facingQueueRef.current;
+  }, [addLog, selectDevices, switchCamera, setSessionStream]);
+
+  // Every path that changes the lens (group, pushed, reload) ends in currentLens. Only a
+  // new lens applies its preference - a manual switch recreates the callbacks above too.
+  useEffect(() => {
+    if (cameraState !== 'ready') {
+      facingLensIdRef.current = null;
+      return;
+    }
+    if (!currentLens || currentLens.id === facingLensIdRef.current) return;
+
+    facingLensIdRef.current = currentLens.id;
+    applyLensFacing(currentLens);
+  }, [currentLens, cameraState, applyLensFacing]);
+
+  const applyLensById = useCallback(async (lensId: string): Promise<boolean> => {
+    if (!sessionRef.current || !lensRepositoryRef.current) {
+      addLog('❌ Session or lens repository not ready');
+      return false;
+    }
+
+    if (isApplyingLensRef.current) {
+      addLog('⏳ Lens change already in progress');
+      return false;
+    }
+
+    const targetLens = findLens(lensId);
+    if (!targetLens) {
+      const pushed = lensHistoryRef.current.find(record => record.id === lensId);
+      addLog(pushed
+        ? `❌ [LENS_NOT_FOUND] "${pushed.name}" is no longer loaded - push it again from Lens Studio`
+        : `❌ [LENS_NOT_FOUND] Lens not found in group: ${lensId}`);
+      return false;
+    }
+
+    try {
+      isApplyingLensRef.current = true;
+      addLog(`🎭 Applying lens: ${targetLens.name}`);
+      
+      const lensStartedAt = performance.now();
+      await withTimeout(sessionRef.current.applyLens(targetLens), 3000, 'LENS_LOAD_TIMEOUT');
+      markPerformanceTiming('lensLoadTime', performance.now() - lensStartedAt);
+      currentLensIdRef.current = targetLens.id;
+      setCurrentLens(targetLens);
+      
+      addLog(`✅ Lens applied: ${targetLens.name}`);
+      trackEvent('lens_applied', {
+        lensId: targetLens.id,
+        lensName: targetLens.name,
+        source: pushedLensCache.has(targetLens.id) ? 'push2web_history' : 'user'
+      });
+      return true;
+    } catch (error) {
+      const appError = toAppError(error);
+      addLog(`❌ [${appError.code}] Lens apply failed: ${appError.message}`);
+      return false;
+    } finally {
+      isApplyingLensRef.current = false;
+    }
+  }, [addLog, findLens]);
+
+  const stepLens = useCallback(async (direction: 1 | -1): Promise<boolean> => {
+    const lenses: Lens[] | null = lensRepositoryRef.current;
+    if (!lenses || lenses.length === 0) {
+      addLog('❌ No lenses available');
+      return false;
+    }
+
+    const currentIndex = lenses.findIndex(lens => lens.id === currentLensIdRef.current);
+    const nextIndex = currentIndex === -1 
+      ? 0 
+      : (currentIndex + direction + lenses.length) % lenses.length;
+    
+    return applyLensById(lenses[nextIndex].id);
+  }, [addLog, applyLensById]);
+
+  const nextLens = useCallback(() => stepLens(1), [stepLens]);
+
+  const previousLens = useCallback(() => stepLens(-1), [stepLens]);
 
   const reloadLens = useCallback(async (): Promise<boolean> => {
     if (!sessionRef.current || !lensRepositoryRef.current || !currentConfigRef.current) {
@@ -383,8 +938,15 @@ export const useCameraKit = (addLog: (message: string) => void) => {
       
       const lenses = lensRepositoryRef.current;
       if (lenses && lenses.length > 0) {
-        const targetLens = lenses.find((lens: any) => lens.id === currentConfigRef.current.lensId) || lenses[0];
-        await withTimeout(sessionRef.current.applyLens(targetLens), 3000);
+        // Pinned lens first, then whatever is showing, then the configured default
+        const pinned = getPinnedLens(lensHistoryRef.current);
+        const lensId = (pinned && findLens(pinned.id) ? pinned.id : null) ||
+          currentLensIdRef.current ||
+          currentConfigRef.current.lensId;
+        const targetLens = findLens(lensId) || lenses[0];
+        await withTimeout(sessionRef.current.applyLens(targetLens), 3000, 'LENS_LOAD_TIMEOUT');
+        currentLensIdRef.current = targetLens.id;
+        setCurrentLens(targetLens);
         addLog(`✅ Lens reloaded: ${targetLens.name}`);
         return true;
       } else {
@@ -392,10 +954,30 @@ export const useCameraKit = (addLog: (message: string) => void) => {
         return false;
       }
     } catch (error) {
-      addLog(`❌ Lens reload failed: ${error}`);
+      const appError = toAppError(error);
+      addLog(`❌ [${appError.code}] Lens reload failed: ${appError.message}`);
       return false;
     }
-  }, [addLog]);
+  }, [addLog, findLens]);
+
+  // Pinning also applies the lens now; it's what reload and restart come back to
+  const pinLens = useCallback(async (lensId: string | null): Promise<boolean> => {
+    updateLensHistory(history => pinLensInHistory(history, lensId));
+    if (!lensId) {
+      addLog('📌 Lens unpinned - the configured default lens is back in charge');
+      return true;
+    }
+
+    const record = lensHistoryRef.current.find(entry => entry.id === lensId);
+    addLog(`📌 Pinned lens: ${record?.name || lensId}`);
+    return currentLensIdRef.current === lensId || applyLensById(lensId);
+  }, [addLog, applyLensById, updateLensHistory]);
+
+  const removeFromLensHistory = useCallback((lensId: string) => {
+    updateLensHistory(history => history.filter(entry => entry.id !== lensId));
+  }, [updateLensHistory]);
+
+  const isLensAvailable = useCallback((lensId: string) => !!findLens(lensId), [findLens]);
 
   const pauseSession = useCallback(() => {
     if (sessionRef.current) {
@@ -412,8 +994,8 @@ export const useCameraKit = (addLog: (message: string) => void) => {
   }, [addLog]);
 
   const cleanup = useCallback(() => {
-    if (push2WebSubscriptionRef.current) {
-      push2WebSubscriptionRef.current = null;
+    // Keeps the token, so the next session resubscribes on its own
+    if (releasePush2WebSubscription()) {
       addLog('🔌 Push2Web unsubscribed');
     }
     if (streamRef.current) {
@@ -427,7 +1009,7 @@ export const useCameraKit = (addLog: (message: string) => void) => {
     isAttachedRef.current = false;
     containerRef.current = null;
     currentConfigRef.current = null;
-  }, [addLog]);
+  }, [addLog, releasePush2WebSubscription]);
 
   const getCanvas = useCallback(() => {
     return outputCanvasRef.current;
@@ -440,9 +1022,24 @@ export const useCameraKit = (addLog: (message: string) => void) => {
   return {
     cameraState,
     currentFacingMode,
+    lenses,
+    currentLens,
+    deviceSelection,
+    renderDecision,
+    cameraError,
+    applyRenderSize,
+    holdRenderSize,
     initializeCameraKit,
     switchCamera,
+    selectDevices,
     reloadLens,
+    applyLensById,
+    lensHistory,
+    pinLens,
+    removeFromLensHistory,
+    isLensAvailable,
+    nextLens,
+    previousLens,
     pauseSession,
     resumeSession,
     cleanup,
@@ -450,7 +1047,9 @@ export const useCameraKit = (addLog: (message: string) => void) => {
     getStream,
     restoreCameraFeed,
     subscribePush2Web,
-    getPush2WebStatus,
+    unsubscribePush2Web,
+    reconnectPush2Web,
+    push2WebConnection,
     isReady: cameraState === 'ready',
     isInitializing: cameraState === 'initializing'
   };
@@ -1,29 +1,31 @@
 // src/hooks/useCameraPermissions.ts - FORCE EXACT 4K constraints
 import { useState, useCallback } from 'react';
+import { getBrioOptimalConstraints } from '../config/cameraKit';
+import { loadDeviceSelection, saveDeviceSelection } from '../utils/cameraHelpers';
+import { markPerformanceTiming } from '../utils/performanceMonitor';
+import { AppError, toAppError } from '../utils/appErrors';
+import type { AppErrorCode } from '../utils/appErrors';
 
-export type PermissionState = 'checking' | 'granted' | 'denied' | 'prompt';
+// not_found / in_use: access was allowed (or never asked) but there is no usable camera
+export type PermissionState = 'checking' | 'granted' | 'denied' | 'prompt' | 'not_found' | 'in_use';
 export type CameraState = 'initializing' | 'ready' | 'error' | 'permission_denied' | 'https_required';
 
-export interface ErrorInfo {
-  type: 'permission' | 'https' | 'camera_kit' | 'device' | 'unknown';
-  message: string;
-  solution: string;
-}
+const PERMISSION_STATE_BY_CODE: Partial<Record<AppErrorCode, PermissionState>> = {
+  PERMISSION_DENIED: 'denied',
+  DEVICE_NOT_FOUND: 'not_found',
+  DEVICE_IN_USE: 'in_use'
+};
 
 export const useCameraPermissions = (addLog: (message: string) => void) => {
   const [permissionState, setPermissionState] = useState<PermissionState>('checking');
-  const [errorInfo, setErrorInfo] = useState<ErrorInfo | null>(null);
+  const [errorInfo, setErrorInfo] = useState<AppError | null>(null);
 
   const checkHTTPS = useCallback((): boolean => {
     const isHTTPS = location.protocol === 'https:' || location.hostname === 'localhost';
     
     if (!isHTTPS) {
       addLog('❌ HTTPS required for camera access');
-      setErrorInfo({
-        type: 'https',
-        message: 'Camera access requires HTTPS',
-        solution: 'Please access this site via HTTPS or use localhost for development'
-      });
+      setErrorInfo(new AppError('HTTPS_REQUIRED'));
       return false;
     }
     
@@ -33,11 +35,7 @@ export const useCameraPermissions = (addLog: (message: string) => void) => {
   const checkMediaDeviceSupport = useCallback((): boolean => {
     if (!navigator.mediaDevices || !navigator.mediaDevices.getUserMedia) {
       addLog('❌ Media devices not supported');
-      setErrorInfo({
-        type: 'device',
-        message: 'Your device/browser does not support camera access',
-        solution: 'Please use a modern browser with camera support'
-      });
+      setErrorInfo(new AppError('CAMERA_NOT_SUPPORTED'));
       return false;
     }
     
@@ -59,11 +57,7 @@ export const useCameraPermissions = (addLog: (message: string) => void) => {
       
       if (cameraPermission.state === 'denied') {
         setPermissionState('denied');
-        setErrorInfo({
-          type: 'permission',
-          message: 'Camera access has been denied',
-          solution: 'Please enable camera access in your browser settings and refresh the page'
-        });
+        setErrorInfo(new AppError('PERMISSION_DENIED', 'Camera permission is denied in browser settings'));
         return false;
       } else if (cameraPermission.state === 'granted') {
         setPermissionState('granted');
@@ -94,11 +88,7 @@ export const useCameraPermissions = (addLog: (message: string) => void) => {
 
     } catch (error) {
       addLog(`❌ Permission check failed: ${error}`);
-      setErrorInfo({
-        type: 'unknown',
-        message: 'Failed to check camera permissions',
-        solution: 'Please refresh the page and try again'
-      });
+      setErrorInfo(toAppError(error));
       return false;
     }
   }, [addLog, checkHTTPS, checkMediaDeviceSupport, checkPermissionAPI]);
@@ -107,19 +97,23 @@ export const useCameraPermissions = (addLog: (message: string) => void) => {
     facingMode: 'user' | 'environment' = 'user',
     includeAudio: boolean = true
   ): Promise<MediaStream | null> => {
+    // Operator-picked devices (Settings) win over facingMode
+    const deviceSelection = loadDeviceSelection();
+
     try {
       addLog('📸 FORCE EXACT: Requesting 4K landscape camera stream...');
       
       // FORCE EXACT constraints - no fallback!
       const exactConstraints: MediaStreamConstraints = {
         video: { 
-          facingMode,
+          ...(deviceSelection.videoDeviceId ? { deviceId: { exact: deviceSelection.videoDeviceId } } : { facingMode }),
           // FORCE EXACT 4K landscape - no compromise!
           width: { exact: 2560 },
           height: { exact: 1440 },
           frameRate: { exact: 30 }
         },
         audio: includeAudio ? {
+          ...(deviceSelection.audioDeviceId ? { deviceId: { exact: deviceSelection.audioDeviceId } } : {}),
           echoCancellation: true,
           noiseSuppression: true,
           autoGainControl: true,
@@ -131,7 +125,9 @@ export const useCameraPermissions = (addLog: (message: string) => void) => {
       addLog(`🎤 Audio requested: ${includeAudio ? 'YES with EXACT 48kHz stereo' : 'NO'}`);
       addLog(`🎯 FORCE EXACT: 2560×1440@30fps (NO FALLBACK)`);
       
+      const cameraStartedAt = performance.now();
       const stream = await navigator.mediaDevices.getUserMedia(exactConstraints);
+      markPerformanceTiming('cameraStartTime', performance.now() - cameraStartedAt);
       
       // Verify we got EXACT resolution
       const audioTracks = stream.getAudioTracks();
@@ -189,24 +185,28 @@ export const useCameraPermissions = (addLog: (message: string) => void) => {
         addLog(`🔄 Falling back to IDEAL constraints...`);
         
         try {
+          // Fallback to ideal with reasonable range
+          const brioConstraints = getBrioOptimalConstraints(facingMode, deviceSelection);
           const fallbackConstraints: MediaStreamConstraints = {
-            video: { 
-              facingMode,
-              // Fallback to ideal with reasonable range
-              width: { ideal: 2560, min: 1280, max: 3840 },
-              height: { ideal: 1440, min: 720, max: 2160 },
-              frameRate: { ideal: 30, min: 15, max: 60 }
-            },
-            audio: includeAudio ? {
-              echoCancellation: true,
-              noiseSuppression: true,
-              autoGainControl: true,
-              sampleRate: { ideal: 48000 },
-              channelCount: { ideal: 2 }
-            } : false
+            video: brioConstraints.video,
+            audio: includeAudio ? brioConstraints.audio : false
           };
           
-          const fallbackStream = await navigator.mediaDevices.getUserMedia(fallbackConstraints);
+          let fallbackStream: MediaStream;
+          try {
+            fallbackStream = await navigator.mediaDevices.getUserMedia(fallbackConstraints);
+          } catch (deviceError: any) {
+            if (!deviceSelection.videoDeviceId && !deviceSelection.audioDeviceId) throw deviceError;
+
+            // Remembered device was unplugged - forget it and use the defaults
+            addLog(`⚠️ Saved camera/microphone unavailable (${deviceError.name}) - using defaults`);
+            saveDeviceSelection({ videoDeviceId: null, audioDeviceId: null });
+            const defaultConstraints = getBrioOptimalConstraints(facingMode);
+            fallbackStream = await navigator.mediaDevices.getUserMedia({
+              video: defaultConstraints.video,
+              audio: includeAudio ? defaultConstraints.audio : false
+            });
+          }
           
           const fallbackVideo = fallbackStream.getVideoTracks()[0];
           const fallbackSettings = fallbackVideo?.getSettings();
@@ -221,37 +221,15 @@ export const useCameraPermissions = (addLog: (message: string) => void) => {
           
         } catch (fallbackError) {
           addLog(`❌ Fallback also failed: ${fallbackError}`);
-          setErrorInfo({
-            type: 'device',
-            message: 'Camera constraints not supported - even fallback failed',
-            solution: 'Device/browser has severe WebRTC limitations'
-          });
+          setErrorInfo(toAppError(fallbackError, 'CONSTRAINTS_UNSATISFIED'));
         }
-      } else if (streamError.name === 'NotAllowedError') {
-        setPermissionState('denied');
-        setErrorInfo({
-          type: 'permission',
-          message: 'Camera/microphone access denied by user',
-          solution: 'Please click "Allow" when prompted for camera and microphone access'
-        });
-      } else if (streamError.name === 'NotFoundError') {
-        setErrorInfo({
-          type: 'device',
-          message: 'No camera found on this device',
-          solution: 'Please ensure your device has a camera and try again'
-        });
-      } else if (streamError.name === 'NotSupportedError') {
-        setErrorInfo({
-          type: 'device',
-          message: 'Camera not supported in this browser',
-          solution: 'Please try using Chrome, Firefox, Safari, or Edge'
-        });
       } else {
-        setErrorInfo({
-          type: 'unknown',
-          message: `Camera error: ${streamError.message}`,
-          solution: 'Please refresh the page and try again'
-        });
+        const appError = toAppError(streamError);
+        const nextPermissionState = PERMISSION_STATE_BY_CODE[appError.code];
+        if (nextPermissionState) {
+          setPermissionState(nextPermissionState);
+        }
+        setErrorInfo(appError);
       }
       
       return null;
@@ -295,12 +273,13 @@ export const useCameraPermissions = (addLog: (message: string) => void) => {
         addLog(`🚨 Device cannot provide EXACT 4K even for permission check`);
       }
       
-      setPermissionState('denied');
-      setErrorInfo({
-        type: 'permission',
-        message: 'Camera/microphone permission denied or constraints too strict',
-        solution: 'Enable camera access or device has WebRTC limitations'
-      });
+      // Only a refusal is "denied" - a missing or busy camera gets its own state
+      const appError = toAppError(error);
+      const nextPermissionState = PERMISSION_STATE_BY_CODE[appError.code];
+      if (nextPermissionState) {
+        setPermissionState(nextPermissionState);
+      }
+      setErrorInfo(appError);
       
       return null;
     }
@@ -0,0 +1,94 @@
+// src/hooks/useCaptureStore.ts - Persistent capture gallery (IndexedDB)
+import { useState, useCallback, useEffect } from 'react';
+import {
+  isCaptureStoreSupported,
+  saveCapture as saveCaptureToStore,
+  listCaptures,
+  getCapture,
+  deleteCapture as deleteCaptureFromStore,
+  captureToFile
+} from '../utils/captureStore';
+import type { StoredCapture } from '../utils/captureStore';
+
+export const useCaptureStore = (addLog: (message: string) => void) => {
+  const [captures, setCaptures] = useState<StoredCapture[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const isAvailable = isCaptureStoreSupported();
+
+  const refreshCaptures = useCallback(async () => {
+    if (!isAvailable) return;
+
+    try {
+      setIsLoading(true);
+      const stored = await listCaptures();
+      setCaptures(stored);
+    } catch (error) {
+      addLog(`❌ Capture store load failed: ${error}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [isAvailable, addLog]);
+
+  // Restore captures from previous sessions (once per mount)
+  useEffect(() => {
+    if (isAvailable) {
+      refreshCaptures();
+    } else {
+      addLog('⚠️ IndexedDB not available - captures will not persist');
+    }
+  }, [isAvailable]);
+
+  const saveCapture = useCallback(async (file: File | Blob): Promise<StoredCapture | null> => {
+    if (!isAvailable) return null;
+
+    try {
+      const capture = await saveCaptureToStore(file);
+      addLog(`💾 Capture saved offline: ${capture.name} (${(capture.size / (1024 * 1024)).toFixed(1)}MB)`);
+      await refreshCaptures();
+      return capture;
+    } catch (error) {
+      addLog(`❌ Capture save failed: ${error}`);
+      return null;
+    }
+  }, [isAvailable, refreshCaptures, addLog]);
+
+  const deleteCapture = useCallback(async (id: string): Promise<boolean> => {
+    if (!isAvailable) return false;
+
+    try {
+      await deleteCaptureFromStore(id);
+      setCaptures(prev => prev.filter(capture => capture.id !== id));
+      addLog(`🗑️ Capture deleted: ${id}`);
+      return true;
+    } catch (error) {
+      addLog(`❌ Capture delete failed: ${error}`);
+      return false;
+    }
+  }, [isAvailable, addLog]);
+
+  const getCaptureFile = useCallback(async (id: string): Promise<File | null> => {
+    if (!isAvailable) return null;
+
+    try {
+      const capture = await getCapture(id);
+      if (!capture) {
+        addLog(`❌ Capture not found: ${id}`);
+        return null;
+      }
+      return captureToFile(capture);
+    } catch (error) {
+      addLog(`❌ Capture load failed: ${error}`);
+      return null;
+    }
+  }, [isAvailable, addLog]);
+
+  return {
+    captures,
+    isLoading,
+    isAvailable,
+    saveCapture,
+    deleteCapture,
+    getCaptureFile,
+    refreshCaptures
+  };
+};
@@ -1,77 +1,57 @@
 // src/hooks/useDebugLogger.ts
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useMemo, useRef } from 'react';
+import { DEBUG_CONFIG } from '../utils/constants';
+import { clearLogStore } from '../utils/logStore';
+import { downloadLogs, writeLog } from '../utils/logger';
+import type { LogExportFormat, LogFunction } from '../utils/logger';
 
-export interface LogEntry {
-  timestamp: string;
-  message: string;
-  level: 'info' | 'warning' | 'error' | 'success';
-}
+export type { LogEntry, LogLevel } from '../utils/logStore';
 
-export const useDebugLogger = (maxLogs: number = 15) => {
+export const useDebugLogger = (maxLogs: number = DEBUG_CONFIG.MAX_LOGS) => {
   const [debugLogs, setDebugLogs] = useState<string[]>([]);
-  const [detailedLogs, setDetailedLogs] = useState<LogEntry[]>([]);
-
-  const addLog = useCallback((message: string, level: 'info' | 'warning' | 'error' | 'success' = 'info') => {
-    const timestamp = new Date().toLocaleTimeString();
-    const logEntry = `[${timestamp}] ${message}`;
-    
-    // Console logging with appropriate level
-    switch (level) {
-      case 'error':
-        console.error(logEntry);
-        break;
-      case 'warning':
-        console.warn(logEntry);
-        break;
-      case 'success':
-        console.log(`✅ ${logEntry}`);
-        break;
-      default:
-        console.log(logEntry);
-    }
-
-    // Update simple logs for UI display
-    setDebugLogs(prev => [...prev.slice(-(maxLogs - 1)), logEntry]);
-
-    // Update detailed logs for advanced debugging
-    setDetailedLogs(prev => [...prev.slice(-(maxLogs - 1)), {
-      timestamp,
-      message,
-      level
-    }]);
+  const loggersRef = useRef(new Map<string, LogFunction>());
+
+  // One stable function per source, so hooks can keep it in their deps
+  const getLogger = useCallback((source: string): LogFunction => {
+    const cached = loggersRef.current.get(source);
+    if (cached) return cached;
+
+    const logger: LogFunction = (message, level, fields) => {
+      const entry = writeLog(source, message, level, fields);
+      const timestamp = new Date(entry.timestamp).toLocaleTimeString();
+
+      // Update simple logs for UI display - the full history lives in the log store
+      setDebugLogs(prev => [...prev.slice(-(maxLogs - 1)), `[${timestamp}] ${message}`]);
+    };
+    loggersRef.current.set(source, logger);
+    return logger;
   }, [maxLogs]);
 
+  const addLog = useMemo(() => getLogger('app'), [getLogger]);
+
   const clearLogs = useCallback(() => {
     setDebugLogs([]);
-    setDetailedLogs([]);
+    clearLogStore().catch(error => console.warn('Log store could not be cleared:', error));
   }, []);
 
   const getRecentLogs = useCallback((count: number = 5) => {
     return debugLogs.slice(-count);
   }, [debugLogs]);
 
-  const exportLogs = useCallback(() => {
-    const logsText = detailedLogs
-      .map(log => `${log.timestamp} [${log.level.toUpperCase()}] ${log.message}`)
-      .join('\n');
-    
-    const blob = new Blob([logsText], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `camera-kit-logs-${Date.now()}.txt`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-  }, [detailedLogs]);
+  const exportLogs = useCallback(async (format: LogExportFormat = 'text') => {
+    try {
+      await downloadLogs(format);
+    } catch (error) {
+      addLog(`❌ Log export failed: ${error}`, 'error');
+    }
+  }, [addLog]);
 
   return {
     debugLogs,
-    detailedLogs,
     addLog,
+    getLogger,
     clearLogs,
     getRecentLogs,
     exportLogs
   };
-};
\ No newline at end of file
+};
@@ -1,5 +1,6 @@
 // src/hooks/useFrameSize.ts
 import { useState, useEffect } from 'react';
+import { STORAGE_KEYS } from '../utils/constants';
 
 export type FrameSize = 'small' | 'medium' | 'large' | 'max';
 
@@ -17,7 +18,7 @@ export const useFrameSize = () => {
 
   // Load from localStorage
   useEffect(() => {
-    const saved = localStorage.getItem('ar-frame-size') as FrameSize;
+    const saved = localStorage.getItem(STORAGE_KEYS.FRAME_SIZE) as FrameSize;
     if (saved && ['small', 'medium', 'large', 'max'].includes(saved)) {
       setFrameSize(saved);
     }
@@ -26,7 +27,7 @@ export const useFrameSize = () => {
   // Save to localStorage
   const updateFrameSize = (size: FrameSize) => {
     setFrameSize(size);
-    localStorage.setItem('ar-frame-size', size);
+    localStorage.setItem(STORAGE_KEYS.FRAME_SIZE, size);
   };
 
   const getFrameDimensions = (size: FrameSize): FrameDimensions => {
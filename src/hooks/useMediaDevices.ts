@@ -0,0 +1,37 @@
+// src/hooks/useMediaDevices.ts - Camera/microphone enumeration (follows plug/unplug)
+import { useState, useEffect, useCallback } from 'react';
+import { getAvailableCameras, getAvailableMicrophones } from '../utils/cameraHelpers';
+
+export const useMediaDevices = (addLog: (message: string) => void) => {
+  const [videoDevices, setVideoDevices] = useState<MediaDeviceInfo[]>([]);
+  const [audioDevices, setAudioDevices] = useState<MediaDeviceInfo[]>([]);
+
+  // Labels are empty until camera permission is granted - refresh once the camera is live
+  const refreshDevices = useCallback(async () => {
+    if (!navigator.mediaDevices?.enumerateDevices) return;
+
+    const [cameras, microphones] = await Promise.all([
+      getAvailableCameras(),
+      getAvailableMicrophones()
+    ]);
+    setVideoDevices(cameras.filter(device => device.deviceId));
+    setAudioDevices(microphones.filter(device => device.deviceId));
+    addLog(`🔌 Devices: ${cameras.length} camera(s), ${microphones.length} microphone(s)`);
+  }, [addLog]);
+
+  useEffect(() => {
+    if (!navigator.mediaDevices?.addEventListener) return;
+
+    refreshDevices();
+    navigator.mediaDevices.addEventListener('devicechange', refreshDevices);
+    return () => {
+      navigator.mediaDevices.removeEventListener('devicechange', refreshDevices);
+    };
+  }, [refreshDevices]);
+
+  return {
+    videoDevices,
+    audioDevices,
+    refreshDevices
+  };
+};
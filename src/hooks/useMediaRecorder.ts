@@ -1,8 +1,70 @@
 // src/hooks/useMediaRecorder.ts - MAX QUALITY recording untuk portrait 1440x2560
 import { useState, useRef, useCallback, useEffect } from 'react';
 import { detectAndroid, detectiOS } from '../utils/androidRecorderFix';
+import { BITRATE_PROFILES, PHOTO_CONFIG, RECORDING_CONFIG, UI_TIMING } from '../utils/constants';
+import { remuxToProgressiveMp4 } from '../utils/mp4Remuxer';
+import { OverlayCompositor, DEFAULT_OVERLAY_SETTINGS, drawOverlay, isOverlayEnabled, loadOverlayImages } from '../utils/overlayCompositor';
+import type { OverlaySettings } from '../utils/overlayCompositor';
+import type { BitrateProfile } from '../utils/operatorSettings';
+import { markPerformanceTiming } from '../utils/performanceMonitor';
+import { trackEvent } from '../utils/analytics';
+import { reportError } from '../utils/errorHandling';
+import { AppError, toAppError } from '../utils/appErrors';
 
 export type RecordingState = 'idle' | 'recording' | 'processing';
+export type CaptureMode = 'video' | 'photo';
+
+export type StopReason = 'manual' | 'limit';
+
+export interface MediaRecorderOptions {
+  overlaySettings?: OverlaySettings;
+  maxRecordingDuration?: number; // seconds - operator cap, never above RECORDING_CONFIG.MAX_RECORDING_DURATION
+  bitrateProfile?: BitrateProfile;
+}
+
+export interface PhotoCaptureOptions {
+  format?: 'png' | 'jpeg';
+  quality?: number;
+  countdownSeconds?: number;
+  flash?: boolean;
+}
+
+/**
+ * Grab the next rendered frame of the Camera Kit canvas as an encoded image.
+ * Drawing inside requestAnimationFrame keeps the WebGL back buffer valid.
+ */
+const captureCanvasFrame = async (
+  canvas: HTMLCanvasElement,
+  mimeType: string,
+  quality: number,
+  overlaySettings: OverlaySettings
+): Promise<Blob> => {
+  const overlayImages = isOverlayEnabled(overlaySettings) ? await loadOverlayImages() : null;
+  
+  return new Promise((resolve, reject) => {
+    requestAnimationFrame(() => {
+      const snapshot = document.createElement('canvas');
+      snapshot.width = canvas.width;
+      snapshot.height = canvas.height;
+      
+      const ctx = snapshot.getContext('2d');
+      if (!ctx) {
+        reject(new Error('2D context not available for photo capture'));
+        return;
+      }
+      
+      ctx.drawImage(canvas, 0, 0, snapshot.width, snapshot.height);
+      if (overlayImages) {
+        drawOverlay(ctx, overlaySettings, overlayImages);
+      }
+      snapshot.toBlob(
+        (blob) => blob ? resolve(blob) : reject(new Error('Canvas encoding failed')),
+        mimeType,
+        quality
+      );
+    });
+  });
+};
 
 /**
  * Enhanced MediaRecorder dengan MAX QUALITY support
@@ -15,10 +77,11 @@ class MaxQualityMediaRecorder {
   constructor(
     private stream: MediaStream,
     private onComplete: (file: File) => void,
-    private addLog: (msg: string) => void
+    private addLog: (msg: string) => void,
+    private bitrateProfile: BitrateProfile = 'max'
   ) {}
 
-  async start(): Promise<void> {
+  async start(requestedAt: number = performance.now()): Promise<void> {
     const options = this.getMaxQualityRecorderOptions();
     
     // Verify stream untuk max quality recording
@@ -53,6 +116,16 @@ class MaxQualityMediaRecorder {
       this.addLog(`❌ Recording error: ${event}`);
     };
     
+    // Tap-to-first-frame latency, including compositor + captureStream setup
+    this.recorder.onstart = () => {
+      markPerformanceTiming('recordingStartTime', performance.now() - requestedAt);
+      trackEvent('recording_started', {
+        mimeType: options.mimeType || 'default',
+        audioTracks: audioTracks.length,
+        bitrateProfile: this.bitrateProfile
+      });
+    };
+    
     // Small time slice for better audio sync
     this.recorder.start(100);
     
@@ -78,15 +151,17 @@ class MaxQualityMediaRecorder {
       'video/webm'
     ];
 
+    const profile = BITRATE_PROFILES[this.bitrateProfile];
+
     for (const mimeType of formats) {
       if (MediaRecorder.isTypeSupported(mimeType)) {
-        // MAX QUALITY bitrates untuk 1440x2560
+        // Operator-selected bitrate profile, MP4 vs WebM
         const isMaxQuality = mimeType.includes('mp4');
-        const videoBitrate = isMaxQuality ? 15000000 : 8000000; // 15Mbps vs 8Mbps
-        const audioBitrate = 256000; // High quality audio
+        const videoBitrate = isMaxQuality ? profile.mp4 : profile.webm;
+        const audioBitrate = profile.audio;
         
         this.addLog(`📱 Platform: ${isAndroid ? 'Android' : isiOS ? 'iPhone' : 'Desktop'}, Format: ${mimeType}`);
-        this.addLog(`🚀 MAX quality bitrates: ${videoBitrate/1000000}Mbps video, ${audioBitrate/1000}kbps audio`);
+        this.addLog(`🚀 ${profile.label} bitrates: ${videoBitrate/1000000}Mbps video, ${audioBitrate/1000}kbps audio`);
         
         return {
           mimeType,
@@ -96,10 +171,10 @@ class MaxQualityMediaRecorder {
       }
     }
 
-    this.addLog('⚠️ No supported formats found, using default with MAX audio');
+    this.addLog(`⚠️ No supported formats found, using default with ${profile.label} bitrates`);
     return { 
-      videoBitsPerSecond: 15000000, // Default to max
-      audioBitsPerSecond: 256000
+      videoBitsPerSecond: profile.mp4,
+      audioBitsPerSecond: profile.audio
     };
   }
 
@@ -112,11 +187,20 @@ class MaxQualityMediaRecorder {
     
     const mimeType = this.recorder?.mimeType || 'video/mp4';
     let blob = new Blob(this.chunks, { type: mimeType });
+    let mediaDurationMs: number | null = null;
     
-    // Apply binary MP4 duration fix untuk Instagram compatibility
+    // Defragment MediaRecorder MP4 into a moov-first file with exact durations
     if (mimeType.includes('mp4')) {
-      blob = await this.fixMP4Duration(blob, actualDurationSeconds);
+      try {
+        const result = await remuxToProgressiveMp4(blob);
+        blob = result.blob;
+        mediaDurationMs = result.durationMs;
+        this.addLog(`✅ MP4 remuxed: ${result.trackCount} tracks, ${result.sampleCount} samples, ${(result.durationMs / 1000).toFixed(3)}s${result.wasFragmented ? ' (defragmented)' : ''}`);
+      } catch (error) {
+        this.addLog(`⚠️ MP4 remux failed, keeping recorder output: ${error}`);
+      }
     }
+    const isRemuxed = mediaDurationMs !== null;
     
     const filename = `max_quality_video_${Date.now()}.${mimeType.includes('mp4') ? 'mp4' : 'webm'}`;
     const file = new File([blob], filename, {
@@ -127,11 +211,12 @@ class MaxQualityMediaRecorder {
     // Enhanced metadata dengan max quality info
     (file as any).recordingDuration = actualDurationSeconds;
     (file as any).actualDurationMs = actualDurationMs;
-    (file as any).fixedMetadata = mimeType.includes('mp4');
+    (file as any).fixedMetadata = isRemuxed;
+    (file as any).mediaDurationMs = mediaDurationMs;
     (file as any).instagramCompatible = mimeType.includes('mp4') && actualDurationSeconds >= 3;
     (file as any).isAndroidRecording = detectAndroid();
     (file as any).isiOSRecording = detectiOS();
-    (file as any).processingMethod = mimeType.includes('mp4') ? 'binary-mp4-fix' : 'original';
+    (file as any).processingMethod = isRemuxed ? 'mp4-remux' : 'original';
     (file as any).platformOptimized = true;
     (file as any).hasAudioTrack = this.stream.getAudioTracks().length > 0;
     (file as any).isMaxQuality = true;
@@ -143,143 +228,6 @@ class MaxQualityMediaRecorder {
     this.onComplete(file);
   }
 
-  /**
-   * Binary MP4 duration fix untuk Instagram compatibility
-   */
-  private async fixMP4Duration(blob: Blob, durationSeconds: number): Promise<Blob> {
-    try {
-      const buffer = await blob.arrayBuffer();
-      const view = new DataView(buffer);
-      const uint8Array = new Uint8Array(buffer);
-      
-      this.addLog(`🔧 Applying MP4 duration fix: ${durationSeconds}s`);
-      
-      const mvhdFixed = this.fixMVHDDuration(view, uint8Array, durationSeconds);
-      const tkhdFixed = this.fixTKHDDurations(view, uint8Array, durationSeconds);
-      const mdhdFixed = this.fixMDHDDurations(view, uint8Array, durationSeconds);
-      
-      if (mvhdFixed || tkhdFixed || mdhdFixed) {
-        this.addLog(`✅ MP4 duration headers fixed for MAX quality`);
-        return new Blob([uint8Array], { type: 'video/mp4' });
-      } else {
-        this.addLog(`⚠️ No MP4 headers found to fix`);
-        return blob;
-      }
-      
-    } catch (error) {
-      this.addLog(`❌ MP4 fix failed: ${error}`);
-      return blob;
-    }
-  }
-
-  private fixMVHDDuration(view: DataView, data: Uint8Array, durationSeconds: number): boolean {
-    const mvhdOffset = this.findBoxOffset(data, 'mvhd');
-    if (mvhdOffset === -1) return false;
-
-    try {
-      const version = view.getUint8(mvhdOffset + 8);
-      const timescaleOffset = mvhdOffset + (version === 1 ? 28 : 20);
-      const durationOffset = timescaleOffset + 4;
-      
-      const timescale = view.getUint32(timescaleOffset);
-      const newDuration = durationSeconds * timescale;
-      
-      if (version === 1) {
-        view.setBigUint64(durationOffset, BigInt(newDuration));
-      } else {
-        view.setUint32(durationOffset, newDuration);
-      }
-      
-      return true;
-    } catch (error) {
-      return false;
-    }
-  }
-
-  private fixTKHDDurations(view: DataView, data: Uint8Array, durationSeconds: number): boolean {
-    let fixed = false;
-    let offset = 0;
-    
-    while (true) {
-      const tkhdOffset = this.findBoxOffset(data, 'tkhd', offset);
-      if (tkhdOffset === -1) break;
-      
-      try {
-        const version = view.getUint8(tkhdOffset + 8);
-        const durationOffset = tkhdOffset + (version === 1 ? 36 : 28);
-        
-        const movieTimescale = 1000;
-        const newDuration = durationSeconds * movieTimescale;
-        
-        if (version === 1) {
-          view.setBigUint64(durationOffset, BigInt(newDuration));
-        } else {
-          view.setUint32(durationOffset, newDuration);
-        }
-        
-        fixed = true;
-        offset = tkhdOffset + 1;
-      } catch (error) {
-        break;
-      }
-    }
-    
-    return fixed;
-  }
-
-  private fixMDHDDurations(view: DataView, data: Uint8Array, durationSeconds: number): boolean {
-    let fixed = false;
-    let offset = 0;
-    
-    while (true) {
-      const mdhdOffset = this.findBoxOffset(data, 'mdhd', offset);
-      if (mdhdOffset === -1) break;
-      
-      try {
-        const version = view.getUint8(mdhdOffset + 8);
-        const timescaleOffset = mdhdOffset + (version === 1 ? 28 : 20);
-        const durationOffset = timescaleOffset + 4;
-        
-        const timescale = view.getUint32(timescaleOffset);
-        const newDuration = durationSeconds * timescale;
-        
-        if (version === 1) {
-          view.setBigUint64(durationOffset, BigInt(newDuration));
-        } else {
-          view.setUint32(durationOffset, newDuration);
-        }
-        
-        fixed = true;
-        offset = mdhdOffset + 1;
-      } catch (error) {
-        break;
-      }
-    }
-    
-    return fixed;
-  }
-
-  private findBoxOffset(data: Uint8Array, fourCC: string, startOffset: number = 0): number {
-    const target = new TextEncoder().encode(fourCC);
-    
-    for (let i = startOffset; i < data.length - 8; i++) {
-      if (i % 4 === 0) {
-        const boxSize = new DataView(data.buffer).getUint32(i);
-        
-        if (boxSize >= 8 && boxSize < data.length && i + boxSize <= data.length) {
-          if (data[i + 4] === target[0] && 
-              data[i + 5] === target[1] && 
-              data[i + 6] === target[2] && 
-              data[i + 7] === target[3]) {
-            return i;
-          }
-        }
-      }
-    }
-    
-    return -1;
-  }
-
   private formatSize(bytes: number): string {
     return `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
   }
@@ -289,30 +237,89 @@ class MaxQualityMediaRecorder {
   }
 }
 
-export const useMediaRecorder = (addLog: (message: string) => void) => {
+export const useMediaRecorder = (
+  addLog: (message: string) => void,
+  options: MediaRecorderOptions = {}
+) => {
+  const {
+    overlaySettings = DEFAULT_OVERLAY_SETTINGS,
+    maxRecordingDuration: operatorMaxDuration = RECORDING_CONFIG.MAX_RECORDING_DURATION,
+    bitrateProfile = 'max'
+  } = options;
+  
+
   const [recordingState, setRecordingState] = useState<RecordingState>('idle');
   const [recordingTime, setRecordingTime] = useState<number>(0);
   const [recordedVideo, setRecordedVideo] = useState<Blob | File | null>(null);
+  const [captureMode, setCaptureMode] = useState<CaptureMode>('video');
+  const [countdown, setCountdown] = useState<number | null>(null);
+  const [isFlashing, setIsFlashing] = useState<boolean>(false);
+  const [preRollSeconds, setPreRollSeconds] = useState<number>(0);
+  const [clipDuration, setClipDuration] = useState<number | null>(null);
+  const [clipRejection, setClipRejection] = useState<string | null>(null);
+  const [recordingError, setRecordingError] = useState<AppError | null>(null);
 
   const maxQualityRecorderRef = useRef<MaxQualityMediaRecorder | null>(null);
+  const compositorRef = useRef<OverlayCompositor | null>(null);
   const timerRef = useRef<number | null>(null);
   const recordingStartTimeRef = useRef<number>(0);
+  const recordingStopTimeRef = useRef<number>(0); // set on stop - remuxing afterwards isn't clip length
+  const countdownTimerRef = useRef<number | null>(null);
+  const countdownResolveRef = useRef<((completed: boolean) => void) | null>(null);
+  const autoStopTimerRef = useRef<number | null>(null);
+  const recordingLimitRef = useRef<number>(RECORDING_CONFIG.MAX_RECORDING_DURATION);
+  const isFixedLengthRef = useRef<boolean>(false);
+  const stopReasonRef = useRef<StopReason>('manual');
+
+  // Fixed-length clips stop at their length, free recording at the operator cap
+  const durationCap = Math.min(operatorMaxDuration, RECORDING_CONFIG.MAX_RECORDING_DURATION);
+  const maxRecordingDuration = clipDuration
+    ? Math.min(clipDuration, durationCap)
+    : durationCap;
+
+  const stopCompositor = useCallback(() => {
+    if (compositorRef.current) {
+      compositorRef.current.stop();
+      compositorRef.current = null;
+    }
+  }, []);
 
   const startRecording = useCallback((canvas: HTMLCanvasElement, audioStream?: MediaStream) => {
+    const requestedAt = performance.now();
     if (!canvas || !canvas.width || !canvas.height) {
       addLog('❌ Canvas not available for recording');
       return false;
     }
 
     try {
+      if (typeof MediaRecorder === 'undefined' || typeof canvas.captureStream !== 'function') {
+        throw new AppError('RECORDER_UNSUPPORTED');
+      }
+      setRecordingError(null);
+      
+      // Branding is composited between the Camera Kit canvas and captureStream
+      let recordingCanvas = canvas;
+      stopCompositor();
+      if (isOverlayEnabled(overlaySettings)) {
+        try {
+          compositorRef.current = new OverlayCompositor(canvas, overlaySettings);
+          recordingCanvas = compositorRef.current.start();
+          addLog(`🏷️ Branding overlay: ${overlaySettings.layout}${overlaySettings.eventName ? ` - ${overlaySettings.eventName}` : ''}`);
+        } catch (overlayError) {
+          stopCompositor();
+          addLog(`⚠️ Overlay compositor unavailable, recording raw canvas: ${overlayError}`);
+        }
+      }
+      const overlayLayout = compositorRef.current ? overlaySettings.layout : 'none';
+      
       // Get canvas stream (video only)
       let canvasStream: MediaStream;
       
       try {
-        canvasStream = canvas.captureStream(30);
+        canvasStream = recordingCanvas.captureStream(30);
         addLog(`✅ MAX quality canvas stream: ${canvas.width}x${canvas.height}@30fps`);
       } catch (streamError) {
-        canvasStream = canvas.captureStream();
+        canvasStream = recordingCanvas.captureStream();
         addLog(`⚠️ Using default canvas capture: ${streamError}`);
       }
       
@@ -358,14 +365,36 @@ export const useMediaRecorder = (addLog: (message: string) => void) => {
       }
 
       recordingStartTimeRef.current = performance.now();
+      recordingStopTimeRef.current = 0;
+      recordingLimitRef.current = maxRecordingDuration;
+      isFixedLengthRef.current = clipDuration !== null;
+      stopReasonRef.current = 'manual';
+      setClipRejection(null);
 
       maxQualityRecorderRef.current = new MaxQualityMediaRecorder(
         canvasStream,
         (file: File) => {
-          const endTime = performance.now();
+          stopCompositor();
+          const endTime = recordingStopTimeRef.current || performance.now();
           const actualDurationMs = endTime - recordingStartTimeRef.current;
           const actualDurationSeconds = Math.floor(actualDurationMs / 1000);
           
+          // Too-short clips and fixed-length clips stopped early are discarded for a retake
+          const rejection = actualDurationMs < RECORDING_CONFIG.MIN_RECORDING_DURATION * 1000
+            ? `Clip too short - minimum ${RECORDING_CONFIG.MIN_RECORDING_DURATION}s. Try again!`
+            : isFixedLengthRef.current && stopReasonRef.current === 'manual'
+              ? `Stopped before ${recordingLimitRef.current}s - clip discarded. Try again!`
+              : null;
+          
+          if (rejection) {
+            addLog(`⚠️ Recording rejected (${(actualDurationMs / 1000).toFixed(1)}s): ${rejection}`);
+            setClipRejection(rejection);
+            setRecordingState('idle');
+            return;
+          }
+          
+          (file as any).clipLimit = recordingLimitRef.current;
+          (file as any).isFixedLength = isFixedLengthRef.current;
           // Enhanced metadata with MAX quality info
           (file as any).recordingStartTime = recordingStartTimeRef.current;
           (file as any).recordingEndTime = endTime;
@@ -375,41 +404,61 @@ export const useMediaRecorder = (addLog: (message: string) => void) => {
           (file as any).audioTrackCount = finalAudioTracks.length;
           (file as any).isMaxQualityRecording = true;
           (file as any).canvasResolution = `${canvas.width}x${canvas.height}`;
+          (file as any).overlayLayout = overlayLayout;
           
           const platform = detectAndroid() ? 'Android' : detectiOS() ? 'iPhone' : 'Desktop';
           const qualityIndicator = canvas.width >= 1440 ? 'MAX QUALITY' : 'SCALED';
           addLog(`✅ ${platform} ${qualityIndicator} recording complete: ${actualDurationSeconds}s with ${finalAudioTracks.length > 0 ? 'AUDIO' : 'NO AUDIO'}`);
           
+          trackEvent('recording_finished', {
+            durationSeconds: actualDurationSeconds,
+            sizeBytes: file.size,
+            mimeType: file.type,
+            resolution: `${canvas.width}x${canvas.height}`,
+            hasAudio: finalAudioTracks.length > 0,
+            overlayLayout
+          });
+          
           setRecordedVideo(file);
           setRecordingState('idle');
         },
-        addLog
+        addLog,
+        bitrateProfile
       );
 
-      maxQualityRecorderRef.current.start();
+      maxQualityRecorderRef.current.start(requestedAt);
       setRecordingState('recording');
       
       const platform = detectAndroid() ? 'Android' : detectiOS() ? 'iPhone' : 'Desktop';
       const qualityMode = canvas.width >= 1440 ? 'MAX QUALITY' : 'SCALED';
-      addLog(`🎬 ${platform} ${qualityMode} recording started - Audio tracks: ${finalAudioTracks.length}`);
+      const lengthMode = clipDuration ? `${maxRecordingDuration}s clip` : `max ${maxRecordingDuration}s`;
+      addLog(`🎬 ${platform} ${qualityMode} recording started (${lengthMode}) - Audio tracks: ${finalAudioTracks.length}`);
       return true;
 
     } catch (error) {
-      addLog(`❌ MAX quality recording start failed: ${error}`);
+      stopCompositor();
+      const appError = toAppError(error, 'RECORDING_FAILED');
+      addLog(`❌ [${appError.code}] MAX quality recording start failed: ${appError.message}`);
+      reportError(appError, 'useMediaRecorder', 'startRecording');
+      setRecordingError(appError);
       setRecordingState('idle');
       return false;
     }
-  }, [addLog]);
+  }, [clipDuration, maxRecordingDuration, overlaySettings, bitrateProfile, stopCompositor, addLog]);
 
-  const stopRecording = useCallback(() => {
+  const stopRecording = useCallback((reason: StopReason = 'manual') => {
     if (maxQualityRecorderRef.current && recordingState === 'recording') {
       const recorder = maxQualityRecorderRef.current;
       const recorderState = recorder.getState();
       
       if (recorderState === 'recording') {
+        stopReasonRef.current = reason;
+        recordingStopTimeRef.current = performance.now();
         recorder.stop();
         setRecordingState('processing');
-        addLog('⏹️ MAX quality recording stopped, processing...');
+        addLog(reason === 'limit'
+          ? `⏱️ ${recordingLimitRef.current}s limit reached - recording stopped, processing...`
+          : '⏹️ MAX quality recording stopped, processing...');
       } else {
         addLog(`⚠️ Recorder not in recording state: ${recorderState}`);
         setRecordingState('idle');
@@ -417,13 +466,58 @@ export const useMediaRecorder = (addLog: (message: string) => void) => {
     }
   }, [recordingState, addLog]);
 
-  const toggleRecording = useCallback((canvas: HTMLCanvasElement, audioStream?: MediaStream) => {
+  const runCountdown = useCallback((seconds: number): Promise<boolean> => {
+    return new Promise(resolve => {
+      if (seconds <= 0) {
+        resolve(true);
+        return;
+      }
+      
+      let remaining = seconds;
+      countdownResolveRef.current = resolve;
+      setCountdown(remaining);
+      addLog(`⏱️ Countdown started: ${seconds}s`);
+      
+      countdownTimerRef.current = window.setInterval(() => {
+        remaining -= 1;
+        if (remaining <= 0) {
+          if (countdownTimerRef.current) {
+            clearInterval(countdownTimerRef.current);
+            countdownTimerRef.current = null;
+          }
+          countdownResolveRef.current = null;
+          setCountdown(null);
+          resolve(true);
+        } else {
+          setCountdown(remaining);
+        }
+      }, 1000);
+    });
+  }, [addLog]);
+
+  const cancelCountdown = useCallback(() => {
+    if (!countdownTimerRef.current) return;
+    
+    clearInterval(countdownTimerRef.current);
+    countdownTimerRef.current = null;
+    setCountdown(null);
+    countdownResolveRef.current?.(false);
+    countdownResolveRef.current = null;
+    addLog('⏹️ Countdown cancelled');
+  }, [addLog]);
+
+  const toggleRecording = useCallback(async (canvas: HTMLCanvasElement, audioStream?: MediaStream) => {
+    // Tapping during the pre-roll cancels it
+    if (countdownTimerRef.current) {
+      cancelCountdown();
+      return;
+    }
+    
     if (recordingState === 'recording') {
-      if (recordingTime >= 3) {
-        stopRecording();
-      } else {
-        addLog(`⚠️ Recording too short (${recordingTime}s) - minimum 3 seconds required`);
+      if (recordingTime < RECORDING_CONFIG.MIN_RECORDING_DURATION) {
+        addLog(`⚠️ Recording too short (${recordingTime}s) - minimum ${RECORDING_CONFIG.MIN_RECORDING_DURATION}s, clip will be discarded`);
       }
+      stopRecording();
     } else if (recordingState === 'idle') {
       if (!canvas) {
         addLog('❌ Canvas required for MAX quality recording');
@@ -448,12 +542,86 @@ export const useMediaRecorder = (addLog: (message: string) => void) => {
         addLog('🔇 No audio stream provided to MAX quality recording!');
       }
       
+      setClipRejection(null);
+      const completed = await runCountdown(preRollSeconds);
+      if (!completed) return;
+      
       const success = startRecording(canvas, audioStream);
       if (!success) {
         addLog('❌ Failed to start MAX quality recording');
       }
     }
-  }, [recordingState, recordingTime, startRecording, stopRecording, addLog]);
+  }, [recordingState, recordingTime, preRollSeconds, startRecording, stopRecording, runCountdown, cancelCountdown, addLog]);
+
+  const capturePhoto = useCallback(async (
+    canvas: HTMLCanvasElement,
+    options: PhotoCaptureOptions = {}
+  ): Promise<boolean> => {
+    if (recordingState !== 'idle' || countdownTimerRef.current) {
+      addLog('⚠️ Capture already in progress');
+      return false;
+    }
+
+    if (!canvas || !canvas.width || !canvas.height) {
+      addLog('❌ Canvas not available for photo capture');
+      return false;
+    }
+
+    const {
+      format = PHOTO_CONFIG.DEFAULT_FORMAT,
+      quality = PHOTO_CONFIG.JPEG_QUALITY,
+      countdownSeconds = 0,
+      flash = true
+    } = options;
+    const mimeType = format === 'png' ? 'image/png' : 'image/jpeg';
+
+    try {
+      const completed = await runCountdown(countdownSeconds);
+      if (!completed) return false;
+      
+      setRecordingState('processing');
+      
+      if (flash) {
+        setIsFlashing(true);
+        setTimeout(() => setIsFlashing(false), PHOTO_CONFIG.FLASH_DURATION);
+      }
+      
+      const blob = await captureCanvasFrame(canvas, mimeType, quality, overlaySettings);
+      const file = new File([blob], `ar_photo_${Date.now()}.${format === 'png' ? 'png' : 'jpg'}`, {
+        type: mimeType,
+        lastModified: Date.now()
+      });
+      
+      (file as any).isPhoto = true;
+      (file as any).overlayLayout = overlaySettings.layout;
+      (file as any).canvasWidth = canvas.width;
+      (file as any).canvasHeight = canvas.height;
+      (file as any).canvasResolution = `${canvas.width}x${canvas.height}`;
+      (file as any).isAndroidRecording = detectAndroid();
+      (file as any).isiOSRecording = detectiOS();
+      
+      addLog(`📸 Photo captured: ${canvas.width}x${canvas.height} ${format.toUpperCase()}, ${(file.size / 1024).toFixed(0)}KB`);
+      
+      trackEvent('photo_captured', {
+        format,
+        sizeBytes: file.size,
+        resolution: `${canvas.width}x${canvas.height}`,
+        overlayLayout: overlaySettings.layout
+      });
+      
+      setRecordedVideo(file);
+      setRecordingState('idle');
+      return true;
+    } catch (error) {
+      const appError = toAppError(error, 'RECORDING_FAILED');
+      addLog(`❌ [${appError.code}] Photo capture failed: ${appError.message}`);
+      reportError(appError, 'useMediaRecorder', 'capturePhoto');
+      setRecordingError(appError);
+      setCountdown(null);
+      setRecordingState('idle');
+      return false;
+    }
+  }, [recordingState, runCountdown, overlaySettings, addLog]);
 
   const clearRecording = useCallback(() => {
     setRecordedVideo(null);
@@ -467,16 +635,29 @@ export const useMediaRecorder = (addLog: (message: string) => void) => {
     if (maxQualityRecorderRef.current) {
       const recorderState = maxQualityRecorderRef.current.getState();
       if (recorderState === 'recording') {
+        recordingStopTimeRef.current = performance.now();
         maxQualityRecorderRef.current.stop();
       }
       maxQualityRecorderRef.current = null;
     }
+    stopCompositor();
     if (timerRef.current) {
       clearInterval(timerRef.current);
       timerRef.current = null;
     }
+    if (autoStopTimerRef.current) {
+      clearTimeout(autoStopTimerRef.current);
+      autoStopTimerRef.current = null;
+    }
+    if (countdownTimerRef.current) {
+      clearInterval(countdownTimerRef.current);
+      countdownTimerRef.current = null;
+      setCountdown(null);
+      countdownResolveRef.current?.(false);
+      countdownResolveRef.current = null;
+    }
     addLog('🧹 MAX quality MediaRecorder cleanup complete');
-  }, [addLog]);
+  }, [stopCompositor, addLog]);
 
   // Recording timer
   useEffect(() => {
@@ -511,6 +692,41 @@ export const useMediaRecorder = (addLog: (message: string) => void) => {
     };
   }, [recordingState, addLog]);
 
+  // Auto-stop at the clip length / max duration. Refs keep the timer from
+  // restarting when addLog or stopRecording change identity mid-recording.
+  const stopRecordingRef = useRef(stopRecording);
+  stopRecordingRef.current = stopRecording;
+
+  useEffect(() => {
+    if (recordingState !== 'recording') return;
+    
+    const elapsedMs = performance.now() - recordingStartTimeRef.current;
+    autoStopTimerRef.current = window.setTimeout(() => {
+      autoStopTimerRef.current = null;
+      stopRecordingRef.current('limit');
+    }, Math.max(0, recordingLimitRef.current * 1000 - elapsedMs));
+    
+    return () => {
+      if (autoStopTimerRef.current) {
+        clearTimeout(autoStopTimerRef.current);
+        autoStopTimerRef.current = null;
+      }
+    };
+  }, [recordingState]);
+
+  // Rejection and error notices clear themselves
+  useEffect(() => {
+    if (!clipRejection) return;
+    const timeout = setTimeout(() => setClipRejection(null), UI_TIMING.TOAST_DURATION);
+    return () => clearTimeout(timeout);
+  }, [clipRejection]);
+
+  useEffect(() => {
+    if (!recordingError) return;
+    const timeout = setTimeout(() => setRecordingError(null), UI_TIMING.TOAST_DURATION);
+    return () => clearTimeout(timeout);
+  }, [recordingError]);
+
   const formatTime = useCallback((seconds: number): string => {
     const mins = Math.floor(seconds / 60);
     const secs = seconds % 60;
@@ -524,9 +740,23 @@ export const useMediaRecorder = (addLog: (message: string) => void) => {
     startRecording,
     stopRecording,
     toggleRecording,
+    capturePhoto,
     clearRecording,
     cleanup,
     formatTime,
+    captureMode,
+    setCaptureMode,
+    countdown,
+    isFlashing,
+    cancelCountdown,
+    preRollSeconds,
+    setPreRollSeconds,
+    clipDuration,
+    setClipDuration,
+    maxRecordingDuration,
+    minRecordingDuration: RECORDING_CONFIG.MIN_RECORDING_DURATION,
+    clipRejection,
+    recordingError,
     isRecording: recordingState === 'recording',
     isProcessing: recordingState === 'processing',
     isIdle: recordingState === 'idle'
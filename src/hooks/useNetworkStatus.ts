@@ -0,0 +1,39 @@
+// src/hooks/useNetworkStatus.ts - Online/offline tracking for the booth
+import { useState, useEffect } from 'react';
+import type { NetworkStatus } from '../types/app';
+
+export type NetworkState = Pick<NetworkStatus, 'online' | 'effectiveType'>;
+
+const readNetworkState = (): NetworkState => ({
+  online: navigator.onLine,
+  effectiveType: (navigator as any).connection?.effectiveType || 'unknown'
+});
+
+export const useNetworkStatus = (addLog?: (message: string) => void) => {
+  const [networkState, setNetworkState] = useState<NetworkState>(readNetworkState);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      addLog?.('🌐 Network back online');
+      setNetworkState(readNetworkState());
+    };
+
+    const handleOffline = () => {
+      addLog?.('📴 Network offline - running from cache');
+      setNetworkState(readNetworkState());
+    };
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [addLog]);
+
+  return {
+    ...networkState,
+    isOffline: !networkState.online
+  };
+};
@@ -0,0 +1,109 @@
+// src/hooks/useOperatorSettings.ts - Operator configuration + PIN-gated operator mode
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { OPERATOR_CONFIG } from '../utils/constants';
+import {
+  loadOperatorSettings,
+  saveOperatorSettings,
+  verifyPin,
+  saveOperatorPin,
+  hasCustomPin,
+  loadPinLockout,
+  savePinLockout
+} from '../utils/operatorSettings';
+import type { OperatorSettings } from '../utils/operatorSettings';
+
+export const useOperatorSettings = (addLog: (message: string) => void) => {
+  const [operatorSettings, setOperatorSettings] = useState<OperatorSettings>(loadOperatorSettings);
+  const [isOperatorUnlocked, setIsOperatorUnlocked] = useState<boolean>(false);
+  const [isUsingDefaultPin, setIsUsingDefaultPin] = useState<boolean>(() => !hasCustomPin());
+  const [initialLockout] = useState(loadPinLockout);
+  const [lockedUntil, setLockedUntil] = useState<number | null>(initialLockout.lockedUntil);
+
+  const failedAttemptsRef = useRef<number>(initialLockout.failedAttempts);
+  const autoLockTimerRef = useRef<number | null>(null);
+
+  const updateOperatorSettings = useCallback((changes: Partial<OperatorSettings>) => {
+    setOperatorSettings(prev => {
+      const next = { ...prev, ...changes };
+      saveOperatorSettings(next);
+      return next;
+    });
+  }, []);
+
+  const lockOperatorMode = useCallback(() => {
+    if (autoLockTimerRef.current) {
+      clearTimeout(autoLockTimerRef.current);
+      autoLockTimerRef.current = null;
+    }
+    setIsOperatorUnlocked(false);
+  }, []);
+
+  const unlockOperatorMode = useCallback(async (pin: string): Promise<boolean> => {
+    if (lockedUntil && Date.now() < lockedUntil) {
+      addLog('🔒 Operator PIN locked out - try again later');
+      return false;
+    }
+
+    if (await verifyPin(pin)) {
+      failedAttemptsRef.current = 0;
+      setLockedUntil(null);
+      savePinLockout({ failedAttempts: 0, lockedUntil: null });
+      setIsOperatorUnlocked(true);
+      addLog('🔓 Operator mode unlocked');
+      return true;
+    }
+
+    failedAttemptsRef.current += 1;
+    addLog(`⚠️ Wrong operator PIN (${failedAttemptsRef.current}/${OPERATOR_CONFIG.MAX_ATTEMPTS})`);
+    let nextLockedUntil: number | null = null;
+    if (failedAttemptsRef.current >= OPERATOR_CONFIG.MAX_ATTEMPTS) {
+      failedAttemptsRef.current = 0;
+      nextLockedUntil = Date.now() + OPERATOR_CONFIG.LOCKOUT_DURATION;
+      setLockedUntil(nextLockedUntil);
+      addLog(`🔒 Too many wrong PINs - locked for ${OPERATOR_CONFIG.LOCKOUT_DURATION / 1000}s`);
+    }
+    savePinLockout({ failedAttempts: failedAttemptsRef.current, lockedUntil: nextLockedUntil });
+    return false;
+  }, [lockedUntil, addLog]);
+
+  const changeOperatorPin = useCallback(async (pin: string): Promise<boolean> => {
+    try {
+      await saveOperatorPin(pin);
+      setIsUsingDefaultPin(false);
+      addLog('✅ Operator PIN updated');
+      return true;
+    } catch (error) {
+      addLog(`❌ PIN change failed: ${error instanceof Error ? error.message : error}`);
+      return false;
+    }
+  }, [addLog]);
+
+  // Operator mode re-locks itself so a walk-away doesn't leave it open to guests
+  useEffect(() => {
+    if (!isOperatorUnlocked) return;
+
+    autoLockTimerRef.current = window.setTimeout(() => {
+      autoLockTimerRef.current = null;
+      setIsOperatorUnlocked(false);
+      addLog('🔒 Operator mode auto-locked');
+    }, OPERATOR_CONFIG.AUTO_LOCK_DURATION);
+
+    return () => {
+      if (autoLockTimerRef.current) {
+        clearTimeout(autoLockTimerRef.current);
+        autoLockTimerRef.current = null;
+      }
+    };
+  }, [isOperatorUnlocked, addLog]);
+
+  return {
+    operatorSettings,
+    updateOperatorSettings,
+    isOperatorUnlocked,
+    isUsingDefaultPin,
+    operatorLockedUntil: lockedUntil,
+    unlockOperatorMode,
+    lockOperatorMode,
+    changeOperatorPin
+  };
+};
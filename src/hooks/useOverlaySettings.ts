@@ -0,0 +1,48 @@
+// src/hooks/useOverlaySettings.ts - Persisted branding overlay configuration
+import { useState, useEffect, useCallback } from 'react';
+import { OVERLAY_CONFIG, STORAGE_KEYS } from '../utils/constants';
+import { DEFAULT_OVERLAY_SETTINGS, loadOverlayImages } from '../utils/overlayCompositor';
+import type { OverlaySettings } from '../utils/overlayCompositor';
+
+const readStoredSettings = (): OverlaySettings => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEYS.OVERLAY_SETTINGS);
+    if (!saved) return DEFAULT_OVERLAY_SETTINGS;
+
+    const parsed = { ...DEFAULT_OVERLAY_SETTINGS, ...JSON.parse(saved) } as OverlaySettings;
+    if (!(OVERLAY_CONFIG.LAYOUTS as readonly string[]).includes(parsed.layout)) {
+      parsed.layout = DEFAULT_OVERLAY_SETTINGS.layout;
+    }
+    return parsed;
+  } catch (error) {
+    return DEFAULT_OVERLAY_SETTINGS;
+  }
+};
+
+export const useOverlaySettings = () => {
+  const [overlaySettings, setOverlaySettings] = useState<OverlaySettings>(readStoredSettings);
+
+  // Warm the logo/attribution images so the first capture is already branded
+  useEffect(() => {
+    loadOverlayImages();
+  }, []);
+
+  const updateOverlaySettings = useCallback((changes: Partial<OverlaySettings>) => {
+    setOverlaySettings(prev => {
+      const next = { ...prev, ...changes };
+      localStorage.setItem(STORAGE_KEYS.OVERLAY_SETTINGS, JSON.stringify(next));
+      return next;
+    });
+  }, []);
+
+  const resetOverlaySettings = useCallback(() => {
+    localStorage.removeItem(STORAGE_KEYS.OVERLAY_SETTINGS);
+    setOverlaySettings(DEFAULT_OVERLAY_SETTINGS);
+  }, []);
+
+  return {
+    overlaySettings,
+    updateOverlaySettings,
+    resetOverlaySettings
+  };
+};
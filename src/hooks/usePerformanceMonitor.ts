@@ -0,0 +1,137 @@
+// src/hooks/usePerformanceMonitor.ts - Samples AR output FPS/jitter/heap and steps quality down when it can't keep up
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { PERFORMANCE_CONFIG } from '../utils/constants';
+import { FrameRateSampler, getHeapUsageMB, getPerformanceTimings } from '../utils/performanceMonitor';
+import type { PerformanceSample, PerformanceSnapshot } from '../utils/performanceMonitor';
+
+export interface PerformanceMonitorOptions {
+  enabled: boolean;
+  autoDowngrade?: boolean;
+  canDowngrade?: boolean; // false while recording - a render size change mid-clip breaks the file
+  onDowngrade?: (fps: number, targetFps: number) => Promise<boolean>; // false = nothing left to drop
+}
+
+export const usePerformanceMonitor = (
+  addLog: (message: string) => void,
+  getCanvas: () => HTMLCanvasElement | null,
+  getStream: () => MediaStream | null,
+  options: PerformanceMonitorOptions
+) => {
+  const { enabled, autoDowngrade = true, canDowngrade = true, onDowngrade } = options;
+
+  const [snapshot, setSnapshot] = useState<PerformanceSnapshot | null>(null);
+
+  const samplerRef = useRef<FrameRateSampler | null>(null);
+  const historyRef = useRef<PerformanceSample[]>([]);
+  const lowSamplesRef = useRef<number>(0);
+  const cooldownUntilRef = useRef<number>(0);
+  const downgradeCountRef = useRef<number>(0);
+  const isDowngradingRef = useRef<boolean>(false);
+  const exhaustedRef = useRef<boolean>(false);
+
+  // Latest flags/callback without restarting the sampling loop
+  const downgradeStateRef = useRef({ autoDowngrade, canDowngrade, onDowngrade });
+  downgradeStateRef.current = { autoDowngrade, canDowngrade, onDowngrade };
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let lastSampleTime = performance.now();
+    addLog('📈 Performance monitor started');
+
+    const interval = window.setInterval(async () => {
+      const canvas = getCanvas();
+      if (!canvas) return;
+
+      // Camera Kit can hand over a new output canvas after re-initialization
+      if (samplerRef.current?.source !== canvas) {
+        samplerRef.current?.stop();
+        samplerRef.current = new FrameRateSampler(canvas);
+        samplerRef.current.start();
+        lastSampleTime = performance.now();
+        return;
+      }
+
+      const now = performance.now();
+      const { fps, jitter } = samplerRef.current.takeSample(now - lastSampleTime);
+      lastSampleTime = now;
+
+      // The lens can't render faster than the camera delivers
+      const cameraFps = getStream()?.getVideoTracks()[0]?.getSettings().frameRate;
+      const targetFps = Math.min(PERFORMANCE_CONFIG.TARGET_FPS, cameraFps || PERFORMANCE_CONFIG.TARGET_FPS);
+
+      const sample: PerformanceSample = { time: now, fps, jitter, heapMB: getHeapUsageMB() };
+      historyRef.current = [...historyRef.current, sample].slice(-PERFORMANCE_CONFIG.HISTORY_LENGTH);
+
+      setSnapshot({
+        metrics: {
+          ...getPerformanceTimings(),
+          fps,
+          memoryUsage: sample.heapMB ?? undefined
+        },
+        history: historyRef.current,
+        targetFps,
+        downgradeCount: downgradeCountRef.current
+      });
+
+      // Hidden tabs throttle rendering - not the device's fault
+      if (document.hidden) {
+        lowSamplesRef.current = 0;
+        return;
+      }
+
+      lowSamplesRef.current = fps < targetFps * PERFORMANCE_CONFIG.LOW_FPS_RATIO
+        ? lowSamplesRef.current + 1
+        : 0;
+
+      const state = downgradeStateRef.current;
+      const shouldDowngrade = state.autoDowngrade &&
+        state.canDowngrade &&
+        state.onDowngrade &&
+        !exhaustedRef.current &&
+        !isDowngradingRef.current &&
+        now >= cooldownUntilRef.current &&
+        lowSamplesRef.current >= PERFORMANCE_CONFIG.LOW_FPS_SAMPLES;
+
+      if (!shouldDowngrade) return;
+
+      isDowngradingRef.current = true;
+      lowSamplesRef.current = 0;
+      cooldownUntilRef.current = now + PERFORMANCE_CONFIG.DOWNGRADE_COOLDOWN;
+      addLog(`🐢 Output at ${fps}fps (target ${targetFps}fps) for ${PERFORMANCE_CONFIG.LOW_FPS_SAMPLES}s - stepping quality down`);
+
+      try {
+        const stepped = await state.onDowngrade!(fps, targetFps);
+        if (stepped) {
+          downgradeCountRef.current++;
+        } else {
+          exhaustedRef.current = true;
+          addLog('⚠️ Already at the lowest quality - no further downgrade possible');
+        }
+      } catch (error) {
+        addLog(`❌ Quality downgrade failed: ${error}`);
+      } finally {
+        isDowngradingRef.current = false;
+      }
+    }, PERFORMANCE_CONFIG.SAMPLE_INTERVAL);
+
+    return () => {
+      clearInterval(interval);
+      samplerRef.current?.stop();
+      samplerRef.current = null;
+    };
+  }, [enabled, getCanvas, getStream, addLog]);
+
+  // Operator raised quality again - give the ladder another chance
+  const resetDowngrades = useCallback(() => {
+    exhaustedRef.current = false;
+    lowSamplesRef.current = 0;
+    downgradeCountRef.current = 0;
+    cooldownUntilRef.current = performance.now() + PERFORMANCE_CONFIG.DOWNGRADE_COOLDOWN;
+  }, []);
+
+  return {
+    performanceSnapshot: snapshot,
+    resetDowngrades
+  };
+};
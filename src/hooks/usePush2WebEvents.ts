@@ -0,0 +1,41 @@
+// src/hooks/usePush2WebEvents.ts - React views onto the Push2Web event bus
+import { useState, useEffect, useRef } from 'react';
+import type { Lens } from '@snap/camera-kit';
+import { getPush2WebStatusSnapshot, onPush2WebEvent } from '../utils/push2WebEvents';
+import type { Push2WebStatus } from '../utils/push2WebEvents';
+
+export type { Push2WebConnection, Push2WebConnectionState, Push2WebStatus } from '../utils/push2WebEvents';
+
+/**
+ * Latest lens pushed from Lens Studio while this component is mounted.
+ * The callback may change between renders without re-subscribing.
+ */
+export const useLensReceived = (onLensReceived?: (lens: Lens) => void) => {
+  const [latest, setLatest] = useState<{ lens: Lens; receivedAt: number } | null>(null);
+  const callbackRef = useRef(onLensReceived);
+  callbackRef.current = onLensReceived;
+
+  useEffect(() => {
+    return onPush2WebEvent('lensReceived', lens => {
+      setLatest({ lens, receivedAt: Date.now() });
+      callbackRef.current?.(lens);
+    });
+  }, []);
+
+  return {
+    latestLens: latest?.lens || null,
+    receivedAt: latest?.receivedAt || null
+  };
+};
+
+export const usePush2WebStatus = (): Push2WebStatus => {
+  const [status, setStatus] = useState<Push2WebStatus>(getPush2WebStatusSnapshot);
+
+  useEffect(() => {
+    // Catch updates between the first render and this effect
+    setStatus(getPush2WebStatusSnapshot());
+    return onPush2WebEvent('statusChanged', setStatus);
+  }, []);
+
+  return status;
+};
@@ -0,0 +1,124 @@
+// src/hooks/useSmileMeter.ts - Live smile score from the camera stream + hold-to-trigger
+import { useState, useEffect, useRef } from 'react';
+import { SMILE_CONFIG } from '../utils/constants';
+import { SmileDetector } from '../utils/smileDetector';
+
+export interface SmileMeterOptions {
+  enabled: boolean;
+  threshold: number; // 0..1
+  holdFrames: number; // consecutive analyzed frames above threshold
+  paused?: boolean; // keep scoring hidden while recording/previewing
+  onTrigger?: () => void;
+}
+
+export const useSmileMeter = (
+  addLog: (message: string) => void,
+  getStream: () => MediaStream | null,
+  options: SmileMeterOptions
+) => {
+  const { enabled, threshold, holdFrames, paused = false, onTrigger } = options;
+
+  const [smileScore, setSmileScore] = useState<number>(0);
+  const [faceDetected, setFaceDetected] = useState<boolean>(false);
+  const [holdProgress, setHoldProgress] = useState<number>(0);
+
+  const detectorRef = useRef<SmileDetector | null>(null);
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const isAnalyzingRef = useRef<boolean>(false);
+  const framesAboveRef = useRef<number>(0);
+  const cooldownUntilRef = useRef<number>(0);
+  const onTriggerRef = useRef(onTrigger);
+  onTriggerRef.current = onTrigger;
+
+  useEffect(() => {
+    if (!enabled || paused) {
+      framesAboveRef.current = 0;
+      setHoldProgress(0);
+      return;
+    }
+
+    if (!detectorRef.current) {
+      try {
+        detectorRef.current = new SmileDetector();
+        addLog(`😊 Smile meter ready (${detectorRef.current.usesFaceDetector ? 'FaceDetector' : 'skin-tone'} face locator)`);
+      } catch (error) {
+        addLog(`❌ Smile meter unavailable: ${error}`);
+        return;
+      }
+    }
+
+    // Private muted <video> on the camera's video track - Camera Kit keeps its own source
+    if (!videoRef.current) {
+      const video = document.createElement('video');
+      video.muted = true;
+      video.playsInline = true;
+      videoRef.current = video;
+    }
+    const video = videoRef.current;
+    const detector = detectorRef.current;
+
+    const interval = window.setInterval(async () => {
+      if (isAnalyzingRef.current) return;
+
+      const stream = getStream();
+      const videoTrack = stream?.getVideoTracks()[0];
+      if (!videoTrack || videoTrack.readyState !== 'live') return;
+
+      // Follow camera switches
+      const currentTrack = (video.srcObject as MediaStream | null)?.getVideoTracks()[0];
+      if (currentTrack !== videoTrack) {
+        video.srcObject = new MediaStream([videoTrack]);
+        detector.reset();
+        video.play().catch(() => {});
+        return;
+      }
+
+      isAnalyzingRef.current = true;
+      try {
+        const sample = await detector.analyze(video);
+        setSmileScore(sample.score);
+        setFaceDetected(sample.faceDetected);
+
+        const isCoolingDown = performance.now() < cooldownUntilRef.current;
+        framesAboveRef.current = sample.faceDetected && sample.score >= threshold && !isCoolingDown
+          ? framesAboveRef.current + 1
+          : 0;
+        setHoldProgress(Math.min(1, framesAboveRef.current / holdFrames));
+
+        if (framesAboveRef.current >= holdFrames && onTriggerRef.current) {
+          framesAboveRef.current = 0;
+          cooldownUntilRef.current = performance.now() + SMILE_CONFIG.TRIGGER_COOLDOWN;
+          setHoldProgress(0);
+          addLog(`😁 Smile held for ${holdFrames} frames (score ${sample.score.toFixed(2)}) - auto capture`);
+          onTriggerRef.current();
+        }
+      } catch (error) {
+        addLog(`⚠️ Smile analysis failed: ${error}`);
+      } finally {
+        isAnalyzingRef.current = false;
+      }
+    }, SMILE_CONFIG.SAMPLE_INTERVAL);
+
+    return () => {
+      clearInterval(interval);
+    };
+  }, [enabled, paused, threshold, holdFrames, getStream, addLog]);
+
+  // Release the private video element when the meter is switched off
+  useEffect(() => {
+    if (enabled) return;
+    if (videoRef.current) {
+      videoRef.current.srcObject = null;
+      videoRef.current = null;
+    }
+    detectorRef.current?.reset();
+    setSmileScore(0);
+    setFaceDetected(false);
+  }, [enabled]);
+
+  return {
+    smileScore,
+    faceDetected,
+    holdProgress
+  };
+};
@@ -2,7 +2,18 @@ import React from 'react'
 import ReactDOM from 'react-dom/client'
 import App from './App.tsx'
 import './index.css'
+import { registerServiceWorker } from './utils/serviceWorker'
+import { initAnalytics } from './utils/analytics'
+import { initErrorReporting } from './utils/errorHandling'
+import { initLogger } from './utils/logger'
+import { initLogStream } from './utils/logStream'
 
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <App />
-)
\ No newline at end of file
+)
+
+registerServiceWorker()
+initLogger()
+initLogStream()
+initErrorReporting()
+initAnalytics()
\ No newline at end of file
@@ -1,6 +1,9 @@
 // src/utils/VideoProcessor.ts - MAX QUALITY video processing untuk 1440x2560
 import fixWebmDuration from 'fix-webm-duration';
 import { detectAndroid } from './androidRecorderFix';
+import { remuxToProgressiveMp4 } from './mp4Remuxer';
+import { isWebmTranscodeSupported, transcodeWebmToMp4 } from './webmTranscoder';
+import { toAppError } from './appErrors';
 
 export interface ProcessingProgress {
   percent: number;
@@ -8,163 +11,14 @@ export interface ProcessingProgress {
 }
 
 /**
- * Binary MP4 Duration Fixer - Enhanced untuk MAX quality
+ * Still photos from photo mode share the video pipeline but skip processing
  */
-class MaxQualityMP4DurationFixer {
-  private addLog: (message: string) => void;
-
-  constructor(addLog: (message: string) => void) {
-    this.addLog = addLog;
-  }
-
-  async fixMP4Duration(blob: Blob, actualDurationSeconds: number): Promise<Blob> {
-    try {
-      const buffer = await blob.arrayBuffer();
-      const view = new DataView(buffer);
-      const uint8Array = new Uint8Array(buffer);
-      
-      this.addLog(`🔧 Fixing MAX quality MP4 duration: ${actualDurationSeconds}s`);
-      
-      // Fix movie header (MVHD)
-      const mvhdFixed = this.fixMVHDDuration(view, uint8Array, actualDurationSeconds);
-      
-      // Fix track headers (TKHD)  
-      const tkhdFixed = this.fixTKHDDurations(view, uint8Array, actualDurationSeconds);
-      
-      // Fix media headers (MDHD)
-      const mdhdFixed = this.fixMDHDDurations(view, uint8Array, actualDurationSeconds);
-      
-      if (mvhdFixed || tkhdFixed || mdhdFixed) {
-        this.addLog(`✅ MAX quality MP4 headers fixed (MVHD:${mvhdFixed}, TKHD:${tkhdFixed}, MDHD:${mdhdFixed})`);
-        return new Blob([uint8Array], { type: 'video/mp4' });
-      } else {
-        this.addLog(`⚠️ No MP4 headers found to fix`);
-        return blob;
-      }
-      
-    } catch (error) {
-      this.addLog(`❌ MAX quality MP4 fix failed: ${error}`);
-      return blob;
-    }
-  }
-
-  private fixMVHDDuration(view: DataView, data: Uint8Array, durationSeconds: number): boolean {
-    const mvhdOffset = this.findBoxOffset(data, 'mvhd');
-    if (mvhdOffset === -1) return false;
-
-    try {
-      const version = view.getUint8(mvhdOffset + 8);
-      const timescaleOffset = mvhdOffset + (version === 1 ? 28 : 20);
-      const durationOffset = timescaleOffset + 4;
-      
-      const timescale = view.getUint32(timescaleOffset);
-      const newDuration = durationSeconds * timescale;
-      
-      if (version === 1) {
-        view.setBigUint64(durationOffset, BigInt(newDuration));
-      } else {
-        view.setUint32(durationOffset, newDuration);
-      }
-      
-      this.addLog(`🎬 MVHD fixed: ${timescale} timescale, ${newDuration} duration`);
-      return true;
-    } catch (error) {
-      this.addLog(`❌ MVHD fix failed: ${error}`);
-      return false;
-    }
-  }
-
-  private fixTKHDDurations(view: DataView, data: Uint8Array, durationSeconds: number): boolean {
-    let fixed = false;
-    let offset = 0;
-    
-    while (true) {
-      const tkhdOffset = this.findBoxOffset(data, 'tkhd', offset);
-      if (tkhdOffset === -1) break;
-      
-      try {
-        const version = view.getUint8(tkhdOffset + 8);
-        const durationOffset = tkhdOffset + (version === 1 ? 36 : 28);
-        
-        const movieTimescale = 1000; // Standard movie timescale
-        const newDuration = durationSeconds * movieTimescale;
-        
-        if (version === 1) {
-          view.setBigUint64(durationOffset, BigInt(newDuration));
-        } else {
-          view.setUint32(durationOffset, newDuration);
-        }
-        
-        fixed = true;
-        offset = tkhdOffset + 1;
-      } catch (error) {
-        break;
-      }
-    }
-    
-    return fixed;
-  }
-
-  private fixMDHDDurations(view: DataView, data: Uint8Array, durationSeconds: number): boolean {
-    let fixed = false;
-    let offset = 0;
-    
-    while (true) {
-      const mdhdOffset = this.findBoxOffset(data, 'mdhd', offset);
-      if (mdhdOffset === -1) break;
-      
-      try {
-        const version = view.getUint8(mdhdOffset + 8);
-        const timescaleOffset = mdhdOffset + (version === 1 ? 28 : 20);
-        const durationOffset = timescaleOffset + 4;
-        
-        const timescale = view.getUint32(timescaleOffset);
-        const newDuration = durationSeconds * timescale;
-        
-        if (version === 1) {
-          view.setBigUint64(durationOffset, BigInt(newDuration));
-        } else {
-          view.setUint32(durationOffset, newDuration);
-        }
-        
-        fixed = true;
-        offset = mdhdOffset + 1;
-      } catch (error) {
-        break;
-      }
-    }
-    
-    return fixed;
-  }
-
-  private findBoxOffset(data: Uint8Array, fourCC: string, startOffset: number = 0): number {
-    const target = new TextEncoder().encode(fourCC);
-    
-    for (let i = startOffset; i < data.length - 8; i++) {
-      if (i % 4 === 0) { // 4-byte boundary alignment
-        const boxSize = new DataView(data.buffer).getUint32(i);
-        
-        if (boxSize >= 8 && boxSize < data.length && i + boxSize <= data.length) {
-          if (data[i + 4] === target[0] && 
-              data[i + 5] === target[1] && 
-              data[i + 6] === target[2] && 
-              data[i + 7] === target[3]) {
-            return i;
-          }
-        }
-      }
-    }
-    
-    return -1;
-  }
-}
+export const isPhotoFile = (blob: Blob): boolean => {
+  return blob.type.startsWith('image/');
+};
 
 export class VideoProcessor {
-  private mp4Fixer: MaxQualityMP4DurationFixer;
-
-  constructor(private addLog: (message: string) => void) {
-    this.mp4Fixer = new MaxQualityMP4DurationFixer(addLog);
-  }
+  constructor(private addLog: (message: string) => void) {}
 
   async processVideo(
     rawBlob: Blob,
@@ -178,31 +32,93 @@ export class VideoProcessor {
       onProgress({ percent: 10, message: `Analyzing ${isMaxQuality ? 'MAX quality' : 'standard'} video format...` });
       
       let processedBlob = rawBlob;
-
-      if (isMP4) {
-        onProgress({ percent: 30, message: `Fixing ${isMaxQuality ? 'MAX quality' : 'standard'} MP4 duration headers...` });
-        processedBlob = await this.mp4Fixer.fixMP4Duration(rawBlob, recordingDuration);
+      let mediaDurationMs: number | null = (rawBlob as any).mediaDurationMs ?? null;
+      let outputIsMP4 = isMP4;
+      let processingMethod: 'mp4-remux' | 'webm-transcode' | 'webm-fix' | 'none' = 'none';
+
+      if (isMP4 && (rawBlob as any).processingMethod === 'mp4-remux') {
+        onProgress({ percent: 30, message: `${isMaxQuality ? 'MAX quality' : 'Standard'} MP4 already remuxed` });
+        processingMethod = 'mp4-remux';
+      } else if (isMP4) {
+        onProgress({ percent: 30, message: `Remuxing ${isMaxQuality ? 'MAX quality' : 'standard'} MP4 (moov-first, exact duration)...` });
+        try {
+          const result = await remuxToProgressiveMp4(rawBlob);
+          processedBlob = result.blob;
+          mediaDurationMs = result.durationMs;
+          processingMethod = 'mp4-remux';
+          this.addLog(`✅ MP4 remuxed: ${result.trackCount} tracks, ${result.sampleCount} samples, ${(result.durationMs / 1000).toFixed(3)}s${result.wasFragmented ? ' (defragmented)' : ''}`);
+        } catch (error) {
+          this.addLog(`⚠️ MP4 remux failed, sharing original: ${error}`);
+        }
       } else {
-        onProgress({ percent: 30, message: `Fixing ${isMaxQuality ? 'MAX quality' : 'standard'} WebM duration...` });
-        const durationMs = recordingDuration * 1000;
-        processedBlob = await fixWebmDuration(rawBlob, durationMs);
+        const transcoded = isWebmTranscodeSupported()
+          ? await this.transcodeWebm(rawBlob, isMaxQuality, onProgress)
+          : null;
+
+        if (transcoded) {
+          processedBlob = transcoded.blob;
+          mediaDurationMs = transcoded.durationMs;
+          outputIsMP4 = true;
+          processingMethod = 'webm-transcode';
+        } else {
+          onProgress({ percent: 30, message: `Fixing ${isMaxQuality ? 'MAX quality' : 'standard'} WebM duration...` });
+          const durationMs = recordingDuration * 1000;
+          processedBlob = await fixWebmDuration(rawBlob, durationMs);
+          processingMethod = 'webm-fix';
+        }
       }
 
-      onProgress({ percent: 80, message: `Finalizing ${isMaxQuality ? 'MAX quality' : 'standard'} video for Instagram...` });
+      onProgress({ percent: 95, message: `Finalizing ${isMaxQuality ? 'MAX quality' : 'standard'} video for Instagram...` });
       
-      const finalFile = this.createMaxQualityFinalFile(processedBlob, recordingDuration, isMP4, isMaxQuality);
+      const finalFile = this.createMaxQualityFinalFile(processedBlob, recordingDuration, outputIsMP4, isMaxQuality, mediaDurationMs, processingMethod);
       
       const qualityIndicator = isMaxQuality ? 'MAX QUALITY' : 'standard';
       onProgress({ percent: 100, message: `${qualityIndicator} video ready for Instagram!` });
       
       return finalFile;
     } catch (error) {
-      this.addLog(`❌ MAX quality processing failed: ${error}`);
-      throw error;
+      const appError = toAppError(error, 'PROCESSING_FAILED');
+      this.addLog(`❌ [${appError.code}] MAX quality processing failed: ${appError.message}`);
+      throw appError;
+    }
+  }
+
+  /**
+   * WebM → H.264 MP4 for browsers whose MediaRecorder can't write MP4.
+   * Returns null (caller falls back to the WebM duration fix) on failure.
+   */
+  private async transcodeWebm(
+    rawBlob: Blob,
+    isMaxQuality: boolean,
+    onProgress: (progress: ProcessingProgress) => void
+  ): Promise<{ blob: Blob; durationMs: number } | null> {
+    const label = isMaxQuality ? 'MAX quality' : 'standard';
+    onProgress({ percent: 20, message: `Converting ${label} WebM to MP4...` });
+
+    try {
+      const startTime = Date.now();
+      const result = await transcodeWebmToMp4(rawBlob, (fraction) => {
+        onProgress({
+          percent: 20 + Math.round(fraction * 70),
+          message: `Converting ${label} WebM to MP4... ${Math.round(fraction * 100)}%`
+        });
+      });
+      this.addLog(`✅ WebM converted to MP4 (${result.videoCodec}${result.audioCodec ? `/${result.audioCodec}` : ', no audio'}) in ${((Date.now() - startTime) / 1000).toFixed(1)}s`);
+      return result;
+    } catch (error) {
+      this.addLog(`⚠️ WebM → MP4 conversion failed, keeping WebM: ${error}`);
+      return null;
     }
   }
 
-  private createMaxQualityFinalFile(blob: Blob, duration: number, isMP4: boolean, isMaxQuality: boolean): File {
+  private createMaxQualityFinalFile(
+    blob: Blob,
+    duration: number,
+    isMP4: boolean,
+    isMaxQuality: boolean,
+    mediaDurationMs: number | null,
+    processingMethod: string
+  ): File {
     const extension = isMP4 ? 'mp4' : 'webm';
     const qualityPrefix = isMaxQuality ? 'max_quality_' : '';
     const filename = `${qualityPrefix}ar_video_${Date.now()}.${extension}`;
@@ -215,8 +131,9 @@ export class VideoProcessor {
     // Enhanced metadata dengan max quality info
     (file as any).recordingDuration = duration;
     (file as any).instagramCompatible = isMP4 && duration >= 3;
-    (file as any).fixedMetadata = true;
-    (file as any).processingMethod = isMP4 ? 'binary-mp4-fix' : 'webm-fix';
+    (file as any).fixedMetadata = !isMP4 || mediaDurationMs !== null;
+    (file as any).mediaDurationMs = mediaDurationMs;
+    (file as any).processingMethod = processingMethod;
     (file as any).isAndroidOptimized = isMP4 && detectAndroid();
     (file as any).isMaxQuality = isMaxQuality;
     (file as any).qualityProfile = isMaxQuality ? 'MAX_PORTRAIT_1440x2560' : 'STANDARD_1080x1920';
@@ -233,6 +150,10 @@ export class VideoProcessor {
   }
 
   async shareVideo(file: File): Promise<boolean> {
+    if (isPhotoFile(file)) {
+      return this.sharePhoto(file);
+    }
+    
     try {
       const isMaxQuality = (file as any).isMaxQuality;
       const qualityIndicator = isMaxQuality ? 'MAX QUALITY' : 'standard';
@@ -259,7 +180,31 @@ export class VideoProcessor {
     }
   }
 
-  private downloadFile(file: File): void {
+  private async sharePhoto(file: File): Promise<boolean> {
+    try {
+      const resolution = (file as any).canvasResolution || 'full resolution';
+      
+      if (navigator.share && navigator.canShare?.({ files: [file] })) {
+        await navigator.share({
+          files: [file],
+          title: 'AR Photo',
+          text: `Check out this ${resolution} AR photo! 📸`
+        });
+        this.addLog('✅ Photo shared successfully');
+        return true;
+      } else {
+        this.addLog('📱 Photo downloading...');
+        this.downloadFile(file);
+        return false;
+      }
+    } catch (error) {
+      this.addLog(`❌ Photo share failed: ${error}`);
+      this.downloadFile(file);
+      return false;
+    }
+  }
+
+  downloadFile(file: File): void {
     const url = URL.createObjectURL(file);
     const a = document.createElement('a');
     a.href = url;
@@ -269,6 +214,11 @@ export class VideoProcessor {
     document.body.removeChild(a);
     URL.revokeObjectURL(url);
     
+    if (isPhotoFile(file)) {
+      this.addLog(`💾 Photo downloaded: ${file.name}`);
+      return;
+    }
+    
     const isMaxQuality = (file as any).isMaxQuality;
     const qualityIndicator = isMaxQuality ? 'MAX QUALITY' : 'standard';
     this.addLog(`💾 ${qualityIndicator} video downloaded: ${file.name}`);
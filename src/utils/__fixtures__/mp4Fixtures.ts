@@ -0,0 +1,268 @@
+// src/utils/__fixtures__/mp4Fixtures.ts - Small hand-built MP4 files and a sample-table reader for the MP4 tests
+import { parseBoxes } from '../mp4Remuxer';
+import type { Mp4Box } from '../mp4Remuxer';
+
+/*
+ * Written with a separate little box writer (not mp4Boxes.ts) so a bug in
+ * the code under test can't cancel itself out in the fixture.
+ */
+
+const be32 = (...values: number[]): number[] =>
+  values.flatMap(value => [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff]);
+
+const be16 = (...values: number[]): number[] => values.flatMap(value => [(value >>> 8) & 0xff, value & 0xff]);
+
+const be64 = (value: number): number[] => be32(Math.floor(value / 0x100000000), value >>> 0);
+
+const fourcc = (type: string): number[] => Array.from(type, char => char.charCodeAt(0));
+
+const mkbox = (type: string, ...payload: (number[] | Uint8Array)[]): number[] => {
+  const body = payload.flatMap(part => Array.from(part));
+  return [...be32(body.length + 8), ...fourcc(type), ...body];
+};
+
+const mkfull = (type: string, version: number, flags: number, ...payload: (number[] | Uint8Array)[]): number[] => {
+  return mkbox(type, [version, (flags >>> 16) & 0xff, (flags >>> 8) & 0xff, flags & 0xff], ...payload);
+};
+
+const MATRIX = be32(0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000);
+
+export interface FixtureSample {
+  data: Uint8Array;
+  duration: number; // media timescale
+  isSync: boolean;
+}
+
+export interface FixtureTrack {
+  id: number;
+  handler: 'vide' | 'soun';
+  timescale: number;
+  samples: FixtureSample[];
+}
+
+export interface Mp4Fixture {
+  bytes: Uint8Array;
+  video: FixtureTrack;
+  audio: FixtureTrack;
+  audioDelayMs: number; // how much later the audio track starts
+}
+
+// Every sample gets its own fill byte so a wrong offset reads visibly wrong data
+const makeSamples = (trackId: number, sizes: number[], duration: number, syncEvery: number): FixtureSample[] => {
+  return sizes.map((size, index) => ({
+    data: new Uint8Array(size).fill(trackId * 0x10 + index),
+    duration,
+    isSync: index % syncEvery === 0
+  }));
+};
+
+const makeTracks = (): { video: FixtureTrack; audio: FixtureTrack } => ({
+  video: { id: 1, handler: 'vide', timescale: 90000, samples: makeSamples(1, [10, 12, 8, 9], 3000, 3) },
+  audio: { id: 2, handler: 'soun', timescale: 48000, samples: makeSamples(2, [6, 6, 7], 1024, 1) }
+});
+
+const mvhd = (timescale: number, duration: number): number[] => mkfull('mvhd', 0, 0,
+  be32(0, 0, timescale, duration, 0x00010000), be16(0x0100, 0), be32(0, 0), MATRIX, new Array(24).fill(0), be32(3)
+);
+
+const trakHeader = (track: FixtureTrack, stbl: number[], edts: number[] = []): number[] => {
+  const isVideo = track.handler === 'vide';
+  return mkbox('trak',
+    mkfull('tkhd', 0, 3, be32(0, 0, track.id, 0, 0, 0, 0), be16(0, 0, isVideo ? 0 : 0x0100, 0), MATRIX,
+      be32(isVideo ? 64 * 0x10000 : 0, isVideo ? 48 * 0x10000 : 0)),
+    edts,
+    mkbox('mdia',
+      mkfull('mdhd', 0, 0, be32(0, 0, track.timescale, 0), be16(0x55c4, 0)),
+      mkfull('hdlr', 0, 0, be32(0), fourcc(track.handler), be32(0, 0, 0), [0]),
+      mkbox('minf',
+        isVideo ? mkfull('vmhd', 0, 1, new Array(8).fill(0)) : mkfull('smhd', 0, 0, new Array(4).fill(0)),
+        mkbox('dinf', mkfull('dref', 0, 0, be32(1), mkfull('url ', 0, 1))),
+        stbl
+      )
+    )
+  );
+};
+
+const sampleEntry = (track: FixtureTrack): number[] => {
+  return mkfull('stsd', 0, 0, be32(1), mkbox(track.handler === 'vide' ? 'avc1' : 'mp4a', new Array(8).fill(0)));
+};
+
+const emptyStbl = (track: FixtureTrack): number[] => mkbox('stbl',
+  sampleEntry(track),
+  mkfull('stts', 0, 0, be32(0)),
+  mkfull('stsc', 0, 0, be32(0)),
+  mkfull('stsz', 0, 0, be32(0, 0)),
+  mkfull('stco', 0, 0, be32(0))
+);
+
+const TFHD_DEFAULT_BASE_IS_MOOF = 0x020000;
+const TRUN_FLAGS = 0x000001 | 0x000004 | 0x000100 | 0x000200; // data offset, first flags, duration, size
+const SYNC_FLAGS = 0x02000000;
+const NON_SYNC_FLAGS = 0x01010000;
+
+/**
+ * MediaRecorder-style fragmented MP4: empty stbl + mvex, then two moof/mdat
+ * pairs each carrying some video and some audio. Audio's tfdt starts 100ms in.
+ */
+export const buildFragmentedMp4 = (): Mp4Fixture => {
+  const { video, audio } = makeTracks();
+  const audioStart = 4800; // 100ms at 48kHz
+
+  const moov = mkbox('moov',
+    mvhd(1000, 0),
+    trakHeader(video, emptyStbl(video)),
+    trakHeader(audio, emptyStbl(audio)),
+    mkbox('mvex',
+      mkfull('trex', 0, 0, be32(video.id, 1, 0, 0, NON_SYNC_FLAGS)),
+      mkfull('trex', 0, 0, be32(audio.id, 1, 0, 0, SYNC_FLAGS))
+    )
+  );
+
+  const fragments = [
+    { video: video.samples.slice(0, 3), audio: audio.samples.slice(0, 2), videoTime: 0, audioTime: audioStart },
+    { video: video.samples.slice(3), audio: audio.samples.slice(2), videoTime: 9000, audioTime: audioStart + 2048 }
+  ];
+
+  const fragmentBytes = fragments.flatMap((fragment, sequence) => {
+    const traf = (track: FixtureTrack, samples: FixtureSample[], time: number, dataOffset: number): number[] =>
+      mkbox('traf',
+        mkfull('tfhd', 0, TFHD_DEFAULT_BASE_IS_MOOF, be32(track.id)),
+        mkfull('tfdt', 1, 0, be64(time)),
+        mkfull('trun', 0, TRUN_FLAGS,
+          be32(samples.length, dataOffset, samples[0].isSync ? SYNC_FLAGS : NON_SYNC_FLAGS),
+          samples.flatMap(sample => be32(sample.duration, sample.data.length))
+        )
+      );
+
+    const videoSize = fragment.video.reduce((total, sample) => total + sample.data.length, 0);
+    const buildMoof = (mdatPayloadStart: number): number[] => mkbox('moof',
+      mkfull('mfhd', 0, 0, be32(sequence + 1)),
+      traf(video, fragment.video, fragment.videoTime, mdatPayloadStart),
+      traf(audio, fragment.audio, fragment.audioTime, mdatPayloadStart + videoSize)
+    );
+
+    // data_offset is relative to the moof, so measure it first
+    const moof = buildMoof(buildMoof(0).length + 8);
+    const mdat = mkbox('mdat', ...fragment.video.map(sample => sample.data), ...fragment.audio.map(sample => sample.data));
+    return [...moof, ...mdat];
+  });
+
+  const ftyp = mkbox('ftyp', fourcc('iso5'), be32(0x200), fourcc('iso5'), fourcc('iso6'), fourcc('mp41'));
+  return {
+    bytes: new Uint8Array([...ftyp, ...moov, ...fragmentBytes]),
+    video,
+    audio,
+    audioDelayMs: 100
+  };
+};
+
+/**
+ * Classic progressive MP4 with mdat before moov. The audio track carries a
+ * leading empty edit of 50ms, samples are stored two per chunk.
+ */
+export const buildProgressiveMp4 = (): Mp4Fixture => {
+  const { video, audio } = makeTracks();
+  const ftyp = mkbox('ftyp', fourcc('mp42'), be32(0), fourcc('mp42'), fourcc('isom'));
+
+  const allSamples = [...video.samples, ...audio.samples];
+  const mdat = mkbox('mdat', ...allSamples.map(sample => sample.data));
+  const mdatStart = ftyp.length + 8;
+
+  const stbl = (track: FixtureTrack, firstOffset: number): number[] => {
+    const chunkOffsets: number[] = [];
+    let offset = firstOffset;
+    track.samples.forEach((sample, index) => {
+      if (index % 2 === 0) chunkOffsets.push(offset);
+      offset += sample.data.length;
+    });
+    const lastChunkSize = track.samples.length % 2 === 0 ? 2 : 1;
+    const syncNumbers = track.samples.flatMap((sample, index) => sample.isSync ? [index + 1] : []);
+
+    return mkbox('stbl',
+      sampleEntry(track),
+      mkfull('stts', 0, 0, be32(1, track.samples.length, track.samples[0].duration)),
+      syncNumbers.length < track.samples.length ? mkfull('stss', 0, 0, be32(syncNumbers.length, ...syncNumbers)) : [],
+      mkfull('stsc', 0, 0, be32(2, 1, 2, 1, chunkOffsets.length, lastChunkSize, 1)),
+      mkfull('stsz', 0, 0, be32(0, track.samples.length, ...track.samples.map(sample => sample.data.length))),
+      mkfull('stco', 0, 0, be32(chunkOffsets.length, ...chunkOffsets))
+    );
+  };
+
+  const videoSize = video.samples.reduce((total, sample) => total + sample.data.length, 0);
+  const audioEdit = mkbox('edts', mkfull('elst', 0, 0, be32(2, 50, 0xffffffff, 0x00010000, 64, 0, 0x00010000)));
+
+  const moov = mkbox('moov',
+    mvhd(1000, 134),
+    trakHeader(video, stbl(video, mdatStart)),
+    trakHeader(audio, stbl(audio, mdatStart + videoSize), audioEdit)
+  );
+
+  return {
+    bytes: new Uint8Array([...ftyp, ...mdat, ...moov]),
+    video,
+    audio,
+    audioDelayMs: 50
+  };
+};
+
+/* ---------- Reading output back ---------- */
+
+export const findBox = (boxes: Mp4Box[] | undefined, path: string): Mp4Box | undefined => {
+  return path.split('/').reduce<Mp4Box | undefined>(
+    (current, type, index) => (index === 0 ? boxes : current?.children)?.find(child => child.type === type),
+    undefined
+  );
+};
+
+export const childTypes = (box: Mp4Box | undefined): string[] => (box?.children || []).map(child => child.type);
+
+export const readU32 = (data: Uint8Array, offset: number): number => {
+  return new DataView(data.buffer, data.byteOffset, data.byteLength).getUint32(offset);
+};
+
+// Payload offset of a full box's first field after version/flags
+const fieldsStart = (box: Mp4Box): number => box.start + box.headerSize + 4;
+
+export const readU32Table = (data: Uint8Array, box: Mp4Box, entrySize: number = 1): number[][] => {
+  const start = fieldsStart(box);
+  const count = readU32(data, start);
+  return Array.from({ length: count }, (_, entry) =>
+    Array.from({ length: entrySize }, (_, field) => readU32(data, start + 4 + (entry * entrySize + field) * 4))
+  );
+};
+
+/**
+ * Resolve stsc/stsz/stco into each sample's bytes, the way a player would.
+ */
+export const readTrackSamples = (data: Uint8Array, trak: Mp4Box): Uint8Array[] => {
+  const stbl = findBox([trak], 'trak/mdia/minf/stbl');
+  const stsz = findBox(stbl?.children, 'stsz');
+  const stsc = findBox(stbl?.children, 'stsc');
+  const stco = findBox(stbl?.children, 'stco');
+  if (!stsz || !stsc || !stco) throw new Error('Missing sample tables');
+
+  const fixedSize = readU32(data, fieldsStart(stsz));
+  const sampleCount = readU32(data, fieldsStart(stsz) + 4);
+  const sizes = Array.from({ length: sampleCount }, (_, index) =>
+    fixedSize || readU32(data, fieldsStart(stsz) + 8 + index * 4)
+  );
+  const chunkOffsets = readU32Table(data, stco).map(([offset]) => offset);
+  const stscEntries = readU32Table(data, stsc, 3);
+
+  const samples: Uint8Array[] = [];
+  chunkOffsets.forEach((chunkOffset, chunk) => {
+    const entry = stscEntries.filter(([firstChunk]) => firstChunk - 1 <= chunk).pop();
+    let offset = chunkOffset;
+    for (let i = 0; i < (entry ? entry[1] : 0); i++) {
+      const size = sizes[samples.length];
+      samples.push(data.slice(offset, offset + size));
+      offset += size;
+    }
+  });
+  return samples;
+};
+
+export const parseBlob = async (blob: Blob): Promise<{ data: Uint8Array; boxes: Mp4Box[] }> => {
+  const data = new Uint8Array(await blob.arrayBuffer());
+  return { data, boxes: parseBoxes(data) };
+};
@@ -0,0 +1,201 @@
+// src/utils/analytics.ts - Session-scoped analytics events, buffered in localStorage and flushed to server.js
+import type { AnalyticsEvent } from '../types/app';
+import { ANALYTICS_CONFIG, APP_CONFIG, FEATURE_FLAGS, STORAGE_KEYS } from './constants';
+
+export type AnalyticsEventName =
+  | 'app_started'
+  | 'app_hidden'
+  | 'app_visible'
+  | 'app_closed'
+  | 'lens_applied'
+  | 'recording_started'
+  | 'recording_finished'
+  | 'photo_captured'
+  | 'share_completed'
+  | 'share_failed'
+  | 'download_completed'
+  | 'error';
+
+interface StoredSession {
+  id: string;
+  lastActivity: number;
+}
+
+let isInitialized = false;
+let isFlushing = false;
+let inFlightCount = 0; // events at the head of the queue a fetch is sending right now
+
+const generateSessionId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 10)}`;
+
+/**
+ * Kiosks stay open all day, so a session ends after a stretch of inactivity
+ * rather than on page unload. sessionStorage keeps the ID across reloads.
+ */
+export const getSessionId = (): string => {
+  const now = Date.now();
+  let session: StoredSession | null = null;
+
+  try {
+    const saved = sessionStorage.getItem(STORAGE_KEYS.ANALYTICS_SESSION);
+    session = saved ? JSON.parse(saved) as StoredSession : null;
+  } catch (error) {
+    session = null;
+  }
+
+  if (!session?.id || now - session.lastActivity > ANALYTICS_CONFIG.SESSION_IDLE_TIMEOUT) {
+    session = { id: generateSessionId(), lastActivity: now };
+  } else {
+    session.lastActivity = now;
+  }
+
+  try {
+    sessionStorage.setItem(STORAGE_KEYS.ANALYTICS_SESSION, JSON.stringify(session));
+  } catch (error) {
+    // Private mode - the in-memory ID still tags this event
+  }
+  return session.id;
+};
+
+const readQueue = (): AnalyticsEvent[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEYS.ANALYTICS_QUEUE);
+    return saved ? JSON.parse(saved) as AnalyticsEvent[] : [];
+  } catch (error) {
+    return [];
+  }
+};
+
+const writeQueue = (queue: AnalyticsEvent[]): void => {
+  try {
+    localStorage.setItem(STORAGE_KEYS.ANALYTICS_QUEUE, JSON.stringify(queue.slice(-ANALYTICS_CONFIG.MAX_QUEUE)));
+  } catch (error) {
+    console.warn('Analytics queue could not be saved:', error);
+  }
+};
+
+export const trackEvent = (eventName: AnalyticsEventName, properties: Record<string, any> = {}): void => {
+  if (!FEATURE_FLAGS.ENABLE_ANALYTICS) return;
+
+  const event: AnalyticsEvent = {
+    eventName,
+    timestamp: Date.now(),
+    properties,
+    sessionId: getSessionId()
+  };
+
+  const queue = readQueue();
+  queue.push(event);
+  writeQueue(queue);
+
+  if (queue.length >= ANALYTICS_CONFIG.BATCH_SIZE) {
+    flushAnalytics();
+  }
+};
+
+export const trackError = (source: string, error: unknown): void => {
+  trackEvent('error', {
+    source,
+    name: error instanceof Error ? error.name : 'Error',
+    message: error instanceof Error ? error.message : String(error)
+  });
+};
+
+/**
+ * Send queued events in batches. Events leave the queue only once the server
+ * has accepted them, so an offline kiosk catches up when the network returns.
+ */
+export const flushAnalytics = async (): Promise<void> => {
+  if (!FEATURE_FLAGS.ENABLE_ANALYTICS || isFlushing || !navigator.onLine) return;
+
+  isFlushing = true;
+  try {
+    let batch = readQueue().slice(0, ANALYTICS_CONFIG.BATCH_SIZE);
+
+    while (batch.length > 0) {
+      const controller = new AbortController();
+      const timeout = setTimeout(() => controller.abort(), ANALYTICS_CONFIG.FLUSH_TIMEOUT);
+      inFlightCount = batch.length;
+
+      try {
+        const response = await fetch(ANALYTICS_CONFIG.ENDPOINT, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ events: batch }),
+          signal: controller.signal
+        });
+        if (!response.ok) {
+          throw new Error(`Analytics flush failed: ${response.status}`);
+        }
+      } finally {
+        clearTimeout(timeout);
+      }
+
+      writeQueue(readQueue().slice(batch.length));
+      batch = readQueue().slice(0, ANALYTICS_CONFIG.BATCH_SIZE);
+    }
+  } catch (error) {
+    console.warn('Analytics flush failed, keeping events queued:', error);
+  } finally {
+    isFlushing = false;
+    inFlightCount = 0;
+  }
+};
+
+/**
+ * fetch is cancelled on unload - sendBeacon survives it. Events a fetch
+ * flush is already sending are skipped, so the two never send the same
+ * events or remove each other's.
+ */
+const flushWithBeacon = (): void => {
+  if (!FEATURE_FLAGS.ENABLE_ANALYTICS || typeof navigator.sendBeacon !== 'function') return;
+
+  const skip = inFlightCount;
+  const batch = readQueue().slice(skip, skip + ANALYTICS_CONFIG.BATCH_SIZE);
+  if (batch.length === 0) return;
+
+  const payload = new Blob([JSON.stringify({ events: batch })], { type: 'application/json' });
+  if (navigator.sendBeacon(ANALYTICS_CONFIG.ENDPOINT, payload)) {
+    const queue = readQueue();
+    queue.splice(skip, batch.length);
+    writeQueue(queue);
+  }
+};
+
+/**
+ * Start the flush timer and app lifecycle tracking. Safe to call more than once.
+ */
+export const initAnalytics = (): void => {
+  if (!FEATURE_FLAGS.ENABLE_ANALYTICS || isInitialized) return;
+  isInitialized = true;
+
+  trackEvent('app_started', {
+    version: APP_CONFIG.version,
+    userAgent: navigator.userAgent,
+    standalone: window.matchMedia('(display-mode: standalone)').matches,
+    screen: `${window.screen.width}x${window.screen.height}`,
+    devicePixelRatio: window.devicePixelRatio || 1,
+    online: navigator.onLine
+  });
+
+  document.addEventListener('visibilitychange', () => {
+    if (document.hidden) {
+      trackEvent('app_hidden');
+      flushWithBeacon();
+    } else {
+      trackEvent('app_visible');
+    }
+  });
+
+  window.addEventListener('pagehide', () => {
+    trackEvent('app_closed');
+    flushWithBeacon();
+  });
+
+  window.addEventListener('online', () => {
+    flushAnalytics();
+  });
+
+  setInterval(flushAnalytics, ANALYTICS_CONFIG.FLUSH_INTERVAL);
+  flushAnalytics();
+};
@@ -55,7 +55,7 @@ export interface VideoMetadata {
   chunkCount: number;
   recordingStartTime: number;
   recordingEndTime: number;
-  processingMethod: 'binary-mp4-fix' | 'webm-fix' | 'none';
+  processingMethod: 'mp4-remux' | 'webm-transcode' | 'webm-fix' | 'none';
   platformOptimized: boolean;
 }
 
@@ -318,6 +318,11 @@ export const checkSocialMediaCompatibility = (file: File): {
   youtube: boolean;
   twitter: boolean;
 } => {
+  // Still photos from photo mode - accepted everywhere except YouTube
+  if (file.type.startsWith('image/')) {
+    return { instagram: true, tiktok: true, youtube: false, twitter: true };
+  }
+  
   const isMP4 = file.type.includes('mp4');
   const size = file.size;
   const duration = (file as any).recordingDuration || 0;
@@ -0,0 +1,98 @@
+// src/utils/appErrors.ts - Shared error model: codes, localized text, recovery actions
+import { ERROR_MESSAGES, RECOVERY_ACTION_LABELS } from './constants';
+
+export type AppErrorCode = keyof typeof ERROR_MESSAGES.en;
+export type ErrorLocale = keyof typeof ERROR_MESSAGES;
+export type RecoveryAction = keyof typeof RECOVERY_ACTION_LABELS.en;
+
+/**
+ * Recovery buttons offered for each code, most useful first
+ */
+export const RECOVERY_ACTIONS: Record<AppErrorCode, RecoveryAction[]> = {
+  HTTPS_REQUIRED: ['use_https'],
+  CAMERA_NOT_SUPPORTED: ['reload'],
+  PERMISSION_DENIED: ['request_permission', 'reload'],
+  DEVICE_NOT_FOUND: ['retry', 'open_settings'],
+  DEVICE_IN_USE: ['retry', 'open_settings'],
+  CONSTRAINTS_UNSATISFIED: ['open_settings', 'reload'],
+  CAMERA_KIT_INIT: ['retry', 'reload'],
+  LENS_LOAD_TIMEOUT: ['retry', 'reload'],
+  LENS_NOT_FOUND: ['open_settings', 'retry'],
+  RECORDER_UNSUPPORTED: ['reload'],
+  RECORDING_FAILED: ['retry'],
+  PROCESSING_FAILED: ['retry'],
+  PUSH2WEB_AUTH: ['login'],
+  PUSH2WEB_UNAVAILABLE: ['reload'],
+  OAUTH_FAILED: ['login'],
+  NETWORK_ERROR: ['retry', 'reload'],
+  UNKNOWN_ERROR: ['retry', 'reload']
+};
+
+export class AppError extends Error {
+  readonly code: AppErrorCode;
+  readonly details?: Record<string, any>;
+  readonly cause?: unknown;
+
+  constructor(code: AppErrorCode, message?: string, options: { cause?: unknown; details?: Record<string, any> } = {}) {
+    super(message || ERROR_MESSAGES.en[code].message);
+    this.name = 'AppError';
+    this.code = code;
+    this.details = options.details;
+    this.cause = options.cause;
+  }
+}
+
+export const isAppError = (error: unknown): error is AppError => error instanceof AppError;
+
+// getUserMedia / MediaRecorder DOMException names
+const DOM_EXCEPTION_CODES: Record<string, AppErrorCode> = {
+  NotAllowedError: 'PERMISSION_DENIED',
+  PermissionDeniedError: 'PERMISSION_DENIED',
+  SecurityError: 'HTTPS_REQUIRED',
+  NotFoundError: 'DEVICE_NOT_FOUND',
+  DevicesNotFoundError: 'DEVICE_NOT_FOUND',
+  NotReadableError: 'DEVICE_IN_USE',
+  TrackStartError: 'DEVICE_IN_USE',
+  OverconstrainedError: 'CONSTRAINTS_UNSATISFIED',
+  ConstraintNotSatisfiedError: 'CONSTRAINTS_UNSATISFIED',
+  NotSupportedError: 'CAMERA_NOT_SUPPORTED'
+};
+
+/**
+ * Classify anything caught into an AppError. Browser exceptions map by name;
+ * everything else gets the caller's fallback code for where it was caught.
+ */
+export const toAppError = (error: unknown, fallbackCode: AppErrorCode = 'UNKNOWN_ERROR'): AppError => {
+  if (isAppError(error)) return error;
+
+  // DOMException / OverconstrainedError aren't Error subclasses in every browser - read the name off any object
+  const name = typeof error === 'object' && error !== null && 'name' in error && typeof error.name === 'string'
+    ? error.name
+    : undefined;
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (name && DOM_EXCEPTION_CODES[name]) {
+    return new AppError(DOM_EXCEPTION_CODES[name], message, { cause: error });
+  }
+  if (error instanceof TypeError && /fetch|network/i.test(message)) {
+    return new AppError('NETWORK_ERROR', message, { cause: error });
+  }
+  return new AppError(fallbackCode, message, { cause: error });
+};
+
+export const getErrorLocale = (): ErrorLocale => {
+  const language = (navigator.language || 'en').toLowerCase();
+  return language.startsWith('id') || language.startsWith('in') ? 'id' : 'en';
+};
+
+export const getErrorText = (
+  error: AppError | AppErrorCode,
+  locale: ErrorLocale = getErrorLocale()
+): { message: string; solution: string } => {
+  const code = typeof error === 'string' ? error : error.code;
+  return ERROR_MESSAGES[locale][code];
+};
+
+export const getRecoveryActionLabel = (action: RecoveryAction, locale: ErrorLocale = getErrorLocale()): string => {
+  return RECOVERY_ACTION_LABELS[locale][action];
+};
@@ -0,0 +1,240 @@
+// src/utils/authStrategies.ts - Pluggable Snapchat login: Login Kit popup or server.js redirect
+import { AppError } from './appErrors';
+import { AUTH_CONFIG } from './constants';
+
+export type AuthStrategyName = 'loginkit' | 'server';
+
+export interface AuthUser {
+  displayName: string;
+  externalId: string;
+  bitmoji?: {
+    avatar?: string;
+  };
+}
+
+export interface AuthSession {
+  strategy: AuthStrategyName;
+  user: AuthUser | null;
+  accessToken: string | null; // for Push2Web - null when the login didn't yield one
+  expiresAt: number | null;
+}
+
+export interface AuthStrategy {
+  name: AuthStrategyName;
+  // Login Kit renders its own button into this element; the server strategy ignores it
+  needsLoginButton: boolean;
+  restore: () => Promise<AuthSession | null>;
+  // Resolves null when the page navigates away to finish the login; rejects once `signal` aborts
+  login: (buttonElementId: string, signal?: AbortSignal) => Promise<AuthSession | null>;
+  refresh: (session: AuthSession) => Promise<AuthSession | null>;
+  logout: () => Promise<void>;
+}
+
+interface LoginKitSdk {
+  mountButton: (elementId: string, config: any) => void;
+  fetchUserInfo: () => Promise<any>;
+  getSharedDataAccessToken?: () => Promise<string>;
+}
+
+declare global {
+  interface Window {
+    snapKitInit?: () => void;
+    snap?: {
+      loginkit: LoginKitSdk;
+    };
+  }
+}
+
+// Written by earlier login flows - tokens used to be kept in web storage
+const LEGACY_LOCAL_KEYS = ['snapchat_token', 'snapchat_user'];
+const LEGACY_SESSION_KEYS = ['oauth_token', 'oauth_user', 'snapchat_oauth_state', 'webar_auth_session'];
+
+export const clearLegacyAuthStorage = (): void => {
+  try {
+    LEGACY_LOCAL_KEYS.forEach(key => localStorage.removeItem(key));
+    LEGACY_SESSION_KEYS.forEach(key => sessionStorage.removeItem(key));
+  } catch (error) {
+    // Storage disabled - nothing to clean up
+  }
+};
+
+/**
+ * Login Kit has no server side, so its session (and the Push2Web token) lives
+ * in memory only - a reload means logging in again, but the token is never
+ * readable from web storage. The server strategy keeps it in an httpOnly cookie.
+ */
+let loginKitSession: AuthSession | null = null;
+
+const loginCancelled = (): AppError => new AppError('OAUTH_FAILED', 'Login cancelled');
+
+let loginKitPromise: Promise<LoginKitSdk> | null = null;
+
+const loadLoginKitSdk = (): Promise<LoginKitSdk> => {
+  if (window.snap?.loginkit) return Promise.resolve(window.snap.loginkit);
+  if (loginKitPromise) return loginKitPromise;
+
+  loginKitPromise = new Promise<LoginKitSdk>((resolve, reject) => {
+    window.snapKitInit = () => {
+      if (window.snap?.loginkit) {
+        resolve(window.snap.loginkit);
+      } else {
+        reject(new AppError('OAUTH_FAILED', 'Login SDK failed to load'));
+      }
+    };
+
+    const script = document.createElement('script');
+    script.src = AUTH_CONFIG.LOGIN_KIT_SDK_URL;
+    script.async = true;
+    script.id = 'loginkit-sdk';
+    script.onerror = () => {
+      script.remove();
+      reject(new AppError('NETWORK_ERROR', 'Failed to load Snapchat SDK'));
+    };
+    document.head.appendChild(script);
+  });
+
+  // Allow a retry after a failed load
+  loginKitPromise.catch(() => {
+    loginKitPromise = null;
+  });
+  return loginKitPromise;
+};
+
+export const loginKitStrategy: AuthStrategy = {
+  name: 'loginkit',
+  needsLoginButton: true,
+
+  restore: async () => loginKitSession,
+
+  login: async (buttonElementId, signal) => {
+    const clientId = import.meta.env.VITE_SNAPCHAT_CLIENT_ID;
+    const redirectURI = import.meta.env.VITE_SNAPCHAT_REDIRECT_URI;
+    if (!clientId || !redirectURI) {
+      throw new AppError('OAUTH_FAILED', 'Snapchat client ID or redirect URI is not configured');
+    }
+
+    const loginkit = await loadLoginKitSdk();
+    if (signal?.aborted) throw loginCancelled();
+
+    // The SDK never reports a closed popup - the caller aborts when its login UI goes away
+    return new Promise<AuthSession>((resolve, reject) => {
+      signal?.addEventListener('abort', () => reject(loginCancelled()), { once: true });
+
+      loginkit.mountButton(buttonElementId, {
+        clientId,
+        redirectURI,
+        scopeList: AUTH_CONFIG.LOGIN_KIT_SCOPES,
+        handleResponseCallback: async () => {
+          try {
+            // fetchUserInfo fails if called before the popup has fully closed
+            await new Promise(resolve => setTimeout(resolve, 500));
+
+            const result = await loginkit.fetchUserInfo();
+            const user: AuthUser | undefined = result?.data?.me;
+            if (!user) {
+              throw new AppError('OAUTH_FAILED', 'Failed to get user data');
+            }
+
+            // Push2Web needs the real OAuth token - without it the user is logged in but can't receive lenses
+            const accessToken = loginkit.getSharedDataAccessToken
+              ? await loginkit.getSharedDataAccessToken()
+              : null;
+
+            loginKitSession = {
+              strategy: 'loginkit',
+              user,
+              accessToken: accessToken || null,
+              expiresAt: null
+            };
+            resolve(loginKitSession);
+          } catch (error) {
+            reject(error);
+          }
+        }
+      });
+    });
+  },
+
+  // Login Kit has no refresh - the user logs in again once Push2Web rejects the token
+  refresh: async (session) => session,
+
+  logout: async () => {
+    loginKitSession = null;
+  }
+};
+
+interface ServerSessionResponse {
+  user: AuthUser | null;
+  expiresAt: number;
+}
+
+interface Push2WebTokenResponse {
+  accessToken: string;
+  expiresAt: number;
+}
+
+// The access token is fetched separately so /me and /refresh never carry it
+const toServerSession = async (response: ServerSessionResponse): Promise<AuthSession> => {
+  const tokenResponse = await fetch(AUTH_CONFIG.PUSH2WEB_TOKEN_ENDPOINT, { credentials: 'same-origin' });
+  const token: Push2WebTokenResponse | null = tokenResponse.ok ? await tokenResponse.json() : null;
+
+  return {
+    strategy: 'server',
+    user: response.user,
+    accessToken: token?.accessToken || null,
+    expiresAt: token?.expiresAt || response.expiresAt
+  };
+};
+
+export const serverStrategy: AuthStrategy = {
+  name: 'server',
+  needsLoginButton: false,
+
+  // server.js redirects back with ?oauth_success or ?error, then /me is the source of truth
+  restore: async () => {
+    const urlParams = new URLSearchParams(window.location.search);
+    const error = urlParams.get('error');
+    if (urlParams.has('oauth_success') || error) {
+      window.history.replaceState({}, '', window.location.pathname);
+    }
+    if (error) {
+      throw new AppError('OAUTH_FAILED', error);
+    }
+
+    const response = await fetch(AUTH_CONFIG.ME_ENDPOINT, { credentials: 'same-origin' });
+    if (response.status === 401) return null;
+    if (!response.ok) {
+      throw new AppError('OAUTH_FAILED', `Session check failed: ${response.status}`);
+    }
+    return toServerSession(await response.json());
+  },
+
+  // server.js generates state + PKCE and handles the callback
+  login: async () => {
+    window.location.href = AUTH_CONFIG.LOGIN_URL;
+    return null;
+  },
+
+  refresh: async () => {
+    const response = await fetch(AUTH_CONFIG.REFRESH_ENDPOINT, { method: 'POST', credentials: 'same-origin' });
+    if (response.status === 401) return null;
+    if (!response.ok) {
+      throw new AppError('OAUTH_FAILED', `Token refresh failed: ${response.status}`);
+    }
+    return toServerSession(await response.json());
+  },
+
+  logout: async () => {
+    await fetch(AUTH_CONFIG.LOGOUT_ENDPOINT, { method: 'POST', credentials: 'same-origin' });
+  }
+};
+
+export const AUTH_STRATEGIES: Record<AuthStrategyName, AuthStrategy> = {
+  loginkit: loginKitStrategy,
+  server: serverStrategy
+};
+
+export const getConfiguredAuthStrategy = (): AuthStrategy => {
+  const configured = import.meta.env.VITE_AUTH_STRATEGY;
+  return AUTH_STRATEGIES[configured && configured in AUTH_STRATEGIES ? configured : AUTH_CONFIG.DEFAULT_STRATEGY];
+};
@@ -1,4 +1,10 @@
 // src/utils/cameraHelpers.ts
+import { STORAGE_KEYS } from './constants';
+
+export interface DeviceSelection {
+  videoDeviceId: string | null;
+  audioDeviceId: string | null;
+}
 
 /**
  * Check if the current environment supports camera access
@@ -54,6 +60,59 @@ export const isCameraSupported = (): boolean => {
     }
   };
   
+  /**
+   * First camera that reports the given facing. Webcams report none, and neither do
+   * browsers without InputDeviceInfo.getCapabilities - null means "don't switch".
+   */
+  export const findCameraWithFacing = async (facingMode: 'user' | 'environment'): Promise<MediaDeviceInfo | null> => {
+    const cameras = await getAvailableCameras();
+    return cameras.find(camera => {
+      if (!camera.deviceId || !('getCapabilities' in camera)) return false;
+      const capabilities = (camera as InputDeviceInfo).getCapabilities();
+      return !!capabilities.facingMode?.includes(facingMode);
+    }) || null;
+  };
+  
+  /**
+   * Get available microphone devices
+   */
+  export const getAvailableMicrophones = async (): Promise<MediaDeviceInfo[]> => {
+    try {
+      const devices = await navigator.mediaDevices.enumerateDevices();
+      return devices.filter(device => device.kind === 'audioinput');
+    } catch (error) {
+      console.warn('Failed to enumerate microphone devices:', error);
+      return [];
+    }
+  };
+  
+  /**
+   * Remembered camera/microphone deviceIds (null = browser default)
+   */
+  export const loadDeviceSelection = (): DeviceSelection => {
+    try {
+      const saved = JSON.parse(localStorage.getItem(STORAGE_KEYS.CAMERA_SETTINGS) || '{}');
+      return {
+        videoDeviceId: typeof saved.videoDeviceId === 'string' ? saved.videoDeviceId : null,
+        audioDeviceId: typeof saved.audioDeviceId === 'string' ? saved.audioDeviceId : null
+      };
+    } catch (error) {
+      return { videoDeviceId: null, audioDeviceId: null };
+    }
+  };
+  
+  export const saveDeviceSelection = (selection: DeviceSelection): void => {
+    localStorage.setItem(STORAGE_KEYS.CAMERA_SETTINGS, JSON.stringify(selection));
+  };
+  
+  /**
+   * Facing of a live track - desktop webcams usually don't report one, treat them as selfie cameras
+   */
+  export const getTrackFacingMode = (stream: MediaStream): 'user' | 'environment' => {
+    const settings = stream.getVideoTracks()[0]?.getSettings();
+    return settings?.facingMode === 'environment' ? 'environment' : 'user';
+  };
+  
   /**
    * Check if device has multiple cameras
    */
@@ -0,0 +1,60 @@
+// src/utils/captureHandoff.ts - Upload captures to the local server for QR download
+import { CAPTURE_HANDOFF_CONFIG, STORAGE_KEYS } from './constants';
+
+export interface CaptureHandoff {
+  id: string;
+  url: string;
+  expiresAt: number;
+  qrDataUrl: string;
+}
+
+let token: string | null | undefined;
+
+/**
+ * Shared secret for server.js uploads, provisioned once as `?captureToken=`
+ * on the kiosk URL and remembered on the device.
+ */
+const getCaptureUploadToken = (): string | null => {
+  if (token !== undefined) return token;
+
+  const fromUrl = new URLSearchParams(window.location.search).get(CAPTURE_HANDOFF_CONFIG.TOKEN_PARAM);
+  try {
+    if (fromUrl) localStorage.setItem(STORAGE_KEYS.CAPTURE_UPLOAD_TOKEN, fromUrl);
+    token = fromUrl || localStorage.getItem(STORAGE_KEYS.CAPTURE_UPLOAD_TOKEN);
+  } catch (error) {
+    token = fromUrl;
+  }
+  return token;
+};
+
+/**
+ * Upload a finished capture to server.js, which stores it under a short
+ * random ID and returns the guest download URL plus a QR code for it.
+ */
+export const uploadCaptureForHandoff = async (file: File | Blob): Promise<CaptureHandoff> => {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), CAPTURE_HANDOFF_CONFIG.UPLOAD_TIMEOUT);
+  const uploadToken = getCaptureUploadToken();
+
+  try {
+    const response = await fetch(CAPTURE_HANDOFF_CONFIG.UPLOAD_ENDPOINT, {
+      method: 'POST',
+      headers: {
+        'Content-Type': file.type || 'video/webm',
+        ...(file instanceof File ? { 'X-Filename': file.name } : {}),
+        ...(uploadToken ? { 'X-Capture-Token': uploadToken } : {})
+      },
+      body: file,
+      signal: controller.signal
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => null);
+      throw new Error(error?.error || `Upload failed: ${response.status}`);
+    }
+
+    return await response.json() as CaptureHandoff;
+  } finally {
+    clearTimeout(timeout);
+  }
+};
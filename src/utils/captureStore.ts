@@ -0,0 +1,145 @@
+// src/utils/captureStore.ts - Offline capture store backed by IndexedDB
+import { CAPTURE_STORE_CONFIG } from './constants';
+
+export type CaptureKind = 'video' | 'photo';
+
+export interface StoredCapture {
+  id: string;
+  name: string;
+  type: string;
+  size: number;
+  kind: CaptureKind;
+  createdAt: number;
+  blob: Blob;
+  metadata: Record<string, any>;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const isCaptureStoreSupported = (): boolean => {
+  return typeof indexedDB !== 'undefined';
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (!isCaptureStoreSupported()) {
+      reject(new Error('IndexedDB not supported'));
+      return;
+    }
+
+    const request = indexedDB.open(CAPTURE_STORE_CONFIG.DB_NAME, CAPTURE_STORE_CONFIG.DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(CAPTURE_STORE_CONFIG.STORE_NAME)) {
+        const store = db.createObjectStore(CAPTURE_STORE_CONFIG.STORE_NAME, { keyPath: 'id' });
+        store.createIndex('createdAt', 'createdAt');
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+const getStore = async (mode: IDBTransactionMode): Promise<IDBObjectStore> => {
+  const db = await openDatabase();
+  return db.transaction(CAPTURE_STORE_CONFIG.STORE_NAME, mode).objectStore(CAPTURE_STORE_CONFIG.STORE_NAME);
+};
+
+const generateCaptureId = (): string => {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`;
+};
+
+/**
+ * Recording metadata is attached to the File as expando properties
+ * (recordingDuration, isPhoto, canvasResolution...) - collect them so
+ * they survive the round trip through IndexedDB.
+ */
+const extractMetadata = (file: Blob): Record<string, any> => {
+  const metadata: Record<string, any> = {};
+  Object.keys(file).forEach(key => {
+    const value = (file as any)[key];
+    if (value === null || ['string', 'number', 'boolean'].includes(typeof value)) {
+      metadata[key] = value;
+    }
+  });
+  return metadata;
+};
+
+export const saveCapture = async (file: File | Blob): Promise<StoredCapture> => {
+  const kind: CaptureKind = file.type.startsWith('image/') ? 'photo' : 'video';
+  const createdAt = file instanceof File ? file.lastModified : Date.now();
+
+  const capture: StoredCapture = {
+    id: generateCaptureId(),
+    name: file instanceof File ? file.name : `ar_${kind}_${createdAt}`,
+    type: file.type,
+    size: file.size,
+    kind,
+    createdAt,
+    blob: file,
+    metadata: extractMetadata(file)
+  };
+
+  const store = await getStore('readwrite');
+  await requestToPromise(store.put(capture));
+  await pruneCaptures();
+
+  return capture;
+};
+
+export const listCaptures = async (): Promise<StoredCapture[]> => {
+  const store = await getStore('readonly');
+  const captures = await requestToPromise(store.getAll()) as StoredCapture[];
+  return captures.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const getCapture = async (id: string): Promise<StoredCapture | null> => {
+  const store = await getStore('readonly');
+  const capture = await requestToPromise(store.get(id)) as StoredCapture | undefined;
+  return capture || null;
+};
+
+export const deleteCapture = async (id: string): Promise<void> => {
+  const store = await getStore('readwrite');
+  await requestToPromise(store.delete(id));
+};
+
+/**
+ * Rebuild a File with the original metadata so it can go back through
+ * VideoProcessor / share / download exactly like a fresh recording.
+ */
+export const captureToFile = (capture: StoredCapture): File => {
+  const file = new File([capture.blob], capture.name, {
+    type: capture.type,
+    lastModified: capture.createdAt
+  });
+  Object.entries(capture.metadata).forEach(([key, value]) => {
+    (file as any)[key] = value;
+  });
+  return file;
+};
+
+const pruneCaptures = async (): Promise<void> => {
+  const captures = await listCaptures();
+  const excess = captures.slice(CAPTURE_STORE_CONFIG.MAX_CAPTURES);
+  if (excess.length === 0) return;
+
+  const store = await getStore('readwrite');
+  await Promise.all(excess.map(capture => requestToPromise(store.delete(capture.id))));
+};
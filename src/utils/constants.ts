@@ -34,12 +34,50 @@ export const APP_CONFIG = {
     ANDROID_BITRATE: 2000000, // 2 Mbps for Android
     STANDARD_BITRATE: 2500000, // 2.5 Mbps for other platforms
     AUDIO_BITRATE: 128000, // 128 kbps
-    MIN_RECORDING_DURATION: 2, // seconds
-    MAX_RECORDING_DURATION: 60, // seconds
+    MIN_RECORDING_DURATION: 2, // seconds - shorter clips are rejected for a retake
+    MAX_RECORDING_DURATION: 60, // seconds - recording auto-stops here
+    PRE_ROLL_OPTIONS: [0, 3, 5, 10], // seconds of countdown before recording starts
+    CLIP_LENGTH_OPTIONS: [10, 15, 30], // seconds - fixed-length clips (e.g. Reels)
+    MAX_DURATION_OPTIONS: [15, 30, 45, 60], // seconds - operator-selectable recording cap
     TIME_SLICE: 1000, // milliseconds
     ANDROID_TIME_SLICE: 100 // milliseconds for Android
   } as const;
   
+  /**
+   * On-device smile meter + smile-triggered capture
+   */
+  export const SMILE_CONFIG = {
+    SAMPLE_INTERVAL: 100, // ms between analyzed camera frames (~10fps)
+    ANALYSIS_WIDTH: 160, // px - frames are downscaled before scoring
+    SMOOTHING: 0.35, // EMA factor for the displayed score
+    FACE_LOST_RESET: 1000, // ms without a face before the neutral baseline resets
+    THRESHOLD_OPTIONS: [0.5, 0.6, 0.7, 0.8],
+    HOLD_FRAME_OPTIONS: [5, 10, 20], // consecutive frames above threshold
+    DEFAULT_THRESHOLD: 0.6,
+    DEFAULT_HOLD_FRAMES: 10,
+    TRIGGER_COOLDOWN: 5000 // ms after an auto capture before re-arming
+  } as const;
+  
+  /**
+   * MediaRecorder bitrate profiles (operator-selectable). MP4 gets more
+   * headroom because H.264 at 1440x2560 needs it; WebM is re-encoded later.
+   */
+  export const BITRATE_PROFILES = {
+    standard: { label: 'Standard', mp4: 8000000, webm: 5000000, audio: 128000 },
+    high: { label: 'High', mp4: 12000000, webm: 6000000, audio: 192000 },
+    max: { label: 'Max', mp4: 15000000, webm: 8000000, audio: 256000 }
+  } as const;
+  
+  /**
+   * Still photo capture constants
+   */
+  export const PHOTO_CONFIG = {
+    DEFAULT_FORMAT: 'jpeg' as 'png' | 'jpeg',
+    JPEG_QUALITY: 0.95,
+    DEFAULT_COUNTDOWN: 3, // seconds
+    FLASH_DURATION: 300 // ms
+  } as const;
+  
   /**
    * File format and mime types
    */
@@ -93,7 +131,8 @@ export const APP_CONFIG = {
     TOAST_DURATION: 3000, // ms
     AUTO_HIDE_CONTROLS: 5000, // ms
     DEBOUNCE_DELAY: 300, // ms
-    RETRY_DELAY: 1000 // ms
+    RETRY_DELAY: 1000, // ms
+    RENDERING_MODAL_HIDE_DELAY: 800 // ms - let "Complete!" register before closing
   } as const;
   
   /**
@@ -150,6 +189,31 @@ export const APP_CONFIG = {
     WEBGL_CONTEXT: 'webgl2' as const
   } as const;
   
+  /**
+   * Camera Kit render size policy - long edge of the AR canvas per quality profile
+   */
+  export const RENDER_CONFIG = {
+    QUALITY_PROFILES: {
+      max: { label: 'Max', longEdge: 2560 },
+      high: { label: 'High', longEdge: 1920 },
+      standard: { label: 'Standard', longEdge: 1280 }
+    },
+    MIN_LONG_EDGE: 640,
+    RESIZE_DEBOUNCE: 300 // ms - orientation changes fire several resize events
+  } as const;
+  
+  /**
+   * Runtime performance monitor + automatic quality downgrade
+   */
+  export const PERFORMANCE_CONFIG = {
+    SAMPLE_INTERVAL: 1000, // ms
+    HISTORY_LENGTH: 60, // samples kept for the debug graphs
+    TARGET_FPS: 30,
+    LOW_FPS_RATIO: 0.8, // below 80% of target counts as struggling
+    LOW_FPS_SAMPLES: 5, // consecutive struggling samples before stepping down
+    DOWNGRADE_COOLDOWN: 15000 // ms - let a step settle before judging again
+  } as const;
+  
   /**
    * Network and API constants
    */
@@ -167,21 +231,207 @@ export const APP_CONFIG = {
     USER_PREFERENCES: 'webar_preferences',
     DEBUG_LOGS: 'webar_debug_logs',
     CAMERA_SETTINGS: 'webar_camera_settings',
-    LAST_FACING_MODE: 'webar_facing_mode'
+    LAST_FACING_MODE: 'webar_facing_mode',
+    OVERLAY_SETTINGS: 'webar_overlay_settings',
+    OPERATOR_SETTINGS: 'webar_operator_settings',
+    OPERATOR_PIN_HASH: 'webar_operator_pin',
+    OPERATOR_PIN_LOCKOUT: 'webar_operator_pin_lockout',
+    ANALYTICS_QUEUE: 'webar_analytics_queue',
+    ANALYTICS_SESSION: 'webar_analytics_session',
+    KIOSK_ID: 'webar_kiosk_id',
+    LOG_STREAM_TOKEN: 'webar_log_stream_token',
+    CAPTURE_UPLOAD_TOKEN: 'webar_capture_upload_token',
+    PUSH2WEB_LENS_HISTORY: 'webar_push2web_lenses',
+    FRAME_SIZE: 'ar-frame-size'
+  } as const;
+  
+  /**
+   * PIN-protected operator mode. The PIN keeps guests from casually changing
+   * kiosk settings - it is not a security control (VITE_OPERATOR_PIN ships in
+   * the client bundle and anyone with devtools can clear localStorage).
+   */
+  export const OPERATOR_CONFIG = {
+    DEFAULT_PIN: '1234', // used until an operator sets one (or VITE_OPERATOR_PIN)
+    PIN_MIN_LENGTH: 4,
+    PIN_MAX_LENGTH: 8,
+    MAX_ATTEMPTS: 5,
+    LOCKOUT_DURATION: 60000, // ms after MAX_ATTEMPTS wrong PINs
+    AUTO_LOCK_DURATION: 5 * 60000 // ms of operator mode before re-locking
+  } as const;
+  
+  /**
+   * Offline capture store (IndexedDB)
+   */
+  export const CAPTURE_STORE_CONFIG = {
+    DB_NAME: 'webar_captures',
+    DB_VERSION: 1,
+    STORE_NAME: 'captures',
+    MAX_CAPTURES: 200 // oldest captures are pruned beyond this
   } as const;
   
   /**
-   * Error messages
+   * Persistent structured log store (IndexedDB ring buffer)
+   */
+  export const LOG_STORE_CONFIG = {
+    DB_NAME: 'webar_logs',
+    DB_VERSION: 1,
+    STORE_NAME: 'logs',
+    MAX_ENTRIES: 5000, // oldest entries are pruned beyond this
+    FLUSH_INTERVAL: 1000, // ms - entries are written in batches, not one transaction per log
+    QUERY_LIMIT: 500 // newest matching entries returned to the log viewer
+  } as const;
+  
+  /**
+   * Snapchat login - Login Kit popup, or server.js redirect where tokens stay
+   * server-side behind an httpOnly session cookie
+   */
+  export const AUTH_CONFIG = {
+    DEFAULT_STRATEGY: 'loginkit', // 'loginkit' popup or 'server' redirect (VITE_AUTH_STRATEGY)
+    LOGIN_KIT_SDK_URL: 'https://sdk.snapkit.com/js/v1/login.js',
+    LOGIN_KIT_SCOPES: [
+      'user.display_name',
+      'user.external_id',
+      'user.bitmoji.avatar',
+      'camkit_lens_push_to_device' // Required for Push2Web
+    ],
+    LOGIN_BUTTON_ID: 'snap-login-button',
+    LOGIN_URL: '/api/auth/login',
+    ME_ENDPOINT: '/api/auth/me',
+    REFRESH_ENDPOINT: '/api/auth/refresh',
+    PUSH2WEB_TOKEN_ENDPOINT: '/api/auth/push2web-token',
+    LOGOUT_ENDPOINT: '/api/auth/logout',
+    REFRESH_MARGIN: 60000 // ms before token expiry to refresh
+  } as const;
+  
+  /**
+   * Lenses pushed from Lens Studio (Push2Web)
+   */
+  export const PUSH2WEB_CONFIG = {
+    HISTORY_LIMIT: 30 // unpinned entries beyond this are forgotten, oldest first
+  } as const;
+  
+  /**
+   * Live log streaming to server.js (/api/logs, tailed at /logs)
+   */
+  export const LOG_STREAM_CONFIG = {
+    ENDPOINT: '/api/logs',
+    FLUSH_INTERVAL: 2000, // ms
+    BATCH_SIZE: 100, // entries per request
+    MAX_BUFFER: 500, // oldest unsent entries are dropped beyond this while the server is unreachable
+    KIOSK_ID_PARAM: 'kiosk', // ?kiosk=booth-1 names this booth in the log viewer
+    TOKEN_PARAM: 'logToken' // ?logToken=... must match server.js LOG_STREAM_TOKEN when the server is on another machine
+  } as const;
+  
+  /**
+   * Kiosk QR handoff (server.js /api/captures + /v/:id)
+   */
+  export const CAPTURE_HANDOFF_CONFIG = {
+    UPLOAD_ENDPOINT: '/api/captures',
+    UPLOAD_TIMEOUT: 120000, // ms - large videos over slow booth Wi-Fi
+    TOKEN_PARAM: 'captureToken' // ?captureToken=... must match server.js CAPTURE_UPLOAD_TOKEN when the server is on another machine
+  } as const;
+  
+  /**
+   * Local analytics pipeline (server.js /api/events -> JSONL)
+   */
+  export const ANALYTICS_CONFIG = {
+    ENDPOINT: '/api/events',
+    FLUSH_INTERVAL: 30000, // ms
+    FLUSH_TIMEOUT: 10000, // ms
+    BATCH_SIZE: 50, // events per request - keeps sendBeacon payloads under its 64KB cap
+    MAX_QUEUE: 1000, // oldest events are dropped beyond this while offline
+    SESSION_IDLE_TIMEOUT: 30 * 60000 // ms without events before a new session starts
+  } as const;
+  
+  /**
+   * Error reports (server.js /api/errors) + error boundary recovery
+   */
+  export const ERROR_REPORTING_CONFIG = {
+    ENDPOINT: '/api/errors',
+    DEDUPE_WINDOW: 10000, // ms - identical errors inside this window are reported once
+    RECOVERY_DELAY: 5, // seconds on the recovery screen before restarting the camera
+    MAX_RECOVERIES: 3, // crashes inside RECOVERY_WINDOW before falling back to a full reload
+    RECOVERY_WINDOW: 60000 // ms
+  } as const;
+  
+  /**
+   * Branded overlay burned into recordings and photos
+   */
+  export const OVERLAY_CONFIG = {
+    LAYOUTS: ['none', 'minimal', 'frame', 'banner'] as const,
+    DEFAULT_LAYOUT: 'none' as const, // opt-in - deployments that never set up branding keep raw output
+    LOGO_SRC: '/images/webar-netramaya.png',
+    ATTRIBUTION_SRC: '/images/attribution.png',
+    DEFAULT_EVENT_NAME: 'Web AR Netramaya',
+    DEFAULT_HASHTAG: '#netramaya',
+    DEFAULT_ACCENT_COLOR: '#a855f7', // purple-500
+    FONT_FAMILY: 'system-ui, -apple-system, "Segoe UI", Roboto, sans-serif'
+  } as const;
+  
+  /**
+   * Error messages per AppError code (utils/appErrors) - English + Bahasa Indonesia
    */
   export const ERROR_MESSAGES = {
-    CAMERA_NOT_SUPPORTED: 'Camera not supported on this device',
-    HTTPS_REQUIRED: 'HTTPS is required for camera access',
-    PERMISSION_DENIED: 'Camera permission denied',
-    DEVICE_NOT_FOUND: 'No camera found',
-    RECORDING_FAILED: 'Recording failed',
-    SHARE_NOT_SUPPORTED: 'Sharing not supported on this device',
-    NETWORK_ERROR: 'Network connection error',
-    UNKNOWN_ERROR: 'An unexpected error occurred'
+    en: {
+      HTTPS_REQUIRED: { message: 'Camera access requires HTTPS', solution: 'Open this page over HTTPS, or use localhost for development.' },
+      CAMERA_NOT_SUPPORTED: { message: 'This browser does not support camera access', solution: 'Use a recent version of Chrome, Safari, Firefox or Edge.' },
+      PERMISSION_DENIED: { message: 'Camera and microphone access was denied', solution: 'Allow camera and microphone access in the browser, then try again.' },
+      DEVICE_NOT_FOUND: { message: 'No camera found', solution: 'Connect a camera, or pick a different one in the operator settings.' },
+      DEVICE_IN_USE: { message: 'The camera is being used by another app', solution: 'Close other apps or tabs using the camera, then try again.' },
+      CONSTRAINTS_UNSATISFIED: { message: 'The camera cannot provide the required video mode', solution: 'Pick a different camera in the operator settings, or reload the page.' },
+      CAMERA_KIT_INIT: { message: 'The AR engine failed to start', solution: 'Check the network connection, then try again.' },
+      LENS_LOAD_TIMEOUT: { message: 'The AR effect took too long to load', solution: 'Check the network connection, then try again.' },
+      LENS_NOT_FOUND: { message: 'The AR effect could not be found', solution: 'Check the lens group and lens ID in the operator settings.' },
+      RECORDER_UNSUPPORTED: { message: 'Video recording is not supported in this browser', solution: 'Use photo mode, or switch to a recent version of Chrome or Safari.' },
+      RECORDING_FAILED: { message: 'Recording failed', solution: 'Try recording again.' },
+      PROCESSING_FAILED: { message: 'The video could not be prepared for sharing', solution: 'The original video was downloaded instead.' },
+      PUSH2WEB_AUTH: { message: 'Push2Web could not sign in', solution: 'Log in to Snapchat again to receive lenses from Lens Studio.' },
+      PUSH2WEB_UNAVAILABLE: { message: 'Push2Web is not available', solution: 'Reload the page and try again.' },
+      OAUTH_FAILED: { message: 'Snapchat login failed', solution: 'Try logging in again.' },
+      NETWORK_ERROR: { message: 'Network connection error', solution: 'Check the network connection, then try again.' },
+      UNKNOWN_ERROR: { message: 'An unexpected error occurred', solution: 'Try again, or reload the page.' }
+    },
+    id: {
+      HTTPS_REQUIRED: { message: 'Akses kamera membutuhkan HTTPS', solution: 'Buka halaman ini melalui HTTPS, atau gunakan localhost untuk pengembangan.' },
+      CAMERA_NOT_SUPPORTED: { message: 'Browser ini tidak mendukung akses kamera', solution: 'Gunakan Chrome, Safari, Firefox atau Edge versi terbaru.' },
+      PERMISSION_DENIED: { message: 'Akses kamera dan mikrofon ditolak', solution: 'Izinkan akses kamera dan mikrofon di browser, lalu coba lagi.' },
+      DEVICE_NOT_FOUND: { message: 'Kamera tidak ditemukan', solution: 'Hubungkan kamera, atau pilih kamera lain di pengaturan operator.' },
+      DEVICE_IN_USE: { message: 'Kamera sedang dipakai aplikasi lain', solution: 'Tutup aplikasi atau tab lain yang memakai kamera, lalu coba lagi.' },
+      CONSTRAINTS_UNSATISFIED: { message: 'Kamera tidak mendukung mode video yang dibutuhkan', solution: 'Pilih kamera lain di pengaturan operator, atau muat ulang halaman.' },
+      CAMERA_KIT_INIT: { message: 'Mesin AR gagal dijalankan', solution: 'Periksa koneksi jaringan, lalu coba lagi.' },
+      LENS_LOAD_TIMEOUT: { message: 'Efek AR terlalu lama dimuat', solution: 'Periksa koneksi jaringan, lalu coba lagi.' },
+      LENS_NOT_FOUND: { message: 'Efek AR tidak ditemukan', solution: 'Periksa lens group dan lens ID di pengaturan operator.' },
+      RECORDER_UNSUPPORTED: { message: 'Perekaman video tidak didukung di browser ini', solution: 'Gunakan mode foto, atau Chrome/Safari versi terbaru.' },
+      RECORDING_FAILED: { message: 'Perekaman gagal', solution: 'Coba rekam lagi.' },
+      PROCESSING_FAILED: { message: 'Video tidak dapat disiapkan untuk dibagikan', solution: 'Video asli telah diunduh sebagai gantinya.' },
+      PUSH2WEB_AUTH: { message: 'Push2Web gagal masuk', solution: 'Masuk ke Snapchat lagi untuk menerima lensa dari Lens Studio.' },
+      PUSH2WEB_UNAVAILABLE: { message: 'Push2Web tidak tersedia', solution: 'Muat ulang halaman dan coba lagi.' },
+      OAUTH_FAILED: { message: 'Login Snapchat gagal', solution: 'Coba login lagi.' },
+      NETWORK_ERROR: { message: 'Koneksi jaringan bermasalah', solution: 'Periksa koneksi jaringan, lalu coba lagi.' },
+      UNKNOWN_ERROR: { message: 'Terjadi kesalahan tak terduga', solution: 'Coba lagi, atau muat ulang halaman.' }
+    }
+  } as const;
+  
+  /**
+   * Recovery button labels for ErrorScreen
+   */
+  export const RECOVERY_ACTION_LABELS = {
+    en: {
+      retry: 'Try Again',
+      request_permission: 'Grant Camera Access',
+      use_https: 'Open Secure Version',
+      open_settings: 'Choose Another Camera',
+      reload: 'Reload Page',
+      login: 'Log In Again'
+    },
+    id: {
+      retry: 'Coba Lagi',
+      request_permission: 'Izinkan Akses Kamera',
+      use_https: 'Buka Versi Aman',
+      open_settings: 'Pilih Kamera Lain',
+      reload: 'Muat Ulang Halaman',
+      login: 'Login Lagi'
+    }
   } as const;
   
   /**
@@ -201,8 +451,9 @@ export const APP_CONFIG = {
    */
   export const FEATURE_FLAGS = {
     ENABLE_DEBUG_PANEL: true,
-    ENABLE_PERFORMANCE_MONITORING: false,
-    ENABLE_ANALYTICS: false,
-    ENABLE_ERROR_REPORTING: false,
-    ENABLE_OFFLINE_MODE: false
+    ENABLE_PERFORMANCE_MONITORING: true,
+    ENABLE_ANALYTICS: true,
+    ENABLE_ERROR_REPORTING: true,
+    ENABLE_LOG_STREAMING: true,
+    ENABLE_OFFLINE_MODE: true
   } as const;
\ No newline at end of file
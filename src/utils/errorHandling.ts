@@ -0,0 +1,187 @@
+// src/utils/errorHandling.ts - Structured error reports for the local server (/api/errors)
+import type { BrowserCapabilities, DeviceInfo, ErrorReport } from '../types/app';
+import { detectAndroid, detectiOS } from './androidRecorderFix';
+import { getSessionId, trackError } from './analytics';
+import { isAppError } from './appErrors';
+import { ERROR_REPORTING_CONFIG, FEATURE_FLAGS } from './constants';
+import { writeLog } from './logger';
+
+// Browser noise that says nothing about the booth
+const IGNORED_ERROR_PATTERNS = [
+  /ResizeObserver loop/i,
+  /^Script error\.?$/i
+];
+
+const lastReportedAt = new Map<string, number>();
+let browserCapabilities: BrowserCapabilities | null = null;
+let isInitialized = false;
+
+const generateReportId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`;
+
+export const toError = (error: unknown): Error => {
+  if (error instanceof Error) return error;
+  if (typeof error === 'string') return new Error(error);
+  try {
+    return new Error(JSON.stringify(error));
+  } catch (stringifyError) {
+    return new Error(String(error));
+  }
+};
+
+export const getDeviceInfo = (): DeviceInfo => {
+  const userAgent = navigator.userAgent;
+  const isAndroid = detectAndroid();
+  const isiOS = detectiOS();
+  // iPadOS reports itself as a Mac - touch points give it away
+  const isTablet = /iPad|Tablet/i.test(userAgent) ||
+    (isAndroid && !/Mobile/i.test(userAgent)) ||
+    (navigator.platform === 'MacIntel' && navigator.maxTouchPoints > 1);
+  const isMobile = !isTablet && (isAndroid || isiOS || /Mobi/i.test(userAgent));
+
+  return {
+    userAgent,
+    platform: navigator.platform,
+    isAndroid,
+    isiOS,
+    isMobile,
+    isTablet,
+    isDesktop: !isMobile && !isTablet,
+    hasTouch: 'ontouchstart' in window || navigator.maxTouchPoints > 0,
+    screenWidth: window.screen.width,
+    screenHeight: window.screen.height,
+    devicePixelRatio: window.devicePixelRatio || 1,
+    orientation: window.innerHeight > window.innerWidth ? 'portrait' : 'landscape',
+    isHTTPS: location.protocol === 'https:',
+    isLocalhost: ['localhost', '127.0.0.1', '[::1]'].includes(location.hostname)
+  };
+};
+
+const hasStorage = (): boolean => {
+  try {
+    return typeof localStorage !== 'undefined' && localStorage !== null;
+  } catch (error) {
+    return false;
+  }
+};
+
+/**
+ * Capabilities don't change during a session - probe once, since the WebGL
+ * checks create throwaway contexts.
+ */
+export const getBrowserCapabilities = (): BrowserCapabilities => {
+  if (browserCapabilities) return browserCapabilities;
+
+  const canvas = document.createElement('canvas');
+  browserCapabilities = {
+    mediaDevices: !!navigator.mediaDevices,
+    getUserMedia: typeof navigator.mediaDevices?.getUserMedia === 'function',
+    mediaRecorder: 'MediaRecorder' in window,
+    canvasCapture: typeof canvas.captureStream === 'function',
+    webShare: typeof navigator.share === 'function',
+    clipboard: !!navigator.clipboard,
+    permissions: !!navigator.permissions,
+    fullscreen: !!document.fullscreenEnabled,
+    webGL: !!canvas.getContext('webgl'),
+    webGL2: !!document.createElement('canvas').getContext('webgl2'),
+    indexedDB: 'indexedDB' in window,
+    localStorage: hasStorage(),
+    serviceWorker: 'serviceWorker' in navigator
+  };
+  return browserCapabilities;
+};
+
+export const createErrorReport = (
+  error: unknown,
+  component: string,
+  action: string,
+  additionalData?: Record<string, any>
+): ErrorReport => {
+  const normalized = toError(error);
+
+  return {
+    id: generateReportId(),
+    timestamp: Date.now(),
+    error: {
+      name: normalized.name,
+      message: normalized.message,
+      stack: normalized.stack
+    },
+    context: {
+      component,
+      action,
+      userAgent: navigator.userAgent,
+      url: location.href,
+      sessionId: getSessionId()
+    },
+    deviceInfo: getDeviceInfo(),
+    browserCapabilities: getBrowserCapabilities(),
+    additionalData: isAppError(normalized)
+      ? { code: normalized.code, ...normalized.details, ...additionalData }
+      : additionalData
+  };
+};
+
+/**
+ * Send an error report to server.js. Identical errors inside the dedupe window
+ * are dropped so a failing render loop doesn't flood the log.
+ */
+export const reportError = async (
+  error: unknown,
+  component: string,
+  action: string,
+  additionalData?: Record<string, any>
+): Promise<void> => {
+  const normalized = toError(error);
+  if (IGNORED_ERROR_PATTERNS.some(pattern => pattern.test(normalized.message))) return;
+
+  trackError(component, normalized);
+  if (!FEATURE_FLAGS.ENABLE_ERROR_REPORTING) return;
+
+  const key = `${component}:${normalized.name}:${normalized.message}`;
+  const now = Date.now();
+  if (now - (lastReportedAt.get(key) || 0) < ERROR_REPORTING_CONFIG.DEDUPE_WINDOW) return;
+
+  // Expired keys no longer dedupe anything - drop them so a long-running booth doesn't accumulate one per message
+  lastReportedAt.forEach((reportedAt, reportedKey) => {
+    if (now - reportedAt >= ERROR_REPORTING_CONFIG.DEDUPE_WINDOW) lastReportedAt.delete(reportedKey);
+  });
+  lastReportedAt.set(key, now);
+
+  try {
+    const response = await fetch(ERROR_REPORTING_CONFIG.ENDPOINT, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(createErrorReport(normalized, component, action, additionalData)),
+      keepalive: true // the page may be about to reload for recovery
+    });
+    if (!response.ok) {
+      throw new Error(`Error report rejected: ${response.status}`);
+    }
+  } catch (reportFailure) {
+    console.warn('Error report could not be sent:', reportFailure);
+  }
+};
+
+/**
+ * Capture errors that escape React and async code. Safe to call more than once.
+ */
+export const initErrorReporting = (): void => {
+  if (isInitialized) return;
+  isInitialized = true;
+
+  window.addEventListener('error', (event) => {
+    const location = {
+      filename: event.filename,
+      line: event.lineno,
+      column: event.colno
+    };
+    writeLog('window', `❌ Uncaught error: ${toError(event.error || event.message).message}`, 'error', location);
+    reportError(event.error || event.message, 'window', 'uncaught', location);
+  });
+
+  window.addEventListener('unhandledrejection', (event) => {
+    writeLog('window', `❌ Unhandled rejection: ${toError(event.reason).message}`, 'error');
+    reportError(event.reason, 'window', 'unhandledrejection');
+  });
+};
@@ -0,0 +1,66 @@
+// src/utils/lensHistory.ts - History of lenses pushed from Lens Studio (localStorage)
+import type { Lens } from '@snap/camera-kit';
+import { PUSH2WEB_CONFIG, STORAGE_KEYS } from './constants';
+
+export interface PushedLensRecord {
+  id: string;
+  name: string;
+  iconUrl?: string;
+  creator?: string;
+  cameraFacingPreference: number; // Lens_CameraFacing from Camera Kit
+  receivedAt: number;
+  pinned: boolean; // the booth returns to this lens on reload/restart
+}
+
+export const loadLensHistory = (): PushedLensRecord[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEYS.PUSH2WEB_LENS_HISTORY);
+    if (!saved) return [];
+
+    const parsed = JSON.parse(saved);
+    return Array.isArray(parsed)
+      ? parsed.filter(record => typeof record?.id === 'string' && typeof record?.name === 'string')
+      : [];
+  } catch (error) {
+    console.warn('Lens history unreadable, starting fresh:', error);
+    return [];
+  }
+};
+
+export const saveLensHistory = (history: PushedLensRecord[]): void => {
+  localStorage.setItem(STORAGE_KEYS.PUSH2WEB_LENS_HISTORY, JSON.stringify(history));
+};
+
+export const toPushedLensRecord = (lens: Lens, receivedAt: number = Date.now()): PushedLensRecord => ({
+  id: lens.id,
+  name: lens.name,
+  iconUrl: lens.iconUrl,
+  creator: lens.lensCreator?.displayName,
+  cameraFacingPreference: lens.cameraFacingPreference,
+  receivedAt,
+  pinned: false
+});
+
+/**
+ * Newest first. Re-pushing a lens moves it to the top and keeps its pin;
+ * the pinned lens is never dropped by the history limit.
+ */
+export const recordPushedLens = (history: PushedLensRecord[], record: PushedLensRecord): PushedLensRecord[] => {
+  const existing = history.find(entry => entry.id === record.id);
+  const next = [
+    { ...record, pinned: existing?.pinned || false },
+    ...history.filter(entry => entry.id !== record.id)
+  ];
+
+  let unpinned = 0;
+  return next.filter(entry => entry.pinned || ++unpinned <= PUSH2WEB_CONFIG.HISTORY_LIMIT);
+};
+
+// Only one lens can be pinned - pinning another replaces it, null clears it
+export const pinLensInHistory = (history: PushedLensRecord[], lensId: string | null): PushedLensRecord[] => {
+  return history.map(entry => ({ ...entry, pinned: entry.id === lensId }));
+};
+
+export const getPinnedLens = (history: PushedLensRecord[]): PushedLensRecord | null => {
+  return history.find(entry => entry.pinned) || null;
+};
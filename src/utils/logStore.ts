@@ -0,0 +1,188 @@
+// src/utils/logStore.ts - Structured log ring buffer backed by IndexedDB
+import { DEBUG_CONFIG, LOG_STORE_CONFIG } from './constants';
+
+export type LogLevel = typeof DEBUG_CONFIG.LOG_LEVELS[number];
+
+export interface LogEntry {
+  id?: number; // assigned by IndexedDB - insertion order
+  timestamp: number;
+  level: LogLevel;
+  source: string; // module that wrote the entry, e.g. 'camera-kit'
+  message: string;
+  fields?: Record<string, any>;
+}
+
+export interface LogQuery {
+  levels?: LogLevel[];
+  source?: string;
+  search?: string; // case-insensitive match on message, source and fields
+  limit?: number; // newest matches win; omit for everything
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let pendingEntries: LogEntry[] = [];
+let flushTimer: number | null = null;
+let flushPromise: Promise<void> | null = null;
+
+export const isLogStoreSupported = (): boolean => {
+  return typeof indexedDB !== 'undefined';
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (!isLogStoreSupported()) {
+      reject(new Error('IndexedDB not supported'));
+      return;
+    }
+
+    const request = indexedDB.open(LOG_STORE_CONFIG.DB_NAME, LOG_STORE_CONFIG.DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(LOG_STORE_CONFIG.STORE_NAME)) {
+        db.createObjectStore(LOG_STORE_CONFIG.STORE_NAME, { keyPath: 'id', autoIncrement: true });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+// Drop the oldest entries so the store never grows past MAX_ENTRIES
+const pruneEntries = async (db: IDBDatabase): Promise<void> => {
+  const transaction = db.transaction(LOG_STORE_CONFIG.STORE_NAME, 'readwrite');
+  const store = transaction.objectStore(LOG_STORE_CONFIG.STORE_NAME);
+  const excess = await requestToPromise(store.count()) - LOG_STORE_CONFIG.MAX_ENTRIES;
+
+  if (excess > 0) {
+    const keys = await requestToPromise(store.getAllKeys(null, excess));
+    store.delete(IDBKeyRange.bound(keys[0], keys[keys.length - 1]));
+  }
+  await transactionDone(transaction);
+};
+
+/**
+ * Write buffered entries in a single transaction. Logging is chatty during
+ * camera start-up, so entries are batched rather than written one by one.
+ */
+export const flushLogStore = (): Promise<void> => {
+  if (flushTimer !== null) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+  if (flushPromise) {
+    return flushPromise.then(() => (pendingEntries.length > 0 ? flushLogStore() : undefined));
+  }
+  if (pendingEntries.length === 0 || !isLogStoreSupported()) {
+    return Promise.resolve();
+  }
+
+  const batch = pendingEntries;
+  pendingEntries = [];
+
+  flushPromise = (async () => {
+    try {
+      const db = await openDatabase();
+      const transaction = db.transaction(LOG_STORE_CONFIG.STORE_NAME, 'readwrite');
+      const store = transaction.objectStore(LOG_STORE_CONFIG.STORE_NAME);
+      batch.forEach(entry => store.add(entry));
+      await transactionDone(transaction);
+      await pruneEntries(db);
+    } catch (error) {
+      // Never log from here - it would feed straight back into the store
+      console.warn('Log store write failed:', error);
+    } finally {
+      flushPromise = null;
+    }
+  })();
+
+  return flushPromise;
+};
+
+export const appendLogEntry = (entry: LogEntry): void => {
+  if (!isLogStoreSupported()) return;
+
+  pendingEntries.push(entry);
+  if (flushTimer === null) {
+    flushTimer = window.setTimeout(flushLogStore, LOG_STORE_CONFIG.FLUSH_INTERVAL);
+  }
+};
+
+const matchesQuery = (entry: LogEntry, query: LogQuery, search: string): boolean => {
+  if (query.levels && !query.levels.includes(entry.level)) return false;
+  if (query.source && entry.source !== query.source) return false;
+  if (!search) return true;
+
+  const haystack = `${entry.source} ${entry.message} ${entry.fields ? JSON.stringify(entry.fields) : ''}`;
+  return haystack.toLowerCase().includes(search);
+};
+
+/**
+ * Newest-first scan, returned oldest first so it reads like a log file.
+ */
+export const queryLogs = async (query: LogQuery = {}): Promise<LogEntry[]> => {
+  await flushLogStore();
+
+  const db = await openDatabase();
+  const store = db.transaction(LOG_STORE_CONFIG.STORE_NAME, 'readonly').objectStore(LOG_STORE_CONFIG.STORE_NAME);
+  const search = (query.search || '').trim().toLowerCase();
+  const limit = query.limit ?? Infinity;
+  const results: LogEntry[] = [];
+
+  await new Promise<void>((resolve, reject) => {
+    const request = store.openCursor(null, 'prev');
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor || results.length >= limit) {
+        resolve();
+        return;
+      }
+      const entry = cursor.value as LogEntry;
+      if (matchesQuery(entry, query, search)) {
+        results.push(entry);
+      }
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+
+  return results.reverse();
+};
+
+export const listLogSources = async (): Promise<string[]> => {
+  const entries = await queryLogs();
+  return Array.from(new Set(entries.map(entry => entry.source))).sort();
+};
+
+export const clearLogStore = async (): Promise<void> => {
+  pendingEntries = [];
+  if (!isLogStoreSupported()) return;
+
+  const db = await openDatabase();
+  const transaction = db.transaction(LOG_STORE_CONFIG.STORE_NAME, 'readwrite');
+  transaction.objectStore(LOG_STORE_CONFIG.STORE_NAME).clear();
+  await transactionDone(transaction);
+};
@@ -0,0 +1,129 @@
+// src/utils/logStream.ts - Streams log entries to server.js so technicians can tail a booth at /logs
+import type { LogEntry } from './logStore';
+import { FEATURE_FLAGS, LOG_STREAM_CONFIG, STORAGE_KEYS } from './constants';
+
+const KIOSK_ID_PATTERN = /^[\w-]{1,64}$/;
+
+let buffer: LogEntry[] = [];
+let isInitialized = false;
+let isFlushing = false;
+let kioskId: string | null = null;
+let token: string | null | undefined;
+
+/**
+ * Stable per-device ID shown in the /logs viewer. `?kiosk=booth-1` renames
+ * the booth and is remembered, so the kiosk URL only needs it once.
+ */
+export const getKioskId = (): string => {
+  if (kioskId) return kioskId;
+
+  const fromUrl = new URLSearchParams(window.location.search).get(LOG_STREAM_CONFIG.KIOSK_ID_PARAM);
+  let saved: string | null = null;
+  try {
+    saved = localStorage.getItem(STORAGE_KEYS.KIOSK_ID);
+  } catch (error) {
+    saved = null;
+  }
+
+  if (fromUrl && KIOSK_ID_PATTERN.test(fromUrl)) {
+    kioskId = fromUrl;
+  } else if (saved && KIOSK_ID_PATTERN.test(saved)) {
+    kioskId = saved;
+  } else {
+    kioskId = `kiosk-${Math.random().toString(36).substring(2, 8)}`;
+  }
+
+  try {
+    localStorage.setItem(STORAGE_KEYS.KIOSK_ID, kioskId);
+  } catch (error) {
+    // Private mode - the ID lasts for this page load only
+  }
+  return kioskId;
+};
+
+/**
+ * Shared secret for server.js, provisioned like the kiosk ID: `?logToken=`
+ * once on the kiosk URL, then remembered on the device.
+ */
+const getLogStreamToken = (): string | null => {
+  if (token !== undefined) return token;
+
+  const fromUrl = new URLSearchParams(window.location.search).get(LOG_STREAM_CONFIG.TOKEN_PARAM);
+  try {
+    if (fromUrl) localStorage.setItem(STORAGE_KEYS.LOG_STREAM_TOKEN, fromUrl);
+    token = fromUrl || localStorage.getItem(STORAGE_KEYS.LOG_STREAM_TOKEN);
+  } catch (error) {
+    token = fromUrl;
+  }
+  return token;
+};
+
+// The token rides in the body - sendBeacon can't set headers
+const buildPayload = (entries: LogEntry[]): string => {
+  return JSON.stringify({ kioskId: getKioskId(), token: getLogStreamToken() || undefined, entries });
+};
+
+export const streamLogEntry = (entry: LogEntry): void => {
+  if (!FEATURE_FLAGS.ENABLE_LOG_STREAMING) return;
+
+  buffer.push(entry);
+  if (buffer.length > LOG_STREAM_CONFIG.MAX_BUFFER) {
+    buffer = buffer.slice(-LOG_STREAM_CONFIG.MAX_BUFFER);
+  }
+  if (buffer.length >= LOG_STREAM_CONFIG.BATCH_SIZE) {
+    flushLogStream();
+  }
+};
+
+/**
+ * Failures stay on the console only - logging them would feed the stream
+ * its own errors while the server is down.
+ */
+export const flushLogStream = async (): Promise<void> => {
+  if (!FEATURE_FLAGS.ENABLE_LOG_STREAMING || isFlushing || buffer.length === 0 || !navigator.onLine) return;
+
+  isFlushing = true;
+  const batch = buffer.slice(0, LOG_STREAM_CONFIG.BATCH_SIZE);
+
+  try {
+    const response = await fetch(LOG_STREAM_CONFIG.ENDPOINT, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: buildPayload(batch)
+    });
+    if (!response.ok) {
+      throw new Error(`Log stream rejected: ${response.status}`);
+    }
+    buffer = buffer.slice(batch.length);
+  } catch (error) {
+    console.warn('Log stream flush failed, keeping entries buffered:', error);
+  } finally {
+    isFlushing = false;
+  }
+};
+
+// fetch is cancelled on unload - sendBeacon survives it
+const flushWithBeacon = (): void => {
+  if (!FEATURE_FLAGS.ENABLE_LOG_STREAMING || typeof navigator.sendBeacon !== 'function' || buffer.length === 0) return;
+
+  const batch = buffer.slice(0, LOG_STREAM_CONFIG.BATCH_SIZE);
+  const payload = new Blob([buildPayload(batch)], { type: 'application/json' });
+  if (navigator.sendBeacon(LOG_STREAM_CONFIG.ENDPOINT, payload)) {
+    buffer = buffer.slice(batch.length);
+  }
+};
+
+/**
+ * Start the flush timer. Safe to call more than once.
+ */
+export const initLogStream = (): void => {
+  if (!FEATURE_FLAGS.ENABLE_LOG_STREAMING || isInitialized) return;
+  isInitialized = true;
+
+  window.addEventListener('pagehide', flushWithBeacon);
+  window.addEventListener('online', () => {
+    flushLogStream();
+  });
+
+  setInterval(flushLogStream, LOG_STREAM_CONFIG.FLUSH_INTERVAL);
+};
@@ -0,0 +1,101 @@
+// src/utils/logger.ts - Leveled, source-tagged logging into the persistent log store
+import { appendLogEntry, flushLogStore, queryLogs } from './logStore';
+import type { LogEntry, LogLevel, LogQuery } from './logStore';
+import { streamLogEntry } from './logStream';
+
+export type LogFields = Record<string, any>;
+export type LogFunction = (message: string, level?: LogLevel, fields?: LogFields) => void;
+export type LogExportFormat = 'text' | 'json';
+
+let isInitialized = false;
+
+/**
+ * Most call sites predate levels and pass emoji-prefixed strings only -
+ * read the level off the emoji so those entries still filter correctly.
+ */
+export const inferLogLevel = (message: string): LogLevel => {
+  if (message.includes('❌')) return 'error';
+  if (message.includes('⚠️')) return 'warning';
+  if (message.includes('✅')) return 'success';
+  return 'info';
+};
+
+export const formatLogEntry = (entry: LogEntry): string => {
+  const time = new Date(entry.timestamp).toLocaleString();
+  const fields = entry.fields ? ` ${JSON.stringify(entry.fields)}` : '';
+  return `${time} [${entry.level.toUpperCase()}] [${entry.source}] ${entry.message}${fields}`;
+};
+
+const writeToConsole = (entry: LogEntry): void => {
+  const line = `[${new Date(entry.timestamp).toLocaleTimeString()}] [${entry.source}] ${entry.message}`;
+  const args = entry.fields ? [line, entry.fields] : [line];
+
+  switch (entry.level) {
+    case 'error':
+      console.error(...args);
+      break;
+    case 'warning':
+      console.warn(...args);
+      break;
+    default:
+      console.log(...args);
+  }
+};
+
+export const writeLog = (source: string, message: string, level?: LogLevel, fields?: LogFields): LogEntry => {
+  const entry: LogEntry = {
+    timestamp: Date.now(),
+    level: level || inferLogLevel(message),
+    source,
+    message,
+    ...(fields && Object.keys(fields).length > 0 ? { fields } : {})
+  };
+
+  writeToConsole(entry);
+  appendLogEntry(entry);
+  streamLogEntry(entry);
+  return entry;
+};
+
+export const createLogger = (source: string): LogFunction => {
+  return (message, level, fields) => {
+    writeLog(source, message, level, fields);
+  };
+};
+
+/**
+ * Download persisted logs - text keeps the familiar one-line-per-entry
+ * format, JSON keeps the structured fields for tooling.
+ */
+export const downloadLogs = async (format: LogExportFormat = 'text', query: LogQuery = {}): Promise<void> => {
+  const entries = await queryLogs(query);
+  const content = format === 'json'
+    ? JSON.stringify(entries, null, 2)
+    : entries.map(formatLogEntry).join('\n');
+
+  const blob = new Blob([content], { type: format === 'json' ? 'application/json' : 'text/plain' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `camera-kit-logs-${Date.now()}.${format === 'json' ? 'json' : 'txt'}`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Flush buffered entries when the page is hidden so a crash or reload
+ * doesn't swallow the last second of logs. Safe to call more than once.
+ */
+export const initLogger = (): void => {
+  if (isInitialized) return;
+  isInitialized = true;
+
+  document.addEventListener('visibilitychange', () => {
+    if (document.hidden) flushLogStore();
+  });
+  window.addEventListener('pagehide', () => {
+    flushLogStore();
+  });
+};
@@ -0,0 +1,66 @@
+// src/utils/mp4Boxes.ts - ISO-BMFF box writing helpers shared by the remuxer and muxer
+
+export const encodeType = (type: string): Uint8Array => {
+  return new Uint8Array([0, 1, 2, 3].map(i => type.charCodeAt(i)));
+};
+
+export const u32 = (...values: number[]): Uint8Array => u32List(values);
+
+// Array form for sample tables - spreading thousands of entries can blow the call stack
+export const u32List = (values: number[]): Uint8Array => {
+  const bytes = new Uint8Array(values.length * 4);
+  const view = new DataView(bytes.buffer);
+  values.forEach((value, index) => view.setUint32(index * 4, value >>> 0));
+  return bytes;
+};
+
+export const u64List = (values: number[]): Uint8Array => {
+  const bytes = new Uint8Array(values.length * 8);
+  const view = new DataView(bytes.buffer);
+  values.forEach((value, index) => view.setBigUint64(index * 8, BigInt(value)));
+  return bytes;
+};
+
+export const u16 = (...values: number[]): Uint8Array => {
+  const bytes = new Uint8Array(values.length * 2);
+  const view = new DataView(bytes.buffer);
+  values.forEach((value, index) => view.setUint16(index * 2, value & 0xffff));
+  return bytes;
+};
+
+export const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    result.set(part, offset);
+    offset += part.length;
+  });
+  return result;
+};
+
+export const box = (type: string, ...payload: Uint8Array[]): Uint8Array => {
+  const body = concatBytes(payload);
+  return concatBytes([u32(body.length + 8), encodeType(type), body]);
+};
+
+export const fullBox = (type: string, version: number, flags: number, ...payload: Uint8Array[]): Uint8Array => {
+  return box(type, u32((version << 24) | (flags & 0xffffff)), ...payload);
+};
+
+/**
+ * Run-length encode (count, value) pairs for stts/ctts
+ */
+export const runLengthEntries = (values: number[]): number[] => {
+  const entries: number[] = [];
+  values.forEach((value, index) => {
+    if (index > 0 && entries[entries.length - 1] === value) {
+      entries[entries.length - 2]++;
+    } else {
+      entries.push(1, value);
+    }
+  });
+  return entries;
+};
+
+// 16.16 / 2.30 fixed-point unity matrix for mvhd/tkhd
+export const IDENTITY_MATRIX = u32(0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000);
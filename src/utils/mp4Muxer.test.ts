@@ -0,0 +1,110 @@
+// src/utils/mp4Muxer.test.ts - Box layout and sample tables of the WebCodecs MP4 writer
+import { describe, expect, it } from 'vitest';
+import { muxMp4 } from './mp4Muxer';
+import type { MuxAudioTrack, MuxSample, MuxVideoTrack } from './mp4Muxer';
+import { childTypes, findBox, parseBlob, readTrackSamples, readU32, readU32Table } from './__fixtures__/mp4Fixtures';
+
+const samples = (trackByte: number, count: number, startUs: number, stepUs: number, syncEvery: number): MuxSample[] => {
+  return Array.from({ length: count }, (_, index) => ({
+    data: new Uint8Array(5 + index).fill(trackByte + index),
+    timestamp: startUs + index * stepUs,
+    isSync: index % syncEvery === 0
+  }));
+};
+
+const videoTrack = (overrides: Partial<MuxVideoTrack> = {}): MuxVideoTrack => ({
+  kind: 'video',
+  codec: 'avc1',
+  width: 64,
+  height: 48,
+  description: new Uint8Array([1, 0x42, 0, 0x1e]),
+  samples: samples(0x10, 4, 0, 33333, 2),
+  ...overrides
+});
+
+const audioTrack = (overrides: Partial<MuxAudioTrack> = {}): MuxAudioTrack => ({
+  kind: 'audio',
+  codec: 'mp4a',
+  sampleRate: 48000,
+  channelCount: 2,
+  description: new Uint8Array([0x11, 0x90]),
+  samples: samples(0x20, 3, 0, 21333, 1),
+  ...overrides
+});
+
+describe('muxMp4', () => {
+  it('writes a moov-first file with one trak per populated track', async () => {
+    const { boxes } = await parseBlob(muxMp4([videoTrack(), audioTrack(), audioTrack({ samples: [] })]).blob);
+
+    expect(boxes.map(box => box.type)).toEqual(['ftyp', 'moov', 'mdat']);
+    expect(childTypes(findBox(boxes, 'moov'))).toEqual(['mvhd', 'trak', 'trak']);
+    expect(childTypes(findBox(boxes, 'moov/trak/mdia/minf/stbl'))).toEqual(['stsd', 'stts', 'stss', 'stsc', 'stsz', 'stco']);
+  });
+
+  it('points every stco offset at the sample data', async () => {
+    const video = videoTrack();
+    const audio = audioTrack();
+    const { data, boxes } = await parseBlob(muxMp4([video, audio]).blob);
+    const [videoTrak, audioTrak] = findBox(boxes, 'moov')!.children!.filter(box => box.type === 'trak');
+
+    expect(readTrackSamples(data, videoTrak)).toEqual(video.samples.map(sample => sample.data));
+    expect(readTrackSamples(data, audioTrak)).toEqual(audio.samples.map(sample => sample.data));
+
+    const mdat = findBox(boxes, 'mdat')!;
+    expect(readU32(data, mdat.start)).toBe(mdat.size);
+    expect(mdat.start + mdat.size).toBe(data.length);
+  });
+
+  it('interleaves samples by timestamp', async () => {
+    const { data, boxes } = await parseBlob(muxMp4([videoTrack(), audioTrack()]).blob);
+    const [videoTrak, audioTrak] = findBox(boxes, 'moov')!.children!.filter(box => box.type === 'trak');
+    const stcoOf = (trak: typeof videoTrak) =>
+      readU32Table(data, findBox([trak], 'trak/mdia/minf/stbl/stco')!).map(([offset]) => offset);
+
+    const [firstVideo, secondVideo] = stcoOf(videoTrak);
+    const [firstAudio, secondAudio] = stcoOf(audioTrak);
+    // Both tracks start at 0: video 0, audio 0, audio 21ms, video 33ms
+    expect(firstVideo).toBeLessThan(firstAudio);
+    expect(secondAudio).toBeLessThan(secondVideo);
+  });
+
+  it('lists only keyframes in stss', async () => {
+    const { data, boxes } = await parseBlob(muxMp4([videoTrack()]).blob);
+    const stss = findBox(boxes, 'moov/trak/mdia/minf/stbl/stss')!;
+
+    expect(readU32Table(data, stss).map(([number]) => number)).toEqual([1, 3]);
+  });
+
+  it('delays a track that starts late with an empty edit', async () => {
+    const audio = audioTrack({ samples: samples(0x20, 3, 120000, 21333, 1) });
+    const { data, boxes } = await parseBlob(muxMp4([videoTrack(), audio]).blob);
+    const [videoTrak, audioTrak] = findBox(boxes, 'moov')!.children!.filter(box => box.type === 'trak');
+
+    expect(findBox([videoTrak], 'trak/edts')).toBeUndefined();
+    const [emptyEdit, mediaEdit] = readU32Table(data, findBox([audioTrak], 'trak/edts/elst')!, 3);
+    expect(emptyEdit).toEqual([120, 0xffffffff, 0x00010000]);
+    expect(mediaEdit[1]).toBe(0); // media starts at its first sample
+  });
+
+  it('reports the movie duration in milliseconds', () => {
+    // 4 frames at ~30fps; the last frame reuses the previous delta
+    expect(muxMp4([videoTrack()]).durationMs).toBe(133);
+  });
+
+  it('refuses output that needs a 64-bit mdat', () => {
+    // Only .length is read before the guard, so no real 4GB allocation is needed
+    const huge = { length: 0x80000000 } as Uint8Array;
+    const video = videoTrack({
+      samples: [
+        { data: huge, timestamp: 0, isSync: true },
+        { data: huge, timestamp: 33333, isSync: false }
+      ]
+    });
+
+    expect(() => muxMp4([video])).toThrow(/32-bit mdat/);
+  });
+
+  it('refuses to mux without samples', () => {
+    expect(() => muxMp4([videoTrack({ samples: [] })])).toThrow(/Nothing to mux/);
+  });
+});
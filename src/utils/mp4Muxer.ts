@@ -0,0 +1,273 @@
+// src/utils/mp4Muxer.ts - Progressive MP4 writer for WebCodecs-encoded samples
+import {
+  box,
+  fullBox,
+  u16,
+  u32,
+  u32List,
+  concatBytes,
+  encodeType,
+  runLengthEntries,
+  IDENTITY_MATRIX
+} from './mp4Boxes';
+
+export interface MuxSample {
+  data: Uint8Array;
+  timestamp: number; // microseconds, presentation == decode order (no B-frames)
+  isSync: boolean;
+}
+
+export interface MuxVideoTrack {
+  kind: 'video';
+  codec: 'avc1';
+  width: number;
+  height: number;
+  description: Uint8Array; // avcC (AVCDecoderConfigurationRecord)
+  samples: MuxSample[];
+}
+
+export interface MuxAudioTrack {
+  kind: 'audio';
+  codec: 'mp4a' | 'Opus';
+  sampleRate: number;
+  channelCount: number;
+  description: Uint8Array; // AudioSpecificConfig (AAC) or OpusHead
+  samples: MuxSample[];
+}
+
+export type MuxTrack = MuxVideoTrack | MuxAudioTrack;
+
+export interface MuxResult {
+  blob: Blob;
+  durationMs: number;
+}
+
+const MOVIE_TIMESCALE = 1000;
+const VIDEO_TIMESCALE = 90000;
+
+interface PreparedTrack {
+  id: number;
+  track: MuxTrack;
+  timescale: number;
+  durations: number[];
+  mediaDuration: number;
+  delay: number; // movie timescale
+}
+
+interface PlannedSample {
+  prepared: PreparedTrack;
+  sample: MuxSample;
+  outputOffset: number;
+}
+
+const toTimescale = (microseconds: number, timescale: number): number => {
+  return Math.round(microseconds * timescale / 1000000);
+};
+
+/**
+ * Durations from timestamp deltas in the track timescale (rounding the
+ * absolute times, not the deltas, so the track never drifts).
+ */
+const sampleDurations = (samples: MuxSample[], timescale: number, fallback: number): number[] => {
+  const times = samples.map(sample => toTimescale(sample.timestamp, timescale));
+  return times.map((time, index) => {
+    if (index < times.length - 1) return Math.max(times[index + 1] - time, 0);
+    return index > 0 ? Math.max(time - times[index - 1], 0) || fallback : fallback;
+  });
+};
+
+/* ---------- Sample entries ---------- */
+
+// MPEG-4 descriptor: tag + single-byte length (payloads here are tiny)
+const descriptor = (tag: number, ...payload: Uint8Array[]): Uint8Array => {
+  const body = concatBytes(payload);
+  return concatBytes([new Uint8Array([tag, body.length]), body]);
+};
+
+const avc1SampleEntry = (track: MuxVideoTrack): Uint8Array => {
+  return box('avc1',
+    new Uint8Array(6), u16(1), // reserved, data_reference_index
+    u16(0, 0), u32(0, 0, 0), // pre_defined, reserved, pre_defined
+    u16(track.width, track.height),
+    u32(0x00480000, 0x00480000, 0), // 72dpi, reserved
+    u16(1), // frame_count
+    new Uint8Array(32), // compressorname
+    u16(0x0018, 0xffff), // depth, pre_defined = -1
+    box('avcC', track.description)
+  );
+};
+
+const audioSampleEntry = (track: MuxAudioTrack, codecBox: Uint8Array): Uint8Array => {
+  return box(track.codec,
+    new Uint8Array(6), u16(1),
+    u32(0, 0), // reserved
+    u16(track.channelCount, 16, 0, 0), // channelcount, samplesize, pre_defined, reserved
+    u32(Math.round(track.sampleRate) * 0x10000), // 16.16 sample rate
+    codecBox
+  );
+};
+
+const esdsBox = (track: MuxAudioTrack): Uint8Array => {
+  return fullBox('esds', 0, 0,
+    descriptor(0x03,
+      u16(1), new Uint8Array([0]), // ES_ID, flags
+      descriptor(0x04,
+        new Uint8Array([0x40, 0x15, 0, 0, 0]), // AAC, audio stream, bufferSizeDB
+        u32(0, 0), // maxBitrate, avgBitrate (unknown)
+        descriptor(0x05, track.description)
+      ),
+      descriptor(0x06, new Uint8Array([0x02]))
+    )
+  );
+};
+
+/**
+ * dOps (Opus in ISO-BMFF) from the WebM OpusHead - same fields, but
+ * big-endian and without the magic signature.
+ */
+const dOpsBox = (track: MuxAudioTrack): Uint8Array => {
+  const head = new DataView(track.description.buffer, track.description.byteOffset, track.description.byteLength);
+  const hasHead = track.description.byteLength >= 19;
+  return box('dOps',
+    new Uint8Array([0, hasHead ? head.getUint8(9) : track.channelCount]),
+    u16(hasHead ? head.getUint16(10, true) : 312), // pre-skip
+    u32(hasHead ? head.getUint32(12, true) : track.sampleRate),
+    u16(hasHead ? head.getInt16(16, true) : 0), // output gain
+    new Uint8Array([0]) // channel mapping family
+  );
+};
+
+const sampleEntry = (track: MuxTrack): Uint8Array => {
+  if (track.kind === 'video') return avc1SampleEntry(track);
+  return audioSampleEntry(track, track.codec === 'mp4a' ? esdsBox(track) : dOpsBox(track));
+};
+
+/* ---------- moov ---------- */
+
+const buildTrak = (prepared: PreparedTrack, samples: PlannedSample[]): Uint8Array => {
+  const { id, track, timescale, durations, mediaDuration, delay } = prepared;
+  const isVideo = track.kind === 'video';
+  const mediaInMovie = Math.round(mediaDuration / timescale * MOVIE_TIMESCALE);
+
+  const tkhd = fullBox('tkhd', 0, 0x3, // enabled + in movie
+    u32(0, 0, id, 0, delay + mediaInMovie, 0, 0),
+    u16(0, 0, isVideo ? 0 : 0x0100, 0), // layer, alternate_group, volume, reserved
+    IDENTITY_MATRIX,
+    u32(isVideo ? track.width * 0x10000 : 0, isVideo ? track.height * 0x10000 : 0)
+  );
+
+  const edts = delay > 0
+    ? [box('edts', fullBox('elst', 0, 0, u32(2, delay, 0xffffffff, 0x00010000, mediaInMovie, 0, 0x00010000)))]
+    : [];
+
+  const handler = isVideo ? 'vide' : 'soun';
+  const hdlr = fullBox('hdlr', 0, 0,
+    u32(0), encodeType(handler), u32(0, 0, 0),
+    new TextEncoder().encode(isVideo ? 'VideoHandler\0' : 'SoundHandler\0')
+  );
+
+  const stts = runLengthEntries(durations);
+  const syncNumbers = track.samples
+    .map((sample, index) => sample.isSync ? index + 1 : 0)
+    .filter(number => number > 0);
+
+  // One sample per chunk keeps stsc trivial; samples are interleaved by time
+  const stbl = box('stbl',
+    fullBox('stsd', 0, 0, u32(1), sampleEntry(track)),
+    fullBox('stts', 0, 0, u32(stts.length / 2), u32List(stts)),
+    ...(isVideo && syncNumbers.length < track.samples.length
+      ? [fullBox('stss', 0, 0, u32(syncNumbers.length), u32List(syncNumbers))]
+      : []),
+    fullBox('stsc', 0, 0, u32(1, 1, 1, 1)),
+    fullBox('stsz', 0, 0, u32(0, track.samples.length), u32List(track.samples.map(sample => sample.data.length))),
+    fullBox('stco', 0, 0, u32(samples.length), u32List(samples.map(planned => planned.outputOffset)))
+  );
+
+  return box('trak',
+    tkhd,
+    ...edts,
+    box('mdia',
+      fullBox('mdhd', 0, 0, u32(0, 0, timescale, mediaDuration), u16(0x55c4, 0)), // language 'und'
+      hdlr,
+      box('minf',
+        isVideo ? fullBox('vmhd', 0, 1, new Uint8Array(8)) : fullBox('smhd', 0, 0, new Uint8Array(4)),
+        box('dinf', fullBox('dref', 0, 0, u32(1), fullBox('url ', 0, 1))),
+        stbl
+      )
+    )
+  );
+};
+
+/**
+ * Write ftyp + moov + mdat (moov-first, "faststart") from encoded samples.
+ */
+export const muxMp4 = (tracks: MuxTrack[]): MuxResult => {
+  const populated = tracks.filter(track => track.samples.length > 0);
+  if (populated.length === 0) throw new Error('Nothing to mux');
+
+  const firstTimestamp = Math.min(...populated.map(track => track.samples[0].timestamp));
+
+  const prepared: PreparedTrack[] = populated.map((track, index) => {
+    const timescale = track.kind === 'video' ? VIDEO_TIMESCALE : Math.round(track.sampleRate);
+    const fallback = track.kind === 'video' ? Math.round(timescale / 30) : 1024;
+    const durations = sampleDurations(track.samples, timescale, fallback);
+    return {
+      id: index + 1,
+      track,
+      timescale,
+      durations,
+      mediaDuration: durations.reduce((total, duration) => total + duration, 0),
+      delay: toTimescale(track.samples[0].timestamp - firstTimestamp, MOVIE_TIMESCALE)
+    };
+  });
+
+  const planned: PlannedSample[] = prepared
+    .flatMap(p => p.track.samples.map(sample => ({ prepared: p, sample, outputOffset: 0 })))
+    .sort((a, b) => a.sample.timestamp - b.sample.timestamp);
+
+  const mdatPayloadSize = planned.reduce((total, p) => total + p.sample.data.length, 0);
+  if (mdatPayloadSize + 8 > 0xffffffff) throw new Error('Output too large for a 32-bit mdat');
+
+  const ftyp = box('ftyp', encodeType('isom'), u32(0x200), ...['isom', 'iso2', 'avc1', 'mp41'].map(encodeType));
+
+  const movieDuration = Math.max(...prepared.map(p =>
+    p.delay + Math.round(p.mediaDuration / p.timescale * MOVIE_TIMESCALE)
+  ));
+
+  const buildMoov = (mdatStart: number): Uint8Array => {
+    let offset = mdatStart + 8;
+    planned.forEach(p => {
+      p.outputOffset = offset;
+      offset += p.sample.data.length;
+    });
+
+    const mvhd = fullBox('mvhd', 0, 0,
+      u32(0, 0, MOVIE_TIMESCALE, movieDuration, 0x00010000), // times, timescale, duration, rate
+      u16(0x0100, 0), u32(0, 0), // volume, reserved
+      IDENTITY_MATRIX,
+      new Uint8Array(24), // pre_defined
+      u32(prepared.length + 1) // next_track_ID
+    );
+
+    return box('moov',
+      mvhd,
+      ...prepared.map(p => buildTrak(p, planned.filter(sample => sample.prepared === p)))
+    );
+  };
+
+  // Offsets are fixed-width, so the first pass only measures moov
+  const moovSize = buildMoov(0).length;
+  const moov = buildMoov(ftyp.length + moovSize);
+
+  const parts = [
+    ftyp,
+    moov,
+    concatBytes([u32(mdatPayloadSize + 8), encodeType('mdat')]),
+    ...planned.map(p => p.sample.data)
+  ];
+
+  return {
+    blob: new Blob(parts as BlobPart[], { type: 'video/mp4' }),
+    durationMs: movieDuration
+  };
+};
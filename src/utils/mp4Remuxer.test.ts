@@ -0,0 +1,159 @@
+// src/utils/mp4Remuxer.test.ts - Fragmented and progressive inputs remuxed to moov-first MP4
+import { describe, expect, it } from 'vitest';
+import { parseBoxes, remuxToProgressiveMp4 } from './mp4Remuxer';
+import {
+  buildFragmentedMp4,
+  buildProgressiveMp4,
+  childTypes,
+  findBox,
+  parseBlob,
+  readTrackSamples,
+  readU32,
+  readU32Table
+} from './__fixtures__/mp4Fixtures';
+import type { Mp4Fixture } from './__fixtures__/mp4Fixtures';
+
+const remux = async (fixture: Mp4Fixture) => {
+  const result = await remuxToProgressiveMp4(new Blob([fixture.bytes as BlobPart]));
+  return { result, ...(await parseBlob(result.blob)) };
+};
+
+describe('parseBoxes', () => {
+  it('walks nested containers without reading into sample data', () => {
+    const { bytes } = buildFragmentedMp4();
+    const boxes = parseBoxes(bytes);
+
+    expect(boxes.map(box => box.type)).toEqual(['ftyp', 'moov', 'moof', 'mdat', 'moof', 'mdat']);
+    expect(childTypes(findBox(boxes, 'moov'))).toEqual(['mvhd', 'trak', 'trak', 'mvex']);
+    expect(findBox(boxes, 'moov/trak/mdia/minf/stbl/stco')).toBeDefined();
+  });
+
+  it('clamps a truncated trailing mdat instead of failing', () => {
+    const { bytes } = buildFragmentedMp4();
+    const boxes = parseBoxes(bytes.slice(0, bytes.length - 3));
+    const mdat = boxes[boxes.length - 1];
+
+    expect(mdat.type).toBe('mdat');
+    expect(mdat.start + mdat.size).toBe(bytes.length - 3);
+  });
+
+  it('rejects a non-mdat box that overruns its parent', () => {
+    const { bytes } = buildFragmentedMp4();
+    expect(() => parseBoxes(bytes.slice(0, 100))).toThrow(/overruns/);
+  });
+});
+
+describe('remuxToProgressiveMp4 - fragmented input', () => {
+  it('writes ftyp, moov and a single mdat without fragment boxes', async () => {
+    const { result, boxes } = await remux(buildFragmentedMp4());
+
+    expect(result.wasFragmented).toBe(true);
+    expect(boxes.map(box => box.type)).toEqual(['ftyp', 'moov', 'mdat']);
+    expect(childTypes(findBox(boxes, 'moov'))).toEqual(['mvhd', 'trak', 'trak']);
+    expect(childTypes(findBox(boxes, 'moov/trak/mdia/minf/stbl'))).toEqual(['stsd', 'stts', 'stss', 'stsc', 'stsz', 'stco']);
+  });
+
+  it('drops the fragmentation brands from ftyp', async () => {
+    const { data, boxes } = await remux(buildFragmentedMp4());
+    const ftyp = findBox(boxes, 'ftyp')!;
+    const brands = new TextDecoder().decode(data.slice(ftyp.start + 8, ftyp.start + ftyp.size));
+
+    expect(brands).not.toMatch(/iso5|iso6/);
+    expect(brands).toContain('mp41');
+  });
+
+  it('points every stco offset at the original sample bytes', async () => {
+    const fixture = buildFragmentedMp4();
+    const { data, boxes } = await remux(fixture);
+    const [videoTrak, audioTrak] = findBox(boxes, 'moov')!.children!.filter(box => box.type === 'trak');
+    const mdat = findBox(boxes, 'mdat')!;
+
+    expect(readTrackSamples(data, videoTrak)).toEqual(fixture.video.samples.map(sample => sample.data));
+    expect(readTrackSamples(data, audioTrak)).toEqual(fixture.audio.samples.map(sample => sample.data));
+
+    const offsets = [videoTrak, audioTrak].flatMap(trak =>
+      readU32Table(data, findBox([trak], 'trak/mdia/minf/stbl/stco')!).map(([offset]) => offset)
+    );
+    offsets.forEach(offset => {
+      expect(offset).toBeGreaterThanOrEqual(mdat.start + mdat.headerSize);
+      expect(offset).toBeLessThan(mdat.start + mdat.size);
+    });
+  });
+
+  it('keeps sync samples from the trun flags', async () => {
+    const { data, boxes } = await remux(buildFragmentedMp4());
+    const stss = findBox(boxes, 'moov/trak/mdia/minf/stbl/stss')!;
+
+    expect(readU32Table(data, stss).map(([number]) => number)).toEqual([1, 4]);
+  });
+
+  it('delays the late track with an empty edit', async () => {
+    const fixture = buildFragmentedMp4();
+    const { data, boxes } = await remux(fixture);
+    const [videoTrak, audioTrak] = findBox(boxes, 'moov')!.children!.filter(box => box.type === 'trak');
+
+    expect(findBox([videoTrak], 'trak/edts')).toBeUndefined();
+    const elst = findBox([audioTrak], 'trak/edts/elst')!;
+    const [emptyEdit, mediaEdit] = readU32Table(data, elst, 3);
+    expect(emptyEdit).toEqual([fixture.audioDelayMs, 0xffffffff, 0x00010000]);
+    expect(mediaEdit).toEqual([64, 0, 0x00010000]); // 3 x 1024 samples at 48kHz
+  });
+
+  it('reports the movie duration including the delay', async () => {
+    const { result, data, boxes } = await remux(buildFragmentedMp4());
+    const mvhd = findBox(boxes, 'moov/mvhd')!;
+
+    expect(result.durationMs).toBe(164);
+    expect(readU32(data, mvhd.start + 8 + 12)).toBe(1000); // timescale
+    expect(readU32(data, mvhd.start + 8 + 16)).toBe(164);
+    expect(result.trackCount).toBe(2);
+    expect(result.sampleCount).toBe(7);
+  });
+
+  it('drops samples past the end of a truncated recording', async () => {
+    const { bytes } = buildFragmentedMp4();
+    const result = await remuxToProgressiveMp4(new Blob([bytes.slice(0, bytes.length - 3)]));
+
+    expect(result.sampleCount).toBe(6);
+  });
+
+  it('uses 32-bit chunk offsets and mdat size for small files', async () => {
+    const { data, boxes } = await remux(buildFragmentedMp4());
+    const mdat = findBox(boxes, 'mdat')!;
+
+    expect(mdat.headerSize).toBe(8);
+    expect(readU32(data, mdat.start)).toBe(mdat.size);
+    expect(findBox(boxes, 'moov/trak/mdia/minf/stbl/co64')).toBeUndefined();
+  });
+});
+
+describe('remuxToProgressiveMp4 - progressive input', () => {
+  it('moves moov in front of mdat and keeps the samples', async () => {
+    const fixture = buildProgressiveMp4();
+    expect(parseBoxes(fixture.bytes).map(box => box.type)).toEqual(['ftyp', 'mdat', 'moov']);
+
+    const { result, data, boxes } = await remux(fixture);
+    const [videoTrak, audioTrak] = findBox(boxes, 'moov')!.children!.filter(box => box.type === 'trak');
+
+    expect(result.wasFragmented).toBe(false);
+    expect(boxes.map(box => box.type)).toEqual(['ftyp', 'moov', 'mdat']);
+    expect(readTrackSamples(data, videoTrak)).toEqual(fixture.video.samples.map(sample => sample.data));
+    expect(readTrackSamples(data, audioTrak)).toEqual(fixture.audio.samples.map(sample => sample.data));
+  });
+
+  it('carries an existing empty edit over', async () => {
+    const fixture = buildProgressiveMp4();
+    const { data, boxes } = await remux(fixture);
+    const audioTrak = findBox(boxes, 'moov')!.children!.filter(box => box.type === 'trak')[1];
+    const [emptyEdit] = readU32Table(data, findBox([audioTrak], 'trak/edts/elst')!, 3);
+
+    expect(emptyEdit).toEqual([fixture.audioDelayMs, 0xffffffff, 0x00010000]);
+  });
+
+  it('rejects input without a moov', async () => {
+    const { bytes } = buildProgressiveMp4();
+    const withoutMoov = bytes.slice(0, parseBoxes(bytes).find(box => box.type === 'moov')!.start);
+
+    await expect(remuxToProgressiveMp4(new Blob([withoutMoov]))).rejects.toThrow(/No moov/);
+  });
+});
@@ -0,0 +1,649 @@
+// src/utils/mp4Remuxer.ts - ISO-BMFF box parser/writer, fragmented → progressive (moov-first) remux
+import { box, fullBox, u32, u32List, u64List, concatBytes, encodeType, runLengthEntries } from './mp4Boxes';
+
+export interface Mp4Box {
+  type: string;
+  start: number; // offset of the box header in the file
+  size: number; // total size including header
+  headerSize: number; // 8, or 16 with a 64-bit largesize
+  children?: Mp4Box[];
+}
+
+export interface RemuxResult {
+  blob: Blob;
+  durationMs: number;
+  trackCount: number;
+  sampleCount: number;
+  wasFragmented: boolean;
+}
+
+interface Mp4Sample {
+  offset: number; // absolute offset of the sample data in the source file
+  size: number;
+  duration: number; // media timescale
+  compositionOffset: number;
+  isSync: boolean;
+}
+
+interface Mp4Track {
+  id: number;
+  trak: Mp4Box;
+  timescale: number;
+  handler: string;
+  startTime: number; // decode time of the first sample, media timescale
+  samples: Mp4Sample[];
+}
+
+interface Mp4Chunk {
+  track: Mp4Track;
+  firstSample: number;
+  sampleCount: number;
+  sourceStart: number;
+  sourceEnd: number;
+  outputOffset: number;
+}
+
+interface TrackDefaults {
+  duration: number;
+  size: number;
+  flags: number;
+}
+
+// Boxes whose payload is nothing but child boxes
+const CONTAINER_BOXES = new Set([
+  'moov', 'trak', 'mdia', 'minf', 'stbl', 'edts', 'dinf', 'mvex', 'moof', 'traf', 'mfra', 'udta'
+]);
+
+// Brands that advertise fragmentation/DASH - meaningless once remuxed
+const FRAGMENTED_BRANDS = new Set(['iso5', 'iso6', 'dash', 'msdh', 'msix', 'cmfc', 'cmff']);
+
+const MIN_MOVIE_TIMESCALE = 1000; // millisecond precision in mvhd/tkhd/elst
+
+// tfhd / trun flag bits (ISO/IEC 14496-12 8.8.7, 8.8.8)
+const TFHD_BASE_DATA_OFFSET = 0x000001;
+const TFHD_SAMPLE_DESCRIPTION_INDEX = 0x000002;
+const TFHD_DEFAULT_DURATION = 0x000008;
+const TFHD_DEFAULT_SIZE = 0x000010;
+const TFHD_DEFAULT_FLAGS = 0x000020;
+const TFHD_DEFAULT_BASE_IS_MOOF = 0x020000;
+const TRUN_DATA_OFFSET = 0x000001;
+const TRUN_FIRST_SAMPLE_FLAGS = 0x000004;
+const TRUN_SAMPLE_DURATION = 0x000100;
+const TRUN_SAMPLE_SIZE = 0x000200;
+const TRUN_SAMPLE_FLAGS = 0x000400;
+const TRUN_SAMPLE_CTO = 0x000800;
+const SAMPLE_IS_NON_SYNC = 0x010000;
+
+/* ---------- Parsing ---------- */
+
+const readType = (data: Uint8Array, offset: number): string => {
+  return String.fromCharCode(data[offset], data[offset + 1], data[offset + 2], data[offset + 3]);
+};
+
+/**
+ * Walk the box hierarchy. Only real box boundaries are followed, so a
+ * fourCC that happens to appear inside sample data is never mistaken
+ * for a header.
+ */
+export const parseBoxes = (data: Uint8Array, start: number = 0, end: number = data.length): Mp4Box[] => {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const boxes: Mp4Box[] = [];
+  let offset = start;
+
+  while (offset + 8 <= end) {
+    let size = view.getUint32(offset);
+    const type = readType(data, offset + 4);
+    let headerSize = 8;
+
+    if (size === 1) {
+      if (offset + 16 > end) throw new Error(`Truncated largesize header for '${type}' at ${offset}`);
+      size = Number(view.getBigUint64(offset + 8));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset; // extends to the end of the enclosing space
+    }
+
+    if (size < headerSize) {
+      throw new Error(`Invalid size ${size} for '${type}' at ${offset}`);
+    }
+    if (offset + size > end) {
+      // A recorder stopped mid-write can leave the trailing mdat short
+      if (type !== 'mdat') throw new Error(`Box '${type}' at ${offset} overruns its parent`);
+      size = end - offset;
+    }
+
+    const box: Mp4Box = { type, start: offset, size, headerSize };
+    if (CONTAINER_BOXES.has(type)) {
+      box.children = parseBoxes(data, offset + headerSize, offset + size);
+    }
+    boxes.push(box);
+    offset += size;
+  }
+
+  return boxes;
+};
+
+const findChild = (box: Mp4Box | undefined, type: string): Mp4Box | undefined => {
+  return box?.children?.find(child => child.type === type);
+};
+
+const findChildren = (box: Mp4Box | undefined, type: string): Mp4Box[] => {
+  return box?.children?.filter(child => child.type === type) || [];
+};
+
+const findPath = (box: Mp4Box | undefined, path: string): Mp4Box | undefined => {
+  return path.split('/').reduce<Mp4Box | undefined>((current, type) => findChild(current, type), box);
+};
+
+const payloadStart = (box: Mp4Box): number => box.start + box.headerSize;
+
+/* ---------- Track / sample extraction ---------- */
+
+class SampleReader {
+  readonly view: DataView;
+
+  constructor(readonly data: Uint8Array) {
+    this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  }
+
+  version(box: Mp4Box): number {
+    return this.data[payloadStart(box)];
+  }
+
+  flags(box: Mp4Box): number {
+    return this.view.getUint32(payloadStart(box)) & 0xffffff;
+  }
+
+  uint32(offset: number): number {
+    return this.view.getUint32(offset);
+  }
+
+  uint64(offset: number): number {
+    return Number(this.view.getBigUint64(offset));
+  }
+
+  readTracks(moov: Mp4Box): Mp4Track[] {
+    return findChildren(moov, 'trak').map(trak => {
+      const tkhd = findChild(trak, 'tkhd');
+      const mdhd = findPath(trak, 'mdia/mdhd');
+      const hdlr = findPath(trak, 'mdia/hdlr');
+      if (!tkhd || !mdhd || !hdlr) {
+        throw new Error('Track is missing tkhd/mdhd/hdlr');
+      }
+
+      const tkhdVersion = this.version(tkhd);
+      const mdhdVersion = this.version(mdhd);
+      return {
+        id: this.uint32(payloadStart(tkhd) + (tkhdVersion === 1 ? 20 : 12)),
+        trak,
+        timescale: this.uint32(payloadStart(mdhd) + (mdhdVersion === 1 ? 20 : 12)),
+        handler: readType(this.data, payloadStart(hdlr) + 8),
+        startTime: 0,
+        samples: []
+      };
+    });
+  }
+
+  /**
+   * moof/traf/trun → flat sample list, resolving data offsets per
+   * tfhd base-data-offset / default-base-is-moof rules.
+   */
+  readFragmentedSamples(moov: Mp4Box, topLevel: Mp4Box[], tracks: Mp4Track[]): void {
+    const trackById = new Map(tracks.map(track => [track.id, track]));
+    const seenTracks = new Set<number>();
+    const trexDefaults = new Map<number, TrackDefaults>();
+
+    findChildren(findChild(moov, 'mvex'), 'trex').forEach(trex => {
+      const p = payloadStart(trex);
+      trexDefaults.set(this.uint32(p + 4), {
+        duration: this.uint32(p + 12),
+        size: this.uint32(p + 16),
+        flags: this.uint32(p + 20)
+      });
+    });
+
+    topLevel.filter(box => box.type === 'moof').forEach(moof => {
+      let previousTrafEnd = moof.start;
+
+      findChildren(moof, 'traf').forEach((traf, trafIndex) => {
+        const tfhd = findChild(traf, 'tfhd');
+        if (!tfhd) throw new Error('traf without tfhd');
+
+        const tfhdFlags = this.flags(tfhd);
+        const trackId = this.uint32(payloadStart(tfhd) + 4);
+        const defaults = { ...(trexDefaults.get(trackId) || { duration: 0, size: 0, flags: 0 }) };
+        let cursor = payloadStart(tfhd) + 8;
+        let baseDataOffset: number;
+
+        if (tfhdFlags & TFHD_BASE_DATA_OFFSET) {
+          baseDataOffset = this.uint64(cursor);
+          cursor += 8;
+        } else {
+          baseDataOffset = (tfhdFlags & TFHD_DEFAULT_BASE_IS_MOOF) || trafIndex === 0
+            ? moof.start
+            : previousTrafEnd;
+        }
+        if (tfhdFlags & TFHD_SAMPLE_DESCRIPTION_INDEX) cursor += 4;
+        if (tfhdFlags & TFHD_DEFAULT_DURATION) { defaults.duration = this.uint32(cursor); cursor += 4; }
+        if (tfhdFlags & TFHD_DEFAULT_SIZE) { defaults.size = this.uint32(cursor); cursor += 4; }
+        if (tfhdFlags & TFHD_DEFAULT_FLAGS) { defaults.flags = this.uint32(cursor); }
+
+        const track = trackById.get(trackId);
+        const tfdt = findChild(traf, 'tfdt');
+        if (track && tfdt && !seenTracks.has(trackId)) {
+          track.startTime = this.version(tfdt) === 1
+            ? this.uint64(payloadStart(tfdt) + 4)
+            : this.uint32(payloadStart(tfdt) + 4);
+        }
+        seenTracks.add(trackId);
+
+        let dataCursor = baseDataOffset;
+        findChildren(traf, 'trun').forEach(trun => {
+          const version = this.version(trun);
+          const trunFlags = this.flags(trun);
+          const sampleCount = this.uint32(payloadStart(trun) + 4);
+          let c = payloadStart(trun) + 8;
+          let firstSampleFlags: number | null = null;
+
+          if (trunFlags & TRUN_DATA_OFFSET) {
+            dataCursor = baseDataOffset + this.view.getInt32(c);
+            c += 4;
+          }
+          if (trunFlags & TRUN_FIRST_SAMPLE_FLAGS) {
+            firstSampleFlags = this.uint32(c);
+            c += 4;
+          }
+
+          for (let i = 0; i < sampleCount; i++) {
+            let duration = defaults.duration;
+            let size = defaults.size;
+            let sampleFlags = i === 0 && firstSampleFlags !== null ? firstSampleFlags : defaults.flags;
+            let compositionOffset = 0;
+
+            if (trunFlags & TRUN_SAMPLE_DURATION) { duration = this.uint32(c); c += 4; }
+            if (trunFlags & TRUN_SAMPLE_SIZE) { size = this.uint32(c); c += 4; }
+            if (trunFlags & TRUN_SAMPLE_FLAGS) { sampleFlags = this.uint32(c); c += 4; }
+            if (trunFlags & TRUN_SAMPLE_CTO) {
+              compositionOffset = version === 0 ? this.uint32(c) : this.view.getInt32(c);
+              c += 4;
+            }
+
+            // Samples past the end of a truncated recording are dropped
+            if (track && dataCursor + size <= this.data.length) {
+              track.samples.push({
+                offset: dataCursor,
+                size,
+                duration,
+                compositionOffset,
+                isSync: !(sampleFlags & SAMPLE_IS_NON_SYNC)
+              });
+            }
+            dataCursor += size;
+          }
+        });
+
+        previousTrafEnd = dataCursor;
+      });
+    });
+  }
+
+  /**
+   * Classic stbl tables → flat sample list (progressive input)
+   */
+  readProgressiveSamples(tracks: Mp4Track[], movieTimescale: number): void {
+    tracks.forEach(track => {
+      track.startTime = this.readInitialDelay(track, movieTimescale);
+
+      const stbl = findPath(track.trak, 'mdia/minf/stbl');
+      const stsz = findChild(stbl, 'stsz');
+      const stsc = findChild(stbl, 'stsc');
+      const stts = findChild(stbl, 'stts');
+      const chunkOffsetBox = findChild(stbl, 'stco') || findChild(stbl, 'co64');
+      if (!stsz || !stsc || !stts || !chunkOffsetBox) {
+        throw new Error(`Track ${track.id} is missing sample tables`);
+      }
+
+      // Sample sizes
+      const fixedSize = this.uint32(payloadStart(stsz) + 4);
+      const sampleCount = this.uint32(payloadStart(stsz) + 8);
+      const sizes = Array.from({ length: sampleCount }, (_, i) =>
+        fixedSize || this.uint32(payloadStart(stsz) + 12 + i * 4)
+      );
+
+      // Chunk offsets
+      const is64 = chunkOffsetBox.type === 'co64';
+      const chunkCount = this.uint32(payloadStart(chunkOffsetBox) + 4);
+      const chunkOffsets = Array.from({ length: chunkCount }, (_, i) =>
+        is64
+          ? this.uint64(payloadStart(chunkOffsetBox) + 8 + i * 8)
+          : this.uint32(payloadStart(chunkOffsetBox) + 8 + i * 4)
+      );
+
+      // Sample → chunk
+      const stscEntries = this.uint32(payloadStart(stsc) + 4);
+      const samplesPerChunk: number[] = [];
+      for (let e = 0; e < stscEntries; e++) {
+        const p = payloadStart(stsc) + 8 + e * 12;
+        const firstChunk = this.uint32(p) - 1;
+        const perChunk = this.uint32(p + 4);
+        const nextFirstChunk = e + 1 < stscEntries ? this.uint32(p + 12) - 1 : chunkCount;
+        for (let chunk = firstChunk; chunk < nextFirstChunk; chunk++) {
+          samplesPerChunk[chunk] = perChunk;
+        }
+      }
+
+      // Decode deltas / composition offsets, run-length expanded
+      const durations = this.expandRuns(stts, false);
+      const ctts = findChild(stbl, 'ctts');
+      const compositionOffsets = ctts ? this.expandRuns(ctts, this.version(ctts) === 1) : [];
+
+      const stss = findChild(stbl, 'stss');
+      const syncSamples = stss
+        ? new Set(Array.from({ length: this.uint32(payloadStart(stss) + 4) }, (_, i) =>
+            this.uint32(payloadStart(stss) + 8 + i * 4) - 1
+          ))
+        : null;
+
+      let sampleIndex = 0;
+      chunkOffsets.forEach((chunkOffset, chunk) => {
+        let offset = chunkOffset;
+        for (let i = 0; i < (samplesPerChunk[chunk] || 0) && sampleIndex < sampleCount; i++) {
+          const size = sizes[sampleIndex];
+          if (offset + size <= this.data.length) {
+            track.samples.push({
+              offset,
+              size,
+              duration: durations[sampleIndex] || 0,
+              compositionOffset: compositionOffsets[sampleIndex] || 0,
+              isSync: syncSamples ? syncSamples.has(sampleIndex) : true
+            });
+          }
+          offset += size;
+          sampleIndex++;
+        }
+      });
+    });
+  }
+
+  /**
+   * A leading empty edit (media_time -1) delays the track - carry it over
+   * so an already-progressive file keeps its A/V offset.
+   */
+  private readInitialDelay(track: Mp4Track, movieTimescale: number): number {
+    const elst = findPath(track.trak, 'edts/elst');
+    if (!elst || this.uint32(payloadStart(elst) + 4) === 0) return 0;
+
+    const p = payloadStart(elst) + 8;
+    const isVersion1 = this.version(elst) === 1;
+    const segmentDuration = isVersion1 ? this.uint64(p) : this.uint32(p);
+    const mediaTime = isVersion1 ? Number(this.view.getBigInt64(p + 8)) : this.view.getInt32(p + 4);
+
+    return mediaTime === -1 ? Math.round(segmentDuration / movieTimescale * track.timescale) : 0;
+  }
+
+  private expandRuns(box: Mp4Box, signed: boolean): number[] {
+    const values: number[] = [];
+    const entryCount = this.uint32(payloadStart(box) + 4);
+    for (let e = 0; e < entryCount; e++) {
+      const p = payloadStart(box) + 8 + e * 8;
+      const count = this.uint32(p);
+      const value = signed ? this.view.getInt32(p + 4) : this.uint32(p + 4);
+      for (let i = 0; i < count; i++) values.push(value);
+    }
+    return values;
+  }
+}
+
+/* ---------- Writing ---------- */
+
+/**
+ * Copy a header box and overwrite its duration (and optionally timescale)
+ * at the version-dependent field offsets - mvhd/mdhd share a layout,
+ * tkhd has no timescale and a track_ID before the duration.
+ */
+const patchHeaderBox = (
+  data: Uint8Array,
+  header: Mp4Box,
+  duration: number,
+  timescale?: number
+): Uint8Array => {
+  const bytes = data.slice(header.start, header.start + header.size);
+  const view = new DataView(bytes.buffer);
+  const p = header.headerSize;
+  const version = bytes[p];
+  const isTrackHeader = header.type === 'tkhd';
+
+  if (version === 1) {
+    if (timescale !== undefined && !isTrackHeader) view.setUint32(p + 20, timescale);
+    view.setBigUint64(p + (isTrackHeader ? 28 : 24), BigInt(duration));
+  } else {
+    if (timescale !== undefined && !isTrackHeader) view.setUint32(p + 12, timescale);
+    view.setUint32(p + (isTrackHeader ? 20 : 16), Math.min(duration, 0xffffffff));
+  }
+
+  return bytes;
+};
+
+const buildSampleTable = (
+  data: Uint8Array,
+  track: Mp4Track,
+  chunks: Mp4Chunk[],
+  use64BitOffsets: boolean
+): Uint8Array => {
+  const stbl = findPath(track.trak, 'mdia/minf/stbl');
+  const stsd = findChild(stbl, 'stsd');
+  if (!stsd) throw new Error(`Track ${track.id} has no stsd`);
+
+  const { samples } = track;
+  const parts: Uint8Array[] = [data.subarray(stsd.start, stsd.start + stsd.size)];
+
+  const stts = runLengthEntries(samples.map(sample => sample.duration));
+  parts.push(fullBox('stts', 0, 0, u32(stts.length / 2), u32List(stts)));
+
+  if (samples.some(sample => sample.compositionOffset !== 0)) {
+    const hasNegative = samples.some(sample => sample.compositionOffset < 0);
+    const ctts = runLengthEntries(samples.map(sample => sample.compositionOffset));
+    parts.push(fullBox('ctts', hasNegative ? 1 : 0, 0, u32(ctts.length / 2), u32List(ctts)));
+  }
+
+  if (samples.some(sample => !sample.isSync)) {
+    const syncNumbers = samples
+      .map((sample, index) => sample.isSync ? index + 1 : 0)
+      .filter(number => number > 0);
+    parts.push(fullBox('stss', 0, 0, u32(syncNumbers.length), u32List(syncNumbers)));
+  }
+
+  // One stsc entry per change in samples-per-chunk
+  const stsc: number[] = [];
+  chunks.forEach((chunk, index) => {
+    if (index === 0 || chunks[index - 1].sampleCount !== chunk.sampleCount) {
+      stsc.push(index + 1, chunk.sampleCount, 1);
+    }
+  });
+  parts.push(fullBox('stsc', 0, 0, u32(stsc.length / 3), u32List(stsc)));
+
+  const fixedSize = samples.every(sample => sample.size === samples[0].size) ? samples[0].size : 0;
+  parts.push(fixedSize
+    ? fullBox('stsz', 0, 0, u32(fixedSize, samples.length))
+    : fullBox('stsz', 0, 0, u32(0, samples.length), u32List(samples.map(sample => sample.size)))
+  );
+
+  const offsets = chunks.map(chunk => chunk.outputOffset);
+  parts.push(use64BitOffsets
+    ? fullBox('co64', 0, 0, u32(offsets.length), u64List(offsets))
+    : fullBox('stco', 0, 0, u32(offsets.length), u32List(offsets))
+  );
+
+  return box('stbl', ...parts);
+};
+
+const copyChildrenExcept = (data: Uint8Array, parent: Mp4Box, skip: string[]): Uint8Array[] => {
+  return (parent.children || [])
+    .filter(child => !skip.includes(child.type))
+    .map(child => data.subarray(child.start, child.start + child.size));
+};
+
+/* ---------- Remux ---------- */
+
+/**
+ * Group each track's samples into chunks of contiguous source bytes
+ * (one trun, or one original chunk) and lay them out in source order
+ * so audio/video stay interleaved.
+ */
+const planChunks = (tracks: Mp4Track[]): Mp4Chunk[] => {
+  const chunks: Mp4Chunk[] = [];
+
+  tracks.forEach(track => {
+    let current: Mp4Chunk | null = null;
+    track.samples.forEach((sample, index) => {
+      if (current && current.sourceEnd === sample.offset) {
+        current.sampleCount++;
+        current.sourceEnd += sample.size;
+      } else {
+        current = {
+          track,
+          firstSample: index,
+          sampleCount: 1,
+          sourceStart: sample.offset,
+          sourceEnd: sample.offset + sample.size,
+          outputOffset: 0
+        };
+        chunks.push(current);
+      }
+    });
+  });
+
+  return chunks.sort((a, b) => a.sourceStart - b.sourceStart);
+};
+
+/**
+ * A zero-duration final sample (common when the recorder is stopped
+ * mid-fragment) would shorten the track - reuse the previous delta.
+ */
+const fillMissingDurations = (track: Mp4Track): void => {
+  track.samples.forEach((sample, index) => {
+    if (sample.duration === 0 && index > 0) {
+      sample.duration = track.samples[index - 1].duration;
+    }
+  });
+};
+
+/**
+ * Rebuild a MediaRecorder MP4 (usually fragmented) as a progressive file:
+ * ftyp, moov with full sample tables and exact durations, then one mdat.
+ */
+export const remuxToProgressiveMp4 = async (input: Blob): Promise<RemuxResult> => {
+  const data = new Uint8Array(await input.arrayBuffer());
+  const topLevel = parseBoxes(data);
+  const ftyp = topLevel.find(b => b.type === 'ftyp');
+  const moov = topLevel.find(b => b.type === 'moov');
+  if (!moov) throw new Error('No moov box - not an MP4 file');
+
+  const mvhd = findChild(moov, 'mvhd');
+  if (!mvhd) throw new Error('No mvhd box');
+
+  const reader = new SampleReader(data);
+  const sourceMovieTimescale = reader.uint32(payloadStart(mvhd) + (reader.version(mvhd) === 1 ? 20 : 12));
+  const wasFragmented = topLevel.some(b => b.type === 'moof');
+  const allTracks = reader.readTracks(moov);
+
+  if (wasFragmented) {
+    reader.readFragmentedSamples(moov, topLevel, allTracks);
+  } else {
+    reader.readProgressiveSamples(allTracks, sourceMovieTimescale);
+  }
+
+  const tracks = allTracks.filter(track => track.samples.length > 0);
+  if (tracks.length === 0) throw new Error('No samples found in MP4');
+  tracks.forEach(fillMissingDurations);
+
+  // Movie timing - tracks that start late get an empty edit so A/V stay in sync
+  const movieTimescale = Math.max(sourceMovieTimescale, MIN_MOVIE_TIMESCALE);
+  const earliestStart = Math.min(...tracks.map(track => track.startTime / track.timescale));
+
+  const timing = tracks.map(track => {
+    const mediaDuration = track.samples.reduce((total, sample) => total + sample.duration, 0);
+    const delay = Math.round((track.startTime / track.timescale - earliestStart) * movieTimescale);
+    const mediaInMovie = Math.round(mediaDuration / track.timescale * movieTimescale);
+    return { mediaDuration, delay, movieDuration: delay + mediaInMovie, mediaInMovie };
+  });
+  const movieDuration = Math.max(...timing.map(t => t.movieDuration));
+
+  const chunks = planChunks(tracks);
+  const mdatPayloadSize = chunks.reduce((total, chunk) => total + chunk.sourceEnd - chunk.sourceStart, 0);
+  const mdatHeaderSize = mdatPayloadSize + 8 > 0xffffffff ? 16 : 8;
+
+  // ftyp - keep codec brands, drop fragmentation brands
+  const sourceBrands: string[] = [];
+  if (ftyp) {
+    for (let p = payloadStart(ftyp) + 8; p + 4 <= ftyp.start + ftyp.size; p += 4) {
+      sourceBrands.push(readType(data, p));
+    }
+  }
+  const brands = Array.from(new Set(['isom', 'iso2', 'mp41', ...sourceBrands]))
+    .filter(brand => !FRAGMENTED_BRANDS.has(brand));
+  const ftypBytes = box('ftyp', encodeType('isom'), u32(0x200), ...brands.map(encodeType));
+
+  const buildMoov = (mdatStart: number, use64BitOffsets: boolean): Uint8Array => {
+    let offset = mdatStart + mdatHeaderSize;
+    chunks.forEach(chunk => {
+      chunk.outputOffset = offset;
+      offset += chunk.sourceEnd - chunk.sourceStart;
+    });
+
+    const trakBoxes = tracks.map((track, index) => {
+      const { trak } = track;
+      const { mediaDuration, delay, movieDuration: trackDuration, mediaInMovie } = timing[index];
+      const trackChunks = chunks.filter(chunk => chunk.track === track);
+      const tkhd = findChild(trak, 'tkhd')!;
+      const mdia = findChild(trak, 'mdia')!;
+      const mdhd = findChild(mdia, 'mdhd')!;
+      const minf = findChild(mdia, 'minf')!;
+
+      const edts = delay > 0
+        ? [box('edts', fullBox('elst', 0, 0, u32(2, delay, 0xffffffff, 0x00010000, mediaInMovie, 0, 0x00010000)))]
+        : [];
+
+      return box('trak',
+        patchHeaderBox(data, tkhd, trackDuration),
+        ...edts,
+        ...copyChildrenExcept(data, trak, ['tkhd', 'edts', 'mdia']),
+        box('mdia',
+          patchHeaderBox(data, mdhd, mediaDuration),
+          ...copyChildrenExcept(data, mdia, ['mdhd', 'minf']),
+          box('minf',
+            ...copyChildrenExcept(data, minf, ['stbl']),
+            buildSampleTable(data, track, trackChunks, use64BitOffsets)
+          )
+        )
+      );
+    });
+
+    return box('moov',
+      patchHeaderBox(data, mvhd, movieDuration, movieTimescale),
+      ...trakBoxes,
+      ...copyChildrenExcept(data, moov, ['mvhd', 'trak', 'mvex'])
+    );
+  };
+
+  // moov size doesn't depend on offset values, only on their width - measure, then place
+  const use64BitOffsets = ftypBytes.length + mdatHeaderSize + mdatPayloadSize > 0xffffffff;
+  const moovSize = buildMoov(0, use64BitOffsets).length;
+  const moovBytes = buildMoov(ftypBytes.length + moovSize, use64BitOffsets);
+
+  const mdatHeader = mdatHeaderSize === 16
+    ? concatBytes([u32(1), encodeType('mdat'), u64List([mdatPayloadSize + 16])])
+    : concatBytes([u32(mdatPayloadSize + 8), encodeType('mdat')]);
+
+  // Sample data is referenced, not copied - Blob assembles the parts lazily
+  const parts = [ftypBytes, moovBytes, mdatHeader, ...chunks.map(chunk => data.subarray(chunk.sourceStart, chunk.sourceEnd))];
+  const blob = new Blob(parts as BlobPart[], { type: 'video/mp4' });
+
+  return {
+    blob,
+    durationMs: Math.round(movieDuration / movieTimescale * 1000),
+    trackCount: tracks.length,
+    sampleCount: tracks.reduce((total, track) => total + track.samples.length, 0),
+    wasFragmented
+  };
+};
@@ -0,0 +1,140 @@
+// src/utils/operatorSettings.ts - Kiosk operator configuration + PIN storage (localStorage)
+import { BITRATE_PROFILES, OPERATOR_CONFIG, RECORDING_CONFIG, RENDER_CONFIG, SMILE_CONFIG, STORAGE_KEYS } from './constants';
+import type { RenderQualitySetting } from './resolutionDetector';
+
+export type BitrateProfile = keyof typeof BITRATE_PROFILES;
+export type SmileAutoCapture = 'off' | 'video' | 'photo';
+
+export interface OperatorSettings {
+  lensGroupId: string;
+  lensId: string;
+  maxRecordingDuration: number; // seconds
+  bitrateProfile: BitrateProfile;
+  renderQuality: RenderQualitySetting;
+  autoQualityDowngrade: boolean;
+  showPerformanceOverlay: boolean;
+  autoShare: boolean;
+  smileMeterEnabled: boolean;
+  smileAutoCapture: SmileAutoCapture;
+  smileThreshold: number; // 0..1
+  smileHoldFrames: number;
+}
+
+// .env values remain the defaults; the operator panel overrides them per device
+export const DEFAULT_OPERATOR_SETTINGS: OperatorSettings = {
+  lensGroupId: import.meta.env.VITE_CAMERA_KIT_LENS_GROUP_ID || 'cd5b1b49-4483-45ea-9772-cb241939e2ce',
+  lensId: import.meta.env.VITE_CAMERA_KIT_LENS_ID || '04441cd2-8e9d-420b-b293-90b5df8f577f',
+  maxRecordingDuration: RECORDING_CONFIG.MAX_RECORDING_DURATION,
+  bitrateProfile: 'max',
+  renderQuality: 'auto',
+  autoQualityDowngrade: true,
+  showPerformanceOverlay: false,
+  autoShare: false,
+  smileMeterEnabled: true,
+  smileAutoCapture: 'off',
+  smileThreshold: SMILE_CONFIG.DEFAULT_THRESHOLD,
+  smileHoldFrames: SMILE_CONFIG.DEFAULT_HOLD_FRAMES
+};
+
+export const loadOperatorSettings = (): OperatorSettings => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEYS.OPERATOR_SETTINGS);
+    if (!saved) return DEFAULT_OPERATOR_SETTINGS;
+
+    const parsed = { ...DEFAULT_OPERATOR_SETTINGS, ...JSON.parse(saved) } as OperatorSettings;
+    if (!(parsed.bitrateProfile in BITRATE_PROFILES)) {
+      parsed.bitrateProfile = DEFAULT_OPERATOR_SETTINGS.bitrateProfile;
+    }
+    if (parsed.renderQuality !== 'auto' && !(parsed.renderQuality in RENDER_CONFIG.QUALITY_PROFILES)) {
+      parsed.renderQuality = DEFAULT_OPERATOR_SETTINGS.renderQuality;
+    }
+    if (!['off', 'video', 'photo'].includes(parsed.smileAutoCapture)) {
+      parsed.smileAutoCapture = DEFAULT_OPERATOR_SETTINGS.smileAutoCapture;
+    }
+    parsed.maxRecordingDuration = Math.min(
+      Math.max(Number(parsed.maxRecordingDuration) || RECORDING_CONFIG.MAX_RECORDING_DURATION, RECORDING_CONFIG.MIN_RECORDING_DURATION),
+      RECORDING_CONFIG.MAX_RECORDING_DURATION
+    );
+    return parsed;
+  } catch (error) {
+    console.warn('Operator settings unreadable, using defaults:', error);
+    return DEFAULT_OPERATOR_SETTINGS;
+  }
+};
+
+export const saveOperatorSettings = (settings: OperatorSettings): void => {
+  localStorage.setItem(STORAGE_KEYS.OPERATOR_SETTINGS, JSON.stringify(settings));
+};
+
+/**
+ * SHA-256 so the PIN isn't readable from devtools at a glance. This is a
+ * guest deterrent, not real security - anyone with devtools can clear it.
+ */
+export const hashPin = async (pin: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`webar-operator:${pin}`));
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+export const isValidPin = (pin: string): boolean => {
+  return /^\d+$/.test(pin) &&
+    pin.length >= OPERATOR_CONFIG.PIN_MIN_LENGTH &&
+    pin.length <= OPERATOR_CONFIG.PIN_MAX_LENGTH;
+};
+
+export const hasCustomPin = (): boolean => {
+  return !!localStorage.getItem(STORAGE_KEYS.OPERATOR_PIN_HASH);
+};
+
+export const verifyPin = async (pin: string): Promise<boolean> => {
+  const storedHash = localStorage.getItem(STORAGE_KEYS.OPERATOR_PIN_HASH);
+  const expectedHash = storedHash || await hashPin(import.meta.env.VITE_OPERATOR_PIN || OPERATOR_CONFIG.DEFAULT_PIN);
+  return (await hashPin(pin)) === expectedHash;
+};
+
+export interface PinLockout {
+  failedAttempts: number;
+  lockedUntil: number | null; // epoch ms
+}
+
+const NO_LOCKOUT: PinLockout = { failedAttempts: 0, lockedUntil: null };
+
+/**
+ * Wrong-PIN count and lockout survive a reload, so refreshing the page
+ * doesn't hand out a fresh set of attempts.
+ */
+export const loadPinLockout = (): PinLockout => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEYS.OPERATOR_PIN_LOCKOUT);
+    if (!saved) return NO_LOCKOUT;
+
+    const parsed = JSON.parse(saved);
+    return {
+      failedAttempts: Number(parsed.failedAttempts) || 0,
+      lockedUntil: Number(parsed.lockedUntil) || null
+    };
+  } catch (error) {
+    console.warn('PIN lockout unreadable, ignoring:', error);
+    return NO_LOCKOUT;
+  }
+};
+
+export const savePinLockout = (lockout: PinLockout): void => {
+  try {
+    if (lockout.failedAttempts === 0 && !lockout.lockedUntil) {
+      localStorage.removeItem(STORAGE_KEYS.OPERATOR_PIN_LOCKOUT);
+    } else {
+      localStorage.setItem(STORAGE_KEYS.OPERATOR_PIN_LOCKOUT, JSON.stringify(lockout));
+    }
+  } catch (error) {
+    console.warn('PIN lockout could not be saved:', error);
+  }
+};
+
+export const saveOperatorPin = async (pin: string): Promise<void> => {
+  if (!isValidPin(pin)) {
+    throw new Error(`PIN must be ${OPERATOR_CONFIG.PIN_MIN_LENGTH}-${OPERATOR_CONFIG.PIN_MAX_LENGTH} digits`);
+  }
+  localStorage.setItem(STORAGE_KEYS.OPERATOR_PIN_HASH, await hashPin(pin));
+};
@@ -0,0 +1,252 @@
+// src/utils/overlayCompositor.ts - Burns event branding (frame, logo, event name, date) into captures
+import { OVERLAY_CONFIG } from './constants';
+
+export type OverlayLayout = typeof OVERLAY_CONFIG.LAYOUTS[number];
+
+export interface OverlaySettings {
+  layout: OverlayLayout;
+  eventName: string;
+  hashtag: string;
+  showDate: boolean;
+  showLogo: boolean;
+  showAttribution: boolean;
+  accentColor: string;
+}
+
+export const DEFAULT_OVERLAY_SETTINGS: OverlaySettings = {
+  layout: OVERLAY_CONFIG.DEFAULT_LAYOUT,
+  eventName: OVERLAY_CONFIG.DEFAULT_EVENT_NAME,
+  hashtag: OVERLAY_CONFIG.DEFAULT_HASHTAG,
+  showDate: true,
+  showLogo: true,
+  showAttribution: true,
+  accentColor: OVERLAY_CONFIG.DEFAULT_ACCENT_COLOR
+};
+
+export interface OverlayImages {
+  logo: HTMLImageElement | null;
+  attribution: HTMLImageElement | null;
+}
+
+let overlayImagesPromise: Promise<OverlayImages> | null = null;
+
+const loadImage = (src: string): Promise<HTMLImageElement | null> => {
+  return new Promise(resolve => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => resolve(null); // branding is optional - never block a capture on it
+    image.src = src;
+  });
+};
+
+/**
+ * Logo + attribution are loaded once and shared by every capture
+ */
+export const loadOverlayImages = (): Promise<OverlayImages> => {
+  if (!overlayImagesPromise) {
+    overlayImagesPromise = Promise.all([
+      loadImage(OVERLAY_CONFIG.LOGO_SRC),
+      loadImage(OVERLAY_CONFIG.ATTRIBUTION_SRC)
+    ]).then(([logo, attribution]) => ({ logo, attribution }));
+  }
+  return overlayImagesPromise;
+};
+
+export const isOverlayEnabled = (settings: OverlaySettings): boolean => {
+  return settings.layout !== 'none';
+};
+
+const formatCaptureDate = (date: Date): string => {
+  return date.toLocaleDateString(undefined, { day: 'numeric', month: 'long', year: 'numeric' });
+};
+
+const drawImageFit = (
+  ctx: CanvasRenderingContext2D,
+  image: HTMLImageElement,
+  x: number,
+  y: number,
+  maxWidth: number,
+  maxHeight: number,
+  align: 'left' | 'center' | 'right' = 'left'
+): void => {
+  const scale = Math.min(maxWidth / image.naturalWidth, maxHeight / image.naturalHeight);
+  const width = image.naturalWidth * scale;
+  const height = image.naturalHeight * scale;
+  const offsetX = align === 'center' ? (maxWidth - width) / 2 : align === 'right' ? maxWidth - width : 0;
+  ctx.drawImage(image, x + offsetX, y + (maxHeight - height) / 2, width, height);
+};
+
+const setFont = (ctx: CanvasRenderingContext2D, weight: number, size: number): void => {
+  ctx.font = `${weight} ${Math.round(size)}px ${OVERLAY_CONFIG.FONT_FAMILY}`;
+};
+
+/**
+ * Event name / hashtag / date stacked upwards from `bottom`
+ */
+const drawCaption = (
+  ctx: CanvasRenderingContext2D,
+  settings: OverlaySettings,
+  x: number,
+  bottom: number,
+  unit: number,
+  align: CanvasTextAlign,
+  date: Date
+): void => {
+  const lines: Array<{ text: string; weight: number; size: number; color: string }> = [];
+  if (settings.eventName) lines.push({ text: settings.eventName, weight: 700, size: unit * 5, color: '#ffffff' });
+  if (settings.hashtag) lines.push({ text: settings.hashtag, weight: 600, size: unit * 3.6, color: settings.accentColor });
+  if (settings.showDate) lines.push({ text: formatCaptureDate(date), weight: 400, size: unit * 2.8, color: 'rgba(255,255,255,0.8)' });
+
+  ctx.save();
+  ctx.textAlign = align;
+  ctx.textBaseline = 'alphabetic';
+  ctx.shadowColor = 'rgba(0,0,0,0.6)';
+  ctx.shadowBlur = unit;
+
+  let y = bottom;
+  for (let i = lines.length - 1; i >= 0; i--) {
+    const line = lines[i];
+    setFont(ctx, line.weight, line.size);
+    ctx.fillStyle = line.color;
+    ctx.fillText(line.text, x, y, ctx.canvas.width - unit * 8);
+    y -= line.size * 1.3;
+  }
+  ctx.restore();
+};
+
+const drawAttribution = (
+  ctx: CanvasRenderingContext2D,
+  images: OverlayImages,
+  width: number,
+  y: number,
+  unit: number
+): void => {
+  if (!images.attribution) return;
+  ctx.save();
+  ctx.globalAlpha = 0.85;
+  drawImageFit(ctx, images.attribution, width - unit * 28, y, unit * 24, unit * 4.6, 'right');
+  ctx.restore();
+};
+
+/**
+ * Draw the selected layout on top of an already-drawn camera frame.
+ * All measurements scale with the canvas width so 1080p and 1440p match.
+ */
+export const drawOverlay = (
+  ctx: CanvasRenderingContext2D,
+  settings: OverlaySettings,
+  images: OverlayImages,
+  date: Date = new Date()
+): void => {
+  if (!isOverlayEnabled(settings)) return;
+
+  const { width, height } = ctx.canvas;
+  const unit = width / 100;
+
+  switch (settings.layout) {
+    case 'minimal': {
+      if (settings.showLogo && images.logo) {
+        drawImageFit(ctx, images.logo, unit * 4, unit * 4, unit * 26, unit * 14);
+      }
+      drawCaption(ctx, { ...settings, eventName: '' }, width - unit * 4, height - unit * 4, unit, 'right', date);
+      if (settings.showAttribution) drawAttribution(ctx, images, width, unit * 4, unit);
+      break;
+    }
+
+    case 'frame': {
+      const border = unit * 3;
+      const band = unit * 24;
+      ctx.save();
+      ctx.fillStyle = settings.accentColor;
+      ctx.fillRect(0, 0, width, border);
+      ctx.fillRect(0, 0, border, height);
+      ctx.fillRect(width - border, 0, border, height);
+      ctx.fillRect(0, height - band, width, band);
+      ctx.restore();
+
+      if (settings.showLogo && images.logo) {
+        drawImageFit(ctx, images.logo, border + unit * 3, border + unit * 3, unit * 30, unit * 16);
+      }
+      drawCaption(ctx, settings, width / 2, height - band + unit * 15, unit, 'center', date);
+      if (settings.showAttribution) drawAttribution(ctx, images, width, height - unit * 7, unit);
+      break;
+    }
+
+    case 'banner': {
+      const bannerHeight = unit * 30;
+      const gradient = ctx.createLinearGradient(0, height - bannerHeight, 0, height);
+      gradient.addColorStop(0, 'rgba(0,0,0,0)');
+      gradient.addColorStop(1, 'rgba(0,0,0,0.75)');
+      ctx.save();
+      ctx.fillStyle = gradient;
+      ctx.fillRect(0, height - bannerHeight, width, bannerHeight);
+      ctx.fillStyle = settings.accentColor;
+      ctx.fillRect(0, height - unit * 1.2, width, unit * 1.2);
+      ctx.restore();
+
+      const logoWidth = settings.showLogo && images.logo ? unit * 30 : 0;
+      if (logoWidth && images.logo) {
+        drawImageFit(ctx, images.logo, unit * 4, height - unit * 21, logoWidth, unit * 16);
+      }
+      drawCaption(ctx, settings, unit * 4 + (logoWidth ? logoWidth + unit * 4 : 0), height - unit * 6, unit, 'left', date);
+      if (settings.showAttribution) drawAttribution(ctx, images, width, unit * 4, unit);
+      break;
+    }
+  }
+};
+
+/**
+ * Copies the Camera Kit canvas into an offscreen canvas every animation
+ * frame and draws the overlay on top; the recorder captures this canvas
+ * instead of the raw Camera Kit output.
+ */
+export class OverlayCompositor {
+  private output: HTMLCanvasElement;
+  private ctx: CanvasRenderingContext2D;
+  private frameRequest: number | null = null;
+  private images: OverlayImages = { logo: null, attribution: null };
+  private date = new Date();
+
+  constructor(
+    private source: HTMLCanvasElement,
+    private settings: OverlaySettings
+  ) {
+    this.output = document.createElement('canvas');
+    this.output.width = source.width;
+    this.output.height = source.height;
+
+    const ctx = this.output.getContext('2d');
+    if (!ctx) {
+      throw new Error('2D context not available for overlay compositing');
+    }
+    this.ctx = ctx;
+
+    loadOverlayImages().then(images => { this.images = images; });
+  }
+
+  get canvas(): HTMLCanvasElement {
+    return this.output;
+  }
+
+  start(): HTMLCanvasElement {
+    this.stop();
+    this.date = new Date();
+
+    const render = () => {
+      // Drawing inside requestAnimationFrame keeps the WebGL back buffer valid
+      this.ctx.drawImage(this.source, 0, 0, this.output.width, this.output.height);
+      drawOverlay(this.ctx, this.settings, this.images, this.date);
+      this.frameRequest = requestAnimationFrame(render);
+    };
+    this.frameRequest = requestAnimationFrame(render);
+
+    return this.output;
+  }
+
+  stop(): void {
+    if (this.frameRequest !== null) {
+      cancelAnimationFrame(this.frameRequest);
+      this.frameRequest = null;
+    }
+  }
+}
@@ -0,0 +1,139 @@
+// src/utils/performanceMonitor.ts - Output frame rate sampling + one-off timing marks
+import type { PerformanceMetrics } from '../types/app';
+
+export type PerformanceTimingMetric = 'initializationTime' | 'cameraStartTime' | 'lensLoadTime' | 'recordingStartTime' | 'processingTime';
+
+export interface PerformanceSample {
+  time: number;
+  fps: number;
+  jitter: number; // ms, standard deviation of frame intervals
+  heapMB: number | null;
+}
+
+export interface PerformanceSnapshot {
+  metrics: PerformanceMetrics;
+  history: PerformanceSample[];
+  targetFps: number;
+  downgradeCount: number;
+}
+
+// Timings are marked from hooks that know nothing about the monitor
+const timings: PerformanceMetrics = {
+  initializationTime: 0,
+  cameraStartTime: 0,
+  lensLoadTime: 0,
+  recordingStartTime: 0,
+  processingTime: 0
+};
+
+export const markPerformanceTiming = (metric: PerformanceTimingMetric, durationMs: number): void => {
+  timings[metric] = Math.round(durationMs);
+};
+
+export const getPerformanceTimings = (): PerformanceMetrics => ({ ...timings });
+
+// Chromium-only, non-standard - not in lib.dom
+interface PerformanceWithMemory extends Performance {
+  memory?: {
+    usedJSHeapSize: number;
+    totalJSHeapSize: number;
+    jsHeapSizeLimit: number;
+  };
+}
+
+export const getHeapUsageMB = (): number | null => {
+  const { memory } = performance as PerformanceWithMemory;
+  return memory ? Math.round(memory.usedJSHeapSize / 1024 / 1024) : null;
+};
+
+/**
+ * Counts frames the Camera Kit canvas actually produces. A canvas capture
+ * stream only emits when the canvas is painted, so requestVideoFrameCallback
+ * on it measures the AR output rate rather than the display refresh rate.
+ * Falls back to requestAnimationFrame pacing where rVFC is missing.
+ */
+export class FrameRateSampler {
+  private video: HTMLVideoElement | null = null;
+  private captureStream: MediaStream | null = null;
+  private frameTimes: number[] = [];
+  private rafId: number | null = null;
+  private isRunning = false;
+
+  constructor(private canvas: HTMLCanvasElement) {}
+
+  get source(): HTMLCanvasElement {
+    return this.canvas;
+  }
+
+  start(): void {
+    if (this.isRunning) return;
+    this.isRunning = true;
+
+    const video = document.createElement('video');
+    if (typeof video.requestVideoFrameCallback === 'function' && typeof this.canvas.captureStream === 'function') {
+      this.captureStream = this.canvas.captureStream();
+      video.muted = true;
+      video.playsInline = true;
+      video.srcObject = this.captureStream;
+      this.video = video;
+
+      const onFrame = (now: number) => {
+        if (!this.isRunning) return;
+        this.frameTimes.push(now);
+        video.requestVideoFrameCallback(onFrame);
+      };
+      video.requestVideoFrameCallback(onFrame);
+      video.play().catch(() => {});
+      return;
+    }
+
+    const onAnimationFrame = (now: number) => {
+      if (!this.isRunning) return;
+      this.frameTimes.push(now);
+      this.rafId = requestAnimationFrame(onAnimationFrame);
+    };
+    this.rafId = requestAnimationFrame(onAnimationFrame);
+  }
+
+  /**
+   * Frame rate and jitter since the previous call
+   */
+  takeSample(elapsedMs: number): { fps: number; jitter: number } {
+    const frames = this.frameTimes;
+    this.frameTimes = frames.length > 0 ? [frames[frames.length - 1]] : [];
+
+    const intervals: number[] = [];
+    for (let i = 1; i < frames.length; i++) {
+      intervals.push(frames[i] - frames[i - 1]);
+    }
+    if (intervals.length === 0) {
+      return { fps: 0, jitter: 0 };
+    }
+
+    const mean = intervals.reduce((sum, value) => sum + value, 0) / intervals.length;
+    const variance = intervals.reduce((sum, value) => sum + (value - mean) ** 2, 0) / intervals.length;
+
+    return {
+      fps: Math.round((intervals.length / elapsedMs) * 1000 * 10) / 10,
+      jitter: Math.round(Math.sqrt(variance) * 10) / 10
+    };
+  }
+
+  stop(): void {
+    this.isRunning = false;
+    if (this.rafId !== null) {
+      cancelAnimationFrame(this.rafId);
+      this.rafId = null;
+    }
+    if (this.video) {
+      this.video.pause();
+      this.video.srcObject = null;
+      this.video = null;
+    }
+    if (this.captureStream) {
+      this.captureStream.getTracks().forEach(track => track.stop());
+      this.captureStream = null;
+    }
+    this.frameTimes = [];
+  }
+}
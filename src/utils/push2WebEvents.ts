@@ -0,0 +1,96 @@
+// src/utils/push2WebEvents.ts - One typed event bus around the Push2Web instance
+import type { Lens } from '@snap/camera-kit';
+import type { ErrorEvent, Push2Web, State } from '@snap/push2web';
+import type { AppError } from './appErrors';
+
+export type Push2WebConnectionState = 'disconnected' | 'connecting' | 'subscribed' | 'retrying' | 'failed';
+
+export interface Push2WebConnection {
+  state: Push2WebConnectionState;
+  attempt: number; // reconnect attempts since a lens last arrived
+  healthy: boolean; // a lens arrived over the current subscription - Subscribed alone proves nothing
+  error: AppError | null;
+}
+
+export interface Push2WebStatus {
+  available: boolean; // Push2Web extension bootstrapped with Camera Kit
+  subscribed: boolean;
+  session: boolean;
+  repository: boolean;
+  connection: Push2WebConnection;
+}
+
+export interface Push2WebEventMap {
+  lensReceived: Lens;
+  error: ErrorEvent['detail'];
+  subscriptionChanged: State;
+  statusChanged: Push2WebStatus;
+}
+
+export type Push2WebEventType = keyof Push2WebEventMap;
+export type Push2WebListener<K extends Push2WebEventType> = (detail: Push2WebEventMap[K]) => void;
+
+const listeners: { [K in Push2WebEventType]: Set<Push2WebListener<K>> } = {
+  lensReceived: new Set(),
+  error: new Set(),
+  subscriptionChanged: new Set(),
+  statusChanged: new Set()
+};
+
+let attachedInstance: Push2Web | null = null;
+let status: Push2WebStatus = {
+  available: false,
+  subscribed: false,
+  session: false,
+  repository: false,
+  connection: { state: 'disconnected', attempt: 0, healthy: false, error: null }
+};
+
+const emit = <K extends Push2WebEventType>(type: K, detail: Push2WebEventMap[K]): void => {
+  (listeners[type] as Set<Push2WebListener<K>>).forEach(listener => {
+    try {
+      listener(detail);
+    } catch (error) {
+      console.error(`Push2Web ${type} listener failed:`, error);
+    }
+  });
+};
+
+/**
+ * Returns the matching unsubscribe. Adding the same listener twice is a no-op.
+ */
+export const onPush2WebEvent = <K extends Push2WebEventType>(type: K, listener: Push2WebListener<K>): (() => void) => {
+  (listeners[type] as Set<Push2WebListener<K>>).add(listener);
+  return () => offPush2WebEvent(type, listener);
+};
+
+export const offPush2WebEvent = <K extends Push2WebEventType>(type: K, listener: Push2WebListener<K>): void => {
+  (listeners[type] as Set<Push2WebListener<K>>).delete(listener);
+};
+
+export const getPush2WebStatusSnapshot = (): Push2WebStatus => status;
+
+export const updatePush2WebStatus = (update: Partial<Omit<Push2WebStatus, 'subscribed'>>): void => {
+  const connection = update.connection || status.connection;
+  status = { ...status, ...update, connection, subscribed: connection.state === 'subscribed' };
+  emit('statusChanged', status);
+};
+
+export const updatePush2WebConnection = (update: Partial<Push2WebConnection>): void => {
+  updatePush2WebStatus({ connection: { ...status.connection, ...update } });
+};
+
+/**
+ * Forward the SDK events onto the bus - one native listener per event type,
+ * however often this is called for the same instance.
+ */
+export const attachPush2Web = (push2Web: Push2Web): void => {
+  if (attachedInstance === push2Web) return;
+  attachedInstance = push2Web;
+
+  push2Web.events.addEventListener('lensReceived', event => emit('lensReceived', event.detail));
+  push2Web.events.addEventListener('error', event => emit('error', event.detail));
+  push2Web.events.addEventListener('subscriptionChanged', event => emit('subscriptionChanged', event.detail));
+
+  updatePush2WebStatus({ available: true });
+};
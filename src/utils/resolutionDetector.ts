@@ -1,4 +1,9 @@
-// src/utils/resolutionDetector.ts - Landscape orientation detection
+// src/utils/resolutionDetector.ts - Landscape orientation detection + render size policy
+import { detectRenderCapability } from '../config/cameraKit';
+import { RENDER_CONFIG } from './constants';
+
+export type RenderQuality = keyof typeof RENDER_CONFIG.QUALITY_PROFILES;
+export type RenderQualitySetting = RenderQuality | 'auto';
 
 export interface ResolutionCapability {
     camera: { width: number; height: number; fps: number };
@@ -9,6 +14,20 @@ export interface ResolutionCapability {
     needsRotation: boolean;
   }
   
+  export interface RenderSizeDecision {
+    width: number;
+    height: number;
+    quality: RenderQuality; // effective profile after 'auto' resolution
+    requestedQuality: RenderQualitySetting;
+    limitedBy: 'profile' | 'camera';
+    camera: { width: number; height: number; fps: number }; // probed max
+    cameraInput: { width: number; height: number } | null; // what the live track delivers
+    viewport: { width: number; height: number; dpr: number };
+  }
+  
+  // Probing opens extra streams - remember the answer per camera
+  const cameraMaxCache = new Map<string, { width: number; height: number; fps: number }>();
+  
   // Camera resolution presets LANDSCAPE (16:9 ratio)
   const CAMERA_PRESETS = [
     { width: 3840, height: 2160, name: '4K Landscape' },
@@ -27,16 +46,35 @@ export interface ResolutionCapability {
   ];
   
   export const detectMaxCameraResolution = async (
-    facingMode: 'user' | 'environment' = 'user',
+    liveStream: MediaStream | null,
     addLog: (msg: string) => void
   ): Promise<{ width: number; height: number; fps: number }> => {
+    const liveTrack = liveStream?.getVideoTracks()[0];
+    const deviceId = liveTrack?.getSettings().deviceId;
+    
+    const cached = deviceId ? cameraMaxCache.get(deviceId) : undefined;
+    if (cached) return cached;
+    
+    // The live track knows its own limits - no extra getUserMedia needed
+    const capabilities = liveTrack?.getCapabilities?.();
+    if (capabilities?.width?.max && capabilities?.height?.max) {
+      const fromCapabilities = {
+        width: capabilities.width.max,
+        height: capabilities.height.max,
+        fps: Math.min(capabilities.frameRate?.max || 30, 60)
+      };
+      addLog(`✅ Max camera: ${fromCapabilities.width}x${fromCapabilities.height}@${fromCapabilities.fps}fps (track capabilities)`);
+      if (deviceId) cameraMaxCache.set(deviceId, fromCapabilities);
+      return fromCapabilities;
+    }
+    
     addLog('🔍 Detecting maximum camera resolution (landscape)...');
     
     for (const preset of CAMERA_PRESETS) {
       try {
         const stream = await navigator.mediaDevices.getUserMedia({
           video: {
-            facingMode,
+            ...(deviceId ? { deviceId: { exact: deviceId } } : { facingMode: 'user' }),
             width: { ideal: preset.width },
             height: { ideal: preset.height },
             frameRate: { ideal: 30 }
@@ -56,6 +94,7 @@ export interface ResolutionCapability {
         };
         
         addLog(`✅ Max camera: ${actualRes.width}x${actualRes.height}@${actualRes.fps}fps (${preset.name})`);
+        if (deviceId) cameraMaxCache.set(deviceId, actualRes);
         return actualRes;
         
       } catch (error) {
@@ -111,7 +150,7 @@ export interface ResolutionCapability {
   };
   
   export const getOptimalConfiguration = async (
-    facingMode: 'user' | 'environment' = 'user',
+    liveStream: MediaStream | null,
     addLog: (msg: string) => void
   ): Promise<ResolutionCapability> => {
     const needsRotation = detectCameraRotationNeeded();
@@ -120,7 +159,7 @@ export interface ResolutionCapability {
     addLog(`🔄 Viewport: ${isPortraitViewport ? 'Portrait' : 'Landscape'}, Rotation needed: ${needsRotation ? 'YES' : 'NO'}`);
     
     const [maxCamera, maxDisplay] = await Promise.all([
-      detectMaxCameraResolution(facingMode, addLog),
+      detectMaxCameraResolution(liveStream, addLog),
       Promise.resolve(detectMaxDisplayResolution(addLog))
     ]);
     
@@ -132,4 +171,42 @@ export interface ResolutionCapability {
       orientation: isPortraitViewport ? 'portrait' : 'landscape',
       needsRotation
     };
-  };
\ No newline at end of file
+  };
+  
+  /**
+   * The one render size policy: quality profile caps the long edge, the camera's
+   * real max caps it again (upscaling only costs GPU), and the aspect follows the
+   * viewport so the AR canvas fills the screen. Dimensions stay even for H.264.
+   */
+  export const selectRenderSize = (
+    capability: ResolutionCapability,
+    requestedQuality: RenderQualitySetting,
+    cameraInput: { width: number; height: number } | null = null
+  ): RenderSizeDecision => {
+    const quality: RenderQuality = requestedQuality === 'auto'
+      ? (detectRenderCapability().deviceCanHandle4K ? 'max' : 'high')
+      : requestedQuality;
+    
+    const profileLongEdge: number = RENDER_CONFIG.QUALITY_PROFILES[quality].longEdge;
+    const cameraLongEdge = Math.max(capability.camera.width, capability.camera.height);
+    const longEdge = Math.max(RENDER_CONFIG.MIN_LONG_EDGE, Math.min(profileLongEdge, cameraLongEdge));
+    
+    const viewportWidth = window.innerWidth;
+    const viewportHeight = window.innerHeight;
+    const aspect = Math.min(viewportWidth, viewportHeight) / Math.max(viewportWidth, viewportHeight);
+    const shortEdge = Math.round(longEdge * aspect / 2) * 2;
+    const evenLongEdge = Math.round(longEdge / 2) * 2;
+    
+    const isPortrait = capability.orientation === 'portrait';
+    
+    return {
+      width: isPortrait ? shortEdge : evenLongEdge,
+      height: isPortrait ? evenLongEdge : shortEdge,
+      quality,
+      requestedQuality,
+      limitedBy: cameraLongEdge < profileLongEdge ? 'camera' : 'profile',
+      camera: capability.camera,
+      cameraInput,
+      viewport: { width: viewportWidth, height: viewportHeight, dpr: capability.devicePixelRatio }
+    };
+  };
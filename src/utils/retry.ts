@@ -0,0 +1,13 @@
+// src/utils/retry.ts - Exponential backoff for reconnecting connections
+import { RETRY_CONFIG } from './constants';
+
+/**
+ * Delay before retry number `attempt` (0-based): BASE_DELAY, then multiplied
+ * by BACKOFF_FACTOR each time, capped at MAX_DELAY.
+ */
+export const getRetryDelay = (attempt: number): number => {
+  const delay = RETRY_CONFIG.BASE_DELAY * Math.pow(RETRY_CONFIG.BACKOFF_FACTOR, attempt);
+  return Math.min(delay, RETRY_CONFIG.MAX_DELAY);
+};
+
+export const canRetry = (attempt: number): boolean => attempt < RETRY_CONFIG.MAX_RETRIES;
@@ -0,0 +1,31 @@
+// src/utils/serviceWorker.ts - Offline mode registration (public/sw.js)
+import { FEATURE_FLAGS } from './constants';
+
+export const isServiceWorkerSupported = (): boolean => {
+  return typeof navigator !== 'undefined' && 'serviceWorker' in navigator;
+};
+
+/**
+ * Register the offline service worker. Skipped in dev so Vite HMR
+ * requests are never served from cache.
+ */
+export const registerServiceWorker = async (): Promise<ServiceWorkerRegistration | null> => {
+  if (!FEATURE_FLAGS.ENABLE_OFFLINE_MODE || !import.meta.env.PROD) {
+    return null;
+  }
+
+  if (!isServiceWorkerSupported()) {
+    console.warn('⚠️ Service worker not supported - offline mode disabled');
+    return null;
+  }
+
+  try {
+    // The build ID versions the worker's caches - a new deploy replaces the worker and its shell
+    const registration = await navigator.serviceWorker.register(`/sw.js?v=${__BUILD_ID__}`, { scope: '/' });
+    console.log('✅ Offline service worker registered:', registration.scope);
+    return registration;
+  } catch (error) {
+    console.error('❌ Service worker registration failed:', error);
+    return null;
+  }
+};
@@ -0,0 +1,237 @@
+// src/utils/smileDetector.ts - On-device smile scoring from camera frames (no models, no network)
+import { SMILE_CONFIG } from './constants';
+
+export interface FaceBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface SmileSample {
+  faceDetected: boolean;
+  score: number; // 0..1, smoothed and relative to the guest's neutral face
+  faceBox: FaceBox | null; // analysis-canvas pixels
+}
+
+// Shape Detection API (Chrome on Android/ChromeOS) - not in the TS DOM lib yet
+interface DetectedFace {
+  boundingBox: DOMRectReadOnly;
+  landmarks?: Array<{ type: string; locations: Array<{ x: number; y: number }> }>;
+}
+
+interface FaceDetectorLike {
+  detect(image: CanvasImageSource): Promise<DetectedFace[]>;
+}
+
+type FaceDetectorConstructor = new (options?: { fastMode?: boolean; maxDetectedFaces?: number }) => FaceDetectorLike;
+
+const clamp01 = (value: number): number => Math.min(1, Math.max(0, value));
+
+// YCbCr from RGB (BT.601, full range)
+const toYCbCr = (r: number, g: number, b: number): [number, number, number] => [
+  0.299 * r + 0.587 * g + 0.114 * b,
+  128 - 0.168736 * r - 0.331264 * g + 0.5 * b,
+  128 + 0.5 * r - 0.418688 * g - 0.081312 * b
+];
+
+const isSkin = (cb: number, cr: number): boolean => {
+  return cr >= 135 && cr <= 175 && cb >= 80 && cb <= 130;
+};
+
+/**
+ * Contiguous range around the histogram peak where counts stay above
+ * `fraction` of the peak - crude, but robust for one guest at a kiosk.
+ */
+const peakRange = (histogram: number[], fraction: number): [number, number] => {
+  let peak = 0;
+  histogram.forEach((count, index) => {
+    if (count > histogram[peak]) peak = index;
+  });
+
+  const limit = histogram[peak] * fraction;
+  let start = peak;
+  let end = peak;
+  while (start > 0 && histogram[start - 1] >= limit) start--;
+  while (end < histogram.length - 1 && histogram[end + 1] >= limit) end++;
+  return [start, end];
+};
+
+export const isFaceDetectorAvailable = (): boolean => {
+  return typeof (window as any).FaceDetector === 'function';
+};
+
+/**
+ * Scores smiles from two cues inside the mouth region of the face:
+ * visible teeth (bright, low-chroma pixels) and mouth width (dark/lip
+ * pixels spread horizontally). Scores are measured against a per-guest
+ * neutral baseline, so resting faces sit near zero.
+ */
+export class SmileDetector {
+  private canvas: HTMLCanvasElement;
+  private ctx: CanvasRenderingContext2D;
+  private faceDetector: FaceDetectorLike | null = null;
+  private baseline: number | null = null;
+  private smoothed = 0;
+  private lastFaceTime = 0;
+
+  constructor() {
+    this.canvas = document.createElement('canvas');
+    const ctx = this.canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) {
+      throw new Error('2D context not available for smile detection');
+    }
+    this.ctx = ctx;
+
+    if (isFaceDetectorAvailable()) {
+      try {
+        const FaceDetector = (window as any).FaceDetector as FaceDetectorConstructor;
+        this.faceDetector = new FaceDetector({ fastMode: true, maxDetectedFaces: 1 });
+      } catch (error) {
+        this.faceDetector = null;
+      }
+    }
+  }
+
+  get usesFaceDetector(): boolean {
+    return this.faceDetector !== null;
+  }
+
+  reset(): void {
+    this.baseline = null;
+    this.smoothed = 0;
+  }
+
+  async analyze(video: HTMLVideoElement): Promise<SmileSample> {
+    if (!video.videoWidth || !video.videoHeight) {
+      return { faceDetected: false, score: 0, faceBox: null };
+    }
+
+    const width = SMILE_CONFIG.ANALYSIS_WIDTH;
+    const height = Math.round(width * video.videoHeight / video.videoWidth);
+    if (this.canvas.width !== width || this.canvas.height !== height) {
+      this.canvas.width = width;
+      this.canvas.height = height;
+    }
+    this.ctx.drawImage(video, 0, 0, width, height);
+    const pixels = this.ctx.getImageData(0, 0, width, height).data;
+
+    const face = await this.locateFace(pixels, width, height);
+    const now = performance.now();
+
+    if (!face) {
+      if (now - this.lastFaceTime > SMILE_CONFIG.FACE_LOST_RESET) {
+        this.reset();
+      }
+      this.smoothed *= 1 - SMILE_CONFIG.SMOOTHING;
+      return { faceDetected: false, score: this.smoothed, faceBox: null };
+    }
+    this.lastFaceTime = now;
+
+    const raw = this.scoreMouth(pixels, width, face);
+
+    // Baseline drops quickly to the guest's resting face and rises slowly
+    if (this.baseline === null) {
+      this.baseline = raw;
+    } else {
+      this.baseline += (raw - this.baseline) * (raw < this.baseline ? 0.3 : 0.005);
+    }
+
+    const relative = clamp01((raw - this.baseline) / Math.max(0.15, 1 - this.baseline) * 1.6);
+    this.smoothed += (relative - this.smoothed) * SMILE_CONFIG.SMOOTHING;
+
+    return { faceDetected: true, score: this.smoothed, faceBox: face };
+  }
+
+  private async locateFace(pixels: Uint8ClampedArray, width: number, height: number): Promise<FaceBox | null> {
+    if (this.faceDetector) {
+      try {
+        const faces = await this.faceDetector.detect(this.canvas);
+        if (faces.length === 0) return null;
+        const { x, y, width: faceWidth, height: faceHeight } = faces[0].boundingBox;
+        return { x, y, width: faceWidth, height: faceHeight };
+      } catch (error) {
+        this.faceDetector = null; // fall through to the skin-tone locator from now on
+      }
+    }
+
+    const columns = new Array<number>(width).fill(0);
+    const rows = new Array<number>(height).fill(0);
+    let skinCount = 0;
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const i = (y * width + x) * 4;
+        const [, cb, cr] = toYCbCr(pixels[i], pixels[i + 1], pixels[i + 2]);
+        if (isSkin(cb, cr)) {
+          columns[x]++;
+          rows[y]++;
+          skinCount++;
+        }
+      }
+    }
+
+    if (skinCount < width * height * 0.02) return null;
+
+    const [left, right] = peakRange(columns, 0.3);
+    const faceWidth = right - left + 1;
+    if (faceWidth < width * 0.08) return null;
+
+    const [top, bottom] = peakRange(rows, 0.3);
+    // Necks and shoulders extend the skin region downwards - faces are ~1.3x taller than wide
+    const faceHeight = Math.min(bottom - top + 1, Math.round(faceWidth * 1.35));
+    if (faceHeight < faceWidth * 0.6) return null;
+
+    return { x: left, y: top, width: faceWidth, height: faceHeight };
+  }
+
+  private scoreMouth(pixels: Uint8ClampedArray, width: number, face: FaceBox): number {
+    const x0 = Math.max(0, Math.round(face.x + face.width * 0.2));
+    const x1 = Math.min(width - 1, Math.round(face.x + face.width * 0.8));
+    const y0 = Math.max(0, Math.round(face.y + face.height * 0.62));
+    const y1 = Math.min(this.canvas.height - 1, Math.round(face.y + face.height * 0.92));
+    const regionWidth = x1 - x0 + 1;
+    const regionHeight = y1 - y0 + 1;
+    if (regionWidth < 4 || regionHeight < 3) return 0;
+
+    // Luma statistics first so thresholds adapt to lighting
+    let sum = 0;
+    let sumSquares = 0;
+    for (let y = y0; y <= y1; y++) {
+      for (let x = x0; x <= x1; x++) {
+        const i = (y * width + x) * 4;
+        const luma = 0.299 * pixels[i] + 0.587 * pixels[i + 1] + 0.114 * pixels[i + 2];
+        sum += luma;
+        sumSquares += luma * luma;
+      }
+    }
+    const count = regionWidth * regionHeight;
+    const mean = sum / count;
+    const std = Math.sqrt(Math.max(0, sumSquares / count - mean * mean));
+
+    let teeth = 0;
+    const mouthColumns = new Array<number>(regionWidth).fill(0);
+
+    for (let y = y0; y <= y1; y++) {
+      for (let x = x0; x <= x1; x++) {
+        const i = (y * width + x) * 4;
+        const [luma, cb, cr] = toYCbCr(pixels[i], pixels[i + 1], pixels[i + 2]);
+        const isNeutral = Math.abs(cb - 128) < 18 && Math.abs(cr - 128) < 24;
+
+        if (luma > mean + std * 0.6 && isNeutral) teeth++;
+        if (luma < mean - std * 0.7 || cr > 160) mouthColumns[x - x0]++;
+      }
+    }
+
+    const teethScore = clamp01((teeth / count) * 5);
+
+    const columnLimit = regionHeight * 0.15;
+    const active = mouthColumns.map(value => value >= columnLimit);
+    const first = active.indexOf(true);
+    const last = active.lastIndexOf(true);
+    const widthRatio = first === -1 ? 0 : (last - first + 1) / regionWidth;
+    const widthScore = clamp01((widthRatio - 0.35) / 0.5);
+
+    return teethScore * 0.6 + widthScore * 0.4;
+  }
+}
@@ -0,0 +1,340 @@
+// src/utils/webmDemuxer.ts - Minimal EBML/Matroska reader for MediaRecorder WebM output
+
+export interface WebmTrack {
+  number: number;
+  kind: 'video' | 'audio';
+  codecId: string; // V_VP8, V_VP9, V_AV1, A_OPUS...
+  codecPrivate: Uint8Array | null;
+  width: number;
+  height: number;
+  sampleRate: number;
+  channels: number;
+}
+
+export interface WebmFrame {
+  trackNumber: number;
+  timestamp: number; // microseconds
+  isKey: boolean;
+  data: Uint8Array;
+}
+
+export interface WebmFile {
+  tracks: WebmTrack[];
+  frames: WebmFrame[];
+}
+
+const EBML_IDS = {
+  SEGMENT: 0x18538067,
+  INFO: 0x1549a966,
+  TIMECODE_SCALE: 0x2ad7b1,
+  TRACKS: 0x1654ae6b,
+  TRACK_ENTRY: 0xae,
+  TRACK_NUMBER: 0xd7,
+  TRACK_TYPE: 0x83,
+  CODEC_ID: 0x86,
+  CODEC_PRIVATE: 0x63a2,
+  VIDEO: 0xe0,
+  PIXEL_WIDTH: 0xb0,
+  PIXEL_HEIGHT: 0xba,
+  AUDIO: 0xe1,
+  SAMPLING_FREQUENCY: 0xb5,
+  CHANNELS: 0x9f,
+  CLUSTER: 0x1f43b675,
+  TIMECODE: 0xe7,
+  SIMPLE_BLOCK: 0xa3,
+  BLOCK_GROUP: 0xa0,
+  BLOCK: 0xa1,
+  REFERENCE_BLOCK: 0xfb
+} as const;
+
+// Segment children - an unknown-size Cluster ends where the next one of these starts
+const SEGMENT_LEVEL_IDS = new Set<number>([
+  EBML_IDS.CLUSTER, EBML_IDS.INFO, EBML_IDS.TRACKS,
+  0x114d9b74, // SeekHead
+  0x1c53bb6b, // Cues
+  0x1254c367, // Tags
+  0x1043a770, // Chapters
+  0x1941a469 // Attachments
+]);
+
+const UNKNOWN_SIZE = -1;
+
+interface EbmlElement {
+  id: number;
+  dataStart: number;
+  size: number; // UNKNOWN_SIZE for live-streamed elements
+}
+
+class EbmlReader {
+  private view: DataView;
+
+  constructor(private data: Uint8Array) {
+    this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  }
+
+  get length(): number {
+    return this.data.length;
+  }
+
+  /**
+   * Variable-length integer. IDs keep their length marker, sizes drop it.
+   */
+  readVint(offset: number, keepMarker: boolean): { value: number; length: number; allOnes: boolean } {
+    const first = this.data[offset];
+    if (first === undefined || first === 0) {
+      throw new Error(`Invalid EBML vint at ${offset}`);
+    }
+
+    let length = 1;
+    while (!(first & (0x80 >> (length - 1)))) length++;
+
+    let value = keepMarker ? first : first & (0xff >> length);
+    let allOnes = value === (0xff >> length);
+    for (let i = 1; i < length; i++) {
+      const byte = this.data[offset + i];
+      value = value * 256 + byte;
+      allOnes = allOnes && byte === 0xff;
+    }
+
+    return { value, length, allOnes };
+  }
+
+  readElement(offset: number): EbmlElement {
+    const id = this.readVint(offset, true);
+    const size = this.readVint(offset + id.length, false);
+    const dataStart = offset + id.length + size.length;
+    return {
+      id: id.value,
+      dataStart,
+      size: size.allOnes ? UNKNOWN_SIZE : size.value
+    };
+  }
+
+  uint(element: EbmlElement): number {
+    let value = 0;
+    for (let i = 0; i < element.size; i++) {
+      value = value * 256 + this.data[element.dataStart + i];
+    }
+    return value;
+  }
+
+  float(element: EbmlElement): number {
+    return element.size === 4
+      ? this.view.getFloat32(element.dataStart)
+      : this.view.getFloat64(element.dataStart);
+  }
+
+  string(element: EbmlElement): string {
+    return String.fromCharCode(...this.bytes(element)).replace(/\0+$/, '');
+  }
+
+  bytes(element: EbmlElement): Uint8Array {
+    return this.slice(element.dataStart, element.dataStart + element.size);
+  }
+
+  slice(start: number, end: number): Uint8Array {
+    return this.data.subarray(start, end);
+  }
+
+  int16(offset: number): number {
+    return this.view.getInt16(offset);
+  }
+
+  byte(offset: number): number {
+    return this.data[offset];
+  }
+
+  /**
+   * Children of a known-size master element
+   */
+  children(parent: EbmlElement): EbmlElement[] {
+    const elements: EbmlElement[] = [];
+    const end = Math.min(parent.dataStart + parent.size, this.data.length);
+    let offset = parent.dataStart;
+
+    while (offset < end) {
+      const element = this.readElement(offset);
+      if (element.size === UNKNOWN_SIZE) break;
+      elements.push(element);
+      offset = element.dataStart + element.size;
+    }
+
+    return elements;
+  }
+}
+
+const readTracks = (reader: EbmlReader, tracksElement: EbmlElement): WebmTrack[] => {
+  return reader.children(tracksElement)
+    .filter(element => element.id === EBML_IDS.TRACK_ENTRY)
+    .map(entry => {
+      const track: WebmTrack = {
+        number: 0,
+        kind: 'video',
+        codecId: '',
+        codecPrivate: null,
+        width: 0,
+        height: 0,
+        sampleRate: 48000,
+        channels: 1
+      };
+
+      reader.children(entry).forEach(field => {
+        switch (field.id) {
+          case EBML_IDS.TRACK_NUMBER:
+            track.number = reader.uint(field);
+            break;
+          case EBML_IDS.TRACK_TYPE:
+            track.kind = reader.uint(field) === 2 ? 'audio' : 'video';
+            break;
+          case EBML_IDS.CODEC_ID:
+            track.codecId = reader.string(field);
+            break;
+          case EBML_IDS.CODEC_PRIVATE:
+            track.codecPrivate = reader.bytes(field);
+            break;
+          case EBML_IDS.VIDEO:
+            reader.children(field).forEach(video => {
+              if (video.id === EBML_IDS.PIXEL_WIDTH) track.width = reader.uint(video);
+              if (video.id === EBML_IDS.PIXEL_HEIGHT) track.height = reader.uint(video);
+            });
+            break;
+          case EBML_IDS.AUDIO:
+            reader.children(field).forEach(audio => {
+              if (audio.id === EBML_IDS.SAMPLING_FREQUENCY) track.sampleRate = reader.float(audio);
+              if (audio.id === EBML_IDS.CHANNELS) track.channels = reader.uint(audio);
+            });
+            break;
+        }
+      });
+
+      return track;
+    });
+};
+
+/**
+ * Parse a (Simple)Block payload. MediaRecorder never laces, so laced
+ * blocks are rejected rather than silently mis-split.
+ */
+const readBlock = (
+  reader: EbmlReader,
+  block: EbmlElement,
+  clusterTimecode: number,
+  timecodeScaleNs: number,
+  isSimpleBlock: boolean,
+  hasReference: boolean
+): WebmFrame | null => {
+  if (block.dataStart + block.size > reader.length) return null; // truncated tail
+
+  const track = reader.readVint(block.dataStart, false);
+  const headerOffset = block.dataStart + track.length;
+  const relativeTimecode = reader.int16(headerOffset);
+  const flags = reader.byte(headerOffset + 2);
+  if (flags & 0x06) {
+    throw new Error('Laced WebM blocks are not supported');
+  }
+
+  return {
+    trackNumber: track.value,
+    timestamp: Math.round((clusterTimecode + relativeTimecode) * timecodeScaleNs / 1000),
+    isKey: isSimpleBlock ? (flags & 0x80) !== 0 : !hasReference,
+    data: reader.slice(headerOffset + 3, block.dataStart + block.size)
+  };
+};
+
+export const demuxWebm = async (input: Blob): Promise<WebmFile> => {
+  const data = new Uint8Array(await input.arrayBuffer());
+  const reader = new EbmlReader(data);
+  const tracks: WebmTrack[] = [];
+  const frames: WebmFrame[] = [];
+  let timecodeScaleNs = 1000000;
+
+  // EBML header, then the Segment (usually unknown-size from MediaRecorder)
+  const header = reader.readElement(0);
+  const segment = reader.readElement(header.dataStart + header.size);
+  if (segment.id !== EBML_IDS.SEGMENT) throw new Error('No Matroska Segment - not a WebM file');
+
+  const segmentEnd = segment.size === UNKNOWN_SIZE
+    ? data.length
+    : Math.min(segment.dataStart + segment.size, data.length);
+  let offset = segment.dataStart;
+
+  while (offset < segmentEnd) {
+    let element: EbmlElement;
+    try {
+      element = reader.readElement(offset);
+    } catch (error) {
+      break; // garbage/truncation at the tail
+    }
+
+    if (element.id === EBML_IDS.CLUSTER) {
+      offset = readCluster(reader, element, segmentEnd, timecodeScaleNs, frames);
+      continue;
+    }
+
+    if (element.size === UNKNOWN_SIZE) break;
+
+    if (element.id === EBML_IDS.INFO) {
+      reader.children(element)
+        .filter(child => child.id === EBML_IDS.TIMECODE_SCALE)
+        .forEach(child => { timecodeScaleNs = reader.uint(child); });
+    } else if (element.id === EBML_IDS.TRACKS) {
+      tracks.push(...readTracks(reader, element));
+    }
+
+    offset = element.dataStart + element.size;
+  }
+
+  if (tracks.length === 0) throw new Error('WebM has no tracks');
+  return { tracks, frames };
+};
+
+/**
+ * Walk one Cluster, returning the offset where the next segment-level
+ * element starts (unknown-size clusters have no length to jump by).
+ */
+const readCluster = (
+  reader: EbmlReader,
+  cluster: EbmlElement,
+  segmentEnd: number,
+  timecodeScaleNs: number,
+  frames: WebmFrame[]
+): number => {
+  const end = cluster.size === UNKNOWN_SIZE
+    ? segmentEnd
+    : Math.min(cluster.dataStart + cluster.size, segmentEnd);
+  let clusterTimecode = 0;
+  let offset = cluster.dataStart;
+
+  while (offset < end) {
+    let element: EbmlElement;
+    try {
+      element = reader.readElement(offset);
+    } catch (error) {
+      return segmentEnd;
+    }
+
+    if (cluster.size === UNKNOWN_SIZE && SEGMENT_LEVEL_IDS.has(element.id)) {
+      return offset;
+    }
+    if (element.size === UNKNOWN_SIZE) return segmentEnd;
+
+    if (element.id === EBML_IDS.TIMECODE) {
+      clusterTimecode = reader.uint(element);
+    } else if (element.id === EBML_IDS.SIMPLE_BLOCK) {
+      const frame = readBlock(reader, element, clusterTimecode, timecodeScaleNs, true, false);
+      if (frame) frames.push(frame);
+    } else if (element.id === EBML_IDS.BLOCK_GROUP) {
+      const children = reader.children(element);
+      const block = children.find(child => child.id === EBML_IDS.BLOCK);
+      const hasReference = children.some(child => child.id === EBML_IDS.REFERENCE_BLOCK);
+      if (block) {
+        const frame = readBlock(reader, block, clusterTimecode, timecodeScaleNs, false, hasReference);
+        if (frame) frames.push(frame);
+      }
+    }
+
+    offset = element.dataStart + element.size;
+  }
+
+  return end;
+};
@@ -0,0 +1,278 @@
+// src/utils/webmTranscoder.ts - WebM → Instagram-ready MP4 (H.264/AAC) via WebCodecs
+import { demuxWebm } from './webmDemuxer';
+import type { WebmTrack, WebmFrame } from './webmDemuxer';
+import { muxMp4 } from './mp4Muxer';
+import type { MuxTrack, MuxSample, MuxAudioTrack } from './mp4Muxer';
+
+export interface TranscodeResult {
+  blob: Blob;
+  durationMs: number;
+  videoCodec: string;
+  audioCodec: string | null;
+}
+
+// High → Main → Baseline, level 5.1 first so 1440x2560 fits, then smaller levels
+const AVC_CODECS = ['avc1.640033', 'avc1.4d0033', 'avc1.42e033', 'avc1.640028', 'avc1.42e01f'];
+const AAC_CODEC = 'mp4a.40.2';
+const VIDEO_BITRATE = 8000000;
+const AUDIO_BITRATE = 128000;
+const KEYFRAME_INTERVAL_US = 2000000; // Instagram/TikTok prefer ≤2s GOPs
+const MAX_QUEUE_SIZE = 8;
+
+export const isWebmTranscodeSupported = (): boolean => {
+  return typeof VideoDecoder !== 'undefined' &&
+    typeof VideoEncoder !== 'undefined' &&
+    typeof EncodedVideoChunk !== 'undefined';
+};
+
+const webmVideoCodec = (track: WebmTrack): string | null => {
+  switch (track.codecId) {
+    case 'V_VP8': return 'vp8';
+    case 'V_VP9': return 'vp09.00.10.08';
+    case 'V_AV1': return 'av01.0.08M.08';
+    case 'V_MPEG4/ISO/AVC': return 'avc1.640033';
+    default: return null;
+  }
+};
+
+const copyChunk = (chunk: EncodedVideoChunk | EncodedAudioChunk): Uint8Array => {
+  const data = new Uint8Array(chunk.byteLength);
+  chunk.copyTo(data);
+  return data;
+};
+
+const toBytes = (source: AllowSharedBufferSource): Uint8Array => {
+  return source instanceof ArrayBuffer || source instanceof SharedArrayBuffer
+    ? new Uint8Array(source.slice(0))
+    : new Uint8Array(source.buffer.slice(source.byteOffset, source.byteOffset + source.byteLength));
+};
+
+// Backpressure: keep decoder/encoder queues short so memory stays flat
+const waitForQueue = async (isReady: () => boolean): Promise<void> => {
+  while (!isReady()) {
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+};
+
+const pickVideoEncoderConfig = async (width: number, height: number): Promise<VideoEncoderConfig> => {
+  for (const codec of AVC_CODECS) {
+    const config: VideoEncoderConfig = {
+      codec,
+      width,
+      height,
+      bitrate: VIDEO_BITRATE,
+      framerate: 30,
+      avc: { format: 'avc' },
+      latencyMode: 'quality'
+    };
+    const support = await VideoEncoder.isConfigSupported(config).catch(() => null);
+    if (support?.supported) return config;
+  }
+  throw new Error(`No H.264 encoder available for ${width}x${height}`);
+};
+
+const transcodeVideo = async (
+  track: WebmTrack,
+  frames: WebmFrame[],
+  onProgress: (fraction: number) => void
+): Promise<MuxTrack> => {
+  const codec = webmVideoCodec(track);
+  if (!codec) throw new Error(`Unsupported WebM video codec: ${track.codecId}`);
+
+  const decoderConfig: VideoDecoderConfig = {
+    codec,
+    codedWidth: track.width,
+    codedHeight: track.height,
+    ...(track.codecPrivate && codec.startsWith('avc1') ? { description: track.codecPrivate } : {})
+  };
+  const decoderSupport = await VideoDecoder.isConfigSupported(decoderConfig).catch(() => null);
+  if (!decoderSupport?.supported) throw new Error(`Cannot decode ${track.codecId} in this browser`);
+
+  // H.264 requires even dimensions
+  const width = track.width - (track.width % 2);
+  const height = track.height - (track.height % 2);
+  const encoderConfig = await pickVideoEncoderConfig(width, height);
+
+  const samples: MuxSample[] = [];
+  let description: Uint8Array | null = null;
+  let failure: Error | null = null;
+  let lastKeyFrame = -Infinity;
+  let encodedCount = 0;
+
+  const encoder = new VideoEncoder({
+    output: (chunk, metadata) => {
+      if (!description && metadata?.decoderConfig?.description) {
+        description = toBytes(metadata.decoderConfig.description);
+      }
+      samples.push({ data: copyChunk(chunk), timestamp: chunk.timestamp, isSync: chunk.type === 'key' });
+      encodedCount++;
+      onProgress(encodedCount / frames.length);
+    },
+    error: (error) => { failure = error; }
+  });
+  encoder.configure(encoderConfig);
+
+  const decoder = new VideoDecoder({
+    output: (frame) => {
+      const keyFrame = frame.timestamp - lastKeyFrame >= KEYFRAME_INTERVAL_US;
+      if (keyFrame) lastKeyFrame = frame.timestamp;
+      encoder.encode(frame, { keyFrame });
+      frame.close();
+    },
+    error: (error) => { failure = error; }
+  });
+  decoder.configure(decoderConfig);
+
+  try {
+    for (const frame of frames) {
+      if (failure) throw failure;
+      decoder.decode(new EncodedVideoChunk({
+        type: frame.isKey ? 'key' : 'delta',
+        timestamp: frame.timestamp,
+        data: frame.data
+      }));
+      await waitForQueue(() => decoder.decodeQueueSize + encoder.encodeQueueSize < MAX_QUEUE_SIZE);
+    }
+
+    await decoder.flush();
+    await encoder.flush();
+    if (failure) throw failure;
+  } finally {
+    if (decoder.state !== 'closed') decoder.close();
+    if (encoder.state !== 'closed') encoder.close();
+  }
+
+  if (!description) throw new Error('H.264 encoder produced no avcC configuration');
+
+  return {
+    kind: 'video',
+    codec: 'avc1',
+    width,
+    height,
+    description,
+    samples
+  };
+};
+
+/**
+ * Opus → AAC when the browser can encode AAC; otherwise keep the Opus
+ * packets as-is (Opus-in-MP4 plays everywhere modern, even if some
+ * social apps re-encode it).
+ */
+const transcodeAudio = async (track: WebmTrack, frames: WebmFrame[]): Promise<MuxAudioTrack | null> => {
+  const sampleRate = Math.round(track.sampleRate);
+  const numberOfChannels = track.channels;
+
+  const encoderConfig: AudioEncoderConfig = { codec: AAC_CODEC, sampleRate, numberOfChannels, bitrate: AUDIO_BITRATE };
+  const canEncodeAac = typeof AudioEncoder !== 'undefined' &&
+    typeof AudioDecoder !== 'undefined' &&
+    (await AudioEncoder.isConfigSupported(encoderConfig).catch(() => null))?.supported;
+
+  const opusPassthrough = (): MuxAudioTrack | null => track.codecId === 'A_OPUS'
+    ? {
+        kind: 'audio',
+        codec: 'Opus',
+        sampleRate: 48000,
+        channelCount: numberOfChannels,
+        description: track.codecPrivate || new Uint8Array(0),
+        samples: frames.map(frame => ({ data: frame.data, timestamp: frame.timestamp, isSync: true }))
+      }
+    : null;
+
+  if (!canEncodeAac || track.codecId !== 'A_OPUS') {
+    return opusPassthrough();
+  }
+
+  const samples: MuxSample[] = [];
+  let description: Uint8Array | null = null;
+  let failure: Error | null = null;
+
+  const encoder = new AudioEncoder({
+    output: (chunk, metadata) => {
+      if (!description && metadata?.decoderConfig?.description) {
+        description = toBytes(metadata.decoderConfig.description);
+      }
+      samples.push({ data: copyChunk(chunk), timestamp: chunk.timestamp, isSync: true });
+    },
+    error: (error) => { failure = error; }
+  });
+  encoder.configure(encoderConfig);
+
+  const decoder = new AudioDecoder({
+    output: (audioData) => {
+      encoder.encode(audioData);
+      audioData.close();
+    },
+    error: (error) => { failure = error; }
+  });
+  decoder.configure({
+    codec: 'opus',
+    sampleRate,
+    numberOfChannels,
+    ...(track.codecPrivate ? { description: track.codecPrivate } : {})
+  });
+
+  try {
+    for (const frame of frames) {
+      if (failure) throw failure;
+      decoder.decode(new EncodedAudioChunk({ type: 'key', timestamp: frame.timestamp, data: frame.data }));
+      await waitForQueue(() => decoder.decodeQueueSize + encoder.encodeQueueSize < MAX_QUEUE_SIZE * 4);
+    }
+
+    await decoder.flush();
+    await encoder.flush();
+    if (failure) throw failure;
+  } catch (error) {
+    console.warn('AAC transcode failed, keeping Opus:', error);
+    return opusPassthrough();
+  } finally {
+    if (decoder.state !== 'closed') decoder.close();
+    if (encoder.state !== 'closed') encoder.close();
+  }
+
+  if (!description) return opusPassthrough();
+
+  return {
+    kind: 'audio',
+    codec: 'mp4a',
+    sampleRate,
+    channelCount: numberOfChannels,
+    description,
+    samples
+  };
+};
+
+/**
+ * Demux a MediaRecorder WebM, re-encode video to H.264 (and audio to AAC
+ * where possible) and mux a moov-first MP4.
+ */
+export const transcodeWebmToMp4 = async (
+  input: Blob,
+  onProgress: (fraction: number) => void
+): Promise<TranscodeResult> => {
+  if (!isWebmTranscodeSupported()) {
+    throw new Error('WebCodecs not available');
+  }
+
+  const { tracks, frames } = await demuxWebm(input);
+  const videoTrack = tracks.find(track => track.kind === 'video');
+  const audioTrack = tracks.find(track => track.kind === 'audio');
+  if (!videoTrack) throw new Error('WebM has no video track');
+
+  const framesFor = (track: WebmTrack) => frames.filter(frame => frame.trackNumber === track.number);
+
+  // Video dominates the work - audio is reported as the final slice
+  const video = await transcodeVideo(videoTrack, framesFor(videoTrack), fraction => onProgress(fraction * 0.9));
+  const audio = audioTrack ? await transcodeAudio(audioTrack, framesFor(audioTrack)) : null;
+  onProgress(0.95);
+
+  const { blob, durationMs } = muxMp4(audio ? [video, audio] : [video]);
+  onProgress(1);
+
+  return {
+    blob,
+    durationMs,
+    videoCodec: 'h264',
+    audioCodec: audio ? (audio.codec === 'mp4a' ? 'aac' : 'opus') : null
+  };
+};
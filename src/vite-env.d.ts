@@ -1,5 +1,8 @@
 /// <reference types="vite/client" />
 
+// Set per build in vite.config.js
+declare const __BUILD_ID__: string
+
 interface ImportMetaEnv {
   // Camera Kit
   readonly VITE_CAMERA_KIT_API_TOKEN: string
@@ -9,6 +12,10 @@ interface ImportMetaEnv {
   // Snapchat OAuth for Push2Web
   readonly VITE_SNAPCHAT_CLIENT_ID: string
   readonly VITE_SNAPCHAT_REDIRECT_URI: string
+  readonly VITE_AUTH_STRATEGY?: 'loginkit' | 'server'
+  
+  // Kiosk operator mode - compiled into the bundle in plain text, a deterrent only
+  readonly VITE_OPERATOR_PIN?: string
   
   // Debug
   readonly VITE_DEBUG_CAMERA_KIT: string
@@ -1,10 +1,30 @@
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
+// Emits the list of built files for public/sw.js to precache (offline app shell)
+const precacheManifest = () => ({
+  name: 'precache-manifest',
+  apply: 'build',
+  generateBundle(_options, bundle) {
+    const files = Object.keys(bundle).filter(file => !file.endsWith('.map'))
+    this.emitFile({
+      type: 'asset',
+      fileName: 'precache-manifest.json',
+      source: JSON.stringify({ generatedAt: Date.now(), files }, null, 2)
+    })
+  }
+})
+
+// Versions the service worker caches (src/utils/serviceWorker.ts registers /sw.js?v=<id>)
+const buildId = Date.now().toString(36)
+
 // https://vitejs.dev/config/
 export default defineConfig({
   // base: '/web-ar/', // REMOVED FOR VERCEL ROOT DEPLOYMENT
-  plugins: [react()],
+  plugins: [react(), precacheManifest()],
+  define: {
+    __BUILD_ID__: JSON.stringify(buildId)
+  },
   server: {
     host: true, // Allows access from mobile devices on same network
     port: 3000,